@@ -0,0 +1,241 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import type { RegisteredAgentInfo } from "@/services/agent-registry";
+import {
+	CONSENSUS_STRATEGY_LABELS,
+	type ConsensusStrategyName,
+} from "@/services/consensus-service";
+import { Bot, Upload } from "lucide-react";
+import { useRef } from "react";
+
+interface AgentSettingsPanelProps {
+	agents: RegisteredAgentInfo[];
+	onToggle: (agentId: string, enabled: boolean) => void;
+	consensusStrategy: ConsensusStrategyName;
+	onConsensusStrategyChange: (strategy: ConsensusStrategyName) => void;
+	quorumMinVotes: number;
+	onQuorumMinVotesChange: (minVotes: number) => void;
+	/** 0 when debate mode is off */
+	debateRounds: number;
+	onDebateRoundsChange: (rounds: number) => void;
+	/** Facts the knowledge base agent checks against */
+	knowledgeFactCount: number;
+	knowledgeImportError: string | null;
+	onImportKnowledge: (file: File) => void;
+}
+
+const DEBATE_ROUND_OPTIONS = [0, 1, 2, 3];
+
+/**
+ * Verification agent toggles
+ * Lets the user choose which registered agents take part in the session
+ * and how their verdicts are combined
+ */
+export function AgentSettingsPanel({
+	agents,
+	onToggle,
+	consensusStrategy,
+	onConsensusStrategyChange,
+	quorumMinVotes,
+	onQuorumMinVotesChange,
+	debateRounds,
+	onDebateRoundsChange,
+	knowledgeFactCount,
+	knowledgeImportError,
+	onImportKnowledge,
+}: AgentSettingsPanelProps) {
+	const knowledgeFileInput = useRef<HTMLInputElement>(null);
+
+	return (
+		<Card className="mx-auto max-w-md">
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<Bot className="size-5" />
+					Verification Agents
+				</CardTitle>
+				<CardDescription>
+					Choose which agents fact-check this session
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-3">
+				<div className="flex items-center justify-between gap-4 border-b pb-3">
+					<Label htmlFor="consensus-strategy" className="text-sm">
+						Consensus Strategy
+					</Label>
+					<Select
+						value={consensusStrategy}
+						onValueChange={(value) =>
+							onConsensusStrategyChange(value as ConsensusStrategyName)
+						}
+					>
+						<SelectTrigger id="consensus-strategy" className="w-[200px]">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{(
+								Object.keys(
+									CONSENSUS_STRATEGY_LABELS,
+								) as ConsensusStrategyName[]
+							).map((strategy) => (
+								<SelectItem key={strategy} value={strategy}>
+									{CONSENSUS_STRATEGY_LABELS[strategy]}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+				<div className="flex items-center justify-between gap-4 border-b pb-3">
+					<Label htmlFor="quorum-min-votes" className="text-sm">
+						Quorum (agents that must vote)
+					</Label>
+					<Select
+						value={String(quorumMinVotes)}
+						onValueChange={(value) => onQuorumMinVotesChange(Number(value))}
+					>
+						<SelectTrigger id="quorum-min-votes" className="w-[200px]">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{agents.map((_, index) => (
+								<SelectItem
+									key={`quorum-${index + 1}`}
+									value={String(index + 1)}
+								>
+									At least {index + 1}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+				<div className="flex items-center justify-between gap-4 border-b pb-3">
+					<Label htmlFor="debate-rounds" className="text-sm">
+						Debate split decisions
+					</Label>
+					<Select
+						value={String(debateRounds)}
+						onValueChange={(value) => onDebateRoundsChange(Number(value))}
+					>
+						<SelectTrigger id="debate-rounds" className="w-[200px]">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{DEBATE_ROUND_OPTIONS.map((rounds) => (
+								<SelectItem key={`debate-${rounds}`} value={String(rounds)}>
+									{rounds === 0
+										? "Off"
+										: `Up to ${rounds} ${rounds === 1 ? "round" : "rounds"}`}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+				<div className="space-y-1 border-b pb-3">
+					<div className="flex items-center justify-between gap-4">
+						<Label htmlFor="knowledge-import" className="text-sm">
+							Knowledge base ({knowledgeFactCount}{" "}
+							{knowledgeFactCount === 1 ? "fact" : "facts"})
+						</Label>
+						<input
+							ref={knowledgeFileInput}
+							id="knowledge-import"
+							type="file"
+							accept=".json,.csv,application/json,text/csv"
+							className="hidden"
+							onChange={(event) => {
+								const file = event.target.files?.[0];
+								if (file) onImportKnowledge(file);
+								event.target.value = "";
+							}}
+						/>
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() => knowledgeFileInput.current?.click()}
+						>
+							<Upload className="size-4" />
+							Import JSON or CSV
+						</Button>
+					</div>
+					{knowledgeImportError && (
+						<p className="text-xs text-destructive">{knowledgeImportError}</p>
+					)}
+				</div>
+				{agents.map((agent) => (
+					<div key={agent.id} className="flex items-center justify-between">
+						<div className="space-y-0.5">
+							<Label htmlFor={`agent-${agent.id}`} className="text-sm">
+								{agent.name}
+							</Label>
+							<div className="flex flex-wrap gap-1">
+								{agent.capabilities.map((capability) => (
+									<Badge key={capability} variant="outline" className="text-xs">
+										{capability.replace("_", " ")}
+									</Badge>
+								))}
+								{!agent.configured && (
+									<Badge
+										variant="secondary"
+										className="text-xs"
+										title={`Missing: ${agent.missingKeys.join(", ")}`}
+									>
+										Not configured
+									</Badge>
+								)}
+								{agent.circuit.state === "open" ? (
+									<Badge
+										variant="destructive"
+										className="text-xs"
+										title={agent.circuit.lastError}
+									>
+										Paused until{" "}
+										{new Date(
+											agent.circuit.openUntil ?? Date.now(),
+										).toLocaleTimeString()}
+									</Badge>
+								) : agent.circuit.state === "half_open" ? (
+									<Badge variant="outline" className="text-xs">
+										Retrying
+									</Badge>
+								) : (
+									agent.circuit.consecutiveFailures > 0 && (
+										<Badge
+											variant="outline"
+											className="text-xs"
+											title={agent.circuit.lastError}
+										>
+											{agent.circuit.consecutiveFailures} failed
+										</Badge>
+									)
+								)}
+								<span className="text-xs text-muted-foreground">
+									{agent.timeoutMs / 1000}s timeout
+								</span>
+							</div>
+						</div>
+						<Switch
+							id={`agent-${agent.id}`}
+							checked={agent.enabled}
+							onCheckedChange={(checked) => onToggle(agent.id, checked)}
+						/>
+					</div>
+				))}
+			</CardContent>
+		</Card>
+	);
+}
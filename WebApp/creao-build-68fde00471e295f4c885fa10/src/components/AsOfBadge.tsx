@@ -0,0 +1,19 @@
+import { Badge } from "@/components/ui/badge";
+import { formatAsOf } from "@/lib/temporal";
+import { CalendarClock } from "lucide-react";
+
+/**
+ * Marks a verdict on a time-sensitive claim with the day it holds for
+ */
+export function AsOfBadge({ asOf }: { asOf: string }) {
+	return (
+		<Badge
+			variant="outline"
+			className="flex items-center gap-1 text-xs"
+			title="Time-sensitive claim: the verdict may change after this date"
+		>
+			<CalendarClock className="size-3" />
+			As of {formatAsOf(asOf)}
+		</Badge>
+	);
+}
@@ -0,0 +1,40 @@
+import { Badge } from "@/components/ui/badge";
+import {
+	type CitationCheck,
+	type CredibilityTier,
+	TIER_LABELS,
+} from "@/lib/citations";
+
+const TIER_STYLES: Record<CredibilityTier, string> = {
+	trusted: "border-green-500 text-green-700 dark:text-green-300",
+	standard: "border-muted-foreground/40 text-muted-foreground",
+	low: "border-orange-500 text-orange-700 dark:text-orange-300",
+	invalid: "border-red-500 text-red-700 dark:text-red-300",
+};
+
+interface CitationTierBadgeProps {
+	/** The citation's check; nothing is shown for unchecked citations */
+	check?: CitationCheck;
+}
+
+/**
+ * Credibility tier of a cited source, with why it got it on hover
+ */
+export function CitationTierBadge({ check }: CitationTierBadgeProps) {
+	if (!check) return null;
+	const unmentioned = check.mentionsClaim === false;
+	return (
+		<Badge
+			variant="outline"
+			className={`shrink-0 text-[10px] ${TIER_STYLES[check.tier]}`}
+			title={
+				unmentioned
+					? `${check.reason}; the page doesn't mention the claim`
+					: check.reason
+			}
+		>
+			{TIER_LABELS[check.tier]}
+			{unmentioned && " · off-topic"}
+		</Badge>
+	);
+}
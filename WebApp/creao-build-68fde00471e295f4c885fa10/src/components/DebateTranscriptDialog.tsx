@@ -0,0 +1,111 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from "@/components/ui/dialog";
+import type { DebateEnding, DebateTranscript } from "@/lib/debate";
+import { RATING_LABELS } from "@/lib/verdict-scale";
+import type { VerificationAgent } from "@/services/agents/types";
+import { MessagesSquare } from "lucide-react";
+
+interface DebateTranscriptDialogProps {
+	statement?: string;
+	debate: DebateTranscript;
+}
+
+const ENDING_LABELS: Record<DebateEnding, string> = {
+	agreement: "agents agreed",
+	stalemate: "no agent changed its answer",
+	max_rounds: "round limit reached",
+};
+
+const answerLabel = (agent: VerificationAgent) =>
+	agent.status !== "voted"
+		? agent.status
+		: agent.rating
+			? RATING_LABELS[agent.rating]
+			: agent.verdict;
+
+/**
+ * Button opening the round-by-round transcript of a debate between agents
+ * that split on a statement
+ */
+export function DebateTranscriptDialog({
+	statement,
+	debate,
+}: DebateTranscriptDialogProps) {
+	const rebuttals = debate.rounds.length - 1;
+	return (
+		<Dialog>
+			<DialogTrigger asChild>
+				<Button size="sm" variant="ghost" className="h-6 px-1 text-xs">
+					<MessagesSquare className="mr-1 size-3" />
+					Debated for {rebuttals} {rebuttals === 1 ? "round" : "rounds"} (
+					{ENDING_LABELS[debate.ending]})
+				</Button>
+			</DialogTrigger>
+			<DialogContent className="max-w-2xl">
+				<DialogHeader>
+					<DialogTitle>Agent Debate</DialogTitle>
+					<DialogDescription>
+						{statement
+							? `"${statement}"`
+							: "How the agents' answers changed as they saw each other's reasoning"}
+					</DialogDescription>
+				</DialogHeader>
+				<div className="max-h-[60vh] space-y-4 overflow-y-auto pr-3">
+					{debate.rounds.map((round) => (
+						<div key={round.round} className="space-y-2">
+							<div className="flex items-center gap-2">
+								<span className="text-sm font-semibold">
+									{round.round === 0 ? "Opening votes" : `Round ${round.round}`}
+								</span>
+								{round.round > 0 && (
+									<span className="text-xs text-muted-foreground">
+										{round.revised.length > 0
+											? `${round.revised.join(", ")} revised`
+											: "No revisions"}
+									</span>
+								)}
+							</div>
+							{round.agents.map((agent) => (
+								<div
+									key={agent.name}
+									className={`rounded-md border p-2 text-xs ${agent.status !== "voted" ? "opacity-60 border-dashed" : ""}`}
+								>
+									<div className="mb-1 flex items-center justify-between">
+										<span className="font-medium">{agent.name}</span>
+										<Badge
+											variant={
+												agent.status !== "voted"
+													? "outline"
+													: agent.verdict === "false"
+														? "destructive"
+														: agent.verdict === "true"
+															? "outline"
+															: "secondary"
+											}
+											className={`text-xs ${round.revised.includes(agent.name) ? "ring-2 ring-amber-400" : ""}`}
+										>
+											{answerLabel(agent)}
+											{agent.status === "voted" &&
+												` (${Math.round(agent.confidence * 100)}%)`}
+										</Badge>
+									</div>
+									{agent.reasoning && (
+										<p className="text-muted-foreground">{agent.reasoning}</p>
+									)}
+								</div>
+							))}
+						</div>
+					))}
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
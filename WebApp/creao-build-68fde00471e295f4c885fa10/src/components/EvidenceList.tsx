@@ -0,0 +1,71 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Collapsible,
+	CollapsibleContent,
+	CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import type {
+	EvidenceSnippet,
+	VerificationAgent,
+} from "@/services/agents/types";
+import { ChevronDown, ExternalLink, Library } from "lucide-react";
+
+interface EvidenceListProps {
+	evidence: EvidenceSnippet[];
+	/** Agents whose evidence IDs are shown against each snippet */
+	agents: VerificationAgent[];
+}
+
+/**
+ * Expandable list of the evidence shared with the agents, with the agents
+ * that cited each snippet
+ */
+export function EvidenceList({ evidence, agents }: EvidenceListProps) {
+	return (
+		<Collapsible className="mt-2">
+			<CollapsibleTrigger asChild>
+				<Button size="sm" variant="ghost" className="h-6 px-1 text-xs">
+					<Library className="mr-1 size-3" />
+					Evidence ({evidence.length})
+					<ChevronDown className="ml-1 size-3" />
+				</Button>
+			</CollapsibleTrigger>
+			<CollapsibleContent className="mt-1 space-y-1">
+				{evidence.map((snippet) => {
+					const citedBy = agents
+						.filter((agent) => agent.evidenceIds?.includes(snippet.id))
+						.map((agent) => agent.name);
+					return (
+						<div
+							key={snippet.id}
+							className="rounded-md border bg-background p-2 text-xs"
+						>
+							<div className="flex items-start justify-between gap-2">
+								<a
+									href={snippet.url}
+									target="_blank"
+									rel="noopener noreferrer"
+									className="flex items-center gap-1 font-medium hover:underline"
+								>
+									<Badge variant="outline" className="text-xs">
+										{snippet.id}
+									</Badge>
+									{snippet.title || snippet.url}
+									<ExternalLink className="size-3 shrink-0" />
+								</a>
+								<span className="shrink-0 text-muted-foreground">
+									{Math.round(snippet.score * 100)}% relevant
+								</span>
+							</div>
+							<p className="mt-1 text-muted-foreground">{snippet.snippet}</p>
+							{citedBy.length > 0 && (
+								<p className="mt-1">Cited by {citedBy.join(", ")}</p>
+							)}
+						</div>
+					);
+				})}
+			</CollapsibleContent>
+		</Collapsible>
+	);
+}
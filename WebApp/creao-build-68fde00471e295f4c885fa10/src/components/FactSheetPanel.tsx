@@ -0,0 +1,185 @@
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import type { FactSheetEntry, FactSheetTemplate } from "@/lib/fact-sheet";
+import { ClipboardList, Plus, Save, Upload, X } from "lucide-react";
+import { useRef, useState } from "react";
+
+interface FactSheetPanelProps {
+	entries: FactSheetEntry[];
+	templates: FactSheetTemplate[];
+	/** Whether edits apply to a running session or the next one */
+	inSession: boolean;
+	importError: string | null;
+	onAddEntry: (entry: FactSheetEntry) => void;
+	onRemoveEntry: (topic: string) => void;
+	onApplyTemplate: (templateId: string) => void;
+	onSaveTemplate: (name: string) => void;
+	onImportTemplate: (file: File) => void;
+}
+
+/**
+ * Session fact sheet editor
+ * Team-defined ground truths that settle statements ahead of the agents,
+ * with reusable templates imported from Markdown or CSV
+ */
+export function FactSheetPanel({
+	entries,
+	templates,
+	inSession,
+	importError,
+	onAddEntry,
+	onRemoveEntry,
+	onApplyTemplate,
+	onSaveTemplate,
+	onImportTemplate,
+}: FactSheetPanelProps) {
+	const [topic, setTopic] = useState("");
+	const [value, setValue] = useState("");
+	const [templateName, setTemplateName] = useState("");
+	const fileInput = useRef<HTMLInputElement>(null);
+
+	const addEntry = () => {
+		if (!topic.trim() || !value.trim()) return;
+		onAddEntry({ topic: topic.trim(), value: value.trim() });
+		setTopic("");
+		setValue("");
+	};
+
+	return (
+		<Card className="mx-auto max-w-md">
+			<CardHeader>
+				<CardTitle className="flex items-center gap-2">
+					<ClipboardList className="size-5" />
+					Fact Sheet
+				</CardTitle>
+				<CardDescription>
+					Ground truths that override the agents{" "}
+					{inSession ? "in this session" : "in the next session"}
+				</CardDescription>
+			</CardHeader>
+			<CardContent className="space-y-3">
+				{entries.length === 0 ? (
+					<p className="text-sm text-muted-foreground">
+						No facts yet, e.g. "Q3 revenue: $4M"
+					</p>
+				) : (
+					<ul className="space-y-1">
+						{entries.map((entry) => (
+							<li
+								key={entry.topic}
+								className="flex items-center justify-between gap-2 text-sm"
+							>
+								<span>
+									<span className="font-medium">{entry.topic}:</span>{" "}
+									{entry.value}
+								</span>
+								<Button
+									variant="ghost"
+									size="icon"
+									className="size-6"
+									aria-label={`Remove ${entry.topic}`}
+									onClick={() => onRemoveEntry(entry.topic)}
+								>
+									<X className="size-3" />
+								</Button>
+							</li>
+						))}
+					</ul>
+				)}
+
+				<div className="flex gap-2 border-b pb-3">
+					<Input
+						placeholder="Topic"
+						value={topic}
+						onChange={(event) => setTopic(event.target.value)}
+					/>
+					<Input
+						placeholder="Value"
+						value={value}
+						onChange={(event) => setValue(event.target.value)}
+						onKeyDown={(event) => event.key === "Enter" && addEntry()}
+					/>
+					<Button
+						variant="outline"
+						size="icon"
+						aria-label="Add fact"
+						onClick={addEntry}
+					>
+						<Plus className="size-4" />
+					</Button>
+				</div>
+
+				<div className="flex items-center gap-2">
+					<Select value="" onValueChange={onApplyTemplate}>
+						<SelectTrigger className="flex-1" disabled={templates.length === 0}>
+							<SelectValue placeholder="Apply a template" />
+						</SelectTrigger>
+						<SelectContent>
+							{templates.map((template) => (
+								<SelectItem key={template.id} value={template.id}>
+									{template.name} ({template.entries.length})
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<input
+						ref={fileInput}
+						type="file"
+						accept=".md,.markdown,.csv,text/markdown,text/csv"
+						className="hidden"
+						onChange={(event) => {
+							const file = event.target.files?.[0];
+							if (file) onImportTemplate(file);
+							event.target.value = "";
+						}}
+					/>
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={() => fileInput.current?.click()}
+					>
+						<Upload className="size-4" />
+						Import
+					</Button>
+				</div>
+				{importError && (
+					<p className="text-xs text-destructive">{importError}</p>
+				)}
+
+				<div className="flex gap-2">
+					<Input
+						placeholder="Template name"
+						value={templateName}
+						onChange={(event) => setTemplateName(event.target.value)}
+					/>
+					<Button
+						variant="outline"
+						size="sm"
+						disabled={entries.length === 0}
+						onClick={() => {
+							onSaveTemplate(templateName);
+							setTemplateName("");
+						}}
+					>
+						<Save className="size-4" />
+						Save as template
+					</Button>
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,158 @@
+import type { MisinformationGroupModel } from "@/components/data/orm/orm_misinformation_group";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+	Collapsible,
+	CollapsibleContent,
+	CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import type { ClusterMember } from "@/services/claim-clustering";
+import { ChevronDown, Merge, Repeat, Split } from "lucide-react";
+import { useState } from "react";
+
+export interface MisinformationGroupView {
+	group: MisinformationGroupModel;
+	members: ClusterMember[];
+}
+
+interface MisinformationGroupsPanelProps {
+	groups: MisinformationGroupView[];
+	/** Speakers in the current session, highlighted in each group */
+	sessionSpeakers?: Set<string>;
+	onMerge?: (targetId: string, sourceIds: string[]) => void;
+	onSplit?: (groupId: string, memberIds: string[]) => void;
+}
+
+/**
+ * Misinformation groups across sessions
+ * Operators can merge groups that are the same claim, or split a claim
+ * out of a group it was clustered into by mistake
+ */
+export function MisinformationGroupsPanel({
+	groups,
+	sessionSpeakers = new Set(),
+	onMerge,
+	onSplit,
+}: MisinformationGroupsPanelProps) {
+	const [selected, setSelected] = useState<string[]>([]);
+	const selectedGroups = groups.filter(({ group }) =>
+		selected.includes(group.id),
+	);
+
+	const toggleSelected = (groupId: string, checked: boolean) => {
+		setSelected((prev) =>
+			checked ? [...prev, groupId] : prev.filter((id) => id !== groupId),
+		);
+	};
+
+	const mergeSelected = () => {
+		if (!onMerge || selectedGroups.length < 2) return;
+		// The largest group keeps its wording
+		const [target, ...sources] = [...selectedGroups].sort(
+			(a, b) => b.group.user_ids.length - a.group.user_ids.length,
+		);
+		onMerge(
+			target.group.id,
+			sources.map(({ group }) => group.id),
+		);
+		setSelected([]);
+	};
+
+	if (groups.length === 0) return null;
+
+	return (
+		<div className="space-y-2">
+			<div className="flex items-center justify-between">
+				<div className="flex items-center gap-2 text-sm font-semibold">
+					<Repeat className="size-4" />
+					Misinformation Groups
+				</div>
+				{onMerge && selectedGroups.length >= 2 && (
+					<Button size="sm" variant="outline" onClick={mergeSelected}>
+						<Merge className="mr-1 size-3" />
+						Merge {selectedGroups.length} groups
+					</Button>
+				)}
+			</div>
+			{groups.map(({ group, members }) => (
+				<Collapsible
+					key={group.id}
+					className="rounded-lg border border-destructive/30 bg-destructive/5 p-3"
+				>
+					<div className="mb-2 flex items-start justify-between gap-2">
+						<div className="flex items-start gap-2">
+							{onMerge && (
+								<Checkbox
+									className="mt-0.5"
+									checked={selected.includes(group.id)}
+									onCheckedChange={(checked) =>
+										toggleSelected(group.id, checked === true)
+									}
+									aria-label="Select group to merge"
+								/>
+							)}
+							<p className="text-sm line-clamp-2">
+								{group.false_statement_text}
+							</p>
+						</div>
+						<Badge variant="destructive" className="shrink-0">
+							{group.user_ids.length}{" "}
+							{group.user_ids.length === 1 ? "speaker" : "speakers"}
+						</Badge>
+					</div>
+					<div className="flex flex-wrap items-center gap-1">
+						{group.user_ids.map((speakerId) => (
+							<Badge
+								key={speakerId}
+								variant={sessionSpeakers.has(speakerId) ? "default" : "outline"}
+								className="text-xs"
+								title={
+									sessionSpeakers.has(speakerId)
+										? "Speaker in this session"
+										: "Speaker from an earlier session"
+								}
+							>
+								Speaker {speakerId}
+							</Badge>
+						))}
+						<CollapsibleTrigger asChild>
+							<Button size="sm" variant="ghost" className="ml-auto h-6 text-xs">
+								{members.length} {members.length === 1 ? "claim" : "claims"}
+								<ChevronDown className="ml-1 size-3" />
+							</Button>
+						</CollapsibleTrigger>
+					</div>
+					<CollapsibleContent className="mt-2 space-y-1">
+						{members.map((member) => (
+							<div
+								key={member.id}
+								className="flex items-center justify-between gap-2 rounded border bg-background p-2 text-xs"
+							>
+								<div>
+									<p>{member.statement}</p>
+									<p className="text-muted-foreground">
+										Speaker {member.speakerId} ·{" "}
+										{new Date(member.addedAt).toLocaleString()}
+									</p>
+								</div>
+								{onSplit && members.length > 1 && (
+									<Button
+										size="sm"
+										variant="ghost"
+										className="h-6 shrink-0 text-xs"
+										title="Move this claim into a group of its own"
+										onClick={() => onSplit(group.id, [member.id])}
+									>
+										<Split className="mr-1 size-3" />
+										Split off
+									</Button>
+								)}
+							</div>
+						))}
+					</CollapsibleContent>
+				</Collapsible>
+			))}
+		</div>
+	);
+}
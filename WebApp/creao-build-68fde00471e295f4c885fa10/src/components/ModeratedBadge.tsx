@@ -0,0 +1,28 @@
+import { Badge } from "@/components/ui/badge";
+import type { ModeratorReview } from "@/services/review-service";
+import { UserCheck } from "lucide-react";
+
+const ACTION_LABELS: Record<ModeratorReview["action"], string> = {
+	confirm: "Confirmed",
+	overturn: "Overturned",
+	needs_context: "Needs context",
+};
+
+/**
+ * Marks a verdict a moderator has reviewed; the note is in the tooltip
+ */
+export function ModeratedBadge({
+	moderation,
+}: { moderation: ModeratorReview }) {
+	return (
+		<Badge
+			variant="outline"
+			className="flex items-center gap-1 border-blue-500 text-xs text-blue-700 dark:text-blue-300"
+			title={`${ACTION_LABELS[moderation.action]} by moderator on ${new Date(moderation.reviewedAt).toLocaleString()}${moderation.note ? `: ${moderation.note}` : ""}`}
+		>
+			<UserCheck className="size-3" />
+			Edited by moderator
+			{moderation.action === "needs_context" && " · needs context"}
+		</Badge>
+	);
+}
@@ -0,0 +1,20 @@
+import { Badge } from "@/components/ui/badge";
+import type { Quarantine } from "@/services/verification-service";
+import { ShieldAlert } from "lucide-react";
+
+/**
+ * Marks a verdict held back as a possible prompt-injection attempt; the
+ * matched text is in the tooltip
+ */
+export function QuarantinedBadge({ quarantine }: { quarantine: Quarantine }) {
+	return (
+		<Badge
+			variant="outline"
+			className="flex items-center gap-1 border-amber-500 text-xs text-amber-700 dark:text-amber-300"
+			title={`Possible prompt injection: "${quarantine.excerpts.join('", "')}". Held for moderator review.`}
+		>
+			<ShieldAlert className="size-3" />
+			Quarantined
+		</Badge>
+	);
+}
@@ -1,8 +1,13 @@
+import {
+	type MisinformationGroupView,
+	MisinformationGroupsPanel,
+} from "@/components/MisinformationGroupsPanel";
 import {
 	type SpeakerQueueModel,
 	SpeakerQueueProcessingStatus,
 } from "@/components/data/orm/orm_speaker_queue";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import {
 	Card,
 	CardContent,
@@ -11,11 +16,16 @@ import {
 	CardTitle,
 } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { AlertTriangle, Clock, Users } from "lucide-react";
+import { AlertTriangle, Clock, Users, X } from "lucide-react";
 
 interface SpeakerQueuePanelProps {
 	queue: SpeakerQueueModel[];
 	currentlyProcessing?: SpeakerQueueModel;
+	onRemove?: (item: SpeakerQueueModel) => void;
+	/** Speakers grouped by the false claims they made, across sessions */
+	misinformationGroups?: MisinformationGroupView[];
+	onMergeGroups?: (targetId: string, sourceIds: string[]) => void;
+	onSplitGroup?: (groupId: string, memberIds: string[]) => void;
 }
 
 /**
@@ -26,6 +36,10 @@ interface SpeakerQueuePanelProps {
 export function SpeakerQueuePanel({
 	queue,
 	currentlyProcessing,
+	onRemove,
+	misinformationGroups = [],
+	onMergeGroups,
+	onSplitGroup,
 }: SpeakerQueuePanelProps) {
 	const getStatusBadge = (status: SpeakerQueueProcessingStatus) => {
 		switch (status) {
@@ -51,6 +65,8 @@ export function SpeakerQueuePanel({
 			item.processing_status === SpeakerQueueProcessingStatus.Processing,
 	).length;
 
+	const sessionSpeakers = new Set(queue.map((item) => item.speaker_id));
+
 	return (
 		<Card className="w-full">
 			<CardHeader>
@@ -113,7 +129,20 @@ export function SpeakerQueuePanel({
 										<span className="text-sm font-medium">
 											Speaker {item.speaker_id}
 										</span>
-										{getStatusBadge(item.processing_status)}
+										<div className="flex items-center gap-1">
+											{getStatusBadge(item.processing_status)}
+											{onRemove && (
+												<Button
+													size="sm"
+													variant="ghost"
+													className="size-6 p-0"
+													title="Remove statement and cancel its check"
+													onClick={() => onRemove(item)}
+												>
+													<X className="size-3" />
+												</Button>
+											)}
+										</div>
 									</div>
 									<p className="text-sm text-muted-foreground line-clamp-2">
 										{item.statement_text}
@@ -127,6 +156,15 @@ export function SpeakerQueuePanel({
 						</div>
 					)}
 				</ScrollArea>
+
+				<div className="mt-4">
+					<MisinformationGroupsPanel
+						groups={misinformationGroups}
+						sessionSpeakers={sessionSpeakers}
+						onMerge={onMergeGroups}
+						onSplit={onSplitGroup}
+					/>
+				</div>
 			</CardContent>
 		</Card>
 	);
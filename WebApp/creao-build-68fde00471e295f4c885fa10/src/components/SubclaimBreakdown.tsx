@@ -0,0 +1,98 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Collapsible,
+	CollapsibleContent,
+	CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { RATING_LABELS } from "@/lib/verdict-scale";
+import type {
+	CompoundVerdict,
+	SubclaimResult,
+} from "@/services/claim-decomposition";
+import type { VerificationResult } from "@/services/verification-service";
+import { ChevronDown, Loader2, Split } from "lucide-react";
+
+interface SubclaimBreakdownProps {
+	/** Subclaims in statement order */
+	claims: string[];
+	/** Verified subclaims so far */
+	results: SubclaimResult[];
+	/** Set once every subclaim is verified */
+	compound?: CompoundVerdict;
+	defaultOpen?: boolean;
+}
+
+const VERDICT_BADGES: Record<
+	VerificationResult["consensus"],
+	{
+		label: string;
+		variant: "default" | "destructive" | "secondary" | "outline";
+	}
+> = {
+	verified_true: { label: "True", variant: "outline" },
+	verified_false: { label: "False", variant: "destructive" },
+	inconclusive: { label: "Inconclusive", variant: "secondary" },
+	insufficient_quorum: { label: "No Quorum", variant: "outline" },
+};
+
+/**
+ * Expandable list of the atomic claims a compound statement was split into,
+ * each with its own verdict
+ */
+export function SubclaimBreakdown({
+	claims,
+	results,
+	compound,
+	defaultOpen = false,
+}: SubclaimBreakdownProps) {
+	return (
+		<Collapsible defaultOpen={defaultOpen} className="mt-2">
+			<CollapsibleTrigger asChild>
+				<Button size="sm" variant="ghost" className="h-6 px-1 text-xs">
+					<Split className="mr-1 size-3" />
+					{compound
+						? compound.summary
+						: `Checking ${claims.length} claims (${results.length} done)`}
+					<ChevronDown className="ml-1 size-3" />
+				</Button>
+			</CollapsibleTrigger>
+			<CollapsibleContent className="mt-1 space-y-1">
+				{claims.map((claim) => {
+					const result = results.find((r) => r.claim === claim)?.result;
+					const badge = result && VERDICT_BADGES[result.consensus];
+					return (
+						<div
+							key={claim}
+							className="rounded-md border bg-background p-2 text-xs"
+						>
+							<div className="flex items-start justify-between gap-2">
+								<span>{claim}</span>
+								{badge ? (
+									<Badge variant={badge.variant} className="shrink-0 text-xs">
+										{result?.rating
+											? RATING_LABELS[result.rating]
+											: badge.label}{" "}
+										(
+										{Math.round(
+											(result?.lavaGatewayConsensus.consensusScore ?? 0) * 100,
+										)}
+										%)
+									</Badge>
+								) : (
+									<Loader2 className="size-3 shrink-0 animate-spin text-muted-foreground" />
+								)}
+							</div>
+							{result?.consensus === "verified_false" &&
+								result.correctInformation && (
+									<p className="mt-1 text-red-800 dark:text-red-300">
+										{result.correctInformation}
+									</p>
+								)}
+						</div>
+					);
+				})}
+			</CollapsibleContent>
+		</Collapsible>
+	);
+}
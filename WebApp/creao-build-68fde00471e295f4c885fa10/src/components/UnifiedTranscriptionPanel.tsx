@@ -1,3 +1,11 @@
+import { AsOfBadge } from "@/components/AsOfBadge";
+import { CitationTierBadge } from "@/components/CitationTierBadge";
+import { DebateTranscriptDialog } from "@/components/DebateTranscriptDialog";
+import { EvidenceList } from "@/components/EvidenceList";
+import { ModeratedBadge } from "@/components/ModeratedBadge";
+import { QuarantinedBadge } from "@/components/QuarantinedBadge";
+import { SubclaimBreakdown } from "@/components/SubclaimBreakdown";
+import { VerdictBadge, VerdictIcon } from "@/components/VerdictBadge";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -8,20 +16,30 @@ import {
 	CardTitle,
 } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import type { VerificationResult } from "@/services/verification-service";
+import { RATING_LABELS } from "@/lib/verdict-scale";
+import type { VerificationAgent } from "@/services/agents/types";
+import type {
+	VerificationProgress,
+	VerificationResult,
+} from "@/services/verification-service";
 import type { TranscriptionResult } from "@/services/voice-service";
 import {
-	AlertCircle,
-	CheckCircle2,
 	ExternalLink,
+	History,
+	Loader2,
+	MinusCircle,
+	ThumbsDown,
+	ThumbsUp,
 	Volume2,
 	XCircle,
 } from "lucide-react";
+import { useState } from "react";
 
 interface UnifiedTranscriptionPanelProps {
 	transcriptions: TranscriptionResult[];
-	verificationResults: VerificationResult[];
+	verifications: VerificationProgress[];
 	onSpeak?: (text: string) => void;
+	onFeedback?: (result: VerificationResult, confirmed: boolean) => void;
 }
 
 /**
@@ -30,9 +48,19 @@ interface UnifiedTranscriptionPanelProps {
  */
 export function UnifiedTranscriptionPanel({
 	transcriptions,
-	verificationResults,
+	verifications,
 	onSpeak,
+	onFeedback,
 }: UnifiedTranscriptionPanelProps) {
+	const [feedbackGiven, setFeedbackGiven] = useState<Record<string, boolean>>(
+		{},
+	);
+
+	const handleFeedback = (result: VerificationResult, confirmed: boolean) => {
+		setFeedbackGiven((prev) => ({ ...prev, [result.statementId]: confirmed }));
+		onFeedback?.(result, confirmed);
+	};
+
 	const getStatementTypeBadgeVariant = (type: string) => {
 		switch (type) {
 			case "declarative":
@@ -48,52 +76,42 @@ export function UnifiedTranscriptionPanel({
 
 	const getVerificationForTranscription = (
 		index: number,
-	): VerificationResult | undefined => {
+	): VerificationProgress | undefined => {
 		// Match verification results by index (verification order matches transcription order for declarative statements)
 		// Count how many declarative statements came before this one
 		const declarativeCount = transcriptions
 			.slice(0, index + 1)
 			.filter((t) => t.statementType === "declarative").length;
-		return verificationResults[declarativeCount - 1];
+		return verifications[declarativeCount - 1];
 	};
 
-	const getConsensusIcon = (consensus: string) => {
-		switch (consensus) {
-			case "verified_true":
-				return <CheckCircle2 className="size-4 text-green-500" />;
-			case "verified_false":
-				return <XCircle className="size-4 text-red-500" />;
-			case "inconclusive":
-				return <AlertCircle className="size-4 text-yellow-500" />;
-			default:
-				return <AlertCircle className="size-4 text-gray-500" />;
+	const describeAgent = (agent: VerificationAgent) => {
+		const metadata = agent.requestMetadata;
+		if (!metadata || (!metadata.retries && !metadata.throttleDelayMs)) {
+			return agent.reasoning;
 		}
+		return `${agent.reasoning ?? ""}\n${metadata.retries} retries, ${(metadata.throttleDelayMs / 1000).toFixed(1)}s throttled`;
 	};
 
-	const getConsensusBadge = (consensus: string) => {
-		switch (consensus) {
-			case "verified_true":
-				return <Badge className="bg-green-500 text-xs">Verified True</Badge>;
-			case "verified_false":
-				return (
-					<Badge variant="destructive" className="text-xs">
-						Verified False
-					</Badge>
-				);
-			case "inconclusive":
-				return (
-					<Badge variant="secondary" className="text-xs">
-						Inconclusive
-					</Badge>
-				);
-			default:
-				return (
-					<Badge variant="outline" className="text-xs">
-						Unknown
-					</Badge>
-				);
-		}
-	};
+	const renderAgentVerdict = (agent: VerificationAgent) =>
+		agent.status === "voted" ? (
+			<Badge
+				variant={
+					agent.verdict === "true"
+						? "outline"
+						: agent.verdict === "false"
+							? "destructive"
+							: "secondary"
+				}
+				className="text-xs mt-1"
+			>
+				{agent.rating ? RATING_LABELS[agent.rating] : agent.verdict}
+			</Badge>
+		) : (
+			<Badge variant="outline" className="text-xs mt-1">
+				{agent.status}
+			</Badge>
+		);
 
 	return (
 		<Card className="w-full">
@@ -124,7 +142,8 @@ export function UnifiedTranscriptionPanel({
 					) : (
 						<div className="space-y-4">
 							{transcriptions.map((transcription, index) => {
-								const verification = getVerificationForTranscription(index);
+								const progress = getVerificationForTranscription(index);
+								const verification = progress?.result;
 
 								return (
 									<div
@@ -145,11 +164,62 @@ export function UnifiedTranscriptionPanel({
 													>
 														{transcription.statementType}
 													</Badge>
-													{verification && (
+													{verification ? (
 														<div className="flex items-center gap-1">
-															{getConsensusIcon(verification.consensus)}
-															{getConsensusBadge(verification.consensus)}
+															<VerdictIcon
+																consensus={verification.consensus}
+																rating={verification.rating}
+															/>
+															<VerdictBadge
+																consensus={verification.consensus}
+																rating={verification.rating}
+															/>
+															{verification.asOf && (
+																<AsOfBadge asOf={verification.asOf} />
+															)}
+															{verification.cached && (
+																<Badge
+																	variant="outline"
+																	className="flex items-center gap-1 text-xs"
+																	title={`Matched "${verification.cached.matchedStatement}" (${Math.round(verification.cached.similarity * 100)}% similar), re-check after ${new Date(verification.cached.expiresAt).toLocaleString()}`}
+																>
+																	<History className="size-3" />
+																	Verified{" "}
+																	{new Date(
+																		verification.cached.verifiedAt,
+																	).toLocaleString()}
+																</Badge>
+															)}
+															{verification.quarantine && (
+																<QuarantinedBadge
+																	quarantine={verification.quarantine}
+																/>
+															)}
+															{verification.moderation && (
+																<ModeratedBadge
+																	moderation={verification.moderation}
+																/>
+															)}
 														</div>
+													) : (
+														progress && (
+															<Badge
+																variant="outline"
+																className="flex items-center gap-1 text-xs"
+															>
+																{progress.cancelled ? (
+																	<>
+																		<MinusCircle className="size-3" />
+																		Cancelled
+																	</>
+																) : (
+																	<>
+																		<Loader2 className="size-3 animate-spin" />
+																		Checking
+																	</>
+																)}
+															</Badge>
+														)
 													)}
 												</div>
 												<span className="text-xs text-muted-foreground">
@@ -161,8 +231,83 @@ export function UnifiedTranscriptionPanel({
 
 											{/* Transcription Text */}
 											<p className="text-sm mb-2">{transcription.text}</p>
+											{transcription.standaloneText && (
+												<p
+													className="text-xs text-muted-foreground mb-2"
+													title="Rewritten from earlier statements so it can be checked on its own"
+												>
+													Checked as: "{transcription.standaloneText}"
+												</p>
+											)}
 										</div>
 
+										{/* Live agent results while verification is still running */}
+										{transcription.statementType === "declarative" &&
+											progress &&
+											!verification && (
+												<div className="border-t p-3 bg-muted/30">
+													{progress.expectedSubclaims && (
+														<SubclaimBreakdown
+															claims={progress.expectedSubclaims}
+															results={progress.subclaims ?? []}
+															defaultOpen
+														/>
+													)}
+													{progress.expectedAgents.length > 0 && (
+														<span className="text-xs font-medium mb-2 block">
+															Agent Verdicts ({progress.agents.length} of{" "}
+															{progress.expectedAgents.length} answered):
+														</span>
+													)}
+													{progress.debateRounds && (
+														<span className="text-xs text-muted-foreground mb-2 block">
+															Agents split; debate round{" "}
+															{progress.debateRounds.length}:{" "}
+															{progress.debateRounds
+																.at(-1)
+																?.revised.join(", ") || "no revisions"}
+														</span>
+													)}
+													<div className="grid grid-cols-3 gap-1.5">
+														{progress.expectedAgents.map((name) => {
+															const agent = progress.agents.find(
+																(a) => a.name === name,
+															);
+															return (
+																<div
+																	key={name}
+																	title={agent && describeAgent(agent)}
+																	className={`rounded-md border bg-background p-1.5 text-center ${!agent || agent.status !== "voted" ? "opacity-60 border-dashed" : ""}`}
+																>
+																	<div className="text-xs font-medium truncate">
+																		{name}
+																	</div>
+																	{agent ? (
+																		renderAgentVerdict(agent)
+																	) : progress.cancelled ? (
+																		<Badge
+																			variant="outline"
+																			className="text-xs mt-1"
+																		>
+																			cancelled
+																		</Badge>
+																	) : (
+																		<Loader2 className="mx-auto mt-1 size-4 animate-spin text-muted-foreground" />
+																	)}
+																</div>
+															);
+														})}
+													</div>
+													{progress.provisionalConsensus && (
+														<p className="mt-2 text-xs text-muted-foreground">
+															Provisional:{" "}
+															{progress.provisionalConsensus.verdict.toUpperCase()}{" "}
+															— {progress.provisionalConsensus.explanation}
+														</p>
+													)}
+												</div>
+											)}
+
 										{/* Verification Status Identifier (for declarative statements) */}
 										{transcription.statementType === "declarative" &&
 											verification && (
@@ -172,31 +317,76 @@ export function UnifiedTranscriptionPanel({
 															<span className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">
 																Fact-Check:
 															</span>
-															{verification.consensus === "verified_true" ? (
-																<Badge className="bg-green-600 hover:bg-green-700 flex items-center gap-1.5 text-sm font-bold px-3 py-1">
-																	<CheckCircle2 className="size-4" />
-																	TRUE
-																</Badge>
-															) : verification.consensus ===
-																"verified_false" ? (
-																<Badge
-																	variant="destructive"
-																	className="bg-red-600 hover:bg-red-700 flex items-center gap-1.5 text-sm font-bold px-3 py-1"
-																>
-																	<XCircle className="size-4" />
-																	FALSE
-																</Badge>
-															) : (
-																<Badge
-																	variant="secondary"
-																	className="flex items-center gap-1.5 text-sm font-bold px-3 py-1"
-																>
-																	<AlertCircle className="size-4" />
-																	INCONCLUSIVE
-																</Badge>
-															)}
+															<VerdictBadge
+																consensus={verification.consensus}
+																rating={verification.rating}
+																prominent
+															/>
 														</div>
+														{onFeedback &&
+															(verification.consensus === "verified_true" ||
+																verification.consensus ===
+																	"verified_false") && (
+																<div className="flex items-center gap-1">
+																	<Button
+																		size="sm"
+																		variant={
+																			feedbackGiven[
+																				verification.statementId
+																			] === true
+																				? "secondary"
+																				: "ghost"
+																		}
+																		title="Confirm verdict"
+																		onClick={() =>
+																			handleFeedback(verification, true)
+																		}
+																	>
+																		<ThumbsUp className="size-4" />
+																	</Button>
+																	<Button
+																		size="sm"
+																		variant={
+																			feedbackGiven[
+																				verification.statementId
+																			] === false
+																				? "secondary"
+																				: "ghost"
+																		}
+																		title="Overturn verdict"
+																		onClick={() =>
+																			handleFeedback(verification, false)
+																		}
+																	>
+																		<ThumbsDown className="size-4" />
+																	</Button>
+																</div>
+															)}
 													</div>
+													<p className="mt-2 text-xs text-muted-foreground">
+														{verification.lavaGatewayConsensus.explanation}
+													</p>
+													{verification.debate && (
+														<DebateTranscriptDialog
+															statement={transcription.text}
+															debate={verification.debate}
+														/>
+													)}
+													{verification.evidence && (
+														<EvidenceList
+															evidence={verification.evidence}
+															agents={verification.agents}
+														/>
+													)}
+													{verification.subclaims && (
+														<SubclaimBreakdown
+															claims={verification.subclaims.map(
+																(s) => s.claim,
+															)}
+															results={verification.subclaims}
+															compound={verification.compound}
+														/>
+													)}
 												</div>
 											)}
 
@@ -236,7 +426,11 @@ export function UnifiedTranscriptionPanel({
 																	verification.citations.length > 0 && (
 																		<div className="pt-3 border-t border-red-200 dark:border-red-800">
 																			<span className="text-xs font-semibold text-red-700 dark:text-red-400 mb-2 block uppercase tracking-wide">
-																				Sources & Citations:
+																				Sources & Citations
+																				{verification.citationQuality !==
+																					undefined &&
+																					` (${Math.round(verification.citationQuality * 100)}% quality)`}
+																				:
 																			</span>
 																			<ul className="space-y-2">
 																				{verification.citations.map(
@@ -246,14 +440,26 @@ export function UnifiedTranscriptionPanel({
 																							className="flex items-start gap-2 text-xs text-red-800 dark:text-red-300 p-2 rounded bg-red-100 dark:bg-red-900/30"
 																						>
 																							<ExternalLink className="size-3 mt-0.5 flex-shrink-0" />
-																							<a
-																								href={citation}
-																								target="_blank"
-																								rel="noopener noreferrer"
-																								className="break-all hover:underline"
-																							>
-																								{citation}
-																							</a>
+																							{/^https?:\/\//.test(citation) ? (
+																								<a
+																									href={citation}
+																									target="_blank"
+																									rel="noopener noreferrer"
+																									className="break-all hover:underline"
+																								>
+																									{citation}
+																								</a>
+																							) : (
+																								<span className="break-all">
+																									{citation}
+																								</span>
+																							)}
+																							<CitationTierBadge
+																								check={verification.citationChecks?.find(
+																									(check) =>
+																										check.citation === citation,
+																								)}
+																							/>
 																						</li>
 																					),
 																				)}
@@ -266,29 +472,37 @@ export function UnifiedTranscriptionPanel({
 													{/* Agent Verdicts - Compact View */}
 													<div className="p-3 bg-muted/30">
 														<span className="text-xs font-medium mb-2 block">
-															Agent Verdicts:
+															Agent Verdicts (
+															{
+																verification.agents.filter(
+																	(agent) => agent.status === "voted",
+																).length
+															}{" "}
+															of {verification.agents.length} took part):
 														</span>
+														{(verification.requestMetadata.retries > 0 ||
+															verification.requestMetadata.throttleDelayMs >
+																0) && (
+															<span className="text-xs text-muted-foreground mb-2 block">
+																{verification.requestMetadata.retries} retries,{" "}
+																{(
+																	verification.requestMetadata.throttleDelayMs /
+																	1000
+																).toFixed(1)}
+																s throttled
+															</span>
+														)}
 														<div className="grid grid-cols-3 gap-1.5">
 															{verification.agents.map((agent) => (
 																<div
 																	key={agent.name}
-																	className="rounded-md border bg-background p-1.5 text-center"
+																	title={describeAgent(agent)}
+																	className={`rounded-md border bg-background p-1.5 text-center ${agent.status !== "voted" ? "opacity-60 border-dashed" : ""}`}
 																>
 																	<div className="text-xs font-medium truncate">
 																		{agent.name}
 																	</div>
-																	<Badge
-																		variant={
-																			agent.verdict === "true"
-																				? "outline"
-																				: agent.verdict === "false"
-																					? "destructive"
-																					: "secondary"
-																		}
-																		className="text-xs mt-1"
-																	>
-																		{agent.verdict}
-																	</Badge>
+																	{renderAgentVerdict(agent)}
 																</div>
 															))}
 														</div>
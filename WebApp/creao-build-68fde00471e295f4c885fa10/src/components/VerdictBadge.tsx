@@ -0,0 +1,149 @@
+import { Badge } from "@/components/ui/badge";
+import { RATING_LABELS, type VerdictRating } from "@/lib/verdict-scale";
+import type { VerificationResult } from "@/services/verification-service";
+import {
+	AlertCircle,
+	AlertTriangle,
+	CheckCircle2,
+	HelpCircle,
+	MinusCircle,
+	XCircle,
+} from "lucide-react";
+
+interface VerdictStyle {
+	label: string;
+	variant: "default" | "destructive" | "secondary" | "outline";
+	className: string;
+	icon: typeof CheckCircle2;
+	iconClassName: string;
+}
+
+const RATING_STYLES: Record<VerdictRating, VerdictStyle> = {
+	true: {
+		label: "Verified True",
+		variant: "default",
+		className: "bg-green-600 hover:bg-green-700",
+		icon: CheckCircle2,
+		iconClassName: "text-green-500",
+	},
+	mostly_true: {
+		label: RATING_LABELS.mostly_true,
+		variant: "default",
+		className: "bg-green-500 hover:bg-green-600",
+		icon: CheckCircle2,
+		iconClassName: "text-green-400",
+	},
+	missing_context: {
+		label: RATING_LABELS.missing_context,
+		variant: "outline",
+		className: "border-amber-500 text-amber-700 dark:text-amber-300",
+		icon: AlertTriangle,
+		iconClassName: "text-amber-500",
+	},
+	misleading: {
+		label: RATING_LABELS.misleading,
+		variant: "default",
+		className: "bg-orange-500 hover:bg-orange-600",
+		icon: AlertTriangle,
+		iconClassName: "text-orange-500",
+	},
+	mostly_false: {
+		label: RATING_LABELS.mostly_false,
+		variant: "destructive",
+		className: "bg-red-500 hover:bg-red-600",
+		icon: XCircle,
+		iconClassName: "text-red-400",
+	},
+	false: {
+		label: "Verified False",
+		variant: "destructive",
+		className: "bg-red-600 hover:bg-red-700",
+		icon: XCircle,
+		iconClassName: "text-red-500",
+	},
+	unverifiable: {
+		label: RATING_LABELS.unverifiable,
+		variant: "secondary",
+		className: "",
+		icon: HelpCircle,
+		iconClassName: "text-gray-500",
+	},
+};
+
+/** Styles for results without a rating, e.g. split agents or older results */
+const CONSENSUS_STYLES: Record<VerificationResult["consensus"], VerdictStyle> =
+	{
+		verified_true: RATING_STYLES.true,
+		verified_false: RATING_STYLES.false,
+		inconclusive: {
+			label: "Inconclusive",
+			variant: "secondary",
+			className: "",
+			icon: AlertCircle,
+			iconClassName: "text-yellow-500",
+		},
+		insufficient_quorum: {
+			label: "No Quorum",
+			variant: "outline",
+			className: "",
+			icon: MinusCircle,
+			iconClassName: "text-gray-500",
+		},
+	};
+
+interface VerdictProps {
+	consensus: VerificationResult["consensus"];
+	rating?: VerdictRating;
+}
+
+function verdictStyle({ consensus, rating }: VerdictProps): VerdictStyle {
+	return rating ? RATING_STYLES[rating] : CONSENSUS_STYLES[consensus];
+}
+
+/**
+ * Icon for a verdict, coloured by how true it is
+ */
+export function VerdictIcon({
+	consensus,
+	rating,
+	className = "size-4",
+}: VerdictProps & { className?: string }) {
+	const { icon: Icon, iconClassName } = verdictStyle({ consensus, rating });
+	return <Icon className={`${className} ${iconClassName}`} />;
+}
+
+/**
+ * Badge for a verdict on the graded scale
+ * `prominent` shows the upper-case fact-check banner with its icon
+ */
+export function VerdictBadge({
+	consensus,
+	rating,
+	prominent = false,
+	className = "text-xs",
+}: VerdictProps & { prominent?: boolean; className?: string }) {
+	const style = verdictStyle({ consensus, rating });
+	if (!prominent) {
+		return (
+			<Badge
+				variant={style.variant}
+				className={`${className} ${style.className}`}
+			>
+				{style.label}
+			</Badge>
+		);
+	}
+
+	const Icon = style.icon;
+	return (
+		<Badge
+			variant={style.variant}
+			className={`flex items-center gap-1.5 px-3 py-1 text-sm font-bold ${style.className}`}
+		>
+			<Icon className="size-4" />
+			{(rating ? RATING_LABELS[rating] : style.label)
+				.replace(/^Verified /, "")
+				.toUpperCase()}
+		</Badge>
+	);
+}
@@ -0,0 +1,98 @@
+import { ModeratedBadge } from "@/components/ModeratedBadge";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Collapsible,
+	CollapsibleContent,
+	CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { RATING_LABELS } from "@/lib/verdict-scale";
+import ReverificationScheduler from "@/services/reverification-scheduler";
+import VerificationStoreService, {
+	type VerdictHistoryEntry,
+} from "@/services/verification-store";
+import { ChevronDown, History } from "lucide-react";
+import { useEffect, useState } from "react";
+
+const CONSENSUS_LABELS: Record<VerdictHistoryEntry["consensus"], string> = {
+	verified_true: "True",
+	verified_false: "False",
+	inconclusive: "Inconclusive",
+	insufficient_quorum: "No Quorum",
+};
+
+const REASON_LABELS: Record<
+	NonNullable<VerdictHistoryEntry["reverification"]>["reason"],
+	string
+> = {
+	inconclusive: "re-checked as inconclusive",
+	error: "re-checked after an error",
+	stale: "re-checked as stale",
+};
+
+/**
+ * Expandable list of every verdict reached for a statement, oldest first
+ * Reloads when the re-verification scheduler checks the statement again;
+ * renders nothing until there is more than one verdict
+ */
+export function VerdictHistory({ statementId }: { statementId: string }) {
+	const [history, setHistory] = useState<VerdictHistoryEntry[]>([]);
+
+	useEffect(() => {
+		let active = true;
+		const load = async () => {
+			const entries = await VerificationStoreService.getHistory(statementId);
+			if (active) setHistory(entries);
+		};
+		load();
+		const unsubscribe = ReverificationScheduler.subscribe((event) => {
+			if (event.statement.id === statementId) load();
+		});
+		return () => {
+			active = false;
+			unsubscribe();
+		};
+	}, [statementId]);
+
+	if (history.length < 2) return null;
+
+	const changes = history.filter((entry) => entry.changed).length;
+	return (
+		<Collapsible>
+			<CollapsibleTrigger asChild>
+				<Button size="sm" variant="ghost" className="h-6 px-1 text-xs">
+					<History className="mr-1 size-3" />
+					{history.length} verdicts
+					{changes > 0 &&
+						`, changed ${changes} ${changes === 1 ? "time" : "times"}`}
+					<ChevronDown className="ml-1 size-3" />
+				</Button>
+			</CollapsibleTrigger>
+			<CollapsibleContent className="mt-1 space-y-1">
+				{history.map((entry) => (
+					<div
+						key={entry.verificationResultId}
+						className={`flex items-center justify-between gap-2 rounded-md border p-2 text-xs ${entry.changed ? "border-amber-500" : ""}`}
+					>
+						<span className="text-muted-foreground">
+							{new Date(entry.verifiedAt).toLocaleString()}
+							{entry.reverification &&
+								` · ${REASON_LABELS[entry.reverification.reason]} (attempt ${entry.reverification.attempt})`}
+						</span>
+						<div className="flex shrink-0 items-center gap-1">
+							{entry.moderation && (
+								<ModeratedBadge moderation={entry.moderation} />
+							)}
+							<Badge variant="outline" className="text-xs">
+								{entry.rating
+									? RATING_LABELS[entry.rating]
+									: CONSENSUS_LABELS[entry.consensus]}{" "}
+								({Math.round(entry.consensusScore * 100)}%)
+							</Badge>
+						</div>
+					</div>
+				))}
+			</CollapsibleContent>
+		</Collapsible>
+	);
+}
@@ -1,3 +1,11 @@
+import { AsOfBadge } from "@/components/AsOfBadge";
+import { CitationTierBadge } from "@/components/CitationTierBadge";
+import { DebateTranscriptDialog } from "@/components/DebateTranscriptDialog";
+import { EvidenceList } from "@/components/EvidenceList";
+import { ModeratedBadge } from "@/components/ModeratedBadge";
+import { QuarantinedBadge } from "@/components/QuarantinedBadge";
+import { SubclaimBreakdown } from "@/components/SubclaimBreakdown";
+import { VerdictBadge, VerdictIcon } from "@/components/VerdictBadge";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
@@ -8,14 +16,9 @@ import {
 	CardTitle,
 } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { RATING_LABELS } from "@/lib/verdict-scale";
 import type { VerificationResult } from "@/services/verification-service";
-import {
-	AlertCircle,
-	CheckCircle2,
-	ExternalLink,
-	Volume2,
-	XCircle,
-} from "lucide-react";
+import { ExternalLink, Volume2 } from "lucide-react";
 
 interface VerificationResultsPanelProps {
 	results: VerificationResult[];
@@ -30,32 +33,6 @@ export function VerificationResultsPanel({
 	results,
 	onSpeak,
 }: VerificationResultsPanelProps) {
-	const getConsensusIcon = (consensus: string) => {
-		switch (consensus) {
-			case "verified_true":
-				return <CheckCircle2 className="size-5 text-green-500" />;
-			case "verified_false":
-				return <XCircle className="size-5 text-red-500" />;
-			case "inconclusive":
-				return <AlertCircle className="size-5 text-yellow-500" />;
-			default:
-				return <AlertCircle className="size-5 text-gray-500" />;
-		}
-	};
-
-	const getConsensusBadge = (consensus: string) => {
-		switch (consensus) {
-			case "verified_true":
-				return <Badge className="bg-green-500">Verified True</Badge>;
-			case "verified_false":
-				return <Badge variant="destructive">Verified False</Badge>;
-			case "inconclusive":
-				return <Badge variant="secondary">Inconclusive</Badge>;
-			default:
-				return <Badge variant="outline">Unknown</Badge>;
-		}
-	};
-
 	return (
 		<Card className="w-full">
 			<CardHeader>
@@ -79,8 +56,23 @@ export function VerificationResultsPanel({
 								>
 									<div className="mb-3 flex items-center justify-between">
 										<div className="flex items-center gap-2">
-											{getConsensusIcon(result.consensus)}
-											{getConsensusBadge(result.consensus)}
+											<VerdictIcon
+												consensus={result.consensus}
+												rating={result.rating}
+												className="size-5"
+											/>
+											<VerdictBadge
+												consensus={result.consensus}
+												rating={result.rating}
+												className=""
+											/>
+											{result.asOf && <AsOfBadge asOf={result.asOf} />}
+											{result.quarantine && (
+												<QuarantinedBadge quarantine={result.quarantine} />
+											)}
+											{result.moderation && (
+												<ModeratedBadge moderation={result.moderation} />
+											)}
 										</div>
 										<span className="text-xs text-muted-foreground">
 											Consensus:{" "}
@@ -91,6 +83,35 @@ export function VerificationResultsPanel({
 										</span>
 									</div>
 
+									<p className="mb-3 text-xs text-muted-foreground">
+										{result.lavaGatewayConsensus.explanation}
+									</p>
+
+									{result.debate && (
+										<div className="mb-3">
+											<DebateTranscriptDialog debate={result.debate} />
+										</div>
+									)}
+
+									{result.evidence && (
+										<div className="mb-3">
+											<EvidenceList
+												evidence={result.evidence}
+												agents={result.agents}
+											/>
+										</div>
+									)}
+
+									{result.subclaims && (
+										<div className="mb-3">
+											<SubclaimBreakdown
+												claims={result.subclaims.map((s) => s.claim)}
+												results={result.subclaims}
+												compound={result.compound}
+											/>
+										</div>
+									)}
+
 									{result.isFalse && result.correctInformation && (
 										<div className="mb-3 rounded-md bg-red-50 dark:bg-red-950/20 p-3 border border-red-200 dark:border-red-800">
 											<div className="mb-2 flex items-center justify-between">
@@ -115,7 +136,10 @@ export function VerificationResultsPanel({
 											{result.citations && result.citations.length > 0 && (
 												<div className="mt-3 pt-3 border-t border-red-200 dark:border-red-800">
 													<span className="text-xs font-semibold text-red-700 dark:text-red-400 mb-2 block">
-														Citations:
+														Citations
+														{result.citationQuality !== undefined &&
+															` (${Math.round(result.citationQuality * 100)}% quality)`}
+														:
 													</span>
 													<ul className="space-y-1">
 														{result.citations.map((citation) => (
@@ -125,6 +149,11 @@ export function VerificationResultsPanel({
 															>
 																<ExternalLink className="size-3 mt-0.5 flex-shrink-0" />
 																<span className="break-all">{citation}</span>
+																<CitationTierBadge
+																	check={result.citationChecks?.find(
+																		(check) => check.citation === citation,
+																	)}
+																/>
 															</li>
 														))}
 													</ul>
@@ -134,32 +163,50 @@ export function VerificationResultsPanel({
 									)}
 
 									<div className="space-y-2">
-										<span className="text-sm font-medium">Agent Verdicts:</span>
+										<span className="text-sm font-medium">
+											Agent Verdicts (
+											{
+												result.agents.filter(
+													(agent) => agent.status === "voted",
+												).length
+											}{" "}
+											of {result.agents.length} took part):
+										</span>
 										<div className="grid grid-cols-2 gap-2">
 											{result.agents.map((agent) => (
 												<div
 													key={agent.name}
-													className="rounded-md border bg-background p-2"
+													className={`rounded-md border bg-background p-2 ${agent.status !== "voted" ? "opacity-60 border-dashed" : ""}`}
 												>
 													<div className="mb-1 flex items-center justify-between">
 														<span className="text-xs font-medium">
 															{agent.name}
 														</span>
-														<Badge
-															variant={
-																agent.verdict === "true"
-																	? "outline"
-																	: agent.verdict === "false"
-																		? "destructive"
-																		: "secondary"
-															}
-															className="text-xs"
-														>
-															{agent.verdict}
-														</Badge>
+														{agent.status === "voted" ? (
+															<Badge
+																variant={
+																	agent.verdict === "true"
+																		? "outline"
+																		: agent.verdict === "false"
+																			? "destructive"
+																			: "secondary"
+																}
+																className="text-xs"
+															>
+																{agent.rating
+																	? RATING_LABELS[agent.rating]
+																	: agent.verdict}
+															</Badge>
+														) : (
+															<Badge variant="outline" className="text-xs">
+																{agent.status}
+															</Badge>
+														)}
 													</div>
 													<div className="text-xs text-muted-foreground">
-														Confidence: {(agent.confidence * 100).toFixed(0)}%
+														{agent.status === "voted"
+															? `Confidence: ${(agent.confidence * 100).toFixed(0)}%`
+															: agent.reasoning}
 													</div>
 												</div>
 											))}
@@ -36,6 +36,11 @@ export enum DeclarativeStatementVerificationStatus {
   VerifiedFalse = 4,
   Inconclusive = 5,
   Error = 6,
+  MostlyTrue = 7,
+  MissingContext = 8,
+  Misleading = 9,
+  MostlyFalse = 10,
+  Unverifiable = 11,
 }
 
 
@@ -56,6 +61,7 @@ export interface DeclarativeStatementModel {
   user_session_id: string;
   speaker_id: string;
   original_transcription: string;
+  standalone_statement: string;
   statement_timestamp: string;
   statement_type: DeclarativeStatementStatementType;
   verification_status: DeclarativeStatementVerificationStatus;
@@ -704,6 +710,7 @@ function DeclarativeStatementModelToValues(data: DeclarativeStatementModel): Val
     { key: 'user_session_id', type: DataType.string, defaultValue: '' },
     { key: 'speaker_id', type: DataType.string, defaultValue: '' },
     { key: 'original_transcription', type: DataType.string, defaultValue: '' },
+    { key: 'standalone_statement', type: DataType.string, defaultValue: '' },
     { key: 'statement_timestamp', type: DataType.string, defaultValue: '' },
     { key: 'statement_type', type: DataType.enumeration, defaultValue: 0 },
     { key: 'verification_status', type: DataType.enumeration, defaultValue: 0 },
@@ -749,6 +756,9 @@ function DeclarativeStatementModelFromValues(values: Value[]): DeclarativeStatem
       case 'original_transcription':
         data.original_transcription = ParseValue(value, DataType.string) as string;
         break;
+      case 'standalone_statement':
+        data.standalone_statement = ParseValue(value, DataType.string) as string;
+        break;
       case 'statement_timestamp':
         data.statement_timestamp = ParseValue(value, DataType.string) as string;
         break;
@@ -82,6 +82,14 @@ export interface ApiConfig {
 		apiKey: string;
 		baseUrl: string;
 	};
+
+	// Local Verification (runs in the browser, no API key)
+	local: {
+		/** Relative rounding allowed when a claim converts between units */
+		conversionTolerance: number;
+		/** Relative error allowed in hedged claims ("about 30 cm") */
+		approximateTolerance: number;
+	};
 }
 
 /**
@@ -177,6 +185,53 @@ export const apiConfig: ApiConfig = {
 		baseUrl:
 			import.meta.env.VITE_JANITOR_BASE_URL || "https://api.janitorai.com",
 	},
+
+	local: {
+		conversionTolerance:
+			Number(import.meta.env.VITE_NUMERIC_CONVERSION_TOLERANCE) || 0.01,
+		approximateTolerance:
+			Number(import.meta.env.VITE_NUMERIC_APPROXIMATE_TOLERANCE) || 0.05,
+	},
+};
+
+/**
+ * Request timeout budget per provider, in milliseconds
+ * Override with VITE_<PROVIDER>_TIMEOUT_MS
+ */
+export const requestTimeouts: Record<keyof ApiConfig, number> = {
+	vapi: Number(import.meta.env.VITE_VAPI_TIMEOUT_MS) || 10000,
+	anthropic: Number(import.meta.env.VITE_ANTHROPIC_TIMEOUT_MS) || 15000,
+	gemini: Number(import.meta.env.VITE_GEMINI_TIMEOUT_MS) || 15000,
+	fetchAI: Number(import.meta.env.VITE_FETCHAI_TIMEOUT_MS) || 10000,
+	brightData: Number(import.meta.env.VITE_BRIGHTDATA_TIMEOUT_MS) || 10000,
+	lavaGateway: Number(import.meta.env.VITE_LAVA_TIMEOUT_MS) || 20000,
+	fishAudio: Number(import.meta.env.VITE_FISHAUDIO_TIMEOUT_MS) || 10000,
+	elevenLabs: Number(import.meta.env.VITE_ELEVENLABS_TIMEOUT_MS) || 10000,
+	groq: Number(import.meta.env.VITE_GROQ_TIMEOUT_MS) || 15000,
+	chromaAI: Number(import.meta.env.VITE_CHROMA_AI_TIMEOUT_MS) || 8000,
+	composio: Number(import.meta.env.VITE_COMPOSIO_TIMEOUT_MS) || 10000,
+	janitor: Number(import.meta.env.VITE_JANITOR_TIMEOUT_MS) || 10000,
+	local: Number(import.meta.env.VITE_LOCAL_TIMEOUT_MS) || 2000,
+};
+
+/**
+ * Request rate budget per provider and API key, in requests per minute
+ * Override with VITE_<PROVIDER>_RPM
+ */
+export const rateLimits: Record<keyof ApiConfig, number> = {
+	vapi: Number(import.meta.env.VITE_VAPI_RPM) || 60,
+	anthropic: Number(import.meta.env.VITE_ANTHROPIC_RPM) || 50,
+	gemini: Number(import.meta.env.VITE_GEMINI_RPM) || 60,
+	fetchAI: Number(import.meta.env.VITE_FETCHAI_RPM) || 60,
+	brightData: Number(import.meta.env.VITE_BRIGHTDATA_RPM) || 60,
+	lavaGateway: Number(import.meta.env.VITE_LAVA_RPM) || 60,
+	fishAudio: Number(import.meta.env.VITE_FISHAUDIO_RPM) || 60,
+	elevenLabs: Number(import.meta.env.VITE_ELEVENLABS_RPM) || 60,
+	groq: Number(import.meta.env.VITE_GROQ_RPM) || 30,
+	chromaAI: Number(import.meta.env.VITE_CHROMA_AI_RPM) || 120,
+	composio: Number(import.meta.env.VITE_COMPOSIO_RPM) || 60,
+	janitor: Number(import.meta.env.VITE_JANITOR_RPM) || 60,
+	local: Number(import.meta.env.VITE_LOCAL_RPM) || 600,
 };
 
 /**
@@ -0,0 +1,41 @@
+import { isAbortError, sleep, withTimeout } from "@/lib/abort";
+import { describe, expect, it } from "vitest";
+
+describe("withTimeout", () => {
+	it("aborts with a timeout error once the budget runs out", async () => {
+		const signal = withTimeout(5);
+		await sleep(20);
+		expect(signal.aborted).toBe(true);
+		expect(isAbortError(signal.reason)).toBe(true);
+		expect((signal.reason as DOMException).name).toBe("TimeoutError");
+	});
+
+	it("aborts with the caller's reason when the caller cancels first", () => {
+		const controller = new AbortController();
+		const signal = withTimeout(10000, controller.signal);
+		controller.abort(new DOMException("Session stopped", "AbortError"));
+		expect(signal.aborted).toBe(true);
+		expect((signal.reason as DOMException).message).toBe("Session stopped");
+	});
+});
+
+describe("sleep", () => {
+	it("rejects early when the signal aborts", async () => {
+		const controller = new AbortController();
+		const waiting = sleep(10000, controller.signal);
+		controller.abort();
+		await expect(waiting).rejects.toSatisfy(isAbortError);
+	});
+
+	it("rejects at once on a signal that has already aborted", async () => {
+		await expect(sleep(0, AbortSignal.abort())).rejects.toSatisfy(isAbortError);
+	});
+});
+
+describe("isAbortError", () => {
+	it("tells cancellations and timeouts from other failures", () => {
+		expect(isAbortError(new DOMException("", "AbortError"))).toBe(true);
+		expect(isAbortError(new DOMException("", "TimeoutError"))).toBe(true);
+		expect(isAbortError(new Error("Network error"))).toBe(false);
+	});
+});
@@ -0,0 +1,102 @@
+/**
+ * Combine a timeout budget with an optional caller signal
+ * The returned signal aborts with a TimeoutError when the budget runs out,
+ * or with the caller's reason when the caller cancels first
+ */
+export function withTimeout(
+	timeoutMs: number,
+	signal?: AbortSignal,
+): AbortSignal {
+	const timeout = AbortSignal.timeout(timeoutMs);
+	return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+/**
+ * Timeout budget whose clock can be stopped, see timeoutBudget
+ */
+export interface TimeoutBudget {
+	signal: AbortSignal;
+	/** Stop the clock, e.g. while waiting on a rate limit */
+	pause(): void;
+	resume(): void;
+	/** Stop the clock for good once the work is done */
+	clear(): void;
+}
+
+/**
+ * Like withTimeout, but time spent paused doesn't count against the budget
+ * Pauses nest, so overlapping waits only restart the clock once all of
+ * them have resumed
+ */
+export function timeoutBudget(
+	timeoutMs: number,
+	signal?: AbortSignal,
+): TimeoutBudget {
+	const controller = new AbortController();
+	let remainingMs = timeoutMs;
+	let startedAt = 0;
+	let pauses = 0;
+	let timer: ReturnType<typeof setTimeout> | undefined;
+
+	const start = () => {
+		startedAt = Date.now();
+		timer = setTimeout(() => {
+			controller.abort(
+				new DOMException("The operation timed out.", "TimeoutError"),
+			);
+		}, remainingMs);
+	};
+	start();
+
+	return {
+		signal: signal
+			? AbortSignal.any([signal, controller.signal])
+			: controller.signal,
+		pause() {
+			pauses += 1;
+			if (pauses > 1 || controller.signal.aborted) return;
+			clearTimeout(timer);
+			remainingMs -= Date.now() - startedAt;
+		},
+		resume() {
+			if (pauses === 0) return;
+			pauses -= 1;
+			if (pauses > 0 || controller.signal.aborted) return;
+			start();
+		},
+		clear() {
+			clearTimeout(timer);
+		},
+	};
+}
+
+/**
+ * True when a request was cancelled by its caller or timed out
+ */
+export function isAbortError(error: unknown): boolean {
+	return (
+		error instanceof DOMException &&
+		(error.name === "AbortError" || error.name === "TimeoutError")
+	);
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
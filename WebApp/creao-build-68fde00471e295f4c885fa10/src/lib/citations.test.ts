@@ -0,0 +1,80 @@
+import { citationQuality, rateCitation } from "@/lib/citations";
+import CitationValidationService from "@/services/citation-validation";
+import { describe, expect, it } from "vitest";
+
+const lists = {
+	allowlist: [".gov", "reuters.com"],
+	denylist: ["infowars.com"],
+};
+
+describe("rateCitation", () => {
+	it.each([
+		["https://www.cdc.gov/vaccines", "trusted"],
+		["https://www.reuters.com/world/", "trusted"],
+		["https://news.infowars.com/story", "low"],
+		["https://en.wikipedia.org/wiki/Paris", "standard"],
+		["Wikipedia", "invalid"],
+		["ftp://files.nasa.gov/report.pdf", "invalid"],
+		["https://example.com/source1", "invalid"],
+		["http://192.168.1.10/page", "invalid"],
+		["https://reuters/article", "invalid"],
+	])("rates %s as %s", (citation, tier) => {
+		expect(rateCitation(citation, lists).tier).toBe(tier);
+	});
+
+	it("lets the denylist win over the allowlist", () => {
+		const check = rateCitation("https://blog.agency.gov/post", {
+			allowlist: [".gov"],
+			denylist: ["blog.agency.gov"],
+		});
+		expect(check.tier).toBe("low");
+	});
+});
+
+describe("citationQuality", () => {
+	it("averages tier weights and discounts off-topic pages", () => {
+		expect(citationQuality([])).toBeUndefined();
+		expect(
+			citationQuality([
+				{ citation: "a", tier: "trusted", reason: "" },
+				{ citation: "b", tier: "invalid", reason: "" },
+				{ citation: "c", tier: "trusted", reason: "", mentionsClaim: false },
+			]),
+		).toBe(0.5);
+	});
+});
+
+describe("CitationValidationService", () => {
+	it("drops invalid citations and checks pages with the plugged-in fetcher", async () => {
+		CitationValidationService.setPageFetcher({
+			fetchText: async (url) =>
+				url.includes("missing")
+					? null
+					: "Water boils at 100 degrees Celsius at sea level.",
+		});
+		const agent = await CitationValidationService.annotate(
+			{
+				name: "Llama",
+				status: "voted",
+				verdict: "true",
+				confidence: 0.9,
+				citations: [
+					"https://www.usgs.gov/water",
+					"https://www.usgs.gov/missing",
+					"source1",
+				],
+			},
+			"Water boils at 100 degrees Celsius",
+		);
+		CitationValidationService.setPageFetcher(null);
+
+		expect(agent.citations).toEqual(["https://www.usgs.gov/water"]);
+		expect(agent.citationChecks?.map((check) => check.tier)).toEqual([
+			"trusted",
+			"invalid",
+			"invalid",
+		]);
+		expect(agent.citationChecks?.[0].mentionsClaim).toBe(true);
+		expect(agent.citationQuality).toBe(0.33);
+	});
+});
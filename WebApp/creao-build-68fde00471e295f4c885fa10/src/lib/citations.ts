@@ -0,0 +1,186 @@
+import { claimTokens, normalizeClaim } from "@/lib/claim-text";
+import { KNOWLEDGE_CITATION_PREFIX } from "@/lib/knowledge-base";
+
+/**
+ * Citation checks
+ *
+ * Agents can cite URLs that don't exist or sites nobody should trust, and
+ * a link in the UI looks authoritative either way. Each citation is
+ * checked for a well-formed public URL and rated by its domain against
+ * the team's allowlist and denylist.
+ */
+
+/**
+ * How far a cited source can be trusted
+ * - trusted: on the allowlist, or a knowledge base fact
+ * - standard: a well-formed link to a site on neither list
+ * - low: on the denylist
+ * - invalid: not a usable link, or the page doesn't exist
+ */
+export type CredibilityTier = "trusted" | "standard" | "low" | "invalid";
+
+export const TIER_LABELS: Record<CredibilityTier, string> = {
+	trusted: "Trusted",
+	standard: "Unrated",
+	low: "Low credibility",
+	invalid: "Invalid",
+};
+
+/** What a citation in each tier adds to the citation-quality score */
+export const TIER_WEIGHTS: Record<CredibilityTier, number> = {
+	trusted: 1,
+	standard: 0.6,
+	low: 0.2,
+	invalid: 0,
+};
+
+/**
+ * The outcome of checking one citation
+ */
+export interface CitationCheck {
+	citation: string;
+	/** Host name of the cited page, for well-formed links */
+	domain?: string;
+	tier: CredibilityTier;
+	/** Why the citation got its tier */
+	reason: string;
+	/** Whether the fetched page mentions the claim; unset when not fetched */
+	mentionsClaim?: boolean;
+}
+
+/**
+ * Domains a team trusts or distrusts
+ * An entry matches the domain and its subdomains; one starting with a dot,
+ * like ".gov", matches every domain ending in it
+ */
+export interface CredibilityLists {
+	allowlist: string[];
+	denylist: string[];
+}
+
+/** Hosts reserved for documentation and testing, which models like to invent */
+const RESERVED_HOSTS =
+	/(^|\.)(example\.(com|org|net)|localhost)$|\.(test|example|invalid|local|localhost)$/;
+
+const IP_ADDRESS = /^(\d{1,3}(\.\d{1,3}){3}|\[[0-9a-f:]+\])$/i;
+
+/**
+ * Whether a host name is a domain or one of its subdomains
+ */
+export function matchesDomain(host: string, entry: string): boolean {
+	const domain = entry.toLowerCase().replace(/^www\./, "");
+	return domain.startsWith(".")
+		? host.endsWith(domain)
+		: host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * Check a citation's structure and rate its domain
+ * The denylist wins over the allowlist. Facts cited from the team's
+ * knowledge base are trusted.
+ */
+export function rateCitation(
+	citation: string,
+	lists: CredibilityLists,
+): CitationCheck {
+	const invalid = (reason: string): CitationCheck => ({
+		citation,
+		tier: "invalid",
+		reason,
+	});
+
+	if (citation.startsWith(KNOWLEDGE_CITATION_PREFIX)) {
+		return {
+			citation,
+			tier: "trusted",
+			reason: "Fact from the team's knowledge base",
+		};
+	}
+
+	let url: URL;
+	try {
+		url = new URL(citation.trim());
+	} catch {
+		return invalid("Not a link");
+	}
+	if (url.protocol !== "https:" && url.protocol !== "http:") {
+		return invalid(`Unsupported ${url.protocol.replace(":", "")} link`);
+	}
+	if (url.username || url.password) {
+		return invalid("Link contains credentials");
+	}
+
+	const host = url.hostname.toLowerCase();
+	if (IP_ADDRESS.test(host)) {
+		return invalid("Link to an IP address");
+	}
+	if (!/\.[a-z]{2,}$/.test(host)) {
+		return invalid("Host has no top-level domain");
+	}
+	if (RESERVED_HOSTS.test(host)) {
+		return invalid("Placeholder or reserved domain");
+	}
+
+	const domain = host.replace(/^www\./, "");
+	if (lists.denylist.some((entry) => matchesDomain(domain, entry))) {
+		return {
+			citation,
+			domain,
+			tier: "low",
+			reason: "Domain is on the denylist",
+		};
+	}
+	if (lists.allowlist.some((entry) => matchesDomain(domain, entry))) {
+		return {
+			citation,
+			domain,
+			tier: "trusted",
+			reason: "Domain is on the allowlist",
+		};
+	}
+	return {
+		citation,
+		domain,
+		tier: "standard",
+		reason: "Domain is on neither list",
+	};
+}
+
+/**
+ * Whether a page's text mentions most of a claim's content words
+ */
+export function mentionsClaim(claim: string, pageText: string): boolean {
+	const claimWords = claimTokens(normalizeClaim(claim));
+	if (claimWords.size === 0) return false;
+	const pageWords = claimTokens(normalizeClaim(pageText));
+	const shared = [...claimWords].filter((word) => pageWords.has(word)).length;
+	return shared / claimWords.size >= 0.5;
+}
+
+/**
+ * Citation-quality score in [0, 1]
+ * The mean of the citations' tier weights, halved for pages fetched and
+ * found not to mention the claim; undefined when nothing was cited
+ */
+export function citationQuality(checks: CitationCheck[]): number | undefined {
+	if (checks.length === 0) return undefined;
+	const total = checks.reduce(
+		(sum, check) =>
+			sum +
+			TIER_WEIGHTS[check.tier] * (check.mentionsClaim === false ? 0.5 : 1),
+		0,
+	);
+	return Math.round((total / checks.length) * 100) / 100;
+}
+
+/**
+ * Checks for a set of citations, taken from agents' checks
+ * Each citation appears once, in the order of its first check
+ */
+export function uniqueChecks(checks: CitationCheck[]): CitationCheck[] {
+	const byCitation = new Map<string, CitationCheck>();
+	for (const check of checks) {
+		if (!byCitation.has(check.citation)) byCitation.set(check.citation, check);
+	}
+	return [...byCitation.values()];
+}
@@ -0,0 +1,126 @@
+import {
+	canonicalClaim,
+	claimSimilarity,
+	comparableClaims,
+	entitiesAgree,
+	keepsWording,
+	normalizeClaim,
+} from "@/lib/claim-text";
+import { describe, expect, it } from "vitest";
+
+const similarity = (a: string, b: string) =>
+	claimSimilarity(normalizeClaim(a), normalizeClaim(b));
+
+describe("normalizeClaim", () => {
+	it("lower-cases, expands contractions and drops punctuation and fillers", () => {
+		expect(normalizeClaim("Um, the economy didn’t grow 1,000%!")).toBe(
+			"the economy did not grow 1000%",
+		);
+	});
+
+	it("keeps decimal points but not full stops after numbers", () => {
+		expect(normalizeClaim("Inflation was 3.5% in 2023.")).toBe(
+			"inflation was 3.5% in 2023",
+		);
+	});
+});
+
+describe("canonicalClaim", () => {
+	it("keeps content words in their spoken order", () => {
+		expect(canonicalClaim("The capital of France is Paris.")).toBe(
+			"capital france paris",
+		);
+		expect(canonicalClaim("Paris is the capital of France")).toBe(
+			"paris capital france",
+		);
+	});
+});
+
+describe("claimSimilarity", () => {
+	it("scores the same claim 1 however it is spoken", () => {
+		expect(
+			similarity(
+				"Uh, the unemployment rate is 5%",
+				"The unemployment rate is 5%.",
+			),
+		).toBe(1);
+	});
+
+	it("scores shared content words", () => {
+		expect(
+			similarity(
+				"The unemployment rate is 5%",
+				"The unemployment rate is 5% nationally",
+			),
+		).toBeCloseTo(3 / 4);
+	});
+
+	it.each([
+		["Vaccines cause autism", "Vaccines do not cause autism"],
+		["Vaccines never cause autism", "Vaccines cause autism"],
+		["Exports grew 5% last year", "Exports grew 50% last year"],
+		["Exports grew 5% last year", "Exports grew last year"],
+	])("scores %j and %j 0", (a, b) => {
+		expect(similarity(a, b)).toBe(0);
+	});
+});
+
+describe("comparableClaims", () => {
+	it.each([
+		["Vaccines cause autism", "The vaccine gives kids autism"],
+		["Inflation is not 3%", "Inflation isn't 3% this year"],
+		["Crime is never reported", "Crime is not reported"],
+	])("finds %j and %j comparable", (a, b) => {
+		expect(comparableClaims(normalizeClaim(a), normalizeClaim(b))).toBe(true);
+	});
+
+	it.each([
+		["Inflation is 3%", "Inflation is not 3%"],
+		["Inflation is 3%", "Inflation is 4%"],
+		["Crime fell in 2020", "Crime fell in 2021"],
+	])("finds %j and %j different", (a, b) => {
+		expect(comparableClaims(normalizeClaim(a), normalizeClaim(b))).toBe(false);
+	});
+});
+
+describe("entitiesAgree", () => {
+	it.each([
+		["Berlin is the capital of France", "Madrid is the capital of France"],
+		["The CEO is Jane Smith", "The CEO is Sundar Pichai"],
+		["Obama was born in Kenya", "Obama was born in Hawaii"],
+	])("finds %j and %j about different things", (a, b) => {
+		expect(entitiesAgree(a, b)).toBe(false);
+	});
+
+	it.each([
+		["Barack Obama was born in Kenya", "Obama was born in Kenya"],
+		["Paris is the capital of France", "The capital of France is Paris"],
+		["Vaccines cause autism", "the vaccine gives kids autism"],
+		["The Senate passed the bill", "the senate passed the bill"],
+	])("finds %j and %j about the same things", (a, b) => {
+		expect(entitiesAgree(a, b)).toBe(true);
+	});
+});
+
+describe("keepsWording", () => {
+	it.each([
+		["He was born in Kenya", "Barack Obama was born in Kenya", ["He"]],
+		[
+			"That city is the capital of France",
+			"Paris is the capital of France",
+			["That city"],
+		],
+		["It grew 5% last year", "The economy grew 5% last year", ["It"]],
+	])("lets %j become %j", (original, rewrite, replaced) => {
+		expect(keepsWording(original, rewrite, replaced)).toBe(true);
+	});
+
+	it.each([
+		["He was born in Kenya", "Barack Obama was born in Hawaii", ["He"]],
+		["He was born in Kenya", "Barack Obama was born", ["He"]],
+		["He was born in Kenya", "Barack Obama was born in Kenya", []],
+		["It grew 5% last year", "The economy shrank 5% last year", ["It"]],
+	])("doesn't let %j become %j", (original, rewrite, replaced) => {
+		expect(keepsWording(original, rewrite, replaced)).toBe(false);
+	});
+});
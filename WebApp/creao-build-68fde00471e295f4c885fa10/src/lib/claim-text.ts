@@ -0,0 +1,184 @@
+import { extractEntities } from "@/lib/coreference";
+
+/**
+ * Claim text normalisation and similarity
+ *
+ * Spoken claims arrive with varying case, punctuation, contractions and
+ * filler words. These helpers reduce a claim to a comparable form so the
+ * same talking point can be recognised when it is repeated.
+ */
+
+const CONTRACTIONS: [RegExp, string][] = [
+	[/\bcan't\b/g, "can not"],
+	[/\bwon't\b/g, "will not"],
+	[/\b(\w+)n't\b/g, "$1 not"],
+	[/\b(\w+)'re\b/g, "$1 are"],
+	[/\b(\w+)'s\b/g, "$1 is"],
+	[/\b(\w+)'ve\b/g, "$1 have"],
+	[/\b(\w+)'ll\b/g, "$1 will"],
+	[/\b(\w+)'d\b/g, "$1 would"],
+];
+
+const FILLER_WORDS = new Set([
+	"um",
+	"uh",
+	"er",
+	"actually",
+	"basically",
+	"literally",
+]);
+
+const STOP_WORDS = new Set([
+	"a",
+	"an",
+	"the",
+	"of",
+	"to",
+	"in",
+	"on",
+	"at",
+	"for",
+	"and",
+	"or",
+	"that",
+	"this",
+	"it",
+	"is",
+	"are",
+	"was",
+	"were",
+	"be",
+	"by",
+	"with",
+	"as",
+]);
+
+const NEGATIONS = new Set(["not", "no", "never", "none", "nobody", "nothing"]);
+
+/**
+ * Lower-case, expand contractions, strip punctuation and filler words
+ */
+export function normalizeClaim(text: string): string {
+	let normalized = text.toLowerCase().replace(/[’‘]/g, "'");
+	for (const [pattern, replacement] of CONTRACTIONS) {
+		normalized = normalized.replace(pattern, replacement);
+	}
+
+	return normalized
+		.replace(/(\d),(\d)/g, "$1$2") // 1,000 -> 1000
+		.replace(/[^\w\s.%-]|\.(?!\d)/g, " ") // keep only decimal points
+		.split(/\s+/)
+		.filter((word) => word && !FILLER_WORDS.has(word))
+		.join(" ");
+}
+
+/**
+ * Content words of a normalised claim, without stop words
+ */
+export function claimTokens(normalized: string): Set<string> {
+	return new Set(
+		normalized.split(" ").filter((word) => word && !STOP_WORDS.has(word)),
+	);
+}
+
+/**
+ * Canonical form of a claim, for grouping identical claims by hash
+ * Normalised content words in their spoken order
+ */
+export function canonicalClaim(text: string): string {
+	return normalizeClaim(text)
+		.split(" ")
+		.filter((word) => word && !STOP_WORDS.has(word))
+		.join(" ");
+}
+
+/**
+ * Similarity of two normalised claims in [0, 1]
+ *
+ * Token Jaccard similarity, forced to 0 when the claims disagree on
+ * negation or mention different numbers, since "X is not Y" and
+ * "X is Y" (or "grew 5%" and "grew 50%") are different claims however
+ * many words they share.
+ */
+export function claimSimilarity(a: string, b: string): number {
+	if (a === b) return 1;
+
+	const tokensA = claimTokens(a);
+	const tokensB = claimTokens(b);
+	if (!comparableTokens(tokensA, tokensB)) return 0;
+
+	let shared = 0;
+	for (const token of tokensA) {
+		if (tokensB.has(token)) shared += 1;
+	}
+	const union = tokensA.size + tokensB.size - shared;
+	return union === 0 ? 0 : shared / union;
+}
+
+/**
+ * Whether two normalised claims agree on negation and the numbers they
+ * mention; claims that don't can never be the same claim
+ */
+export function comparableClaims(a: string, b: string): boolean {
+	return comparableTokens(claimTokens(a), claimTokens(b));
+}
+
+/**
+ * Whether two claims, as spoken, are about the same people, places and
+ * organisations
+ * They disagree when each names something the other doesn't mention:
+ * "Berlin is the capital of France" and "Madrid is the capital of
+ * France". A name only one of them has, or that the other mentions in
+ * lower case, isn't a disagreement.
+ */
+export function entitiesAgree(a: string, b: string): boolean {
+	return unmatchedEntities(a, b) === 0 || unmatchedEntities(b, a) === 0;
+}
+
+/**
+ * Whether a rewrite keeps every content word of the original claim,
+ * apart from those of the references it replaced
+ * "He was born in Kenya" may become "Barack Obama was born in Kenya",
+ * but not "Barack Obama was born in Hawaii" or "Obama was born".
+ */
+export function keepsWording(
+	original: string,
+	rewrite: string,
+	replaced: string[],
+): boolean {
+	const kept = claimTokens(normalizeClaim(rewrite));
+	const references = claimTokens(normalizeClaim(replaced.join(" ")));
+	for (const token of claimTokens(normalizeClaim(original))) {
+		if (!kept.has(token) && !references.has(token)) return false;
+	}
+	return true;
+}
+
+/** Names in a claim whose last word the other claim doesn't mention */
+function unmatchedEntities(text: string, other: string): number {
+	const words = new Set(normalizeClaim(other).split(" "));
+	return extractEntities(text).filter(
+		(entity) => !words.has(normalizeClaim(entity.name).split(" ").pop() ?? ""),
+	).length;
+}
+
+function comparableTokens(a: Set<string>, b: Set<string>): boolean {
+	return (
+		negationParity(a) === negationParity(b) && numbersOf(a) === numbersOf(b)
+	);
+}
+
+function negationParity(tokens: Set<string>): boolean {
+	let negated = false;
+	for (const token of tokens) {
+		if (NEGATIONS.has(token)) negated = !negated;
+	}
+	return negated;
+}
+
+function numbersOf(tokens: Set<string>): string {
+	return [...tokens]
+		.filter((token) => /\d/.test(token))
+		.sort()
+		.join(" ");
+}
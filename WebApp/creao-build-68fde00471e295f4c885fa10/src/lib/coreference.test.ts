@@ -0,0 +1,105 @@
+import {
+	type TrackedEntity,
+	extractEntities,
+	hasReferences,
+	resolveReferences,
+	trackEntities,
+} from "@/lib/coreference";
+import { describe, expect, it } from "vitest";
+
+/** Entities tracked through a conversation */
+function conversation(...statements: string[]) {
+	return statements.reduce(
+		(tracked: TrackedEntity[], statement) => trackEntities(tracked, statement),
+		[],
+	);
+}
+
+describe("extractEntities", () => {
+	it("reads names and guesses their kind from the words around them", () => {
+		expect(
+			extractEntities(
+				"Yesterday President Barack Obama visited the Bank of England in London.",
+			),
+		).toEqual([
+			{ name: "Barack Obama", kind: "person" },
+			{ name: "Bank of England", kind: "organization" },
+			{ name: "London", kind: "place" },
+		]);
+	});
+
+	it("skips sentence-initial words, months and lone titles", () => {
+		expect(
+			extractEntities("The President said in March that NASA's budget grew"),
+		).toEqual([{ name: "NASA", kind: "organization" }]);
+	});
+});
+
+describe("trackEntities", () => {
+	it("keeps the most recently mentioned entities first", () => {
+		expect(
+			conversation("Lagos is in Nigeria", "Barack Obama said so").map(
+				(e) => e.name,
+			),
+		).toEqual(["Barack Obama", "Lagos", "Nigeria"]);
+	});
+
+	it("merges a short mention into the fuller name and learns its kind", () => {
+		expect(conversation("Barack Obama is here", "Obama said hello")).toEqual([
+			{ name: "Barack Obama", kind: "person" },
+		]);
+	});
+});
+
+describe("resolveReferences", () => {
+	const tracked = conversation(
+		"Lagos is the biggest city in Africa",
+		"I met Barack Obama there last year",
+	);
+
+	it.each([
+		["He was born in Kenya", "Barack Obama was born in Kenya"],
+		["His father was from Kenya", "Barack Obama's father was from Kenya"],
+		["I think I saw him.", "I think I saw Barack Obama."],
+		["That city has 10 million people", "Lagos has 10 million people"],
+		["It has 15 million people", "Lagos has 15 million people"],
+		["It is true that taxes rose", "It is true that taxes rose"],
+		[
+			"Michelle Obama said she was born in Chicago",
+			"Michelle Obama said she was born in Chicago",
+		],
+		["The company grew 5%", "The company grew 5%"],
+	])("rewrites %s as %s", (statement, standalone) => {
+		expect(resolveReferences(statement, tracked).standalone).toBe(standalone);
+	});
+
+	it("skips people of the other gender", () => {
+		const couple = conversation("Mrs Smith met Mr Jones");
+		expect(resolveReferences("She is 40", couple).standalone).toBe(
+			"Smith is 40",
+		);
+		expect(resolveReferences("He is 50", couple).standalone).toBe(
+			"Jones is 50",
+		);
+	});
+
+	it("records what each reference was replaced with", () => {
+		expect(
+			resolveReferences("He said that city is safe", tracked).resolutions,
+		).toEqual([
+			{ reference: "He", entity: "Barack Obama" },
+			{ reference: "that city", entity: "Lagos" },
+		]);
+	});
+});
+
+describe("hasReferences", () => {
+	it.each([
+		["They raised prices", true],
+		["The population there is 10 million", true],
+		["There are 50 states", false],
+		["Water boils at 100 degrees", false],
+	])("reads %s as %s", (statement, expected) => {
+		expect(hasReferences(statement)).toBe(expected);
+	});
+});
@@ -0,0 +1,585 @@
+/**
+ * Coreference in spoken claims
+ *
+ * "He was born in Kenya" or "That city has 10 million people" can't be
+ * checked on their own: who is "he", which city? These helpers pick out
+ * the people, places and organisations named in each statement, track
+ * them through a conversation, and replace pronouns and references like
+ * "that city" with the entity they most likely stand for.
+ */
+
+export type EntityKind = "person" | "place" | "organization" | "other";
+
+export type Gender = "male" | "female";
+
+export interface TrackedEntity {
+	/** The fullest name it was mentioned by, e.g. "Barack Obama" */
+	name: string;
+	/** "other" until a mention gives it away */
+	kind: EntityKind;
+	/** Known from a title like "Mrs" or "King" */
+	gender?: Gender;
+}
+
+/**
+ * A reference and the entity it was replaced with
+ */
+export interface ResolvedReference {
+	/** As spoken, e.g. "He" or "that city" */
+	reference: string;
+	entity: string;
+}
+
+/**
+ * A statement rewritten to stand on its own
+ */
+export interface StandaloneClaim {
+	/** The statement as spoken */
+	original: string;
+	/** The statement with its references resolved; the original when none were */
+	standalone: string;
+	resolutions: ResolvedReference[];
+}
+
+/** Capitalised words that never start or belong to a name */
+const NOT_NAMES = new Set([
+	"i",
+	"he",
+	"she",
+	"it",
+	"we",
+	"you",
+	"they",
+	"his",
+	"her",
+	"its",
+	"our",
+	"my",
+	"your",
+	"their",
+	"the",
+	"a",
+	"an",
+	"this",
+	"that",
+	"these",
+	"those",
+	"some",
+	"many",
+	"most",
+	"all",
+	"every",
+	"no",
+	"yes",
+	"and",
+	"but",
+	"or",
+	"so",
+	"well",
+	"also",
+	"actually",
+	"then",
+	"now",
+	"today",
+	"yesterday",
+	"tomorrow",
+	"there",
+	"here",
+	"what",
+	"who",
+	"when",
+	"where",
+	"why",
+	"how",
+	"if",
+	"because",
+	"in",
+	"on",
+	"at",
+	"by",
+	"for",
+	"from",
+	"with",
+	"as",
+	"after",
+	"before",
+	"since",
+	"during",
+	"okay",
+	"ok",
+	"oh",
+	"monday",
+	"tuesday",
+	"wednesday",
+	"thursday",
+	"friday",
+	"saturday",
+	"sunday",
+	"january",
+	"february",
+	"march",
+	"april",
+	"may",
+	"june",
+	"july",
+	"august",
+	"september",
+	"october",
+	"november",
+	"december",
+]);
+
+/** Lower-case words allowed inside a name: "Bank of England" */
+const CONNECTORS = new Set(["of", "the", "de", "van", "von", "da", "al"]);
+
+/** Words before a name that make it a person's: "President Biden" */
+const TITLES = new Set([
+	"mr",
+	"mrs",
+	"ms",
+	"miss",
+	"dr",
+	"sir",
+	"dame",
+	"lord",
+	"lady",
+	"president",
+	"vice",
+	"prime",
+	"minister",
+	"senator",
+	"governor",
+	"mayor",
+	"king",
+	"queen",
+	"prince",
+	"princess",
+	"pope",
+	"chancellor",
+	"professor",
+	"judge",
+	"general",
+	"captain",
+	"coach",
+	"ceo",
+]);
+
+const TITLE_GENDERS: Record<string, Gender> = {
+	mr: "male",
+	sir: "male",
+	lord: "male",
+	king: "male",
+	prince: "male",
+	mrs: "female",
+	ms: "female",
+	miss: "female",
+	dame: "female",
+	lady: "female",
+	queen: "female",
+	princess: "female",
+};
+
+const ORGANIZATION_WORDS = new Set([
+	"inc",
+	"corp",
+	"corporation",
+	"ltd",
+	"llc",
+	"plc",
+	"company",
+	"bank",
+	"university",
+	"party",
+	"group",
+	"association",
+	"foundation",
+	"council",
+	"ministry",
+	"agency",
+	"institute",
+	"fc",
+	"airlines",
+	"motors",
+]);
+
+const PLACE_WORDS = new Set([
+	"city",
+	"river",
+	"lake",
+	"mount",
+	"island",
+	"islands",
+	"county",
+	"state",
+	"states",
+	"republic",
+	"kingdom",
+	"mountains",
+	"valley",
+	"bay",
+	"sea",
+	"ocean",
+	"province",
+]);
+
+/** Words before a place: "born in Kenya" */
+const LOCATIVES = new Set([
+	"in",
+	"from",
+	"to",
+	"at",
+	"near",
+	"across",
+	"visited",
+	"visiting",
+]);
+
+/** Words after a person: "Obama said" */
+const PERSON_VERBS = new Set([
+	"said",
+	"says",
+	"told",
+	"thinks",
+	"believes",
+	"born",
+	"died",
+	"married",
+	"wrote",
+]);
+
+/** Nouns that refer back to an entity, and the kind they refer to */
+const REFERENCE_NOUNS: Record<string, EntityKind> = {
+	city: "place",
+	town: "place",
+	country: "place",
+	nation: "place",
+	state: "place",
+	region: "place",
+	place: "place",
+	island: "place",
+	company: "organization",
+	firm: "organization",
+	business: "organization",
+	organisation: "organization",
+	organization: "organization",
+	party: "organization",
+	team: "organization",
+	club: "organization",
+	bank: "organization",
+	agency: "organization",
+	man: "person",
+	woman: "person",
+	guy: "person",
+	person: "person",
+	politician: "person",
+	actor: "person",
+	actress: "person",
+	player: "person",
+	singer: "person",
+};
+
+const NOUN_REFERENCE = new RegExp(
+	`\\b(this|that|these|those|the)\\s+(${Object.keys(REFERENCE_NOUNS).join("|")})\\b`,
+	"gi",
+);
+
+/** "Lagos is the biggest city…" */
+const DESCRIBED_AS = new RegExp(
+	`^(is|was)\\s+(a|an|the)\\s+(\\S+\\s+){0,3}?(${Object.keys(REFERENCE_NOUNS).join("|")})\\b`,
+	"i",
+);
+
+const PERSONAL_PRONOUN = /\b(he|she|him|his|her)\b/gi;
+
+const PRONOUN_GENDERS: Record<string, Gender> = {
+	he: "male",
+	him: "male",
+	his: "male",
+	she: "female",
+	her: "female",
+};
+
+/** "It" or "Its" opening a statement */
+const OPENING_IT = /^(it|its)\b/i;
+
+/** "It is clear that…", "It seems…", "It's raining" */
+const EXPLETIVE_IT =
+	/^it\s+(((is|was|'s|’s)\s+(\w+\s+)?(that|to)\b)|seems|appears|is raining|'s raining|’s raining)/i;
+
+/** Words after "her" that make it an object, not a possessive */
+const AFTER_OBJECT =
+	/^\s*([,.;:!?]|$|(a|an|the|to|in|on|at|and|that|as|for|with|from)\b)/i;
+
+/**
+ * References only a model can resolve: "they", and "there" unless it
+ * opens a clause ("There are 50 states")
+ */
+const OTHER_REFERENCES =
+	/\b(they|them|their)\b|(?<!^\s*|[,;]\s*|\b(and|but|so|if|when|because)\s+)\bthere\b/i;
+
+/**
+ * The people, places and organisations a statement names, in order
+ */
+export function extractEntities(text: string): TrackedEntity[] {
+	const words = text.split(/\s+/).filter(Boolean);
+	const entities: TrackedEntity[] = [];
+
+	let i = 0;
+	while (i < words.length) {
+		const run: string[] = [];
+		let j = i;
+		while (j < words.length) {
+			const word = bare(words[j]);
+			const connects =
+				run.length > 0 &&
+				CONNECTORS.has(word) &&
+				j + 1 < words.length &&
+				isName(bare(words[j + 1]));
+			if (!isName(word) && !connects) break;
+			run.push(word);
+			j += 1;
+			if (endsPhrase(words[j - 1])) break;
+		}
+
+		if (run.length === 0) {
+			i += 1;
+			continue;
+		}
+		const entity = toEntity(
+			run,
+			bare(words[i - 1] ?? "").toLowerCase(),
+			words.slice(j).join(" "),
+		);
+		if (entity) entities.push(entity);
+		i = j;
+	}
+	return entities;
+}
+
+/**
+ * Add a statement's entities to those tracked so far
+ * Entities are kept most recently mentioned first, and the first one a
+ * statement names comes first among its own.
+ */
+export function trackEntities(
+	tracked: TrackedEntity[],
+	statement: string,
+	limit = 20,
+): TrackedEntity[] {
+	const mentioned: TrackedEntity[] = [];
+	let rest = [...tracked];
+
+	for (const mention of extractEntities(statement)) {
+		const known =
+			mentioned.find((e) => sameEntity(e, mention)) ??
+			rest.find((e) => sameEntity(e, mention));
+		rest = rest.filter((e) => e !== known);
+		const merged = known ? mergeEntities(known, mention) : mention;
+		const index = known ? mentioned.indexOf(known) : -1;
+		if (index === -1) mentioned.push(merged);
+		else mentioned[index] = merged;
+	}
+
+	return [...mentioned, ...rest].slice(0, limit);
+}
+
+/**
+ * Whether a statement refers back to something said before it
+ */
+export function hasReferences(statement: string): boolean {
+	return (
+		findReferences(statement).length > 0 || OTHER_REFERENCES.test(statement)
+	);
+}
+
+/**
+ * Replace a statement's pronouns and references like "that city" with
+ * the tracked entities they most likely stand for
+ *
+ * "that city" stands for the most recent place, "the company" for the
+ * most recent organisation. "he" and "she" stand for the most recent
+ * person not known to be of the other gender, and "it" (only opening a
+ * statement) for the most recent place or organisation; failing those,
+ * for the most recent entity whose kind is unknown. A reference is left
+ * alone when the statement itself names a fitting entity before it, as in
+ * "Obama said he was born in Hawaii", or when nothing fits.
+ */
+export function resolveReferences(
+	statement: string,
+	tracked: TrackedEntity[],
+): StandaloneClaim {
+	const resolutions: ResolvedReference[] = [];
+	let standalone = statement;
+
+	// Replace from the end so earlier indices stay valid
+	for (const reference of findReferences(statement).reverse()) {
+		const named = extractEntities(statement.slice(0, reference.index));
+		if (named.some((e) => fits(e, reference))) continue;
+
+		const entity =
+			tracked.find((e) => e.kind !== "other" && fits(e, reference)) ??
+			tracked.find((e) => e.kind === "other" && fits(e, reference));
+		if (!entity) continue;
+
+		const replacement = reference.possessive ? `${entity.name}'s` : entity.name;
+		standalone =
+			standalone.slice(0, reference.index) +
+			replacement +
+			standalone.slice(reference.index + reference.text.length);
+		resolutions.unshift({ reference: reference.text, entity: entity.name });
+	}
+
+	return { original: statement, standalone, resolutions };
+}
+
+/**
+ * Describe tracked entities for a prompt, e.g. "Barack Obama (person)"
+ */
+export function describeEntities(entities: TrackedEntity[]): string {
+	return entities
+		.map((e) => (e.kind === "other" ? e.name : `${e.name} (${e.kind})`))
+		.join(", ");
+}
+
+interface Reference {
+	text: string;
+	index: number;
+	/** Kinds of entity it can stand for */
+	kinds: EntityKind[];
+	gender?: Gender;
+	possessive: boolean;
+}
+
+function findReferences(statement: string): Reference[] {
+	const references: Reference[] = [];
+
+	for (const match of statement.matchAll(NOUN_REFERENCE)) {
+		const kind = REFERENCE_NOUNS[match[2].toLowerCase()];
+		// "the president" can mean whoever holds the office now
+		if (match[1].toLowerCase() === "the" && kind === "person") continue;
+		references.push({
+			text: match[0],
+			index: match.index,
+			kinds: [kind],
+			possessive: false,
+		});
+	}
+
+	for (const match of statement.matchAll(PERSONAL_PRONOUN)) {
+		const pronoun = match[1].toLowerCase();
+		const after = statement.slice(match.index + match[0].length);
+		references.push({
+			text: match[0],
+			index: match.index,
+			kinds: ["person", "other"],
+			gender: PRONOUN_GENDERS[pronoun],
+			possessive:
+				pronoun === "his" || (pronoun === "her" && !AFTER_OBJECT.test(after)),
+		});
+	}
+
+	const opening = statement.match(OPENING_IT);
+	if (opening && !EXPLETIVE_IT.test(statement)) {
+		references.push({
+			text: opening[0],
+			index: 0,
+			kinds: ["place", "organization", "other"],
+			possessive: opening[0].toLowerCase() === "its",
+		});
+	}
+
+	return references.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * An entity from a run of capitalised words, its kind guessed from its
+ * title, its own words or the words around it
+ */
+function toEntity(
+	run: string[],
+	before: string,
+	rest: string,
+): TrackedEntity | null {
+	let words = run;
+	let titled = false;
+	let gender: Gender | undefined;
+	while (words.length > 1 && TITLES.has(words[0].toLowerCase())) {
+		gender ??= TITLE_GENDERS[words[0].toLowerCase()];
+		words = words.slice(1);
+		titled = true;
+	}
+	if (words.length === 1 && TITLES.has(words[0].toLowerCase())) return null;
+
+	const name = words.join(" ");
+	const first = words[0].toLowerCase();
+	const last = words[words.length - 1].toLowerCase();
+
+	const after = bare(rest.split(/\s+/)[0] ?? "").toLowerCase();
+	const described = rest.match(DESCRIBED_AS)?.[4].toLowerCase();
+
+	let kind: EntityKind = "other";
+	if (titled || PERSON_VERBS.has(after)) kind = "person";
+	else if (described) kind = REFERENCE_NOUNS[described];
+	else if (
+		ORGANIZATION_WORDS.has(first) ||
+		ORGANIZATION_WORDS.has(last) ||
+		/^[A-Z]{2,}$/.test(name)
+	) {
+		kind = "organization";
+	} else if (
+		PLACE_WORDS.has(first) ||
+		PLACE_WORDS.has(last) ||
+		LOCATIVES.has(before)
+	) {
+		kind = "place";
+	}
+	return gender ? { name, kind, gender } : { name, kind };
+}
+
+/** Same name, or one name ends the other: "Obama" and "Barack Obama" */
+function sameEntity(a: TrackedEntity, b: TrackedEntity): boolean {
+	if (a.kind !== b.kind && a.kind !== "other" && b.kind !== "other") {
+		return false;
+	}
+	const x = a.name.toLowerCase().split(" ");
+	const y = b.name.toLowerCase().split(" ");
+	const [shorter, longer] = x.length <= y.length ? [x, y] : [y, x];
+	return shorter.every(
+		(word, i) => word === longer[longer.length - shorter.length + i],
+	);
+}
+
+function mergeEntities(a: TrackedEntity, b: TrackedEntity): TrackedEntity {
+	const merged: TrackedEntity = {
+		name: b.name.length > a.name.length ? b.name : a.name,
+		kind: a.kind === "other" ? b.kind : a.kind,
+	};
+	const gender = a.gender ?? b.gender;
+	return gender ? { ...merged, gender } : merged;
+}
+
+function fits(entity: TrackedEntity, reference: Reference): boolean {
+	return (
+		reference.kinds.includes(entity.kind) &&
+		!(reference.gender && entity.gender && reference.gender !== entity.gender)
+	);
+}
+
+function isName(word: string): boolean {
+	return (
+		/^[A-Z][\p{L}.'’-]*$/u.test(word) && !NOT_NAMES.has(word.toLowerCase())
+	);
+}
+
+/** A word without surrounding punctuation or a possessive "'s" */
+function bare(word: string): string {
+	return word
+		.replace(/^[^\p{L}\d]+|[^\p{L}\d.]+$/gu, "")
+		.replace(/['’]s$/, "")
+		.replace(/\.$/, "");
+}
+
+/** Punctuation or a possessive ends a name: "Obama's", "Paris," */
+function endsPhrase(word: string): boolean {
+	return /[,.;:!?)"”]$|['’]s$/.test(word);
+}
@@ -0,0 +1,47 @@
+/**
+ * CSV parsing
+ *
+ * Knowledge bases and fact sheets are imported as CSV exported from
+ * spreadsheets. This reader handles the quoting spreadsheets use.
+ */
+
+/**
+ * Rows of cells, honouring quoted cells with commas, quotes and newlines
+ * Blank lines are skipped
+ */
+export function parseCsvRows(text: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let cell = "";
+	let quoted = false;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(cell);
+			cell = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[i + 1] === "\n") i++;
+			row.push(cell);
+			if (row.some((value) => value.trim())) rows.push(row);
+			row = [];
+			cell = "";
+		} else {
+			cell += char;
+		}
+	}
+	row.push(cell);
+	if (row.some((value) => value.trim())) rows.push(row);
+	return rows;
+}
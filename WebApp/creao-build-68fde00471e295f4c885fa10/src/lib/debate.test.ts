@@ -0,0 +1,59 @@
+import {
+	debateLabel,
+	debatePrompt,
+	hasRevised,
+	isSplitDecision,
+	toDebatePeer,
+} from "@/lib/debate";
+import type { AgentVerdict, VerificationAgent } from "@/services/agents/types";
+import { describe, expect, it } from "vitest";
+
+const vote = (
+	verdict: AgentVerdict,
+	status: VerificationAgent["status"] = "voted",
+): VerificationAgent => ({ name: "Agent", status, verdict, confidence: 0.8 });
+
+describe("isSplitDecision", () => {
+	it("is split when some agents vote true and others false", () => {
+		expect(isSplitDecision([vote("true"), vote("false")])).toBe(true);
+		expect(
+			isSplitDecision([vote("true"), vote("inconclusive"), vote("true")]),
+		).toBe(false);
+	});
+
+	it("only counts agents that voted", () => {
+		expect(isSplitDecision([vote("true"), vote("false", "errored")])).toBe(
+			false,
+		);
+	});
+});
+
+describe("hasRevised", () => {
+	it("notices a changed verdict or rating", () => {
+		const before: VerificationAgent = { ...vote("false"), rating: "false" };
+		expect(hasRevised(before, { ...before, confidence: 0.4 })).toBe(false);
+		expect(hasRevised(before, { ...before, rating: "misleading" })).toBe(true);
+		expect(hasRevised(before, { ...vote("true"), rating: "true" })).toBe(true);
+	});
+});
+
+describe("debatePrompt", () => {
+	it("shows the agent its answer and the others' under their labels", () => {
+		const agents: VerificationAgent[] = [
+			{ ...vote("true"), reasoning: "Encyclopedias agree" },
+			{ ...vote("false"), rating: "misleading" },
+		];
+		const prompt = debatePrompt({
+			round: 2,
+			previous: toDebatePeer(agents[1], 1),
+			peers: [toDebatePeer(agents[0], 0)],
+		});
+
+		expect(debateLabel(27)).toBe("Agent B");
+		expect(prompt).toContain("round 2");
+		expect(prompt).toContain("as Agent B: Misleading (confidence 0.80)");
+		expect(prompt).toContain("Agent A: True (confidence 0.80)");
+		expect(prompt).toContain("Encyclopedias agree");
+		expect(prompt).toContain("No reasoning given");
+	});
+});
@@ -0,0 +1,103 @@
+import { delimitUntrusted, untrustedDataNotice } from "@/lib/prompt-safety";
+import { RATING_LABELS, ratingForVerdict } from "@/lib/verdict-scale";
+import type {
+	DebateContext,
+	DebatePeer,
+	VerificationAgent,
+} from "@/services/agents/types";
+
+/**
+ * Agent debate
+ *
+ * When agents split between true and false, the agents that can debate are
+ * shown each other's anonymised answers and asked to reconsider, for a few
+ * rounds or until they agree. The transcript is kept with the result.
+ */
+
+/**
+ * Agent answers after one round of a debate
+ * Round 0 holds the opening votes
+ */
+export interface DebateRound {
+	round: number;
+	/** Every agent's latest answer, in provider order */
+	agents: VerificationAgent[];
+	/** Agents that changed their verdict or rating this round */
+	revised: string[];
+}
+
+/**
+ * Why a debate stopped
+ * - agreement: agents no longer split between true and false
+ * - stalemate: a round passed with no agent changing its answer
+ * - max_rounds: the round limit was reached while still split
+ */
+export type DebateEnding = "agreement" | "stalemate" | "max_rounds";
+
+export interface DebateTranscript {
+	rounds: DebateRound[];
+	ending: DebateEnding;
+}
+
+/**
+ * Whether voting agents disagree on whether a statement is true
+ */
+export function isSplitDecision(agents: VerificationAgent[]): boolean {
+	const voters = agents.filter((agent) => agent.status === "voted");
+	return (
+		voters.some((agent) => agent.verdict === "true") &&
+		voters.some((agent) => agent.verdict === "false")
+	);
+}
+
+/**
+ * Anonymous name for the agent at a position, e.g. "Agent B"
+ */
+export function debateLabel(index: number): string {
+	return `Agent ${String.fromCharCode(65 + (index % 26))}`;
+}
+
+/**
+ * An agent's answer as shown in a debate
+ */
+export function toDebatePeer(
+	agent: VerificationAgent,
+	index: number,
+): DebatePeer {
+	return {
+		label: debateLabel(index),
+		verdict: agent.verdict,
+		rating: agent.rating,
+		confidence: agent.confidence,
+		reasoning: agent.reasoning,
+	};
+}
+
+/**
+ * Whether an agent's answer differs from its previous one
+ */
+export function hasRevised(
+	before: VerificationAgent,
+	after: VerificationAgent,
+): boolean {
+	return before.verdict !== after.verdict || before.rating !== after.rating;
+}
+
+const describePeer = (peer: DebatePeer) =>
+	`${peer.label}: ${RATING_LABELS[peer.rating ?? ratingForVerdict(peer.verdict)]} (confidence ${peer.confidence.toFixed(2)})\n${delimitUntrusted(peer.reasoning ?? "No reasoning given", "reasoning")}`;
+
+/**
+ * Instruction asking an agent to reconsider its answer, for agent prompts
+ */
+export function debatePrompt(debate: DebateContext): string {
+	return `Other fact-checkers disagreed with you about this statement. This is round ${debate.round} of a debate between you.
+
+Your previous answer, as ${describePeer(debate.previous)}
+
+The other fact-checkers answered:
+${debate.peers.map(describePeer).join("\n\n")}
+
+${untrustedDataNotice("reasoning")}
+
+Reconsider the statement in light of their arguments. Change your rating only if their reasoning or evidence convinces you; do not simply side with the majority. Explain in your reasoning what did or did not convince you.`;
+}
@@ -0,0 +1,118 @@
+import {
+	FactSheetImportError,
+	matchFactSheet,
+	parseFactSheetCsv,
+	parseFactSheetMarkdown,
+} from "@/lib/fact-sheet";
+import { describe, expect, it } from "vitest";
+
+const entries = [
+	{ topic: "Q3 revenue", value: "$4M" },
+	{ topic: "Launch date", value: "March 3" },
+	{ topic: "Headcount", value: "120" },
+	{ topic: "Launch city", value: "Berlin" },
+	{ topic: "CEO", value: "Jane Smith" },
+];
+
+describe("parseFactSheetMarkdown", () => {
+	it("reads list items, tables and the sheet name", () => {
+		const sheet = parseFactSheetMarkdown(
+			[
+				"# Board meeting",
+				"",
+				"- **Q3 revenue**: $4M",
+				"* Launch date — March 3",
+				"",
+				"| Topic | Value |",
+				"|-------|-------|",
+				"| Headcount | 120 |",
+				"Notes that aren't facts are ignored.",
+			].join("\n"),
+		);
+		expect(sheet).toEqual({
+			name: "Board meeting",
+			entries: [
+				{ topic: "Q3 revenue", value: "$4M" },
+				{ topic: "Launch date", value: "March 3" },
+				{ topic: "Headcount", value: "120" },
+			],
+		});
+	});
+
+	it("rejects files without facts", () => {
+		expect(() => parseFactSheetMarkdown("# Empty\nJust prose.")).toThrow(
+			FactSheetImportError,
+		);
+	});
+});
+
+describe("parseFactSheetCsv", () => {
+	it("reads topic and value columns", () => {
+		expect(
+			parseFactSheetCsv('topic,fact\n"Q3 revenue","$4,000,000"\n,\n'),
+		).toEqual([{ topic: "Q3 revenue", value: "$4,000,000" }]);
+	});
+});
+
+describe("matchFactSheet", () => {
+	it.each([
+		["Our Q3 revenue was $4M", true],
+		["Q3 revenue came in at 4 million dollars", true],
+		["Our Q3 revenue was $5M", false],
+		["Q3 revenue was not $4M", false],
+		["The launch is on March 3", true],
+		["The launch is on March 10", false],
+		["We're launching in April, the launch is in April", false],
+		["Headcount is 150", false],
+		["The launch city is Paris", false],
+		["The launch city is Berlin", true],
+		["Our CEO is Jane Smith", true],
+		["The CEO is Bob Jones", false],
+		["The CEO isn't Jane Smith", false],
+		["Q3 revenue was $4M, up from $3M in Q2", true],
+		["Our Q3 revenue was 4,000,000", true],
+		["Our Q3 revenue was 5,000,000", false],
+	])("reads %s as %s", (statement, agrees) => {
+		expect(matchFactSheet(statement, entries)?.agrees).toBe(agrees);
+	});
+
+	it("prefers the most specific topic", () => {
+		expect(
+			matchFactSheet("The launch city is Berlin", entries)?.entry.topic,
+		).toBe("Launch city");
+	});
+
+	it("reads thousands separators as part of the number", () => {
+		expect(
+			matchFactSheet("Our Q3 revenue was 4,000,000", entries)?.unambiguous,
+		).toBe(true);
+	});
+
+	it("is unambiguous only for statements that say nothing else", () => {
+		expect(matchFactSheet("Headcount is 150", entries)?.unambiguous).toBe(true);
+		expect(
+			matchFactSheet("Headcount is 150, and revenue doubled", entries)
+				?.unambiguous,
+		).toBe(false);
+	});
+
+	it.each([
+		["Revenue grew this year"],
+		["The launch may slip"],
+		["Q3 revenue was strong"],
+		["Q3 revenue grew 20% over Q2 to $4M"],
+		["the CEO of Google is Sundar Pichai"],
+		["our CEO met with Bob yesterday"],
+		["we hired 30 people, bringing headcount to 120"],
+		["the launch party is on Friday March 10"],
+		["Q3 revenue was $4M not $5M"],
+		["It's not true that headcount is 120"],
+		["Headcount was 120 in March and 150 in June"],
+		["Our CEO is Jane"],
+		["The launch was delayed from March 3"],
+		["The launch was pushed back to March 10"],
+		["Q3 revenue is growing toward $4M"],
+	])("has no verdict for %s", (statement) => {
+		expect(matchFactSheet(statement, entries)).toBeNull();
+	});
+});
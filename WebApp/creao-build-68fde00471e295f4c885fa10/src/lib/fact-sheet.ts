@@ -0,0 +1,439 @@
+import { claimTokens, normalizeClaim } from "@/lib/claim-text";
+import { parseCsvRows } from "@/lib/csv";
+
+/**
+ * Session fact sheets
+ *
+ * In a meeting, what counts as true is often internal: "our Q3 revenue
+ * was $4M", "the launch is on March 3". A fact sheet lists these ground
+ * truths as topic-value pairs. These helpers parse fact sheets written in
+ * Markdown or CSV and check what a statement says about a topic.
+ */
+
+export interface FactSheetEntry {
+	/** What the fact is about, e.g. "Q3 revenue" */
+	topic: string;
+	/** e.g. "$4M" or "March 3" */
+	value: string;
+}
+
+/**
+ * A named, reusable fact sheet
+ */
+export interface FactSheetTemplate {
+	id: string;
+	name: string;
+	entries: FactSheetEntry[];
+	updatedAt: string;
+}
+
+/**
+ * The fact sheet entry a statement is about, and whether it agrees
+ */
+export interface FactSheetMatch {
+	entry: FactSheetEntry;
+	agrees: boolean;
+	/** The statement is a single clause about the entry, and says nothing else */
+	unambiguous: boolean;
+}
+
+export class FactSheetImportError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "FactSheetImportError";
+	}
+}
+
+/** Words a topic can be mentioned with or without */
+const POSSESSIVES = new Set(["our", "my", "your", "their", "its", "we"]);
+/** Words a topic can leave unsaid: "the launch is on March 3" is about "Launch date" */
+const GENERIC_TOPIC_WORDS = new Set([
+	"date",
+	"day",
+	"number",
+	"amount",
+	"total",
+	"figure",
+	"count",
+]);
+const NEGATIONS = new Set(["not", "no", "never"]);
+/** Verbs that link a topic to its value: "Q3 revenue was $4M" */
+const LINKING_VERBS = new Set([
+	"is",
+	"are",
+	"was",
+	"were",
+	"will",
+	"would",
+	"has",
+	"had",
+	"came",
+	"comes",
+	"stands",
+	"stood",
+	"remains",
+	"remained",
+	"totals",
+	"totaled",
+	"totalled",
+	"equals",
+]);
+/** Words between a linking verb and the value: "will be on", "came in at" */
+const LINK_WORDS = new Set([
+	"be",
+	"been",
+	"in",
+	"at",
+	"on",
+	"of",
+	"for",
+	"set",
+	"scheduled",
+	"still",
+	"now",
+	"about",
+	"around",
+	"roughly",
+	"approximately",
+	"exactly",
+	"just",
+]);
+const ARTICLES = new Set(["the", "a", "an"]);
+/** Irregular participles: "the launch was put back to May" */
+const PARTICIPLES = new Set([
+	"brought",
+	"cut",
+	"done",
+	"given",
+	"held",
+	"kept",
+	"left",
+	"made",
+	"pushed",
+	"put",
+	"taken",
+]);
+/** Where one clause of a spoken statement ends and another starts */
+const CLAUSE_BREAK =
+	/[,;:!?]|\.(?!\d)|\s(?:and|but|while|whereas|because|so|although)\s/i;
+const MONTHS = [
+	"january",
+	"february",
+	"march",
+	"april",
+	"may",
+	"june",
+	"july",
+	"august",
+	"september",
+	"october",
+	"november",
+	"december",
+];
+const SCALES: Record<string, number> = {
+	k: 1e3,
+	thousand: 1e3,
+	m: 1e6,
+	mm: 1e6,
+	million: 1e6,
+	b: 1e9,
+	bn: 1e9,
+	billion: 1e9,
+};
+
+/**
+ * A fact sheet entry in one line, e.g. "Q3 revenue: $4M"
+ */
+export function describeEntry(entry: FactSheetEntry): string {
+	return `${entry.topic}: ${entry.value}`;
+}
+
+/**
+ * Parse a Markdown fact sheet
+ *
+ * Facts are list items ("- Q3 revenue: $4M") or rows of a two-column
+ * table; a "# Heading" names the sheet. Other lines are ignored.
+ */
+export function parseFactSheetMarkdown(text: string): {
+	name?: string;
+	entries: FactSheetEntry[];
+} {
+	let name: string | undefined;
+	const entries: FactSheetEntry[] = [];
+
+	for (const line of text.split(/\r?\n/).map((l) => l.trim())) {
+		const heading = line.match(/^#{1,6}\s+(.+)$/);
+		if (heading) {
+			name ??= heading[1].trim();
+			continue;
+		}
+
+		if (line.startsWith("|")) {
+			const cells = line
+				.replace(/^\||\|$/g, "")
+				.split("|")
+				.map((cell) => stripMarkdown(cell));
+			const isSeparator = cells.every((cell) => /^:?-*:?$/.test(cell));
+			const isHeader = /^(topic|subject|fact|item)$/i.test(cells[0] ?? "");
+			if (!isSeparator && !isHeader && cells[0] && cells[1]) {
+				entries.push({ topic: cells[0], value: cells[1] });
+			}
+			continue;
+		}
+
+		const item = line.match(/^(?:[-*+]|\d+[.)])\s+(.+)$/);
+		if (!item) continue;
+		const pair = stripMarkdown(item[1]).match(/^(.+?)(?::\s+|\s+[—–]\s+)(.+)$/);
+		if (pair) entries.push({ topic: pair[1].trim(), value: pair[2].trim() });
+	}
+
+	if (entries.length === 0) {
+		throw new FactSheetImportError(
+			'No facts found; write them as "- Topic: value" list items or table rows',
+		);
+	}
+	return { name, entries };
+}
+
+/**
+ * Parse a CSV fact sheet with a header row
+ * Needs a topic column and a value (or fact) column
+ */
+export function parseFactSheetCsv(text: string): FactSheetEntry[] {
+	const [header, ...rows] = parseCsvRows(text);
+	if (!header) throw new FactSheetImportError("The file is empty");
+
+	const columns = header.map((name) => name.trim().toLowerCase());
+	const topic = columns.indexOf("topic");
+	const value = columns.findIndex(
+		(name) => name === "value" || name === "fact",
+	);
+	if (topic === -1 || value === -1) {
+		throw new FactSheetImportError('Needs "topic" and "value" columns');
+	}
+
+	return rows.flatMap((cells) => {
+		const entry = {
+			topic: cells[topic]?.trim() ?? "",
+			value: cells[value]?.trim() ?? "",
+		};
+		return entry.topic && entry.value ? [entry] : [];
+	});
+}
+
+/**
+ * Find the fact sheet entry a statement makes a claim about
+ *
+ * Each clause of the statement is read as topic, linking verb, value:
+ * "Our Q3 revenue was $4M", "The launch is on March 3". The topic must be
+ * the clause's subject, with its generic words like "date" optional, and
+ * the entry with the most specific topic wins. What follows the verb is
+ * compared with the value:
+ * - numbers, amounts ("$4M", "4 million") and months must be the value's;
+ *   more of them than the value has can't be tied to the topic
+ * - text values agree when all their words are there, and disagree when
+ *   the clause names something else (a capitalised word that isn't one
+ *   of the value's) in their place
+ * A negation of the verb ("was not") flips the result. Null when no clause
+ * has that shape, e.g. "Q3 revenue grew 20% to $4M", "the CEO of Google
+ * is ...", "the launch was delayed from March 3", or when a negation
+ * applies to something else.
+ */
+export function matchFactSheet(
+	statement: string,
+	entries: FactSheetEntry[],
+): FactSheetMatch | null {
+	// "4,000,000" is one number, not two clauses
+	const joined = statement.replace(/(\d),(?=\d{3}\b)/g, "$1");
+	const words = normalizeClaim(joined).split(" ").filter(Boolean);
+	const clauses = joined
+		.split(CLAUSE_BREAK)
+		.map((clause) => normalizeClaim(clause).split(" ").filter(Boolean))
+		.filter((clause) => clause.length > 0);
+	const capitalised = new Set(
+		joined
+			.split(/\s+/)
+			.filter((word) => /^[A-Z]/.test(word))
+			.flatMap((word) => normalizeClaim(word).split(" ")),
+	);
+
+	const candidates = entries
+		.map((entry) => ({ entry, topic: topicWords(entry.topic) }))
+		.filter(
+			({ topic }) =>
+				topic.length > 0 &&
+				topic.every((word) => words.some((w) => sameWord(w, word))),
+		)
+		.sort((a, b) => b.topic.length - a.topic.length);
+
+	for (const { entry } of candidates) {
+		for (const clause of clauses) {
+			const predicate = readPredicate(
+				clause,
+				orderedTopicWords(entry.topic),
+				capitalised,
+			);
+			if (!predicate) continue;
+			const agrees = compareWithValue(
+				entry.value,
+				predicate.value,
+				capitalised,
+			);
+			if (agrees === null) continue;
+			return {
+				entry,
+				agrees: agrees !== predicate.negated,
+				unambiguous: clauses.length === 1,
+			};
+		}
+	}
+	return null;
+}
+
+/**
+ * What a clause says its topic is: the words after the linking verb, and
+ * whether the verb is negated
+ * Null when the topic isn't the clause's subject, the verb is an
+ * auxiliary ("was delayed from March 3") or a negation applies to
+ * something other than the verb
+ */
+function readPredicate(
+	clause: string[],
+	topic: { word: string; required: boolean }[],
+	capitalised: Set<string>,
+): { value: string[]; negated: boolean } | null {
+	for (let start = 0; start < clause.length; start++) {
+		let end = start;
+		for (const { word, required } of topic) {
+			if (sameWord(clause[end] ?? "", word)) end += 1;
+			else if (required) {
+				end = -1;
+				break;
+			}
+		}
+		if (end <= start) continue;
+
+		if (!LINKING_VERBS.has(clause[end])) return null;
+		let i = end + 1;
+		let negated = false;
+		while (
+			i < clause.length &&
+			(LINK_WORDS.has(clause[i]) || NEGATIONS.has(clause[i]))
+		) {
+			if (NEGATIONS.has(clause[i])) negated = !negated;
+			i += 1;
+		}
+		const value = clause.slice(i);
+		const elsewhere = [...clause.slice(0, start), ...value];
+		if (
+			value.length === 0 ||
+			isVerbForm(value[0], capitalised) ||
+			elsewhere.some((w) => NEGATIONS.has(w))
+		) {
+			return null;
+		}
+		return { value, negated };
+	}
+	return null;
+}
+
+function compareWithValue(
+	value: string,
+	predicate: string[],
+	capitalised: Set<string>,
+): boolean | null {
+	const valueWords = normalizeClaim(value).split(" ").filter(Boolean);
+	const expected = quantities(valueWords);
+	const expectedMonths = months(valueWords);
+
+	if (expected.length > 0 || expectedMonths.length > 0) {
+		const stated = quantities(predicate);
+		const statedMonths = months(predicate);
+		if (stated.length === 0 && statedMonths.length === 0) return null;
+		if (
+			stated.length > expected.length ||
+			statedMonths.length > expectedMonths.length
+		) {
+			return null;
+		}
+		return (
+			stated.every((number) =>
+				expected.some((e) => Math.abs(e - number) <= Math.abs(e) * 1e-9),
+			) && statedMonths.every((month) => expectedMonths.includes(month))
+		);
+	}
+
+	const valueTokens = [...claimTokens(valueWords.join(" "))];
+	const tokens = claimTokens(predicate.join(" "));
+	if (valueTokens.length === 0) return null;
+	if (valueTokens.every((word) => tokens.has(word))) return true;
+	// Only a name right after the verb stands in the value's place; part
+	// of the value ("Jane" for "Jane Smith") is neither
+	const first = predicate.find((word) => !ARTICLES.has(word)) ?? "";
+	return capitalised.has(first) && !valueTokens.includes(first) ? false : null;
+}
+
+/** A participle or gerund, "delayed" or "growing", rather than a value */
+function isVerbForm(word: string, capitalised: Set<string>): boolean {
+	if (capitalised.has(word) || MONTHS.includes(word) || /\d/.test(word)) {
+		return false;
+	}
+	return PARTICIPLES.has(word) || /..(ed|ing)$/.test(word);
+}
+
+/** Numbers in a list of words, with "4M" and "4 million" read as 4000000 */
+function quantities(words: string[]): number[] {
+	const numbers: number[] = [];
+	for (const [i, word] of words.entries()) {
+		const match = word.match(/^(\d+(?:\.\d+)?)(k|m|mm|b|bn|st|nd|rd|th|%)?$/);
+		if (!match) continue;
+		const scale = SCALES[match[2] ?? ""] ?? SCALES[words[i + 1]] ?? 1;
+		numbers.push(Number(match[1]) * scale);
+	}
+	return numbers;
+}
+
+/** Month names, with "may" only next to a number ("May 3", "3 May") */
+function months(words: string[]): string[] {
+	return words.filter(
+		(word, i) =>
+			MONTHS.includes(word) &&
+			(word !== "may" ||
+				/^\d/.test(words[i + 1] ?? "") ||
+				/^\d/.test(words[i - 1] ?? "")),
+	);
+}
+
+/**
+ * A topic's words in order, with generic ones optional unless that's all
+ * there is
+ */
+function orderedTopicWords(
+	topic: string,
+): { word: string; required: boolean }[] {
+	const words = [...claimTokens(normalizeClaim(topic))].filter(
+		(word) => !POSSESSIVES.has(word),
+	);
+	const allGeneric = words.every((word) => GENERIC_TOPIC_WORDS.has(word));
+	return words.map((word) => ({
+		word,
+		required: allGeneric || !GENERIC_TOPIC_WORDS.has(word),
+	}));
+}
+
+function topicWords(topic: string): string[] {
+	const words = [...claimTokens(normalizeClaim(topic))].filter(
+		(word) => !POSSESSIVES.has(word),
+	);
+	const specific = words.filter((word) => !GENERIC_TOPIC_WORDS.has(word));
+	return specific.length > 0 ? specific : words;
+}
+
+/** Same word, or its plural */
+function sameWord(a: string, b: string): boolean {
+	return a === b || a === `${b}s` || b === `${a}s`;
+}
+
+function stripMarkdown(text: string): string {
+	return text.replace(/\*\*|__|`/g, "").trim();
+}
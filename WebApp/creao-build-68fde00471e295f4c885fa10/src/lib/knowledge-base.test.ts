@@ -0,0 +1,111 @@
+import { rateCitation } from "@/lib/citations";
+import {
+	KnowledgeImportError,
+	factCitation,
+	parseKnowledgeCsv,
+	parseKnowledgeJson,
+} from "@/lib/knowledge-base";
+import KnowledgeBaseService from "@/services/knowledge-base";
+import { describe, expect, it } from "vitest";
+
+describe("parseKnowledgeCsv", () => {
+	it("reads quoted cells, aliases and optional columns", () => {
+		const facts = parseKnowledgeCsv(
+			[
+				"Entity,Attribute,Value,Aliases,Tolerance,As Of",
+				'"Washington, D.C.",population,678972,DC|Washington DC,0.02,2023',
+				"Kenya,capital,Nairobi,,,",
+			].join("\r\n"),
+		);
+		expect(facts).toEqual([
+			{
+				entity: "Washington, D.C.",
+				attribute: "population",
+				value: "678972",
+				aliases: ["DC", "Washington DC"],
+				tolerance: 0.02,
+				asOf: "2023",
+			},
+			{ entity: "Kenya", attribute: "capital", value: "Nairobi" },
+		]);
+	});
+
+	it("rejects files without the required columns", () => {
+		expect(() => parseKnowledgeCsv("entity,value\nKenya,Nairobi")).toThrow(
+			KnowledgeImportError,
+		);
+	});
+});
+
+describe("parseKnowledgeJson", () => {
+	it("accepts an array or a facts property", () => {
+		const fact = { entity: "Kenya", attribute: "capital", value: "Nairobi" };
+		expect(parseKnowledgeJson(JSON.stringify([fact]))).toEqual([fact]);
+		expect(parseKnowledgeJson(JSON.stringify({ facts: [fact] }))).toEqual([
+			fact,
+		]);
+	});
+
+	it("names the fact that is missing a field", () => {
+		expect(() =>
+			parseKnowledgeJson('[{ "entity": "Kenya", "attribute": "capital" }]'),
+		).toThrow("Fact 1 needs an entity, an attribute and a value");
+	});
+});
+
+describe("KnowledgeBaseService.match", () => {
+	KnowledgeBaseService.resetToDefaults();
+
+	it.each([
+		["Berlin is the capital of Germany", true],
+		["Paris is the capital of Germany", false],
+		["The capital of Australia is Sydney", false],
+		["Paris is not the capital of Germany", true],
+		["Berlin is not the capital of Germany", false],
+		["The capital of France is not Paris", false],
+		["Berlin is not the capital of France", true],
+		["France's capital city is Paris", true],
+		["Paris has about 2.1 million residents", true],
+		["Berlin has a population of 6 million", false],
+		["The Eiffel Tower was completed in 1889", true],
+		["Einstein was born in 1897", false],
+		["The Second World War ended in 1945", true],
+		["Mount Everest is 8,849 metres tall", true],
+	])("reads %s as %s", (statement, supported) => {
+		expect(KnowledgeBaseService.match(statement)?.supported).toBe(supported);
+	});
+
+	it.each([
+		["The capital of France is in Europe"],
+		["Mount Everest is 29,032 feet tall"],
+		["Germany won the World Cup in 2014"],
+		["Berlin is the capital of Germany, not Paris"],
+		["The capital of France is not Berlin"],
+	])("has no verdict for %s", (statement) => {
+		expect(KnowledgeBaseService.match(statement)).toBeNull();
+	});
+
+	it("uses imported facts in place of older ones", () => {
+		KnowledgeBaseService.importCsv(
+			"entity,attribute,value\nGermany,capital,Bonn",
+		);
+		expect(
+			KnowledgeBaseService.match("Bonn is the capital of Germany")?.supported,
+		).toBe(true);
+		KnowledgeBaseService.resetToDefaults();
+	});
+});
+
+describe("knowledge base citations", () => {
+	it("are trusted by citation validation", () => {
+		const citation = factCitation({
+			entity: "Germany",
+			attribute: "capital",
+			value: "Berlin",
+		});
+		expect(citation).toBe("Knowledge base: Germany — capital: Berlin");
+		expect(rateCitation(citation, { allowlist: [], denylist: [] }).tier).toBe(
+			"trusted",
+		);
+	});
+});
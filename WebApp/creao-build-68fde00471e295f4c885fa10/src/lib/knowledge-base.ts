@@ -0,0 +1,289 @@
+import { claimTokens, normalizeClaim } from "@/lib/claim-text";
+import { parseCsvRows } from "@/lib/csv";
+
+/**
+ * Knowledge base facts
+ *
+ * A knowledge base is a list of entity-attribute facts, like "France,
+ * capital, Paris", that a team curates and imports as JSON or CSV. These
+ * helpers parse the files and compare what a statement says about an
+ * entity with the recorded value.
+ */
+
+export interface KnowledgeFact {
+	/** What the fact is about, e.g. "France" */
+	entity: string;
+	/** e.g. "capital", "population", "founded" */
+	attribute: string;
+	/** Text, or a number written with digits */
+	value: string;
+	/** Other names for the entity, e.g. "WWII" */
+	aliases?: string[];
+	unit?: string;
+	/** Relative error still counted as a match for numbers; 1% by default */
+	tolerance?: number;
+	/** Link to where the fact comes from */
+	source?: string;
+	/** When the value was true, for facts that change */
+	asOf?: string;
+}
+
+export class KnowledgeImportError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "KnowledgeImportError";
+	}
+}
+
+/** Citations for knowledge base facts start with this */
+export const KNOWLEDGE_CITATION_PREFIX = "Knowledge base: ";
+
+const DEFAULT_TOLERANCE = 0.01;
+
+/**
+ * Words a statement uses for each well-known attribute
+ * Other attributes are recognised by their own name
+ */
+export const RELATION_PHRASES: Record<string, string[]> = {
+	capital: ["capital", "capital city"],
+	population: ["population", "inhabitants", "people", "residents"],
+	currency: ["currency"],
+	language: ["language", "official language", "speak", "spoken"],
+	continent: ["continent"],
+	founded: ["founded", "established"],
+	born: ["born"],
+	died: ["died"],
+	completed: ["completed", "built", "finished"],
+	opened: ["opened"],
+	ended: ["ended", "end"],
+	landed: ["landed", "landing"],
+	height: ["height", "tall", "high"],
+	area: ["area"],
+	length: ["length", "long"],
+};
+
+const UNIT_NAMES: Record<string, string[]> = {
+	m: ["m", "metre", "metres", "meter", "meters"],
+	km: ["km", "kilometre", "kilometres", "kilometer", "kilometers"],
+	ft: ["ft", "foot", "feet"],
+	mi: ["mi", "mile", "miles"],
+	kg: ["kg", "kilogram", "kilograms"],
+	km2: ["km2", "km²", "square"],
+};
+
+const LOCATIVES = new Set(["in", "near", "on", "at", "from", "outside"]);
+
+const SCALE_WORDS: Record<string, number> = {
+	thousand: 1e3,
+	million: 1e6,
+	billion: 1e9,
+	trillion: 1e12,
+};
+
+/**
+ * Normalised phrases that name an attribute in a statement
+ */
+export function relationPhrases(attribute: string): string[] {
+	const key = attribute.trim().toLowerCase();
+	return (
+		RELATION_PHRASES[key] ?? [normalizeClaim(key.replace(/_/g, " "))]
+	).filter(Boolean);
+}
+
+/**
+ * A fact in one line, e.g. "France — capital: Paris"
+ */
+export function describeFact(fact: KnowledgeFact): string {
+	const value = numericValue(fact.value);
+	const shown =
+		value !== null && !isYear(fact)
+			? value.toLocaleString("en-US")
+			: fact.value;
+	return `${fact.entity} — ${fact.attribute}: ${shown}${fact.unit ? ` ${fact.unit}` : ""}${fact.asOf ? ` (as of ${fact.asOf})` : ""}`;
+}
+
+/**
+ * The citation an agent gives for a fact
+ */
+export function factCitation(fact: KnowledgeFact): string {
+	return `${KNOWLEDGE_CITATION_PREFIX}${describeFact(fact)}`;
+}
+
+/**
+ * Whether what's left of a statement, once the entity and attribute are
+ * taken out, agrees with a fact
+ *
+ * Numbers are compared with the fact's tolerance (years must match
+ * exactly), unless the statement gives them in another unit. A text value
+ * agrees when all its words are there, and disagrees when the statement
+ * names something else in its place: one of the `alternatives` the caller
+ * knows of, or a capitalised name from the statement, unless it only says
+ * where the value is ("in Europe"). Null when the statement doesn't say
+ * what the value is.
+ *
+ * @param remainder Normalised words left over
+ * @param names Lower-cased words the statement capitalised
+ * @param alternatives Normalised values and entities the knowledge base knows
+ */
+export function compareWithFact(
+	fact: KnowledgeFact,
+	remainder: string[],
+	names: Set<string>,
+	alternatives: Set<string>,
+): boolean | null {
+	const expected = numericValue(fact.value);
+	if (expected !== null) {
+		const stated = firstNumber(remainder);
+		if (!stated) return null;
+		// "29,032 feet" says nothing about a height recorded in metres
+		if (
+			fact.unit &&
+			stated.unit &&
+			!unitNames(fact.unit).includes(stated.unit)
+		) {
+			return null;
+		}
+		if (isYear(fact)) return stated.value === expected;
+		const tolerance = fact.tolerance ?? DEFAULT_TOLERANCE;
+		return (
+			Math.abs(stated.value - expected) <= Math.abs(expected) * tolerance + 1e-9
+		);
+	}
+
+	const valueWords = [...claimTokens(normalizeClaim(fact.value))];
+	const words = claimTokens(remainder.join(" "));
+	if (valueWords.length === 0) return null;
+	if (valueWords.every((word) => words.has(word))) return true;
+
+	const text = ` ${remainder.join(" ")} `;
+	const namesOther =
+		[...alternatives].some((phrase) => text.includes(` ${phrase} `)) ||
+		remainder.some(
+			(word, i) =>
+				words.has(word) && names.has(word) && !LOCATIVES.has(remainder[i - 1]),
+		);
+	return namesOther ? false : null;
+}
+
+/**
+ * Parse a JSON knowledge base: an array of facts, or `{ "facts": [...] }`
+ */
+export function parseKnowledgeJson(text: string): KnowledgeFact[] {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new KnowledgeImportError("The file isn't valid JSON");
+	}
+	const rows =
+		data && typeof data === "object" && "facts" in data ? data.facts : data;
+	if (!Array.isArray(rows)) {
+		throw new KnowledgeImportError(
+			'Expected an array of facts or { "facts": [...] }',
+		);
+	}
+	return rows.map((row, index) => {
+		if (!row || typeof row !== "object") {
+			throw new KnowledgeImportError(`Fact ${index + 1} isn't an object`);
+		}
+		return toFact(row as Record<string, unknown>, `Fact ${index + 1}`);
+	});
+}
+
+/**
+ * Parse a CSV knowledge base with a header row
+ * Needs entity, attribute and value columns; aliases are separated by "|"
+ */
+export function parseKnowledgeCsv(text: string): KnowledgeFact[] {
+	const [header, ...rows] = parseCsvRows(text);
+	if (!header) throw new KnowledgeImportError("The file is empty");
+
+	const columns = header.map((name) =>
+		name.trim().toLowerCase().replace(/[\s_]/g, ""),
+	);
+	for (const required of ["entity", "attribute", "value"]) {
+		if (!columns.includes(required)) {
+			throw new KnowledgeImportError(`Missing a "${required}" column`);
+		}
+	}
+
+	return rows.map((cells, index) => {
+		const row: Record<string, unknown> = {};
+		columns.forEach((column, i) => {
+			const cell = cells[i]?.trim();
+			if (cell) row[column === "asof" ? "asOf" : column] = cell;
+		});
+		return toFact(row, `Row ${index + 2}`);
+	});
+}
+
+function toFact(row: Record<string, unknown>, where: string): KnowledgeFact {
+	const text = (key: string) => {
+		const value = row[key];
+		return typeof value === "string" || typeof value === "number"
+			? String(value).trim()
+			: "";
+	};
+
+	const fact: KnowledgeFact = {
+		entity: text("entity"),
+		attribute: text("attribute"),
+		value: text("value"),
+	};
+	if (!fact.entity || !fact.attribute || !fact.value) {
+		throw new KnowledgeImportError(
+			`${where} needs an entity, an attribute and a value`,
+		);
+	}
+
+	const aliases = Array.isArray(row.aliases)
+		? row.aliases.map(String)
+		: text("aliases").split("|");
+	const trimmed = aliases.map((alias) => alias.trim()).filter(Boolean);
+	if (trimmed.length > 0) fact.aliases = trimmed;
+
+	if (text("tolerance")) {
+		const tolerance = Number(text("tolerance"));
+		if (!Number.isFinite(tolerance) || tolerance < 0) {
+			throw new KnowledgeImportError(`${where} has an invalid tolerance`);
+		}
+		fact.tolerance = tolerance;
+	}
+	for (const key of ["unit", "source", "asOf"] as const) {
+		if (text(key)) fact[key] = text(key);
+	}
+	return fact;
+}
+
+function numericValue(value: string): number | null {
+	const cleaned = value.replace(/,/g, "").trim();
+	if (!/^-?\d+(\.\d+)?$/.test(cleaned)) return null;
+	return Number(cleaned);
+}
+
+function isYear(fact: KnowledgeFact): boolean {
+	return !fact.unit && /^\d{3,4}$/.test(fact.value.trim());
+}
+
+function unitNames(unit: string): string[] {
+	const key = unit.trim().toLowerCase();
+	return UNIT_NAMES[key] ?? [normalizeClaim(key)];
+}
+
+/**
+ * The first number in a list of words, scaled by a following "million"
+ * etc., with the word naming its unit, if any
+ */
+function firstNumber(words: string[]): { value: number; unit?: string } | null {
+	for (let i = 0; i < words.length; i++) {
+		const match = words[i].match(/^(-?\d+(?:\.\d+)?)([a-z²]*)$/);
+		if (!match) continue;
+		const scale = SCALE_WORDS[words[i + 1]];
+		const unit = match[2] || words[i + (scale ? 2 : 1)];
+		return {
+			value: Number(match[1]) * (scale ?? 1),
+			unit: unit && /^[a-z²]+$/.test(unit) ? unit : undefined,
+		};
+	}
+	return null;
+}
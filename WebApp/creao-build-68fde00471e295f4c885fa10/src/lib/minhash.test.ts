@@ -0,0 +1,70 @@
+import {
+	claimShingles,
+	lshBuckets,
+	minHashSignature,
+	signatureSimilarity,
+	stemWord,
+} from "@/lib/minhash";
+import { describe, expect, it } from "vitest";
+
+const similarity = (a: string, b: string) =>
+	signatureSimilarity(
+		minHashSignature(claimShingles(a)),
+		minHashSignature(claimShingles(b)),
+	);
+
+describe("stemWord", () => {
+	it.each([
+		["vaccines", "vaccin"],
+		["vaccine", "vaccin"],
+		["causing", "caus"],
+		["cities", "city"],
+		["2020s", "2020s"],
+		["flat", "flat"],
+	])("stems %s to %s", (word, stem) => {
+		expect(stemWord(word)).toBe(stem);
+	});
+});
+
+describe("claimShingles", () => {
+	it("holds stemmed content words and their character trigrams", () => {
+		const shingles = claimShingles("The earth is flat");
+		expect(shingles).toContain("w:earth");
+		expect(shingles).toContain("w:flat");
+		expect(shingles).toContain("c:_fl");
+		expect(shingles).toContain("c:at_");
+		expect(shingles).not.toContain("w:the");
+	});
+});
+
+describe("minHashSignature", () => {
+	it("is stable and as long as asked", () => {
+		const signature = minHashSignature(claimShingles("the earth is flat"), 32);
+		expect(signature).toHaveLength(32);
+		expect(minHashSignature(claimShingles("the earth is flat"), 32)).toEqual(
+			signature,
+		);
+	});
+
+	it("estimates similarity of claims", () => {
+		expect(
+			similarity("vaccines cause autism", "Vaccines are causing autism"),
+		).toBe(1);
+		expect(
+			similarity("the moon landing was faked", "the moon landings were faked"),
+		).toBeGreaterThan(0.7);
+		expect(
+			similarity("the earth is flat", "vaccines cause autism"),
+		).toBeLessThan(0.1);
+	});
+});
+
+describe("lshBuckets", () => {
+	it("gives one key per band, shared by identical bands", () => {
+		const a = minHashSignature(claimShingles("vaccines cause autism"));
+		const b = minHashSignature(claimShingles("vaccines are causing autism"));
+		expect(lshBuckets(a, 16)).toHaveLength(16);
+		expect(lshBuckets(a, 16)).toEqual(lshBuckets(b, 16));
+		expect(lshBuckets(a, 16)[0]).toMatch(/^0:/);
+	});
+});
@@ -0,0 +1,127 @@
+import { canonicalClaim } from "@/lib/claim-text";
+
+/**
+ * MinHash signatures and locality-sensitive hashing for claims
+ *
+ * A claim is reduced to a set of shingles (stemmed words plus the
+ * character trigrams inside them, so "vaccine" and "vaccines" overlap).
+ * Its MinHash signature estimates the Jaccard similarity of two shingle
+ * sets, and splitting the signature into bands gives bucket keys that
+ * near-duplicate claims are likely to share. Everything runs locally.
+ */
+
+export interface MinHashOptions {
+	/** Number of hash functions, i.e. signature length */
+	numHashes: number;
+	/** Bands for LSH bucketing; must divide numHashes */
+	bands: number;
+	/** Character shingle length */
+	shingleSize: number;
+}
+
+export const DEFAULT_MINHASH_OPTIONS: MinHashOptions = {
+	numHashes: 64,
+	bands: 16,
+	shingleSize: 3,
+};
+
+/** Fixed seeds keep signatures stable across sessions */
+const SEEDS = Array.from({ length: 16 }, (_, i) => fnv1a(`nocap-minhash-${i}`));
+
+/**
+ * Crude suffix stripping so inflections of a word share shingles
+ */
+export function stemWord(word: string): string {
+	if (word.length <= 4 || /\d/.test(word)) return word;
+	return word
+		.replace(/(ies)$/, "y")
+		.replace(/(ing|ed|es|s)$/, "")
+		.replace(/e$/, "");
+}
+
+/**
+ * Word and character shingles of a claim's canonical form
+ */
+export function claimShingles(
+	text: string,
+	shingleSize = DEFAULT_MINHASH_OPTIONS.shingleSize,
+): Set<string> {
+	const shingles = new Set<string>();
+	const words = canonicalClaim(text).split(" ").filter(Boolean).map(stemWord);
+
+	for (const word of words) {
+		shingles.add(`w:${word}`);
+		const padded = `_${word}_`;
+		for (let i = 0; i + shingleSize <= padded.length; i++) {
+			shingles.add(`c:${padded.slice(i, i + shingleSize)}`);
+		}
+	}
+	return shingles;
+}
+
+/**
+ * MinHash signature of a shingle set
+ */
+export function minHashSignature(
+	shingles: Set<string>,
+	numHashes = DEFAULT_MINHASH_OPTIONS.numHashes,
+): number[] {
+	const signature = new Array<number>(numHashes).fill(0xffffffff);
+	for (const shingle of shingles) {
+		const base = fnv1a(shingle);
+		for (let i = 0; i < numHashes; i++) {
+			const value = mix(base ^ SEEDS[i % SEEDS.length], i);
+			if (value < signature[i]) signature[i] = value;
+		}
+	}
+	return signature;
+}
+
+/**
+ * Estimated Jaccard similarity of two signatures, in [0, 1]
+ */
+export function signatureSimilarity(a: number[], b: number[]): number {
+	const length = Math.min(a.length, b.length);
+	if (length === 0) return 0;
+	let agree = 0;
+	for (let i = 0; i < length; i++) {
+		if (a[i] === b[i]) agree += 1;
+	}
+	return agree / length;
+}
+
+/**
+ * LSH bucket keys, one per band of the signature
+ */
+export function lshBuckets(
+	signature: number[],
+	bands = DEFAULT_MINHASH_OPTIONS.bands,
+): string[] {
+	const rows = Math.floor(signature.length / bands);
+	const buckets: string[] = [];
+	for (let band = 0; band < bands; band++) {
+		const slice = signature.slice(band * rows, (band + 1) * rows);
+		buckets.push(`${band}:${slice.join(",")}`);
+	}
+	return buckets;
+}
+
+function fnv1a(text: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+/** murmur3 finalizer, salted per hash function */
+function mix(value: number, salt: number): number {
+	let h = (value + Math.imul(salt, 0x9e3779b1)) >>> 0;
+	h ^= h >>> 16;
+	h = Math.imul(h, 0x85ebca6b);
+	h ^= h >>> 13;
+	h = Math.imul(h, 0xc2b2ae35);
+	h ^= h >>> 16;
+	return h >>> 0;
+}
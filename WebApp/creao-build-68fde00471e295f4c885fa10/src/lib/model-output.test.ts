@@ -0,0 +1,126 @@
+import {
+	ModelOutputError,
+	extractJson,
+	parseModelOutput,
+	parseWithRepair,
+} from "@/lib/model-output";
+import {
+	confidenceSchema,
+	verdictRatingSchema,
+} from "@/services/model-schemas";
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+
+const verdictSchema = z.object({
+	verdict: z.enum(["true", "false"]),
+	confidence: confidenceSchema,
+});
+
+describe("extractJson", () => {
+	it.each([
+		['{"verdict": "true"}'],
+		['```json\n{"verdict": "true"}\n```'],
+		['```\n{"verdict": "true"}\n```'],
+		['Here is my answer:\n{"verdict": "true"}'],
+		['{"verdict": "true"}\nI hope this helps.'],
+		['Sure. ```json\n{"verdict": "true"}\n``` Let me know {if} you need more'],
+	])("finds the object in %j", (text) => {
+		expect(extractJson(text)).toEqual({ verdict: "true" });
+	});
+
+	it("ignores brackets inside strings", () => {
+		expect(extractJson('Answer: {"reasoning": "a } in [text"} done')).toEqual({
+			reasoning: "a } in [text",
+		});
+	});
+
+	it("reads arrays", () => {
+		expect(extractJson("Claims: [1, 2] and more")).toEqual([1, 2]);
+	});
+
+	it.each([
+		["There is no JSON here"],
+		['{"verdict": "true"'],
+		['{"verdict": tru}'],
+	])("rejects %j", (text) => {
+		expect(() => extractJson(text)).toThrow(ModelOutputError);
+	});
+});
+
+describe("confidenceSchema", () => {
+	it.each([
+		[0.8, 0.8],
+		["0.8", 0.8],
+		["80%", 0.8],
+		[80, 0.8],
+		[2, 0.02],
+		["1%", 0.01],
+		[1, 1],
+		[1.05, 1],
+		["1.5", 1],
+	])("reads %j as %d", (value, expected) => {
+		expect(confidenceSchema.parse(value)).toBeCloseTo(expected);
+	});
+
+	it.each([[-0.1], [150], ["high"]])("rejects %j", (value) => {
+		expect(confidenceSchema.safeParse(value).success).toBe(false);
+	});
+});
+
+describe("verdictRatingSchema", () => {
+	it.each([
+		["mostly_true", "mostly_true"],
+		["Mostly True", "mostly_true"],
+		["mostly-false", "mostly_false"],
+		[" MISSING CONTEXT ", "missing_context"],
+		["Inconclusive", "unverifiable"],
+	])("reads %j as %j", (value, expected) => {
+		expect(verdictRatingSchema.parse(value)).toBe(expected);
+	});
+
+	it.each([["half true"], [1], [null]])("rejects %j", (value) => {
+		expect(verdictRatingSchema.safeParse(value).success).toBe(false);
+	});
+});
+
+describe("parseWithRepair", () => {
+	it("returns valid output without asking for a repair", async () => {
+		const repair = vi.fn();
+		const result = await parseWithRepair(
+			'```json\n{"verdict": "true", "confidence": "90%"}\n```',
+			verdictSchema,
+			repair,
+		);
+		expect(result).toEqual({ verdict: "true", confidence: 0.9 });
+		expect(repair).not.toHaveBeenCalled();
+	});
+
+	it("asks once for a repair with the validation error", async () => {
+		const repair = vi.fn(async (_error: string) => ({
+			verdict: "false",
+			confidence: 0.7,
+		}));
+		const result = await parseWithRepair(
+			'{"verdict": "maybe", "confidence": 0.7}',
+			verdictSchema,
+			repair,
+		);
+		expect(result).toEqual({ verdict: "false", confidence: 0.7 });
+		expect(repair).toHaveBeenCalledTimes(1);
+		expect(repair).toHaveBeenCalledWith(expect.stringContaining("verdict"));
+	});
+
+	it("gives up when the repair is invalid too", async () => {
+		const repair = vi.fn(async () => "still no JSON");
+		await expect(
+			parseWithRepair("no JSON", verdictSchema, repair),
+		).rejects.toThrow(ModelOutputError);
+		expect(repair).toHaveBeenCalledTimes(1);
+	});
+
+	it("validates structured output objects as they are", () => {
+		expect(
+			parseModelOutput({ verdict: "true", confidence: 1 }, verdictSchema),
+		).toEqual({ success: true, data: { verdict: "true", confidence: 1 } });
+	});
+});
@@ -0,0 +1,148 @@
+import type { z } from "zod";
+
+/**
+ * Helpers for turning model text into validated objects
+ *
+ * Models wrap JSON in code fences, add preambles, or return numbers as
+ * strings. These helpers find the JSON in the text, validate it against a
+ * zod schema, and give the caller one chance to re-prompt for a fix.
+ */
+
+export class ModelOutputError extends Error {
+	constructor(
+		message: string,
+		public readonly raw?: unknown,
+	) {
+		super(message);
+		this.name = "ModelOutputError";
+	}
+}
+
+export type ModelOutputResult<T> =
+	| { success: true; data: T }
+	| { success: false; error: string };
+
+/**
+ * Pull the first JSON object or array out of model text
+ * Handles code fences, leading prose and trailing commentary
+ */
+export function extractJson(text: string): unknown {
+	const trimmed = text.trim();
+
+	try {
+		return JSON.parse(trimmed);
+	} catch {
+		// Fall through to the tolerant paths below
+	}
+
+	const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+	if (fenced) {
+		try {
+			return JSON.parse(fenced[1].trim());
+		} catch {
+			// The fence may hold more than the JSON; keep scanning
+		}
+	}
+
+	const start = trimmed.search(/[{[]/);
+	if (start === -1) {
+		throw new ModelOutputError("No JSON found in model response", text);
+	}
+
+	// Scan for the matching close bracket, ignoring brackets inside strings
+	const stack: string[] = [];
+	let inString = false;
+	let escaped = false;
+	for (let i = start; i < trimmed.length; i++) {
+		const char = trimmed[i];
+		if (inString) {
+			if (escaped) escaped = false;
+			else if (char === "\\") escaped = true;
+			else if (char === '"') inString = false;
+			continue;
+		}
+
+		if (char === '"') inString = true;
+		else if (char === "{") stack.push("}");
+		else if (char === "[") stack.push("]");
+		else if (char === "}" || char === "]") {
+			if (stack.pop() !== char) break;
+			if (stack.length === 0) {
+				try {
+					return JSON.parse(trimmed.slice(start, i + 1));
+				} catch (error) {
+					throw new ModelOutputError(
+						`Malformed JSON in model response: ${error instanceof Error ? error.message : "parse error"}`,
+						text,
+					);
+				}
+			}
+		}
+	}
+
+	throw new ModelOutputError("Unterminated JSON in model response", text);
+}
+
+/**
+ * Validate model output against a schema
+ * Strings are run through extractJson first; objects (e.g. tool call
+ * input from a structured output mode) are validated as they are
+ */
+export function parseModelOutput<T>(
+	raw: unknown,
+	schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+): ModelOutputResult<T> {
+	let value = raw;
+	if (typeof raw === "string") {
+		try {
+			value = extractJson(raw);
+		} catch (error) {
+			return {
+				success: false,
+				error: error instanceof Error ? error.message : "Invalid JSON",
+			};
+		}
+	}
+
+	const result = schema.safeParse(value);
+	if (result.success) {
+		return { success: true, data: result.data };
+	}
+
+	return {
+		success: false,
+		error: result.error.issues
+			.map((issue) => `${issue.path.join(".") || "response"}: ${issue.message}`)
+			.join("; "),
+	};
+}
+
+/**
+ * Instruction sent back to a model whose reply could not be used
+ */
+export function repairPrompt(error: string): string {
+	return `Your previous reply could not be used (${error}). Reply again with only the corrected JSON object, with no code fences or commentary.`;
+}
+
+/**
+ * Parse model output, re-prompting once if it does not validate
+ * `repair` receives the validation error and returns the model's new reply
+ */
+export async function parseWithRepair<T>(
+	raw: unknown,
+	schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+	repair: (error: string) => Promise<unknown>,
+): Promise<T> {
+	const first = parseModelOutput(raw, schema);
+	if (first.success) return first.data;
+
+	console.warn(`🔧 Model response invalid (${first.error}), asking for repair`);
+	const repaired = await repair(first.error);
+	const second = parseModelOutput(repaired, schema);
+	if (second.success) return second.data;
+
+	throw new ModelOutputError(
+		`Model response invalid after repair: ${second.error}`,
+		repaired,
+	);
+}
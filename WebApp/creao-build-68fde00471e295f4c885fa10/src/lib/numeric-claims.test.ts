@@ -0,0 +1,63 @@
+import { checkNumericClaim } from "@/lib/numeric-claims";
+import { describe, expect, it } from "vitest";
+
+describe("checkNumericClaim", () => {
+	it.each([
+		["two plus two is five", false, "2 + 2 = 4, not 5"],
+		["2+2=4", true, "2 + 2 = 4"],
+		[
+			"two hundred and fifty minus fifty is two hundred",
+			true,
+			"250 − 50 = 200",
+		],
+		["50% of 80 is 50", false, "50% of 80 = 40, not 50"],
+		["fifty percent of eighty is forty", true, "50% of 80 = 40"],
+		["a dozen is 13", false, "a dozen = 12, not 13"],
+		["ten is greater than twenty", false, "10 ≤ 20"],
+		[
+			"a marathon is 30 miles",
+			false,
+			"1 marathon (42.195 km) = 26.2188 miles, not 30 miles",
+		],
+		["there are 5,280 feet in a mile", true, "1 mile = 5,280 feet"],
+		["100 degrees Celsius is 212 degrees Fahrenheit", true, "100°C = 212°F"],
+		["-40 C is -40 F", true, "−40°C = −40°F"],
+		["-10 C is 14 F", true, "−10°C = 14°F"],
+		["-10 C is -14 F", false, "−10°C = 14°F, not −14°F"],
+		["minus five plus two is minus three", true, "−5 + 2 = −3"],
+	])("%s", (statement, holds, working) => {
+		expect(checkNumericClaim(statement)).toEqual({ holds, working });
+	});
+
+	it("allows rounding to the precision stated", () => {
+		expect(checkNumericClaim("A marathon is 26.2 miles")?.holds).toBe(true);
+		expect(checkNumericClaim("a mile is 1.6 kilometres")?.holds).toBe(true);
+		expect(checkNumericClaim("a mile is 2 km")?.holds).toBe(false);
+	});
+
+	it("allows more leeway for hedged claims", () => {
+		expect(checkNumericClaim("a foot is 30 cm")?.holds).toBe(false);
+		expect(checkNumericClaim("a foot is about 30 cm")?.holds).toBe(true);
+	});
+
+	it("reads negated claims", () => {
+		expect(checkNumericClaim("two plus two isn't five")?.holds).toBe(true);
+	});
+
+	it("rejects quantities of different kinds", () => {
+		expect(checkNumericClaim("a mile is 5 kilograms")).toEqual({
+			holds: false,
+			working: "A length can't be compared with a mass",
+		});
+	});
+
+	it.each([
+		"Paris is the capital of France",
+		"The population of France is 67 million",
+		"Water boils at 100 degrees Celsius",
+		"The Eiffel Tower was completed in 1889",
+		"2 + 2 is 4 and 3 + 3 is 7",
+	])("leaves %s to other agents", (statement) => {
+		expect(checkNumericClaim(statement)).toBeNull();
+	});
+});
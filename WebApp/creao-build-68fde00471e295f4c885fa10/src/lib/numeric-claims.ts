@@ -0,0 +1,955 @@
+/**
+ * Numeric claims
+ *
+ * Arithmetic, percentages and unit conversions can be checked exactly
+ * rather than asked of a model. A statement is read as two quantities
+ * joined by one comparison ("two plus two is five", "a marathon is 30
+ * miles", "50% of 80 is 50"). Spoken numbers and operators are
+ * normalised first; a statement with any word that isn't part of a
+ * quantity or the comparison is not treated as numeric.
+ */
+
+export type Dimension = "length" | "mass" | "volume" | "time" | "temperature";
+
+interface Unit {
+	dimension: Dimension;
+	/** Base units (m, kg, l, s, K) per unit, after adding `offset` */
+	factor: number;
+	offset?: number;
+	singular: string;
+	plural: string;
+}
+
+/**
+ * Tolerances for numeric comparisons, as relative errors
+ */
+export interface NumericTolerance {
+	/** Rounding allowed when a measurement is converted between units */
+	conversion: number;
+	/** Allowed when the claim is hedged ("about", "roughly", ...) */
+	approximate: number;
+}
+
+export const DEFAULT_NUMERIC_TOLERANCE: NumericTolerance = {
+	conversion: 0.01,
+	approximate: 0.05,
+};
+
+/**
+ * The outcome of checking a numeric claim
+ */
+export interface NumericCheck {
+	holds: boolean;
+	/** Worked explanation, e.g. "2 + 2 = 4, not 5" */
+	working: string;
+}
+
+const unit = (
+	dimension: Dimension,
+	factor: number,
+	singular: string,
+	plural = singular,
+	offset?: number,
+): Unit => ({ dimension, factor, singular, plural, offset });
+
+const METRE = unit("length", 1, "m");
+const KILOMETRE = unit("length", 1000, "km");
+const CENTIMETRE = unit("length", 0.01, "cm");
+const MILLIMETRE = unit("length", 0.001, "mm");
+const INCH = unit("length", 0.0254, "inch", "inches");
+const FOOT = unit("length", 0.3048, "foot", "feet");
+const YARD = unit("length", 0.9144, "yard", "yards");
+const MILE = unit("length", 1609.344, "mile", "miles");
+const NAUTICAL_MILE = unit("length", 1852, "nautical mile", "nautical miles");
+const LIGHT_YEAR = unit(
+	"length",
+	9460730472580800,
+	"light year",
+	"light years",
+);
+const GRAM = unit("mass", 0.001, "g");
+const MILLIGRAM = unit("mass", 0.000001, "mg");
+const KILOGRAM = unit("mass", 1, "kg");
+const TONNE = unit("mass", 1000, "tonne", "tonnes");
+const POUND = unit("mass", 0.45359237, "pound", "pounds");
+const OUNCE = unit("mass", 0.028349523125, "ounce", "ounces");
+const STONE = unit("mass", 6.35029318, "stone");
+const LITRE = unit("volume", 1, "l");
+const MILLILITRE = unit("volume", 0.001, "ml");
+const MILLISECOND = unit("time", 0.001, "ms");
+const SECOND = unit("time", 1, "second", "seconds");
+const MINUTE = unit("time", 60, "minute", "minutes");
+const HOUR = unit("time", 3600, "hour", "hours");
+const DAY = unit("time", 86400, "day", "days");
+const WEEK = unit("time", 604800, "week", "weeks");
+const FORTNIGHT = unit("time", 1209600, "fortnight", "fortnights");
+const CELSIUS = unit("temperature", 1, "°C", "°C", 273.15);
+const FAHRENHEIT = unit("temperature", 5 / 9, "°F", "°F", 459.67);
+const KELVIN = unit("temperature", 1, "K");
+
+/** Unit words; abbreviations only count right after a number */
+const UNIT_WORDS: Record<string, Unit> = {
+	metre: METRE,
+	metres: METRE,
+	meter: METRE,
+	meters: METRE,
+	kilometre: KILOMETRE,
+	kilometres: KILOMETRE,
+	kilometer: KILOMETRE,
+	kilometers: KILOMETRE,
+	centimetre: CENTIMETRE,
+	centimetres: CENTIMETRE,
+	centimeter: CENTIMETRE,
+	centimeters: CENTIMETRE,
+	millimetre: MILLIMETRE,
+	millimetres: MILLIMETRE,
+	millimeter: MILLIMETRE,
+	millimeters: MILLIMETRE,
+	inch: INCH,
+	inches: INCH,
+	foot: FOOT,
+	feet: FOOT,
+	yard: YARD,
+	yards: YARD,
+	mile: MILE,
+	miles: MILE,
+	gram: GRAM,
+	grams: GRAM,
+	milligram: MILLIGRAM,
+	milligrams: MILLIGRAM,
+	kilogram: KILOGRAM,
+	kilograms: KILOGRAM,
+	kilo: KILOGRAM,
+	kilos: KILOGRAM,
+	tonne: TONNE,
+	tonnes: TONNE,
+	pound: POUND,
+	pounds: POUND,
+	ounce: OUNCE,
+	ounces: OUNCE,
+	stone: STONE,
+	litre: LITRE,
+	litres: LITRE,
+	liter: LITRE,
+	liters: LITRE,
+	millilitre: MILLILITRE,
+	millilitres: MILLILITRE,
+	milliliter: MILLILITRE,
+	milliliters: MILLILITRE,
+	millisecond: MILLISECOND,
+	milliseconds: MILLISECOND,
+	second: SECOND,
+	seconds: SECOND,
+	minute: MINUTE,
+	minutes: MINUTE,
+	hour: HOUR,
+	hours: HOUR,
+	day: DAY,
+	days: DAY,
+	week: WEEK,
+	weeks: WEEK,
+	fortnight: FORTNIGHT,
+	fortnights: FORTNIGHT,
+	celsius: CELSIUS,
+	centigrade: CELSIUS,
+	fahrenheit: FAHRENHEIT,
+	kelvin: KELVIN,
+};
+
+const UNIT_ABBREVIATIONS: Record<string, Unit> = {
+	m: METRE,
+	km: KILOMETRE,
+	cm: CENTIMETRE,
+	mm: MILLIMETRE,
+	in: INCH,
+	ft: FOOT,
+	yd: YARD,
+	mi: MILE,
+	g: GRAM,
+	mg: MILLIGRAM,
+	kg: KILOGRAM,
+	lb: POUND,
+	lbs: POUND,
+	oz: OUNCE,
+	l: LITRE,
+	ml: MILLILITRE,
+	ms: MILLISECOND,
+	s: SECOND,
+	sec: SECOND,
+	secs: SECOND,
+	min: MINUTE,
+	mins: MINUTE,
+	h: HOUR,
+	hr: HOUR,
+	hrs: HOUR,
+	c: CELSIUS,
+	f: FAHRENHEIT,
+};
+
+/** Two-word units, matched before single words */
+const UNIT_PHRASES: Record<string, Unit> = {
+	"nautical mile": NAUTICAL_MILE,
+	"nautical miles": NAUTICAL_MILE,
+	"light year": LIGHT_YEAR,
+	"light years": LIGHT_YEAR,
+};
+
+/**
+ * Quantities with a fixed definition
+ */
+const NAMED_QUANTITIES: Record<
+	string,
+	{ name: string; value: number; unit: Unit; definition: string }
+> = {
+	marathon: {
+		name: "marathon",
+		value: 42195,
+		unit: METRE,
+		definition: "42.195 km",
+	},
+	"half marathon": {
+		name: "half marathon",
+		value: 21097.5,
+		unit: METRE,
+		definition: "21.0975 km",
+	},
+};
+
+const ONES: Record<string, number> = {
+	zero: 0,
+	one: 1,
+	two: 2,
+	three: 3,
+	four: 4,
+	five: 5,
+	six: 6,
+	seven: 7,
+	eight: 8,
+	nine: 9,
+	ten: 10,
+	eleven: 11,
+	twelve: 12,
+	thirteen: 13,
+	fourteen: 14,
+	fifteen: 15,
+	sixteen: 16,
+	seventeen: 17,
+	eighteen: 18,
+	nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+	twenty: 20,
+	thirty: 30,
+	forty: 40,
+	fifty: 50,
+	sixty: 60,
+	seventy: 70,
+	eighty: 80,
+	ninety: 90,
+};
+
+const SCALES: Record<string, number> = {
+	dozen: 12,
+	hundred: 100,
+	thousand: 1e3,
+	million: 1e6,
+	billion: 1e9,
+	trillion: 1e12,
+};
+
+const DENOMINATORS: Record<string, number> = {
+	half: 2,
+	halves: 2,
+	third: 3,
+	thirds: 3,
+	quarter: 4,
+	quarters: 4,
+	fifth: 5,
+	fifths: 5,
+	tenth: 10,
+	tenths: 10,
+};
+
+/** Words that hedge a claim, allowing the approximate tolerance */
+const HEDGES = new Set([
+	"about",
+	"approximately",
+	"roughly",
+	"around",
+	"nearly",
+	"almost",
+	"approx",
+]);
+
+/** Words that carry no meaning in a numeric claim */
+const FILLERS = new Set([
+	"a",
+	"an",
+	"the",
+	"exactly",
+	"precisely",
+	"just",
+	"actually",
+	"degree",
+	"degrees",
+]);
+
+type Comparison = "=" | ">" | "<";
+
+/** Comparison phrases, longest first; "not" anywhere negates them */
+const COMPARISONS: [string, Comparison][] = [
+	["is equal to", "="],
+	["is the same as", "="],
+	["is greater than", ">"],
+	["is more than", ">"],
+	["is bigger than", ">"],
+	["is larger than", ">"],
+	["is higher than", ">"],
+	["is less than", "<"],
+	["is smaller than", "<"],
+	["is fewer than", "<"],
+	["is lower than", "<"],
+	["are equal to", "="],
+	["are more than", ">"],
+	["are less than", "<"],
+	["equal to", "="],
+	["greater than", ">"],
+	["more than", ">"],
+	["less than", "<"],
+	["equals", "="],
+	["equal", "="],
+	["makes", "="],
+	["make", "="],
+	["gives", "="],
+	["is", "="],
+	["are", "="],
+	["=", "="],
+	[">", ">"],
+	["<", "<"],
+];
+
+const OPERATOR_WORDS: [string, string][] = [
+	["multiplied by", "*"],
+	["divided by", "/"],
+	["to the power of", "^"],
+	["square root of", "sqrt"],
+	["added to", "+"],
+	["per cent", "%"],
+	["percent", "%"],
+	["plus", "+"],
+	["and", "+"],
+	["minus", "-"],
+	["times", "*"],
+	["over", "/"],
+	["squared", "^2"],
+	["cubed", "^3"],
+	["×", "*"],
+	["x", "*"],
+	["÷", "/"],
+];
+
+const SYMBOLS = new Set([
+	"%",
+	"+",
+	"-",
+	"*",
+	"/",
+	"^",
+	"(",
+	")",
+	"√",
+	"²",
+	"³",
+	"of",
+]);
+
+const SYMBOL_OPS: Record<string, string> = {
+	"√": "sqrt",
+	"²": "^2",
+	"³": "^3",
+};
+
+/** How each operator is written in a worked explanation */
+const OP_SYMBOLS: Record<string, string> = {
+	"+": "+",
+	"-": "−",
+	"*": "×",
+	"/": "÷",
+	of: "of",
+};
+
+type Token =
+	| { kind: "number"; value: number; decimals: number | null; text: string }
+	| { kind: "unit"; unit: Unit; abbreviation: boolean }
+	| { kind: "named"; name: string }
+	| { kind: "op"; op: string };
+
+/**
+ * A side of the comparison, evaluated
+ */
+interface Side {
+	/** In base units for measurements */
+	value: number;
+	dimension: Dimension | null;
+	text: string;
+	/** Set for a single number, with or without a unit */
+	literal?: {
+		value: number;
+		decimals: number | null;
+		unit?: Unit;
+		/** How a plain number was said, e.g. "a dozen" */
+		spoken?: string;
+	};
+}
+
+class NotNumeric extends Error {}
+
+const formatter = new Intl.NumberFormat("en-US", {
+	maximumFractionDigits: 4,
+});
+const format = (value: number) => formatter.format(value).replace("-", "−");
+
+const unitName = (unit: Unit, value: number) =>
+	`${format(value)}${unit.singular.startsWith("°") ? "" : " "}${value === 1 ? unit.singular : unit.plural}`;
+
+const toBase = (value: number, unit: Unit) =>
+	(value + (unit.offset ?? 0)) * unit.factor;
+
+const fromBase = (value: number, unit: Unit) =>
+	value / unit.factor - (unit.offset ?? 0);
+
+/**
+ * Read a run of spoken number words, e.g. "two hundred and fifty" or
+ * "one point five", starting at `start`
+ */
+function readNumber(
+	words: string[],
+	start: number,
+): { value: number; decimals: number | null; next: number } | null {
+	let total = 0;
+	let current = 0;
+	let decimals: number | null = 0;
+	let last: "digits" | "ones" | "tens" | "hundred" | "scale" | null = null;
+	let i = start;
+
+	// "a hundred", "a dozen", "a third"
+	if (
+		(words[i] === "a" || words[i] === "an") &&
+		(SCALES[words[i + 1]] || DENOMINATORS[words[i + 1]])
+	) {
+		current = 1;
+		last = "ones";
+		i += 1;
+	} else if (words[i] === "half") {
+		return { value: 0.5, decimals: null, next: i + 1 };
+	}
+
+	while (i < words.length) {
+		const word = words[i];
+		if (/^\d/.test(word) && last === null) {
+			current = Number(word.replace(/,/g, ""));
+			decimals = word.split(".")[1]?.length ?? 0;
+			last = "digits";
+		} else if (
+			word in ONES &&
+			(last === null ||
+				last === "tens" ||
+				last === "hundred" ||
+				last === "scale")
+		) {
+			current += ONES[word];
+			last = "ones";
+		} else if (
+			word in TENS &&
+			(last === null || last === "hundred" || last === "scale")
+		) {
+			current += TENS[word];
+			last = "tens";
+		} else if (
+			word === "hundred" &&
+			(last === "ones" || last === "tens" || last === "digits")
+		) {
+			current *= 100;
+			last = "hundred";
+		} else if (word in SCALES && last !== null && last !== "scale") {
+			total += current * SCALES[word];
+			current = 0;
+			last = "scale";
+		} else if (
+			word === "and" &&
+			(last === "hundred" || last === "scale") &&
+			(words[i + 1] in ONES || words[i + 1] in TENS)
+		) {
+			// "two hundred and five"
+		} else if (
+			word === "point" &&
+			(last === "ones" || last === "tens") &&
+			words[i + 1] in ONES &&
+			ONES[words[i + 1]] < 10
+		) {
+			let digits = "";
+			while (words[i + 1] in ONES && ONES[words[i + 1]] < 10) {
+				digits += ONES[words[i + 1]];
+				i += 1;
+			}
+			current += Number(`0.${digits}`);
+			decimals = digits.length;
+		} else if (word in DENOMINATORS && last !== null && last !== "scale") {
+			// "three quarters", "a third"
+			return {
+				value: (total + current) / DENOMINATORS[word],
+				decimals: null,
+				next: i + 1,
+			};
+		} else {
+			break;
+		}
+		i += 1;
+	}
+
+	if (last === null) return null;
+	// Scaled numbers ("1.5 million") are as precise as they were spoken
+	return {
+		value: total + current,
+		decimals: last === "scale" ? null : decimals,
+		next: i,
+	};
+}
+
+/**
+ * Split a statement into words, with symbols as words of their own
+ */
+function words(statement: string): string[] {
+	return (
+		statement
+			.toLowerCase()
+			.replace(/(\d),(?=\d{3}\b)/g, "$1")
+			// "twenty-five" but not "5-3"
+			.replace(/([a-z])-(?=[a-z])/g, "$1 ")
+			.replace(/(\d)\s*°\s*([cf])\b/g, "$1 $2")
+			.replace(/n't\b/g, " not")
+			.match(/\d+(?:\.\d+)?|[a-z]+|[%+\-*/×÷^=()<>√²³]/g) ?? []
+	);
+}
+
+const startsWith = (list: string[], at: number, phrase: string) =>
+	phrase.split(" ").every((word, offset) => list[at + offset] === word);
+
+/**
+ * Tokenise the words on one side of a comparison
+ */
+function tokenize(list: string[]): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+	const afterNumber = () => tokens[tokens.length - 1]?.kind === "number";
+
+	while (i < list.length) {
+		const word = list[i];
+		const number = readNumber(list, i);
+		if (number) {
+			tokens.push({
+				kind: "number",
+				value: number.value,
+				decimals: number.decimals,
+				text: list.slice(i, number.next).join(" "),
+			});
+			i = number.next;
+			continue;
+		}
+
+		const phrase = [
+			...Object.keys(NAMED_QUANTITIES),
+			...Object.keys(UNIT_PHRASES),
+		]
+			.filter((key) => key.includes(" "))
+			.find((key) => startsWith(list, i, key));
+		if (phrase) {
+			tokens.push(
+				phrase in NAMED_QUANTITIES
+					? { kind: "named", name: phrase }
+					: { kind: "unit", unit: UNIT_PHRASES[phrase], abbreviation: false },
+			);
+			i += phrase.split(" ").length;
+			continue;
+		}
+
+		const operator = OPERATOR_WORDS.find(([key]) => startsWith(list, i, key));
+		if (operator) {
+			tokens.push({ kind: "op", op: operator[1] });
+			i += operator[0].split(" ").length;
+			continue;
+		}
+
+		if (word in NAMED_QUANTITIES) {
+			tokens.push({ kind: "named", name: word });
+		} else if (word in UNIT_WORDS) {
+			tokens.push({
+				kind: "unit",
+				unit: UNIT_WORDS[word],
+				abbreviation: false,
+			});
+		} else if (word in UNIT_ABBREVIATIONS && afterNumber()) {
+			tokens.push({
+				kind: "unit",
+				unit: UNIT_ABBREVIATIONS[word],
+				abbreviation: true,
+			});
+		} else if (SYMBOLS.has(word)) {
+			tokens.push({ kind: "op", op: SYMBOL_OPS[word] ?? word });
+		} else if (!FILLERS.has(word) && !HEDGES.has(word)) {
+			throw new NotNumeric(`"${word}" is not part of a quantity`);
+		}
+		i += 1;
+	}
+	return tokens;
+}
+
+/**
+ * Recursive-descent evaluation of one side's tokens
+ * Sums and differences need matching dimensions; products, quotients and
+ * powers need at least one plain number. Temperatures can only be
+ * converted, not combined, since their scales have different zeros.
+ */
+function evaluate(tokens: Token[]): Side {
+	let position = 0;
+	const peek = () => tokens[position];
+	const isOp = (op: string) => {
+		const token = peek();
+		return token?.kind === "op" && token.op === op;
+	};
+
+	const combine = (left: Side, op: string, right: Side): Side => {
+		if (left.dimension === "temperature" || right.dimension === "temperature") {
+			throw new NotNumeric("Temperatures can only be converted");
+		}
+		const text = `${left.text} ${OP_SYMBOLS[op]} ${right.text}`;
+		switch (op) {
+			case "+":
+			case "-":
+				if (left.dimension !== right.dimension) {
+					throw new NotNumeric("Can't add quantities of different kinds");
+				}
+				return {
+					value:
+						op === "+" ? left.value + right.value : left.value - right.value,
+					dimension: left.dimension,
+					text,
+				};
+			case "*":
+			case "of":
+				if (left.dimension && right.dimension) {
+					throw new NotNumeric("Compound units aren't supported");
+				}
+				return {
+					value: left.value * right.value,
+					dimension: left.dimension ?? right.dimension,
+					text,
+				};
+			case "/":
+				if (right.dimension && left.dimension !== right.dimension) {
+					throw new NotNumeric("Compound units aren't supported");
+				}
+				if (right.value === 0) throw new NotNumeric("Division by zero");
+				return {
+					value: left.value / right.value,
+					dimension: right.dimension ? null : left.dimension,
+					text,
+				};
+			default:
+				if (left.dimension || right.dimension) {
+					throw new NotNumeric("Only plain numbers can be raised to a power");
+				}
+				return {
+					value: left.value ** right.value,
+					dimension: null,
+					text: `${left.text}^${right.text}`,
+				};
+		}
+	};
+
+	const primary = (): Side => {
+		const token = peek();
+		if (!token) throw new NotNumeric("Missing quantity");
+		position += 1;
+
+		if (token.kind === "op" && token.op === "(") {
+			const inner = expression();
+			if (!isOp(")")) throw new NotNumeric("Unbalanced parentheses");
+			position += 1;
+			return { ...inner, text: `(${inner.text})`, literal: undefined };
+		}
+		if (token.kind === "op" && token.op === "-") {
+			const inner = primary();
+			// Negate what was said, not the base value: −40°C is 233.15 K
+			const literal = inner.literal;
+			if (literal) {
+				const value = -literal.value;
+				return {
+					value: literal.unit ? toBase(value, literal.unit) : value,
+					dimension: inner.dimension,
+					text: `−${inner.text}`,
+					literal: { ...literal, value, spoken: undefined },
+				};
+			}
+			if (inner.dimension === "temperature") {
+				throw new NotNumeric("Temperatures can only be converted");
+			}
+			return {
+				...inner,
+				value: -inner.value,
+				text: `−${inner.text}`,
+				literal: undefined,
+			};
+		}
+		if (token.kind === "op" && token.op === "sqrt") {
+			const inner = primary();
+			if (inner.dimension || inner.value < 0) {
+				throw new NotNumeric("Only non-negative numbers have square roots");
+			}
+			return {
+				value: Math.sqrt(inner.value),
+				dimension: null,
+				text: `√${inner.text}`,
+			};
+		}
+		if (token.kind === "named") {
+			const named = NAMED_QUANTITIES[token.name];
+			return {
+				value: toBase(named.value, named.unit),
+				dimension: named.unit.dimension,
+				text: `1 ${named.name} (${named.definition})`,
+			};
+		}
+		if (token.kind === "unit") {
+			// "a mile"; abbreviations need a number
+			if (token.abbreviation) throw new NotNumeric("Unit without a number");
+			return {
+				value: toBase(1, token.unit),
+				dimension: token.unit.dimension,
+				text: unitName(token.unit, 1),
+				literal: { value: 1, decimals: 0, unit: token.unit },
+			};
+		}
+		if (token.kind !== "number") throw new NotNumeric("Expected a quantity");
+
+		if (isOp("%")) {
+			position += 1;
+			return {
+				value: token.value / 100,
+				dimension: null,
+				text: `${format(token.value)}%`,
+			};
+		}
+		const next = peek();
+		if (next?.kind === "unit") {
+			position += 1;
+			return {
+				value: toBase(token.value, next.unit),
+				dimension: next.unit.dimension,
+				text: unitName(next.unit, token.value),
+				literal: {
+					value: token.value,
+					decimals: token.decimals,
+					unit: next.unit,
+				},
+			};
+		}
+		return {
+			value: token.value,
+			dimension: null,
+			text: format(token.value),
+			literal: {
+				value: token.value,
+				decimals: token.decimals,
+				spoken: token.text,
+			},
+		};
+	};
+
+	const power = (): Side => {
+		let base = primary();
+		while (isOp("^") || isOp("^2") || isOp("^3")) {
+			const { op } = peek() as { op: string };
+			position += 1;
+			const exponent =
+				op === "^"
+					? power()
+					: { value: Number(op.slice(1)), dimension: null, text: op.slice(1) };
+			base = combine(base, "^", exponent);
+		}
+		return base;
+	};
+
+	const term = (): Side => {
+		let left = power();
+		while (isOp("*") || isOp("/") || isOp("of")) {
+			const { op } = peek() as { op: string };
+			position += 1;
+			left = combine(left, op, power());
+		}
+		return left;
+	};
+
+	const expression = (): Side => {
+		let left = term();
+		while (isOp("+") || isOp("-")) {
+			const { op } = peek() as { op: string };
+			position += 1;
+			left = combine(left, op, term());
+		}
+		return left;
+	};
+
+	const side = expression();
+	if (position < tokens.length)
+		throw new NotNumeric("Unexpected trailing words");
+	return side;
+}
+
+/**
+ * Find the statement's one comparison
+ * "There are 5,280 feet in a mile" and "a mile has 5,280 feet" compare
+ * the mile with the feet
+ */
+function splitComparison(list: string[]): {
+	reference: string[];
+	claimed: string[];
+	comparison: Comparison;
+	negated: boolean;
+} | null {
+	const negated = list.filter((word) => word === "not").length % 2 === 1;
+	const rest = list.filter(
+		(word) => word !== "not" && word !== "does" && word !== "do",
+	);
+
+	if (rest[0] === "there" && (rest[1] === "are" || rest[1] === "is")) {
+		const at = rest.lastIndexOf("in");
+		if (at < 0) return null;
+		return {
+			reference: rest.slice(at + 1),
+			claimed: rest.slice(2, at),
+			comparison: "=",
+			negated,
+		};
+	}
+	for (const verb of ["has", "have", "contains", "contain"]) {
+		const at = rest.indexOf(verb);
+		if (at > 0) {
+			return {
+				reference: rest.slice(0, at),
+				claimed: rest.slice(at + 1),
+				comparison: "=",
+				negated,
+			};
+		}
+	}
+
+	const matches: { at: number; length: number; comparison: Comparison }[] = [];
+	for (let i = 0; i < rest.length; i++) {
+		const match = COMPARISONS.find(([phrase]) => startsWith(rest, i, phrase));
+		if (match) {
+			const length = match[0].split(" ").length;
+			matches.push({ at: i, length, comparison: match[1] });
+			i += length - 1;
+		}
+	}
+	if (matches.length !== 1) return null;
+	const [{ at, length, comparison }] = matches;
+	return {
+		reference: rest.slice(0, at),
+		claimed: rest.slice(at + length),
+		comparison,
+		negated,
+	};
+}
+
+/**
+ * Check a statement as a numeric claim
+ * Returns null when the statement isn't purely numeric, so it can be
+ * left to other agents
+ */
+export function checkNumericClaim(
+	statement: string,
+	tolerance: NumericTolerance = DEFAULT_NUMERIC_TOLERANCE,
+): NumericCheck | null {
+	const list = words(statement.replace(/[.!?]+$/, ""));
+	const split = splitComparison(list);
+	if (!split || split.reference.length === 0 || split.claimed.length === 0) {
+		return null;
+	}
+
+	let reference: Side;
+	let claimed: Side;
+	try {
+		reference = evaluate(tokenize(split.reference));
+		claimed = evaluate(tokenize(split.claimed));
+	} catch (error) {
+		if (error instanceof NotNumeric) return null;
+		throw error;
+	}
+
+	const hedged = list.some((word) => HEDGES.has(word));
+	const verdict = (holds: boolean, working: string): NumericCheck => ({
+		holds: split.negated ? !holds : holds,
+		working: split.negated
+			? `${working}, so the statement is ${holds ? "false" : "true"}`
+			: working,
+	});
+
+	if (reference.dimension !== claimed.dimension) {
+		if (!reference.dimension || !claimed.dimension) return null;
+		return verdict(
+			false,
+			`A ${reference.dimension} can't be compared with a ${claimed.dimension}`,
+		);
+	}
+
+	// Work in the claimed unit when the claim names one
+	const claimedUnit = claimed.literal?.unit;
+	const actual = claimedUnit
+		? fromBase(reference.value, claimedUnit)
+		: reference.value;
+	const stated = claimedUnit
+		? fromBase(claimed.value, claimedUnit)
+		: claimed.value;
+	const shown = (value: number) =>
+		claimedUnit ? unitName(claimedUnit, value) : format(value);
+	// "a dozen = 12", but not "ten = 10"
+	const spoken = reference.literal?.spoken;
+	const actualText =
+		reference.literal && !claimedUnit
+			? spoken &&
+				Object.keys({ ...SCALES, ...DENOMINATORS }).some((word) =>
+					spoken.split(" ").includes(word),
+				)
+				? `${spoken} = ${reference.text}`
+				: reference.text
+			: `${reference.text} = ${shown(actual)}`;
+
+	if (split.comparison !== "=") {
+		const holds = split.comparison === ">" ? actual > stated : actual < stated;
+		const symbol =
+			split.comparison === ">" ? (holds ? ">" : "≤") : holds ? "<" : "≥";
+		return verdict(holds, `${actualText} ${symbol} ${claimed.text}`);
+	}
+
+	// A stated measurement may be rounded to the precision it was given in
+	const decimals = claimed.literal?.decimals;
+	const rounding = decimals ? 0.5 * 10 ** -decimals : 0;
+	const relative = hedged
+		? tolerance.approximate
+		: reference.dimension
+			? tolerance.conversion
+			: 1e-9;
+	const error = Math.abs(actual - stated);
+	const holds = error <= Math.max(rounding, relative * Math.abs(actual), 1e-12);
+
+	if (!holds) return verdict(false, `${actualText}, not ${claimed.text}`);
+	if (error <= 1e-9 * Math.max(1, Math.abs(actual)))
+		return verdict(true, actualText);
+	return verdict(
+		true,
+		`${actualText}, which is ${claimed.text} ${hedged ? "approximately" : "to the precision stated"}`,
+	);
+}
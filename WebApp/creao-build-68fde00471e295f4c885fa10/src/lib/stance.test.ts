@@ -0,0 +1,126 @@
+import { aggregateStances, classifyStanceLocally } from "@/lib/stance";
+import { describe, expect, it } from "vitest";
+
+/** Statement, snippet and the stance the snippet takes */
+const CASES: [string, string, string][] = [
+	[
+		"Water boils at 100 degrees Celsius at sea level",
+		"At sea level, water boils at 100 degrees Celsius (212 degrees Fahrenheit).",
+		"supports",
+	],
+	[
+		"The Eiffel Tower was completed in 1889",
+		"The Eiffel Tower in Paris was completed in 1889 for the World's Fair.",
+		"supports",
+	],
+	[
+		"The Great Wall of China is visible from the Moon",
+		"Contrary to popular belief, the Great Wall of China is not visible to the naked eye from the Moon.",
+		"refutes",
+	],
+	[
+		"Vaccines cause autism",
+		"Extensive research has found no link between vaccines and autism.",
+		"refutes",
+	],
+	[
+		"Humans only use 10 percent of their brain",
+		"The claim that humans use only 10 percent of their brain is a myth.",
+		"refutes",
+	],
+	[
+		"Mount Everest is 9000 metres tall",
+		"Mount Everest is Earth's highest mountain above sea level, at 8,849 metres.",
+		"refutes",
+	],
+	[
+		"The Eiffel Tower was completed in 1889",
+		"Cats sleep for up to 16 hours a day.",
+		"unrelated",
+	],
+];
+
+describe("classifyStanceLocally", () => {
+	it.each(CASES)("%j vs %j %s", (statement, snippet, expected) => {
+		const { stance, confidence } = classifyStanceLocally(statement, snippet);
+		expect(stance).toBe(expected);
+		expect(confidence).toBeGreaterThan(0);
+		expect(confidence).toBeLessThanOrEqual(1);
+	});
+
+	it("is sure of snippets that repeat the statement", () => {
+		const { stance, confidence } = classifyStanceLocally(
+			"The Eiffel Tower was completed in 1889",
+			"Built for the World's Fair, the Eiffel Tower was completed in 1889.",
+		);
+		expect(stance).toBe("supports");
+		expect(confidence).toBeGreaterThanOrEqual(0.6);
+	});
+
+	it.each([
+		[
+			"The capital of Australia is Sydney",
+			"Sydney is the capital of New South Wales and the largest city in Australia.",
+		],
+		[
+			"Obama was born in Kenya",
+			"Obama's father was born in Kenya; Obama was born in Hawaii.",
+		],
+		[
+			"The Eiffel Tower was completed in 1889",
+			"The Eiffel Tower in Paris was completed in 1889 for the World's Fair.",
+		],
+	])(
+		"is unsure of %j from %j, which shares words but not the relation",
+		(statement, snippet) => {
+			expect(classifyStanceLocally(statement, snippet).confidence).toBeLessThan(
+				0.6,
+			);
+		},
+	);
+
+	it("is unsure of snippets that leave part of the statement out", () => {
+		const { confidence } = classifyStanceLocally(
+			"Paris is the capital of Germany",
+			"Paris is the capital and largest city of France.",
+		);
+		expect(confidence).toBeLessThan(0.6);
+	});
+});
+
+describe("aggregateStances", () => {
+	it("votes false when refuting snippets outweigh supporting ones", () => {
+		const verdict = aggregateStances([
+			{ id: "E1", stance: "refutes", confidence: 0.8, method: "local" },
+			{ id: "E2", stance: "refutes", confidence: 0.7, method: "model" },
+			{ id: "E3", stance: "supports", confidence: 0.2, method: "local" },
+			{ id: "E4", stance: "unrelated", confidence: 0.6, method: "local" },
+		]);
+		expect(verdict.verdict).toBe("false");
+		expect(verdict.evidenceIds).toEqual(["E1", "E2"]);
+		expect(verdict.confidence).toBeGreaterThan(0.8);
+	});
+
+	it("is inconclusive when sources disagree", () => {
+		const verdict = aggregateStances([
+			{ id: "E1", stance: "refutes", confidence: 0.7, method: "local" },
+			{ id: "E2", stance: "supports", confidence: 0.7, method: "local" },
+		]);
+		expect(verdict.verdict).toBe("inconclusive");
+	});
+
+	it("is inconclusive when no snippet takes a position", () => {
+		const verdict = aggregateStances([
+			{ id: "E1", stance: "unrelated", confidence: 0.6, method: "local" },
+		]);
+		expect(verdict).toMatchObject({ verdict: "inconclusive", evidenceIds: [] });
+	});
+
+	it("doesn't settle a claim on one weak snippet", () => {
+		const verdict = aggregateStances([
+			{ id: "E1", stance: "supports", confidence: 0.3, method: "local" },
+		]);
+		expect(verdict.verdict).toBe("true");
+		expect(verdict.confidence).toBeLessThan(0.3);
+	});
+});
@@ -0,0 +1,167 @@
+import { canonicalClaim, claimTokens, normalizeClaim } from "@/lib/claim-text";
+import type { AgentVerdict } from "@/services/agents/types";
+
+/**
+ * Stance detection
+ *
+ * Whether a search snippet supports, refutes or says nothing about a
+ * statement. Finding results is not evidence that a statement is true;
+ * only snippets that take a position count towards a verdict.
+ */
+
+export type Stance = "supports" | "refutes" | "unrelated";
+
+/**
+ * The stance of one evidence snippet
+ */
+export interface SnippetStance {
+	/** Evidence ID, e.g. "E1" */
+	id: string;
+	stance: Stance;
+	confidence: number;
+	method: "local" | "model";
+}
+
+/**
+ * Verdict aggregated from snippet stances
+ */
+export interface StanceVerdict {
+	verdict: AgentVerdict;
+	confidence: number;
+	reasoning: string;
+	/** Snippets on the side of the verdict */
+	evidenceIds: string[];
+}
+
+/** Phrases a source uses to call a claim wrong */
+const REFUTING_CUES =
+	/\b(myths?|hoax(es)?|debunked|falsely|not true|untrue|misconceptions?|contrary to|retracted|incorrect(ly)?|baseless|disproven|unfounded|no (evidence|link|proof))\b/i;
+
+const NEGATIONS = new Set(["not", "no", "never", "none"]);
+
+/** Share of snippets' weight one side needs for a decisive verdict */
+const DECISIVE_SHARE = 0.6;
+
+/**
+ * Most a sentence can support a statement it doesn't repeat word for word
+ * Below the default `minLocalConfidence` of StanceDetectionService, so
+ * such snippets are passed to the model when it is available
+ */
+const UNALIGNED_SUPPORT_CAP = 0.5;
+
+const isNegated = (tokens: Set<string>) =>
+	[...tokens].filter((token) => NEGATIONS.has(token)).length % 2 === 1;
+
+const numbersOf = (tokens: Set<string>) =>
+	[...tokens].filter((token) => /\d/.test(token));
+
+/**
+ * Classify a snippet's stance without a model
+ *
+ * The snippet is judged by its sentence sharing the most content words
+ * with the statement. A sentence that mentions too few of them is
+ * unrelated. One that uses debunking language, disagrees on negation or
+ * gives different numbers refutes. Otherwise it supports, with confidence
+ * growing with how much of the statement it repeats, since a sentence
+ * that leaves words out may be saying something else ("capital of France"
+ * for "capital of Germany"). Sharing words doesn't mean sharing a
+ * relation: "Sydney is the capital of New South Wales" has every word of
+ * "The capital of Australia is Sydney" but one. So support is only
+ * confident when the sentence repeats the statement's content words in
+ * order with nothing in between.
+ */
+export function classifyStanceLocally(
+	statement: string,
+	snippet: string,
+): { stance: Stance; confidence: number } {
+	const claimWords = claimTokens(normalizeClaim(statement));
+	if (claimWords.size === 0) return { stance: "unrelated", confidence: 0.5 };
+
+	let best = { sentence: "", tokens: new Set<string>(), shared: 0 };
+	for (const sentence of snippet.split(/(?<=[.!?])\s+/)) {
+		const tokens = claimTokens(normalizeClaim(sentence));
+		const shared = [...claimWords].filter((word) => tokens.has(word)).length;
+		if (shared > best.shared) best = { sentence, tokens, shared };
+	}
+
+	const coverage = best.shared / claimWords.size;
+	const round = (value: number) => Math.round(value * 100) / 100;
+	if (coverage < 0.3) {
+		return { stance: "unrelated", confidence: round(0.7 - coverage) };
+	}
+
+	const claimNumbers = numbersOf(claimWords);
+	const sentenceNumbers = numbersOf(best.tokens);
+	const numbersDiffer =
+		claimNumbers.length > 0 &&
+		sentenceNumbers.length > 0 &&
+		!claimNumbers.some((number) => best.tokens.has(number));
+
+	if (REFUTING_CUES.test(best.sentence)) {
+		return { stance: "refutes", confidence: round(0.5 + 0.4 * coverage) };
+	}
+	if (isNegated(claimWords) !== isNegated(best.tokens)) {
+		return { stance: "refutes", confidence: round(0.45 + 0.4 * coverage) };
+	}
+	if (numbersDiffer) {
+		return { stance: "refutes", confidence: round(0.4 + 0.4 * coverage) };
+	}
+	const aligned = ` ${canonicalClaim(best.sentence)} `.includes(
+		` ${canonicalClaim(statement)} `,
+	);
+	const confidence = 0.9 * coverage ** 2;
+	return {
+		stance: "supports",
+		confidence: round(
+			aligned ? confidence : Math.min(confidence, UNALIGNED_SUPPORT_CAP),
+		),
+	};
+}
+
+/**
+ * Combine snippet stances into a verdict
+ * Each side's weight is the summed confidence of its snippets; one side
+ * needs 60% of the weight to decide, and confidence grows with how much
+ * weight there is, so a single weak snippet can't settle a claim
+ */
+export function aggregateStances(stances: SnippetStance[]): StanceVerdict {
+	const weigh = (stance: Stance) =>
+		stances
+			.filter((s) => s.stance === stance)
+			.reduce((sum, s) => sum + s.confidence, 0);
+	const idsOf = (stance: Stance) =>
+		stances.filter((s) => s.stance === stance).map((s) => s.id);
+
+	const support = weigh("supports");
+	const refute = weigh("refutes");
+	const total = support + refute;
+	const tally = `${idsOf("supports").length} supporting (${idsOf("supports").join(", ") || "none"}), ${idsOf("refutes").length} refuting (${idsOf("refutes").join(", ") || "none"}), ${idsOf("unrelated").length} unrelated`;
+
+	if (total === 0) {
+		return {
+			verdict: "inconclusive",
+			confidence: 0.3,
+			reasoning: `None of ${stances.length} web sources takes a position on the statement`,
+			evidenceIds: [],
+		};
+	}
+
+	const leading: Stance = refute > support ? "refutes" : "supports";
+	const share = Math.max(support, refute) / total;
+	const confidence = Math.round(share * Math.min(1, total / 1.5) * 100) / 100;
+	if (share < DECISIVE_SHARE) {
+		return {
+			verdict: "inconclusive",
+			confidence,
+			reasoning: `Web sources disagree: ${tally}`,
+			evidenceIds: [...idsOf("supports"), ...idsOf("refutes")],
+		};
+	}
+
+	return {
+		verdict: leading === "refutes" ? "false" : "true",
+		confidence,
+		reasoning: `Web sources ${leading === "refutes" ? "refute" : "support"} the statement: ${tally}`,
+		evidenceIds: idsOf(leading),
+	};
+}
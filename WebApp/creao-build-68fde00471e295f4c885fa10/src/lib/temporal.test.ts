@@ -0,0 +1,46 @@
+import { calendarDate, classifyTemporal, temporalPrompt } from "@/lib/temporal";
+import { describe, expect, it } from "vitest";
+
+const today = new Date(2026, 9, 19);
+
+describe("classifyTemporal", () => {
+	it.each([
+		["The current UK prime minister is Keir Starmer", "current"],
+		["Inflation is 3%", "changing figure"],
+		["Elon Musk is the CEO of Tesla", "office holder"],
+		["Unemployment will fall in 2026", "2026"],
+	])("reads %s as time-sensitive", (statement, cue) => {
+		const classification = classifyTemporal(statement, today);
+		expect(classification.timeSensitive).toBe(true);
+		expect(classification.cues).toContain(cue);
+	});
+
+	it.each([
+		["Obama was president of the United States"],
+		["Inflation in 2022 was 9%"],
+		["The Eiffel Tower was completed in 1889"],
+		["Water boils at 100 degrees Celsius"],
+	])("reads %s as timeless", (statement) => {
+		expect(classifyTemporal(statement, today)).toEqual({
+			timeSensitive: false,
+			cues: [],
+		});
+	});
+});
+
+describe("calendarDate", () => {
+	it("formats a local date as YYYY-MM-DD", () => {
+		expect(calendarDate(new Date(2026, 0, 5, 23, 30))).toBe("2026-01-05");
+	});
+});
+
+describe("temporalPrompt", () => {
+	it("gives the date, and warns about stale knowledge when time-sensitive", () => {
+		expect(temporalPrompt("2026-10-19", false)).toBe(
+			"The statement was made on 2026-10-19.",
+		);
+		expect(temporalPrompt("2026-10-19", true)).toMatch(
+			/^The statement was made on 2026-10-19\. It is time-sensitive/,
+		);
+	});
+});
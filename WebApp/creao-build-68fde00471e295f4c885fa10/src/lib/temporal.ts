@@ -0,0 +1,145 @@
+import { normalizeClaim } from "@/lib/claim-text";
+
+/**
+ * Time-sensitive claims
+ *
+ * "The current UK prime minister is X" or "inflation is 3%" can be true
+ * one month and false the next, and a model judges them against whatever
+ * was true at its training cut-off. These helpers recognise such claims
+ * and tell agents the date a statement was made.
+ */
+
+export interface TemporalClassification {
+	timeSensitive: boolean;
+	/** What made the claim time-sensitive, e.g. "current", "office holder" */
+	cues: string[];
+}
+
+/** Words that tie a claim to the present */
+const PRESENT_MARKERS =
+	/\b(current|currently|now|nowadays|today|tonight|at the moment|at present|presently|right now|these days|this (year|month|week|quarter|season)|latest|newest|most recent|recently|so far|to date|as of|still|incumbent|sitting)\b/;
+
+/** Roles whose holder changes */
+const OFFICES = [
+	"prime minister",
+	"president",
+	"chancellor",
+	"premier",
+	"king",
+	"queen",
+	"monarch",
+	"pope",
+	"ceo",
+	"chief executive",
+	"chairman",
+	"chairwoman",
+	"governor",
+	"mayor",
+	"secretary general",
+	"head coach",
+	"champion",
+	"champions",
+	"record holder",
+	"world record",
+];
+
+/** Figures that move */
+const FIGURES = [
+	"inflation",
+	"unemployment",
+	"interest rates?",
+	"exchange rate",
+	"mortgage rates?",
+	"gdp",
+	"stock price",
+	"share price",
+	"market cap",
+	"market value",
+	"valuation",
+	"prices?",
+	"population",
+	"polls?",
+	"polling",
+	"approval rating",
+	"net worth",
+	"national debt",
+	"deficit",
+];
+
+const PRESENT_TENSE = "is|are|stands at|sits at|has|have";
+
+/** Any of the terms, alongside a present-tense verb */
+function presentTense(terms: string[]): RegExp {
+	const term = terms.join("|");
+	return new RegExp(
+		`\\b(${PRESENT_TENSE})\\b.*\\b(${term})\\b|\\b(${term})\\b.*\\b(${PRESENT_TENSE})\\b`,
+	);
+}
+
+const OFFICE_HOLDERS = presentTense(OFFICES);
+const CHANGING_FIGURES = presentTense(FIGURES);
+
+/** Claims about a stated past year or period aren't about the present */
+const PAST_PERIOD =
+	/\b(in|during|since|by|from)\s+(1\d{3}|20\d{2})\b|\b(last|previous)\s+(year|month|week|quarter|decade|century)\b|\b(was|were)\b/;
+
+/**
+ * Whether a claim's truth depends on when it is checked
+ */
+export function classifyTemporal(
+	statement: string,
+	today: Date = new Date(),
+): TemporalClassification {
+	const text = normalizeClaim(statement);
+	const cues: string[] = [];
+
+	const marker = text.match(PRESENT_MARKERS);
+	if (marker) cues.push(marker[0]);
+
+	const currentYear = today.getFullYear();
+	const years = [...text.matchAll(/\b(1\d{3}|20\d{2})\b/g)].map((m) =>
+		Number(m[1]),
+	);
+	if (years.some((year) => year >= currentYear)) {
+		cues.push(String(Math.max(...years)));
+	}
+
+	// Without a present marker, a past period anchors the claim in time
+	if (cues.length === 0 && !PAST_PERIOD.test(text)) {
+		if (OFFICE_HOLDERS.test(text)) cues.push("office holder");
+		if (CHANGING_FIGURES.test(text)) cues.push("changing figure");
+	}
+
+	return { timeSensitive: cues.length > 0, cues };
+}
+
+/**
+ * A calendar date as YYYY-MM-DD, in local time
+ */
+export function calendarDate(date: Date = new Date()): string {
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * A YYYY-MM-DD date for display, e.g. "19 Oct 2026"
+ */
+export function formatAsOf(asOf: string): string {
+	const [year, month, day] = asOf.split("-").map(Number);
+	return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+		day: "numeric",
+		month: "short",
+		year: "numeric",
+	});
+}
+
+/**
+ * Prompt text giving the date a statement was made, with a warning about
+ * stale knowledge for time-sensitive statements
+ */
+export function temporalPrompt(asOf: string, timeSensitive: boolean): string {
+	const date = `The statement was made on ${asOf}.`;
+	return timeSensitive
+		? `${date} It is time-sensitive: judge it as of that date. If your knowledge may be out of date for it, say so and lower your confidence instead of relying on what was true at your training cut-off.`
+		: date;
+}
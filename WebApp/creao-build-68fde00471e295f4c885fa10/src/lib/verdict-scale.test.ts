@@ -0,0 +1,44 @@
+import {
+	VERDICT_RATINGS,
+	ratingForVerdict,
+	ratingScalePrompt,
+	verdictForRating,
+} from "@/lib/verdict-scale";
+import { describe, expect, it } from "vitest";
+
+describe("verdictForRating", () => {
+	it.each([
+		["true", "true"],
+		["mostly_true", "true"],
+		["missing_context", "true"],
+		["misleading", "false"],
+		["mostly_false", "false"],
+		["false", "false"],
+		["unverifiable", "inconclusive"],
+	] as const)("reads %s as %s", (rating, verdict) => {
+		expect(verdictForRating(rating)).toBe(verdict);
+	});
+});
+
+describe("ratingForVerdict", () => {
+	it("rates plain verdicts plainly", () => {
+		expect(ratingForVerdict("true")).toBe("true");
+		expect(ratingForVerdict("false")).toBe("false");
+		expect(ratingForVerdict("inconclusive")).toBe("unverifiable");
+	});
+
+	it("reads back as the same verdict", () => {
+		for (const verdict of ["true", "false", "inconclusive"] as const) {
+			expect(verdictForRating(ratingForVerdict(verdict))).toBe(verdict);
+		}
+	});
+});
+
+describe("ratingScalePrompt", () => {
+	it("lists every rating in order", () => {
+		const lines = ratingScalePrompt().split("\n").slice(1);
+		expect(lines.map((line) => line.slice(2, line.indexOf(":")))).toEqual(
+			VERDICT_RATINGS,
+		);
+	});
+});
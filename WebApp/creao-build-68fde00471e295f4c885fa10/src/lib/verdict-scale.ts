@@ -0,0 +1,91 @@
+/**
+ * Graded verdict scale
+ *
+ * Agents rate statements on a scale that can tell a half-truth from a true
+ * statement. Consensus math still runs on the coarse true / false /
+ * inconclusive reading of each rating (see `verdictForRating`); the rating
+ * says how true or false.
+ */
+
+export type VerdictRating =
+	| "true"
+	| "mostly_true"
+	| "missing_context"
+	| "misleading"
+	| "mostly_false"
+	| "false"
+	| "unverifiable";
+
+/** Ratings from most to least true, with unverifiable last */
+export const VERDICT_RATINGS: VerdictRating[] = [
+	"true",
+	"mostly_true",
+	"missing_context",
+	"misleading",
+	"mostly_false",
+	"false",
+	"unverifiable",
+];
+
+export const RATING_LABELS: Record<VerdictRating, string> = {
+	true: "True",
+	mostly_true: "Mostly True",
+	missing_context: "Missing Context",
+	misleading: "Misleading",
+	mostly_false: "Mostly False",
+	false: "False",
+	unverifiable: "Unverifiable",
+};
+
+/**
+ * What each rating means, for agent prompts
+ */
+export const RATING_DEFINITIONS: Record<VerdictRating, string> = {
+	true: "accurate, with nothing significant missing",
+	mostly_true: "accurate but needs clarification or has a minor error",
+	missing_context:
+		"technically accurate but leaves out context that changes its meaning",
+	misleading:
+		"contains some truth but is framed or selected to give a false impression",
+	mostly_false: "contains a grain of truth but its main point is wrong",
+	false: "inaccurate",
+	unverifiable: "cannot be checked with available evidence",
+};
+
+/**
+ * The true / false / inconclusive reading of a rating
+ * Statements that are accurate but lack context read as true; misleading
+ * ones read as false, so they are corrected
+ */
+export function verdictForRating(
+	rating: VerdictRating,
+): "true" | "false" | "inconclusive" {
+	switch (rating) {
+		case "true":
+		case "mostly_true":
+		case "missing_context":
+			return "true";
+		case "misleading":
+		case "mostly_false":
+		case "false":
+			return "false";
+		default:
+			return "inconclusive";
+	}
+}
+
+/**
+ * Rating implied by a coarse verdict, for agents that don't grade
+ */
+export function ratingForVerdict(
+	verdict: "true" | "false" | "inconclusive",
+): VerdictRating {
+	return verdict === "inconclusive" ? "unverifiable" : verdict;
+}
+
+/**
+ * Instruction listing the scale, for agent prompts
+ */
+export function ratingScalePrompt(): string {
+	return `Rate the statement on this scale:\n${VERDICT_RATINGS.map((rating) => `- ${rating}: ${RATING_DEFINITIONS[rating]}`).join("\n")}`;
+}
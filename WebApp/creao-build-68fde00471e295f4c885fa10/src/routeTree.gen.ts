@@ -11,11 +11,18 @@
 // Import Routes
 
 import { Route as rootRoute } from './routes/__root'
+import { Route as ReviewImport } from './routes/review'
 import { Route as JwtDebugImport } from './routes/jwt-debug'
 import { Route as IndexImport } from './routes/index'
 
 // Create/Update Routes
 
+const ReviewRoute = ReviewImport.update({
+  id: '/review',
+  path: '/review',
+  getParentRoute: () => rootRoute,
+} as any)
+
 const JwtDebugRoute = JwtDebugImport.update({
   id: '/jwt-debug',
   path: '/jwt-debug',
@@ -46,6 +53,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof JwtDebugImport
       parentRoute: typeof rootRoute
     }
+    '/review': {
+      id: '/review'
+      path: '/review'
+      fullPath: '/review'
+      preLoaderRoute: typeof ReviewImport
+      parentRoute: typeof rootRoute
+    }
   }
 }
 
@@ -54,36 +68,41 @@ declare module '@tanstack/react-router' {
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/jwt-debug': typeof JwtDebugRoute
+  '/review': typeof ReviewRoute
 }
 
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/jwt-debug': typeof JwtDebugRoute
+  '/review': typeof ReviewRoute
 }
 
 export interface FileRoutesById {
   __root__: typeof rootRoute
   '/': typeof IndexRoute
   '/jwt-debug': typeof JwtDebugRoute
+  '/review': typeof ReviewRoute
 }
 
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/jwt-debug'
+  fullPaths: '/' | '/jwt-debug' | '/review'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/jwt-debug'
-  id: '__root__' | '/' | '/jwt-debug'
+  to: '/' | '/jwt-debug' | '/review'
+  id: '__root__' | '/' | '/jwt-debug' | '/review'
   fileRoutesById: FileRoutesById
 }
 
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   JwtDebugRoute: typeof JwtDebugRoute
+  ReviewRoute: typeof ReviewRoute
 }
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   JwtDebugRoute: JwtDebugRoute,
+  ReviewRoute: ReviewRoute,
 }
 
 export const routeTree = rootRoute
@@ -97,7 +116,8 @@ export const routeTree = rootRoute
       "filePath": "__root.tsx",
       "children": [
         "/",
-        "/jwt-debug"
+        "/jwt-debug",
+        "/review"
       ]
     },
     "/": {
@@ -105,6 +125,9 @@ export const routeTree = rootRoute
     },
     "/jwt-debug": {
       "filePath": "jwt-debug.tsx"
+    },
+    "/review": {
+      "filePath": "review.tsx"
     }
   }
 }
@@ -1,3 +1,5 @@
+import { AgentSettingsPanel } from "@/components/AgentSettingsPanel";
+import { FactSheetPanel } from "@/components/FactSheetPanel";
 import { MicrophonePermissionAlert } from "@/components/MicrophonePermissionAlert";
 import { SpeakerQueuePanel } from "@/components/SpeakerQueuePanel";
 import { UnifiedTranscriptionPanel } from "@/components/UnifiedTranscriptionPanel";
@@ -8,6 +10,7 @@ import {
 	DeclarativeStatementStatementType,
 	DeclarativeStatementVerificationStatus,
 } from "@/components/data/orm/orm_declarative_statement";
+import type { MisinformationGroupModel } from "@/components/data/orm/orm_misinformation_group";
 import {
 	type SpeakerQueueModel,
 	SpeakerQueueORM,
@@ -19,6 +22,7 @@ import {
 	UserSessionORM,
 } from "@/components/data/orm/orm_user_session";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import {
 	Card,
 	CardContent,
@@ -29,9 +33,29 @@ import {
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { FactSheetEntry, FactSheetTemplate } from "@/lib/fact-sheet";
+import AgentRegistry, {
+	type RegisteredAgentInfo,
+} from "@/services/agent-registry";
+import AgentReliabilityService from "@/services/agent-reliability";
+import CircuitBreakerService from "@/services/circuit-breaker";
+import ClaimClusteringService from "@/services/claim-clustering";
+import { falseClaimsOf } from "@/services/claim-decomposition";
+import ConsensusService, {
+	type ConsensusStrategyName,
+	type DebateRule,
+} from "@/services/consensus-service";
+import FactSheetService from "@/services/fact-sheet";
+import KnowledgeBaseService from "@/services/knowledge-base";
+import MisinformationGroupService from "@/services/misinformation-groups";
+import ReverificationScheduler from "@/services/reverification-scheduler";
+import ReviewService from "@/services/review-service";
 import VerificationService, {
+	type VerificationProgress,
 	type VerificationResult,
+	applyVerificationEvent,
 } from "@/services/verification-service";
+import VerificationStoreService from "@/services/verification-store";
 import VoiceService, {
 	type AudioLevelUpdate,
 	type PermissionError,
@@ -39,13 +63,18 @@ import VoiceService, {
 	type ProcessingStateUpdate,
 	type TranscriptionResult,
 } from "@/services/voice-service";
-import { createFileRoute } from "@tanstack/react-router";
-import { useCallback, useEffect, useState } from "react";
+import { Link, createFileRoute } from "@tanstack/react-router";
+import { UserCheck } from "lucide-react";
+import { useCallback, useEffect, useRef, useState } from "react";
 
 export const Route = createFileRoute("/")({
 	component: App,
 });
 
+/** Debate rounds shown in settings; 0 when debate mode is off */
+const debateRoundsOf = (debate: DebateRule) =>
+	debate.enabled ? debate.maxRounds : 0;
+
 function App() {
 	const [isListening, setIsListening] = useState(false);
 	const [isProcessing, setIsProcessing] = useState(false);
@@ -55,9 +84,9 @@ function App() {
 		[],
 	);
 	const [speakerQueue, setSpeakerQueue] = useState<SpeakerQueueModel[]>([]);
-	const [verificationResults, setVerificationResults] = useState<
-		VerificationResult[]
-	>([]);
+	const [verifications, setVerifications] = useState<VerificationProgress[]>(
+		[],
+	);
 	const [currentSession, setCurrentSession] = useState<UserSessionModel | null>(
 		null,
 	);
@@ -69,6 +98,41 @@ function App() {
 	const [permissionError, setPermissionError] = useState<string | null>(null);
 	const [lastAudioTime, setLastAudioTime] = useState<number>(Date.now());
 	const [isCurrentlySpeaking, setIsCurrentlySpeaking] = useState(false);
+	const [verificationAgents, setVerificationAgents] = useState<
+		RegisteredAgentInfo[]
+	>(() => AgentRegistry.describeAgents());
+	const [consensusStrategy, setConsensusStrategy] =
+		useState<ConsensusStrategyName>(
+			() => ConsensusService.getConfig().strategy,
+		);
+	const [quorumMinVotes, setQuorumMinVotes] = useState<number>(
+		() => ConsensusService.getConfig().quorum.minVotes,
+	);
+	const [debateRounds, setDebateRounds] = useState<number>(() =>
+		debateRoundsOf(ConsensusService.getConfig().debate),
+	);
+	const [knowledgeFactCount, setKnowledgeFactCount] = useState<number>(
+		() => KnowledgeBaseService.getFacts().length,
+	);
+	const [knowledgeImportError, setKnowledgeImportError] = useState<
+		string | null
+	>(null);
+	const [factSheetEntries, setFactSheetEntries] = useState<FactSheetEntry[]>(
+		() => FactSheetService.getEntries(),
+	);
+	const [factSheetTemplates, setFactSheetTemplates] = useState<
+		FactSheetTemplate[]
+	>(() => FactSheetService.getTemplates());
+	const [factSheetError, setFactSheetError] = useState<string | null>(null);
+	const [misinformationGroups, setMisinformationGroups] = useState<
+		MisinformationGroupModel[]
+	>([]);
+
+	// In-flight verifications, keyed by speaker queue item id
+	const verificationControllers = useRef(new Map<string, AbortController>());
+	// Stored declarative statement ids, keyed by speaker queue item id, so
+	// feedback on a verdict counts as the same sample as a moderator's review
+	const declarativeStatementIds = useRef(new Map<string, string>());
 
 	// Initialize ORMs
 	const userSessionORM = UserSessionORM.getInstance();
@@ -153,7 +217,11 @@ function App() {
 	}, [isMultiUserMode, userSessionORM]);
 
 	const handleStopListening = useCallback(async () => {
-		// Stop voice input
+		// Cancel in-flight checks and stop voice input
+		for (const controller of verificationControllers.current.values()) {
+			controller.abort();
+		}
+		verificationControllers.current.clear();
 		await VoiceService.stopListening();
 		setIsListening(false);
 		setIsProcessing(false);
@@ -161,6 +229,13 @@ function App() {
 
 		// Update session
 		if (currentSession) {
+			AgentRegistry.clearSession(currentSession.id);
+			ConsensusService.clearSession(currentSession.id);
+			setVerificationAgents(AgentRegistry.describeAgents());
+			setConsensusStrategy(ConsensusService.getConfig().strategy);
+			setQuorumMinVotes(ConsensusService.getConfig().quorum.minVotes);
+			setDebateRounds(debateRoundsOf(ConsensusService.getConfig().debate));
+
 			const updatedSession: UserSessionModel = {
 				...currentSession,
 				end_time: new Date().toISOString(),
@@ -195,15 +270,38 @@ function App() {
 
 			// Only process declarative statements for fact-checking
 			if (result.statementType === "declarative" && currentSession) {
+				// Check the standalone form of a claim that relied on earlier statements
+				const claim = result.standaloneText ?? result.text;
 				console.log(
-					`✅ DECLARATIVE STATEMENT DETECTED - Queueing for fact-check: "${result.text}"`,
+					`✅ DECLARATIVE STATEMENT DETECTED - Queueing for fact-check: "${claim}"`,
 				);
+				// Store declarative statement so its verification can be linked to it
+				const statement: Partial<DeclarativeStatementModel> = {
+					user_session_id: currentSession.id,
+					speaker_id: result.speaker_id,
+					original_transcription: result.text,
+					standalone_statement: result.standaloneText ?? "",
+					statement_timestamp: result.timestamp,
+					statement_type: DeclarativeStatementStatementType.Declarative,
+					verification_status: DeclarativeStatementVerificationStatus.Pending,
+				};
+
+				let storedStatement: DeclarativeStatementModel | undefined;
+				try {
+					[storedStatement] =
+						await declarativeStatementORM.insertDeclarativeStatement([
+							statement as DeclarativeStatementModel,
+						]);
+				} catch (error) {
+					console.error("Failed to store statement:", error);
+				}
+
 				console.log("🔄 Adding to speaker queue for verification...");
 				// Add to speaker queue
 				const queueItem: Partial<SpeakerQueueModel> = {
 					user_session_id: currentSession.id,
 					speaker_id: result.speaker_id,
-					statement_text: result.text,
+					statement_text: claim,
 					statement_timestamp: result.timestamp,
 					processing_status: SpeakerQueueProcessingStatus.Pending,
 				};
@@ -220,40 +318,36 @@ function App() {
 
 						// Process the statement - THIS TRIGGERS FACT-CHECKING
 						console.log("🚀 Triggering fact-check verification...");
-						processStatement(queueItems[0], result.text);
+						processStatement(
+							queueItems[0],
+							claim,
+							result.text,
+							storedStatement,
+						);
 					}
 				} catch (error) {
 					console.error("❌ Failed to add to queue:", error);
 				}
-
-				// Store declarative statement
-				const statement: Partial<DeclarativeStatementModel> = {
-					user_session_id: currentSession.id,
-					speaker_id: result.speaker_id,
-					original_transcription: result.text,
-					statement_timestamp: result.timestamp,
-					statement_type: DeclarativeStatementStatementType.Declarative,
-					verification_status: DeclarativeStatementVerificationStatus.Pending,
-				};
-
-				try {
-					await declarativeStatementORM.insertDeclarativeStatement([
-						statement as DeclarativeStatementModel,
-					]);
-				} catch (error) {
-					console.error("Failed to store statement:", error);
-				}
 			}
 		},
 		[currentSession, speakerQueueORM, declarativeStatementORM],
 	);
 
 	const processStatement = useCallback(
-		async (queueItem: SpeakerQueueModel, statementText: string) => {
+		async (
+			queueItem: SpeakerQueueModel,
+			statementText: string,
+			originalText: string,
+			declarativeStatement?: DeclarativeStatementModel,
+		) => {
 			console.log(
 				`⚙️ processStatement called for: "${statementText}" (ID: ${queueItem.id})`,
 			);
 
+			let storedStatement = declarativeStatement;
+			const controller = new AbortController();
+			verificationControllers.current.set(queueItem.id, controller);
+
 			// Update queue item to processing
 			const updatedItem: SpeakerQueueModel = {
 				...queueItem,
@@ -267,14 +361,35 @@ function App() {
 				);
 				setProcessingStatement(updatedItem);
 				console.log("🔄 Queue item status updated to PROCESSING");
+				if (storedStatement) {
+					storedStatement =
+						await VerificationStoreService.markInProgress(storedStatement);
+				}
 
 				// Verify the statement CONCURRENTLY - don't block new input
 				// This runs in the background while the user continues speaking
 				console.log(
 					`🔍 Starting multi-agent fact-check for: "${statementText}"`,
 				);
-				const verificationResult =
-					await VerificationService.verifyStatement(statementText);
+				// Stream agent results so the panel fills in as each agent answers
+				let verificationResult: VerificationResult | undefined;
+				for await (const event of VerificationService.verifyStatementStream(
+					statementText,
+					{
+						sessionId: queueItem.user_session_id,
+						statementId: queueItem.id,
+						signal: controller.signal,
+						originalStatement: originalText,
+					},
+				)) {
+					setVerifications((prev) => applyVerificationEvent(prev, event));
+					if (event.type === "completed") {
+						verificationResult = event.result;
+					}
+				}
+				if (!verificationResult) {
+					throw new Error("Verification ended without a result");
+				}
 				console.log(`✅ Fact-check COMPLETE for: "${statementText}"`);
 				console.log(
 					`   📊 Result: ${verificationResult.consensus} (${verificationResult.isFalse ? "❌ FALSE" : "✅ TRUE/INCONCLUSIVE"})`,
@@ -282,7 +397,31 @@ function App() {
 				console.log(
 					`   🔢 Consensus Score: ${Math.round(verificationResult.lavaGatewayConsensus.consensusScore * 100)}%`,
 				);
-				setVerificationResults((prev) => [...prev, verificationResult]);
+				if (storedStatement) {
+					declarativeStatementIds.current.set(queueItem.id, storedStatement.id);
+					const record = await VerificationStoreService.save(
+						storedStatement,
+						verificationResult,
+					);
+
+					// Group the speaker with others who made the same false claims
+					// Quarantined verdicts wait for a moderator instead, and claims
+					// without a stored result couldn't be taken back out
+					const verificationResultId =
+						record?.id ?? verificationResult.cached?.verificationResultId;
+					if (!verificationResult.quarantine && verificationResultId) {
+						for (const claim of falseClaimsOf(
+							statementText,
+							verificationResult,
+						)) {
+							MisinformationGroupService.recordFalseClaim({
+								statement: claim,
+								speakerId: queueItem.speaker_id,
+								verificationResultId,
+							});
+						}
+					}
+				}
 
 				// Update queue item to processed IMMEDIATELY after verification
 				const processedItem: SpeakerQueueModel = {
@@ -298,9 +437,11 @@ function App() {
 
 				// If statement is false, queue TTS interjection AFTER verification completes
 				// This happens asynchronously and doesn't block new transcriptions
+				// Never interject on a verdict quarantined as possible prompt injection
 				if (
 					verificationResult.isFalse &&
-					verificationResult.correctInformation
+					verificationResult.correctInformation &&
+					!verificationResult.quarantine
 				) {
 					// Wait for audio break in the background (non-blocking)
 					(async () => {
@@ -332,7 +473,26 @@ function App() {
 					})(); // Fire and forget - doesn't block
 				}
 			} catch (error) {
+				if (controller.signal.aborted) {
+					console.log(`🛑 Fact-check cancelled for: "${statementText}"`);
+					setVerifications((prev) =>
+						prev.map((entry) =>
+							entry.statementId === queueItem.id
+								? { ...entry, cancelled: true }
+								: entry,
+						),
+					);
+					setProcessingStatement(undefined);
+					if (storedStatement) {
+						await VerificationStoreService.markCancelled(storedStatement);
+					}
+					return;
+				}
+
 				console.error("Failed to process statement:", error);
+				if (storedStatement) {
+					await VerificationStoreService.markFailed(storedStatement);
+				}
 
 				// Mark as failed
 				const failedItem: SpeakerQueueModel = {
@@ -345,11 +505,198 @@ function App() {
 					prev.map((item) => (item.id === queueItem.id ? failedItem : item)),
 				);
 				setProcessingStatement(undefined);
+			} finally {
+				verificationControllers.current.delete(queueItem.id);
 			}
 		},
 		[speakerQueueORM, isCurrentlySpeaking, lastAudioTime],
 	);
 
+	const handleRemoveQueueItem = useCallback(
+		async (item: SpeakerQueueModel) => {
+			// Cancel the check if it is still running
+			verificationControllers.current.get(item.id)?.abort();
+			verificationControllers.current.delete(item.id);
+
+			try {
+				await speakerQueueORM.deleteSpeakerQueueById(item.id);
+				setSpeakerQueue((prev) => prev.filter((q) => q.id !== item.id));
+			} catch (error) {
+				console.error("Failed to remove statement from queue:", error);
+			}
+		},
+		[speakerQueueORM],
+	);
+
+	// Revisit inconclusive, failed and stale verdicts in the background
+	// Moderator reviews train agent reliability, wherever they were made
+	useEffect(() => {
+		ReviewService.learnFromReviews();
+	}, []);
+
+	useEffect(() => {
+		ReverificationScheduler.start();
+		return () => ReverificationScheduler.stop();
+	}, []);
+
+	// Misinformation groups span sessions, so load them up front
+	useEffect(() => {
+		MisinformationGroupService.getGroups().then(setMisinformationGroups);
+		return MisinformationGroupService.subscribe(setMisinformationGroups);
+	}, []);
+
+	const handleMergeGroups = useCallback(
+		(targetId: string, sourceIds: string[]) => {
+			MisinformationGroupService.mergeGroups(targetId, sourceIds);
+		},
+		[],
+	);
+
+	const handleSplitGroup = useCallback(
+		(groupId: string, memberIds: string[]) => {
+			MisinformationGroupService.splitGroup(groupId, memberIds);
+		},
+		[],
+	);
+
+	// Reflect circuit breaker changes in the agent settings
+	useEffect(() => {
+		return CircuitBreakerService.subscribe(() => {
+			setVerificationAgents(AgentRegistry.describeAgents(currentSession?.id));
+		});
+	}, [currentSession]);
+
+	const handleToggleAgent = useCallback(
+		(agentId: string, enabled: boolean) => {
+			// Toggles apply to the running session, or become the defaults for the next one
+			AgentRegistry.setEnabled(agentId, enabled, currentSession?.id);
+			setVerificationAgents(AgentRegistry.describeAgents(currentSession?.id));
+		},
+		[currentSession],
+	);
+
+	const handleConsensusStrategyChange = useCallback(
+		(strategy: ConsensusStrategyName) => {
+			ConsensusService.configure({ strategy }, currentSession?.id);
+			setConsensusStrategy(strategy);
+		},
+		[currentSession],
+	);
+
+	const handleQuorumMinVotesChange = useCallback(
+		(minVotes: number) => {
+			const { quorum } = ConsensusService.getConfig(currentSession?.id);
+			ConsensusService.configure(
+				{ quorum: { ...quorum, minVotes } },
+				currentSession?.id,
+			);
+			setQuorumMinVotes(minVotes);
+		},
+		[currentSession],
+	);
+
+	const handleDebateRoundsChange = useCallback(
+		(rounds: number) => {
+			const { debate } = ConsensusService.getConfig(currentSession?.id);
+			ConsensusService.configure(
+				{
+					debate:
+						rounds > 0
+							? { enabled: true, maxRounds: rounds }
+							: { ...debate, enabled: false },
+				},
+				currentSession?.id,
+			);
+			setDebateRounds(rounds);
+		},
+		[currentSession],
+	);
+
+	const handleImportKnowledge = useCallback(async (file: File) => {
+		try {
+			await KnowledgeBaseService.importFile(file);
+			setKnowledgeFactCount(KnowledgeBaseService.getFacts().length);
+			setKnowledgeImportError(null);
+		} catch (error) {
+			console.error("❌ Knowledge base import failed:", error);
+			setKnowledgeImportError(
+				error instanceof Error ? error.message : "Import failed",
+			);
+		}
+	}, []);
+
+	// Fact sheet edits apply to the running session, or become the default for the next one
+	useEffect(() => {
+		setFactSheetEntries(FactSheetService.getEntries(currentSession?.id));
+	}, [currentSession]);
+
+	const handleAddFact = useCallback(
+		(entry: FactSheetEntry) => {
+			FactSheetService.addEntries([entry], currentSession?.id);
+			setFactSheetEntries(FactSheetService.getEntries(currentSession?.id));
+		},
+		[currentSession],
+	);
+
+	const handleRemoveFact = useCallback(
+		(topic: string) => {
+			FactSheetService.removeEntry(topic, currentSession?.id);
+			setFactSheetEntries(FactSheetService.getEntries(currentSession?.id));
+		},
+		[currentSession],
+	);
+
+	const handleApplyFactSheetTemplate = useCallback(
+		(templateId: string) => {
+			FactSheetService.applyTemplate(templateId, currentSession?.id);
+			setFactSheetEntries(FactSheetService.getEntries(currentSession?.id));
+		},
+		[currentSession],
+	);
+
+	const handleSaveFactSheetTemplate = useCallback(
+		(name: string) => {
+			FactSheetService.saveTemplate(
+				name,
+				FactSheetService.getEntries(currentSession?.id),
+			);
+			setFactSheetTemplates(FactSheetService.getTemplates());
+		},
+		[currentSession],
+	);
+
+	const handleImportFactSheetTemplate = useCallback(async (file: File) => {
+		try {
+			await FactSheetService.importTemplate(file);
+			setFactSheetTemplates(FactSheetService.getTemplates());
+			setFactSheetError(null);
+		} catch (error) {
+			console.error("❌ Fact sheet import failed:", error);
+			setFactSheetError(
+				error instanceof Error ? error.message : "Import failed",
+			);
+		}
+	}, []);
+
+	const handleVerdictFeedback = useCallback(
+		(result: VerificationResult, confirmed: boolean) => {
+			// Confirmed and overturned verdicts train per-agent reliability weights
+			AgentReliabilityService.recordFeedback({
+				statementId:
+					declarativeStatementIds.current.get(result.statementId) ??
+					result.statementId,
+				agents: result.agents.map(({ name, verdict, status }) => ({
+					name,
+					verdict,
+					status,
+				})),
+				verdict: result.lavaGatewayConsensus.verdict,
+				confirmed,
+			});
+		},
+		[],
+	);
+
 	const handleSpeak = useCallback(async (text: string) => {
 		await VoiceService.speak(text);
 	}, []);
@@ -370,6 +717,12 @@ function App() {
 						<Badge variant="outline" className="text-sm">
 							Lava Gateway Verified
 						</Badge>
+						<Button variant="outline" size="sm" asChild>
+							<Link to="/review">
+								<UserCheck className="mr-1 size-4" />
+								Review Queue
+							</Link>
+						</Button>
 					</div>
 				</div>
 
@@ -401,6 +754,32 @@ function App() {
 					</CardContent>
 				</Card>
 
+				<AgentSettingsPanel
+					agents={verificationAgents}
+					onToggle={handleToggleAgent}
+					consensusStrategy={consensusStrategy}
+					onConsensusStrategyChange={handleConsensusStrategyChange}
+					quorumMinVotes={quorumMinVotes}
+					onQuorumMinVotesChange={handleQuorumMinVotesChange}
+					debateRounds={debateRounds}
+					onDebateRoundsChange={handleDebateRoundsChange}
+					knowledgeFactCount={knowledgeFactCount}
+					knowledgeImportError={knowledgeImportError}
+					onImportKnowledge={handleImportKnowledge}
+				/>
+
+				<FactSheetPanel
+					entries={factSheetEntries}
+					templates={factSheetTemplates}
+					inSession={currentSession !== null}
+					importError={factSheetError}
+					onAddEntry={handleAddFact}
+					onRemoveEntry={handleRemoveFact}
+					onApplyTemplate={handleApplyFactSheetTemplate}
+					onSaveTemplate={handleSaveFactSheetTemplate}
+					onImportTemplate={handleImportFactSheetTemplate}
+				/>
+
 				{/* Microphone permission alert */}
 				{(permissionStatus === "denied" || permissionError) && (
 					<div className="mx-auto max-w-3xl">
@@ -438,8 +817,9 @@ function App() {
 						<TabsContent value="unified" className="mt-6">
 							<UnifiedTranscriptionPanel
 								transcriptions={transcriptions}
-								verificationResults={verificationResults}
+								verifications={verifications}
 								onSpeak={handleSpeak}
+								onFeedback={handleVerdictFeedback}
 							/>
 						</TabsContent>
 
@@ -447,6 +827,13 @@ function App() {
 							<SpeakerQueuePanel
 								queue={speakerQueue}
 								currentlyProcessing={processingStatement}
+								onRemove={handleRemoveQueueItem}
+								misinformationGroups={misinformationGroups.map((group) => ({
+									group,
+									members: ClaimClusteringService.getMembers(group),
+								}))}
+								onMergeGroups={handleMergeGroups}
+								onSplitGroup={handleSplitGroup}
 							/>
 						</TabsContent>
 					</Tabs>
@@ -0,0 +1,321 @@
+import { ModeratedBadge } from "@/components/ModeratedBadge";
+import { QuarantinedBadge } from "@/components/QuarantinedBadge";
+import { VerdictHistory } from "@/components/VerdictHistory";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+	Card,
+	CardContent,
+	CardDescription,
+	CardHeader,
+	CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { RATING_LABELS } from "@/lib/verdict-scale";
+import ReviewService, {
+	type ModerationAction,
+	type ReviewItem,
+} from "@/services/review-service";
+import { Link, createFileRoute } from "@tanstack/react-router";
+import {
+	ArrowLeft,
+	CheckCircle2,
+	HelpCircle,
+	Loader2,
+	RefreshCw,
+	XCircle,
+} from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+
+export const Route = createFileRoute("/review")({
+	component: Review,
+});
+
+const VERDICT_LABELS: Record<string, string> = {
+	true: "True",
+	false: "False",
+	inconclusive: "Inconclusive",
+	insufficient_quorum: "No Quorum",
+};
+
+/**
+ * Moderator review queue
+ * Lists verdicts with low consensus or split agents for a human to confirm,
+ * overturn or mark as needing context
+ */
+function Review() {
+	const [items, setItems] = useState<ReviewItem[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [includeReviewed, setIncludeReviewed] = useState(false);
+	const [notes, setNotes] = useState<Record<string, string>>({});
+	const [saving, setSaving] = useState<string | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	const loadQueue = useCallback(async () => {
+		setLoading(true);
+		setItems(await ReviewService.getQueue(includeReviewed));
+		setLoading(false);
+	}, [includeReviewed]);
+
+	useEffect(() => {
+		loadQueue();
+	}, [loadQueue]);
+
+	const handleReview = useCallback(
+		async (
+			item: ReviewItem,
+			action: ModerationAction,
+			overturnTo?: "true" | "false",
+		) => {
+			setSaving(item.record.id);
+			setError(null);
+			try {
+				const reviewed = await ReviewService.review(
+					item,
+					action,
+					notes[item.record.id] ?? "",
+					overturnTo,
+				);
+				setItems((prev) =>
+					includeReviewed
+						? prev.map((i) => (i.record.id === item.record.id ? reviewed : i))
+						: prev.filter((i) => i.record.id !== item.record.id),
+				);
+			} catch (reviewError) {
+				console.error("Failed to save review:", reviewError);
+				setError(
+					reviewError instanceof Error
+						? reviewError.message
+						: "Failed to save review",
+				);
+			} finally {
+				setSaving(null);
+			}
+		},
+		[notes, includeReviewed],
+	);
+
+	return (
+		<div className="min-h-screen bg-gradient-to-b from-background to-muted/20 p-6">
+			<div className="mx-auto max-w-4xl space-y-6">
+				<div className="flex items-center justify-between">
+					<div>
+						<h1 className="text-3xl font-bold tracking-tight">Review Queue</h1>
+						<p className="text-muted-foreground">
+							Verdicts below{" "}
+							{Math.round(ReviewService.getPolicy().minConsensusScore * 100)}%
+							consensus, with split agents, or quarantined as possible prompt
+							injection
+						</p>
+					</div>
+					<Button variant="outline" size="sm" asChild>
+						<Link to="/">
+							<ArrowLeft className="mr-1 size-4" />
+							Back
+						</Link>
+					</Button>
+				</div>
+
+				<div className="flex items-center justify-between">
+					<div className="flex items-center gap-2">
+						<Switch
+							id="include-reviewed"
+							checked={includeReviewed}
+							onCheckedChange={setIncludeReviewed}
+						/>
+						<Label htmlFor="include-reviewed">Show reviewed verdicts</Label>
+					</div>
+					<Button
+						variant="ghost"
+						size="sm"
+						onClick={loadQueue}
+						disabled={loading}
+					>
+						<RefreshCw className="mr-1 size-4" />
+						Refresh
+					</Button>
+				</div>
+
+				{error && <p className="text-sm text-destructive">{error}</p>}
+
+				{loading ? (
+					<div className="flex justify-center py-12 text-muted-foreground">
+						<Loader2 className="size-6 animate-spin" />
+					</div>
+				) : items.length === 0 ? (
+					<Card>
+						<CardContent className="py-12 text-center text-muted-foreground">
+							Nothing to review
+						</CardContent>
+					</Card>
+				) : (
+					items.map((item) => {
+						const agentVerdict = item.result.lavaGatewayConsensus.verdict;
+						const agentRating = item.result.lavaGatewayConsensus.rating;
+						const busy = saving === item.record.id;
+						return (
+							<Card key={item.record.id}>
+								<CardHeader>
+									<div className="flex items-start justify-between gap-4">
+										<div>
+											<CardTitle className="text-base">
+												{item.statement.original_transcription}
+											</CardTitle>
+											{item.statement.standalone_statement && (
+												<CardDescription>
+													Checked as: "{item.statement.standalone_statement}"
+												</CardDescription>
+											)}
+											<CardDescription>
+												Speaker {item.statement.speaker_id} ·{" "}
+												{new Date(
+													item.statement.statement_timestamp,
+												).toLocaleString()}
+											</CardDescription>
+										</div>
+										<div className="flex shrink-0 flex-col items-end gap-1">
+											<Badge variant="secondary">
+												Agents:{" "}
+												{agentRating
+													? RATING_LABELS[agentRating]
+													: (VERDICT_LABELS[agentVerdict] ?? agentVerdict)}{" "}
+												(
+												{Math.round(
+													item.result.lavaGatewayConsensus.consensusScore * 100,
+												)}
+												%)
+											</Badge>
+											{item.result.quarantine && (
+												<QuarantinedBadge quarantine={item.result.quarantine} />
+											)}
+											{item.result.moderation && (
+												<ModeratedBadge moderation={item.result.moderation} />
+											)}
+										</div>
+									</div>
+									<div className="flex flex-wrap gap-1">
+										{item.reasons.map((reason) => (
+											<Badge key={reason} variant="outline" className="text-xs">
+												{reason}
+											</Badge>
+										))}
+									</div>
+								</CardHeader>
+								<CardContent className="space-y-4">
+									<p className="text-xs text-muted-foreground">
+										{item.result.lavaGatewayConsensus.explanation}
+									</p>
+
+									<VerdictHistory statementId={item.statement.id} />
+
+									<div className="grid grid-cols-1 gap-2 md:grid-cols-2">
+										{item.result.agents.map((agent) => (
+											<div
+												key={agent.name}
+												className={`rounded-md border p-2 text-xs ${agent.status !== "voted" ? "opacity-60 border-dashed" : ""}`}
+											>
+												<div className="mb-1 flex items-center justify-between">
+													<span className="font-medium">{agent.name}</span>
+													<Badge
+														variant={
+															agent.status !== "voted"
+																? "outline"
+																: agent.verdict === "false"
+																	? "destructive"
+																	: agent.verdict === "true"
+																		? "outline"
+																		: "secondary"
+														}
+														className="text-xs"
+													>
+														{agent.status === "voted"
+															? `${agent.rating ? RATING_LABELS[agent.rating] : agent.verdict} (${Math.round(agent.confidence * 100)}%)`
+															: agent.status}
+													</Badge>
+												</div>
+												{agent.reasoning && (
+													<p className="text-muted-foreground line-clamp-3">
+														{agent.reasoning}
+													</p>
+												)}
+											</div>
+										))}
+									</div>
+
+									{item.result.correctInformation && (
+										<div className="rounded-md border p-2 text-xs">
+											<span className="font-semibold">
+												Proposed correction:{" "}
+											</span>
+											{item.result.correctInformation}
+										</div>
+									)}
+
+									<Textarea
+										placeholder="Moderator note (shown with the verdict)"
+										value={notes[item.record.id] ?? ""}
+										onChange={(event) =>
+											setNotes((prev) => ({
+												...prev,
+												[item.record.id]: event.target.value,
+											}))
+										}
+									/>
+
+									<div className="flex flex-wrap gap-2">
+										{(agentVerdict === "true" || agentVerdict === "false") && (
+											<Button
+												size="sm"
+												disabled={busy}
+												onClick={() => handleReview(item, "confirm")}
+											>
+												<CheckCircle2 className="mr-1 size-4" />
+												Confirm {VERDICT_LABELS[agentVerdict]}
+											</Button>
+										)}
+										{agentVerdict !== "true" && (
+											<Button
+												size="sm"
+												variant="outline"
+												disabled={busy}
+												onClick={() => handleReview(item, "overturn", "true")}
+											>
+												<CheckCircle2 className="mr-1 size-4" />
+												Mark True
+											</Button>
+										)}
+										{agentVerdict !== "false" && (
+											<Button
+												size="sm"
+												variant="outline"
+												disabled={busy}
+												onClick={() => handleReview(item, "overturn", "false")}
+											>
+												<XCircle className="mr-1 size-4" />
+												Mark False
+											</Button>
+										)}
+										<Button
+											size="sm"
+											variant="secondary"
+											disabled={busy}
+											onClick={() => handleReview(item, "needs_context")}
+										>
+											<HelpCircle className="mr-1 size-4" />
+											Needs Context
+										</Button>
+										{busy && (
+											<Loader2 className="size-4 animate-spin self-center" />
+										)}
+									</div>
+								</CardContent>
+							</Card>
+						);
+					})
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,231 @@
+import {
+	type ApiConfig,
+	apiConfig,
+	requestTimeouts,
+} from "@/config/api-config";
+import { BrightDataAgentProvider } from "@/services/agents/bright-data-agent";
+import { ClaudeAgentProvider } from "@/services/agents/claude-agent";
+import { FactSheetAgentProvider } from "@/services/agents/fact-sheet-agent";
+import { FetchAIAgentProvider } from "@/services/agents/fetchai-agent";
+import { GeminiAgentProvider } from "@/services/agents/gemini-agent";
+import { KnowledgeBaseAgentProvider } from "@/services/agents/knowledge-base-agent";
+import { LlamaAgentProvider } from "@/services/agents/llama-agent";
+import { NumericVerifierProvider } from "@/services/agents/numeric-agent";
+import type { VerificationAgentProvider } from "@/services/agents/types";
+import CircuitBreakerService, {
+	type CircuitStatus,
+} from "@/services/circuit-breaker";
+
+/**
+ * Verification Agent Registry
+ *
+ * Keeps track of the agents available to VerificationService.
+ * Agents can be registered at runtime, enabled or disabled globally or
+ * per session, and have their ApiConfig section and timeout budget
+ * overridden without touching the service itself.
+ */
+
+export interface RegisteredAgentInfo {
+	id: string;
+	name: string;
+	capabilities: VerificationAgentProvider["capabilities"];
+	enabled: boolean;
+	configured: boolean;
+	missingKeys: string[];
+	timeoutMs: number;
+	circuit: CircuitStatus;
+}
+
+/**
+ * Registry of pluggable verification agent providers
+ */
+export class AgentRegistry {
+	private static instance: AgentRegistry | null = null;
+	private providers = new Map<string, VerificationAgentProvider>();
+	private disabledAgents = new Set<string>();
+	private sessionOverrides = new Map<string, Map<string, boolean>>();
+	private configOverrides = new Map<string, Record<string, unknown>>();
+	private timeoutOverrides = new Map<string, number>();
+
+	private constructor() {
+		this.register(new FactSheetAgentProvider());
+		this.register(new NumericVerifierProvider());
+		this.register(new KnowledgeBaseAgentProvider());
+		this.register(new ClaudeAgentProvider());
+		this.register(new FetchAIAgentProvider());
+		this.register(new GeminiAgentProvider());
+		this.register(new BrightDataAgentProvider());
+		this.register(new LlamaAgentProvider());
+	}
+
+	public static getInstance(): AgentRegistry {
+		if (!AgentRegistry.instance) {
+			AgentRegistry.instance = new AgentRegistry();
+		}
+		return AgentRegistry.instance;
+	}
+
+	/**
+	 * Register a provider, replacing any provider with the same id
+	 */
+	register<K extends keyof ApiConfig>(
+		provider: VerificationAgentProvider<K>,
+	): void {
+		// Providers are stored by id; their config section is resolved per call
+		this.providers.set(
+			provider.id,
+			provider as unknown as VerificationAgentProvider,
+		);
+	}
+
+	/**
+	 * Remove a provider and all of its overrides
+	 */
+	unregister(agentId: string): void {
+		this.providers.delete(agentId);
+		this.disabledAgents.delete(agentId);
+		this.configOverrides.delete(agentId);
+		this.timeoutOverrides.delete(agentId);
+		for (const overrides of this.sessionOverrides.values()) {
+			overrides.delete(agentId);
+		}
+	}
+
+	getProvider(agentId: string): VerificationAgentProvider | undefined {
+		return this.providers.get(agentId);
+	}
+
+	getProviders(): VerificationAgentProvider[] {
+		return [...this.providers.values()];
+	}
+
+	/**
+	 * Enable or disable an agent, globally or for a single session
+	 */
+	setEnabled(agentId: string, enabled: boolean, sessionId?: string): void {
+		if (sessionId) {
+			const overrides =
+				this.sessionOverrides.get(sessionId) ?? new Map<string, boolean>();
+			overrides.set(agentId, enabled);
+			this.sessionOverrides.set(sessionId, overrides);
+			return;
+		}
+
+		if (enabled) {
+			this.disabledAgents.delete(agentId);
+		} else {
+			this.disabledAgents.add(agentId);
+		}
+	}
+
+	isEnabled(agentId: string, sessionId?: string): boolean {
+		const sessionOverride = sessionId
+			? this.sessionOverrides.get(sessionId)?.get(agentId)
+			: undefined;
+		if (sessionOverride !== undefined) {
+			return sessionOverride;
+		}
+		return !this.disabledAgents.has(agentId);
+	}
+
+	/**
+	 * Drop per-session toggles once a session has ended
+	 */
+	clearSession(sessionId: string): void {
+		this.sessionOverrides.delete(sessionId);
+	}
+
+	/**
+	 * Override config values for an agent at runtime
+	 * Overrides are merged over the agent's `apiConfig` section
+	 */
+	configure<K extends keyof ApiConfig>(
+		agentId: string,
+		overrides: Partial<ApiConfig[K]>,
+	): void {
+		const existing = this.configOverrides.get(agentId) ?? {};
+		this.configOverrides.set(agentId, { ...existing, ...overrides });
+	}
+
+	/**
+	 * Resolve the effective config section for a provider
+	 */
+	resolveConfig<K extends keyof ApiConfig>(
+		provider: VerificationAgentProvider<K>,
+	): ApiConfig[K] {
+		return {
+			...apiConfig[provider.configSection],
+			...this.configOverrides.get(provider.id),
+		} as ApiConfig[K];
+	}
+
+	/**
+	 * Override how long an agent may take before its check is abandoned
+	 */
+	setTimeoutBudget(agentId: string, timeoutMs: number): void {
+		this.timeoutOverrides.set(agentId, timeoutMs);
+	}
+
+	/**
+	 * Timeout budget for a provider, defaulting to its config section's budget
+	 */
+	getTimeoutBudget(provider: VerificationAgentProvider): number {
+		return (
+			this.timeoutOverrides.get(provider.id) ??
+			requestTimeouts[provider.configSection]
+		);
+	}
+
+	/**
+	 * Circuit breaker key for a provider: its upstream API's config
+	 * section, shared with every other caller of that API. Local agents
+	 * have no upstream and get a circuit of their own.
+	 */
+	getCircuitKey(provider: VerificationAgentProvider): string {
+		return provider.configSection === "local"
+			? provider.id
+			: provider.configSection;
+	}
+
+	/**
+	 * List required config keys that are not set for a provider
+	 */
+	getMissingKeys<K extends keyof ApiConfig>(
+		provider: VerificationAgentProvider<K>,
+	): string[] {
+		const config = this.resolveConfig(provider);
+		return provider.requiredKeys
+			.filter((key) => !config[key])
+			.map((key) => `${provider.configSection}.${String(key)}`);
+	}
+
+	/**
+	 * Providers that are enabled for the given session
+	 */
+	getEnabledProviders(sessionId?: string): VerificationAgentProvider[] {
+		return this.getProviders().filter((provider) =>
+			this.isEnabled(provider.id, sessionId),
+		);
+	}
+
+	/**
+	 * Summary of every registered agent, for settings UIs
+	 */
+	describeAgents(sessionId?: string): RegisteredAgentInfo[] {
+		return this.getProviders().map((provider) => {
+			const missingKeys = this.getMissingKeys(provider);
+			return {
+				id: provider.id,
+				name: provider.name,
+				capabilities: provider.capabilities,
+				enabled: this.isEnabled(provider.id, sessionId),
+				configured: missingKeys.length === 0,
+				missingKeys,
+				timeoutMs: this.getTimeoutBudget(provider),
+				circuit: CircuitBreakerService.getStatus(this.getCircuitKey(provider)),
+			};
+		});
+	}
+}
+
+export default AgentRegistry.getInstance();
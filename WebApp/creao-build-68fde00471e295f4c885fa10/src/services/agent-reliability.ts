@@ -0,0 +1,167 @@
+import type {
+	AgentStatus,
+	ConsensusVerdict,
+	VerificationAgent,
+} from "@/services/agents/types";
+
+/**
+ * Agent Reliability Service
+ *
+ * Learns how often each agent agrees with verdicts that users later
+ * confirmed or overturned: thumbs up or down in the panel, and moderator
+ * reviews stored with `verification_result` (loaded on startup by
+ * `ReviewService.learnFromReviews`). The resulting per-agent reliability
+ * is used as a weight by the reliability-weighted and Bayesian consensus
+ * strategies.
+ */
+
+/**
+ * A past verdict that a user confirmed or overturned
+ */
+export interface ReliabilityFeedback {
+	statementId: string;
+	agents: (Pick<VerificationAgent, "name" | "verdict"> & {
+		status?: AgentStatus;
+	})[];
+	/** Verdict the consensus reached */
+	verdict: ConsensusVerdict;
+	/** Whether the user agreed with the verdict */
+	confirmed: boolean;
+	recordedAt: string;
+}
+
+export interface AgentReliabilityStats {
+	name: string;
+	correct: number;
+	total: number;
+	reliability: number;
+}
+
+const STORAGE_KEY = "nocap_reliability_feedback";
+const MAX_FEEDBACK = 500;
+
+/**
+ * Service for learning per-agent reliability weights
+ */
+export class AgentReliabilityService {
+	private static instance: AgentReliabilityService | null = null;
+	private feedback: ReliabilityFeedback[] = [];
+	private stats = new Map<string, { correct: number; total: number }>();
+
+	private constructor() {
+		this.feedback = this.loadFeedback();
+		this.rebuildStats();
+	}
+
+	public static getInstance(): AgentReliabilityService {
+		if (!AgentReliabilityService.instance) {
+			AgentReliabilityService.instance = new AgentReliabilityService();
+		}
+		return AgentReliabilityService.instance;
+	}
+
+	/**
+	 * Record that a user confirmed or overturned a verdict
+	 * Feedback for the same statement replaces earlier feedback
+	 */
+	recordFeedback(entry: Omit<ReliabilityFeedback, "recordedAt">): void {
+		this.feedback = [
+			...this.feedback.filter((f) => f.statementId !== entry.statementId),
+			{ ...entry, recordedAt: new Date().toISOString() },
+		].slice(-MAX_FEEDBACK);
+		this.saveFeedback();
+		this.rebuildStats();
+	}
+
+	/**
+	 * Add feedback loaded from stored verdicts
+	 * Stored feedback replaces local feedback for the same statement
+	 */
+	learnFromHistory(history: ReliabilityFeedback[]): void {
+		const statementIds = new Set(history.map((entry) => entry.statementId));
+		this.feedback = [
+			...this.feedback.filter((f) => !statementIds.has(f.statementId)),
+			...history,
+		].slice(-MAX_FEEDBACK);
+		this.saveFeedback();
+		this.rebuildStats();
+	}
+
+	/**
+	 * Reliability of an agent in [0, 1]
+	 * Uses Laplace smoothing so unseen agents start at 0.5
+	 */
+	getReliability(agentName: string): number {
+		const stats = this.stats.get(agentName);
+		if (!stats) return 0.5;
+		return (stats.correct + 1) / (stats.total + 2);
+	}
+
+	getAllStats(): AgentReliabilityStats[] {
+		return [...this.stats.entries()].map(([name, stats]) => ({
+			name,
+			...stats,
+			reliability: this.getReliability(name),
+		}));
+	}
+
+	getFeedback(): ReliabilityFeedback[] {
+		return [...this.feedback];
+	}
+
+	/**
+	 * Recompute per-agent counts from the feedback log
+	 */
+	private rebuildStats(): void {
+		this.stats.clear();
+
+		for (const entry of this.feedback) {
+			const groundTruth = this.resolveGroundTruth(entry);
+			if (!groundTruth) continue;
+
+			for (const agent of entry.agents) {
+				// Inconclusive votes, abstentions and errors say nothing about an agent's accuracy
+				if (agent.verdict === "inconclusive") continue;
+				if (agent.status && agent.status !== "voted") continue;
+
+				const stats = this.stats.get(agent.name) ?? { correct: 0, total: 0 };
+				stats.total += 1;
+				if (agent.verdict === groundTruth) {
+					stats.correct += 1;
+				}
+				this.stats.set(agent.name, stats);
+			}
+		}
+	}
+
+	/**
+	 * Work out the true verdict implied by a confirmation or overturn
+	 */
+	private resolveGroundTruth(
+		entry: ReliabilityFeedback,
+	): "true" | "false" | null {
+		if (entry.verdict !== "true" && entry.verdict !== "false") return null;
+		if (entry.confirmed) return entry.verdict;
+		return entry.verdict === "true" ? "false" : "true";
+	}
+
+	private loadFeedback(): ReliabilityFeedback[] {
+		try {
+			const stored = localStorage.getItem(STORAGE_KEY);
+			return stored ? (JSON.parse(stored) as ReliabilityFeedback[]) : [];
+		} catch (error) {
+			console.warn("Failed to load reliability feedback:", error);
+			return [];
+		}
+	}
+
+	private saveFeedback(): void {
+		try {
+			localStorage.setItem(STORAGE_KEY, JSON.stringify(this.feedback));
+		} catch (error) {
+			console.warn("Failed to save reliability feedback:", error);
+		}
+	}
+}
+
+export default AgentReliabilityService.getInstance();
@@ -0,0 +1,75 @@
+import type { ApiConfig } from "@/config/api-config";
+import { aggregateStances } from "@/lib/stance";
+import type {
+	AgentCapability,
+	AgentVerifyContext,
+	VerificationAgent,
+	VerificationAgentProvider,
+} from "@/services/agents/types";
+import StanceDetectionService from "@/services/stance-detection";
+
+/**
+ * Verify statements against Bright Data web search results
+ *
+ * The search itself runs once in the evidence stage
+ * (EvidenceRetrievalService) and is shared with every agent. This agent
+ * classifies each web snippet as supporting, refuting or unrelated to the
+ * statement and votes on the balance, citing the snippets on the winning
+ * side. Having results is not evidence either way.
+ */
+export class BrightDataAgentProvider
+	implements VerificationAgentProvider<"brightData">
+{
+	readonly id = "brightdata";
+	readonly name = "Bright Data";
+	readonly capabilities: AgentCapability[] = ["web_search", "citations"];
+	readonly configSection = "brightData";
+	readonly requiredKeys: (keyof ApiConfig["brightData"])[] = ["apiKey"];
+
+	async verify(
+		statement: string,
+		{ evidence = [], signal }: AgentVerifyContext<"brightData">,
+	): Promise<VerificationAgent> {
+		const sources = evidence.filter((snippet) => snippet.source === this.id);
+		if (sources.length === 0) {
+			return {
+				name: this.name,
+				status: "abstained",
+				verdict: "inconclusive",
+				confidence: 0,
+				reasoning: "No relevant web sources were retrieved",
+			};
+		}
+
+		try {
+			const stances = await StanceDetectionService.classify(
+				statement,
+				sources,
+				signal,
+			);
+			const result = aggregateStances(stances);
+			const cited = sources.filter((snippet) =>
+				result.evidenceIds.includes(snippet.id),
+			);
+
+			return {
+				name: this.name,
+				status: "voted",
+				verdict: result.verdict,
+				confidence: result.confidence,
+				reasoning: result.reasoning,
+				citations: cited.map((snippet) => snippet.url),
+				evidenceIds: result.evidenceIds,
+			};
+		} catch (error) {
+			console.error("Bright Data verification error:", error);
+			return {
+				name: this.name,
+				status: "errored",
+				verdict: "inconclusive",
+				confidence: 0,
+				reasoning: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+			};
+		}
+	}
+}
@@ -0,0 +1,127 @@
+import type { ApiConfig } from "@/config/api-config";
+import { debatePrompt } from "@/lib/debate";
+import { evidencePrompt } from "@/lib/evidence";
+import { parseWithRepair } from "@/lib/model-output";
+import { delimitUntrusted, untrustedDataNotice } from "@/lib/prompt-safety";
+import { temporalPrompt } from "@/lib/temporal";
+import { ratingScalePrompt } from "@/lib/verdict-scale";
+import type {
+	AgentCapability,
+	AgentVerifyContext,
+	VerificationAgent,
+	VerificationAgentProvider,
+} from "@/services/agents/types";
+import {
+	type AnthropicContentBlock,
+	type AnthropicMessage,
+	buildRepairTurn,
+	forceTool,
+	readStructuredOutput,
+} from "@/services/anthropic-tools";
+import {
+	AGENT_VERDICT_JSON_SCHEMA,
+	agentVerdictResponseSchema,
+} from "@/services/model-schemas";
+
+/**
+ * Verify statements using Claude (Anthropic)
+ */
+export class ClaudeAgentProvider
+	implements VerificationAgentProvider<"anthropic">
+{
+	readonly id = "claude";
+	readonly name = "Claude (Anthropic)";
+	readonly capabilities: AgentCapability[] = ["llm_reasoning", "debate"];
+	readonly configSection = "anthropic";
+	readonly requiredKeys: (keyof ApiConfig["anthropic"])[] = ["apiKey"];
+
+	async verify(
+		statement: string,
+		{
+			config,
+			signal,
+			http,
+			evidence,
+			debate,
+			asOf,
+			timeSensitive,
+		}: AgentVerifyContext<"anthropic">,
+	): Promise<VerificationAgent> {
+		try {
+			const messages: AnthropicMessage[] = [
+				{
+					role: "user",
+					content: `You are a fact-checking expert. Analyze this statement and judge how accurate it is. Watch for half-truths: a statement that is technically accurate but misleading must not be rated true.
+
+${ratingScalePrompt()}
+
+${untrustedDataNotice("statement")}
+
+${delimitUntrusted(statement)}
+
+${temporalPrompt(asOf, timeSensitive)}
+${evidence?.length ? `\n${evidencePrompt(evidence)}\n` : ""}${debate ? `\n${debatePrompt(debate)}\n` : ""}
+Record your verdict with the record_verdict tool.`,
+				},
+			];
+
+			const send = async (): Promise<AnthropicContentBlock[]> => {
+				const response = await http(`${config.baseUrl}/v1/messages`, {
+					method: "POST",
+					signal,
+					headers: {
+						"x-api-key": config.apiKey,
+						"anthropic-version": "2023-06-01",
+						"Content-Type": "application/json",
+					},
+					body: JSON.stringify({
+						model: config.model,
+						max_tokens: 1024,
+						...forceTool(
+							"record_verdict",
+							"Record the fact-check verdict for the statement",
+							AGENT_VERDICT_JSON_SCHEMA,
+						),
+						messages,
+					}),
+				});
+
+				if (!response.ok) {
+					throw new Error(`Claude API error: ${response.statusText}`);
+				}
+
+				const data = await response.json();
+				return data.content;
+			};
+
+			const content = await send();
+			const result = await parseWithRepair(
+				readStructuredOutput(content),
+				agentVerdictResponseSchema,
+				async (error) => {
+					messages.push(...buildRepairTurn(content, error));
+					return readStructuredOutput(await send());
+				},
+			);
+
+			return {
+				name: this.name,
+				status: "voted",
+				verdict: result.verdict,
+				rating: result.rating,
+				confidence: result.confidence,
+				reasoning: result.reasoning,
+				evidenceIds: result.evidenceIds,
+			};
+		} catch (error) {
+			console.error("Claude verification error:", error);
+			return {
+				name: this.name,
+				status: "errored",
+				verdict: "inconclusive",
+				confidence: 0,
+				reasoning: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+			};
+		}
+	}
+}
@@ -0,0 +1,55 @@
+import type { ApiConfig } from "@/config/api-config";
+import { describeEntry } from "@/lib/fact-sheet";
+import type {
+	AgentCapability,
+	AgentVerifyContext,
+	VerificationAgent,
+	VerificationAgentProvider,
+} from "@/services/agents/types";
+import FactSheetService from "@/services/fact-sheet";
+
+/**
+ * Check statements against the session's fact sheet
+ *
+ * The fact sheet holds the team's own ground truths, so a statement that
+ * only says what one of its topics is gets a definitive verdict that
+ * settles it ahead of claim memory and the other agents. A statement that
+ * says more than that gets an ordinary vote, since the fact sheet can't
+ * speak for the rest of it. The fact itself is the reasoning, and so the
+ * correction when the statement contradicts it.
+ */
+export class FactSheetAgentProvider
+	implements VerificationAgentProvider<"local">
+{
+	readonly id = "fact_sheet";
+	readonly name = "Fact Sheet";
+	readonly capabilities: AgentCapability[] = ["deterministic", "ground_truth"];
+	readonly configSection = "local";
+	readonly requiredKeys: (keyof ApiConfig["local"])[] = [];
+
+	async verify(
+		statement: string,
+		{ sessionId }: AgentVerifyContext<"local">,
+	): Promise<VerificationAgent> {
+		const match = FactSheetService.check(statement, sessionId);
+		if (!match) {
+			return {
+				name: this.name,
+				status: "abstained",
+				verdict: "inconclusive",
+				confidence: 0,
+				reasoning: "Not about a topic on the session's fact sheet",
+			};
+		}
+
+		return {
+			name: this.name,
+			status: "voted",
+			verdict: match.agrees ? "true" : "false",
+			rating: match.agrees ? "true" : "false",
+			confidence: 1,
+			reasoning: describeEntry(match.entry),
+			definitive: match.unambiguous,
+		};
+	}
+}
@@ -0,0 +1,93 @@
+import type { ApiConfig } from "@/config/api-config";
+import { parseModelOutput } from "@/lib/model-output";
+import { RATING_DEFINITIONS, verdictForRating } from "@/lib/verdict-scale";
+import type {
+	AgentCapability,
+	AgentVerifyContext,
+	VerificationAgent,
+	VerificationAgentProvider,
+} from "@/services/agents/types";
+import { fetchAIVerdictResponseSchema } from "@/services/model-schemas";
+
+/**
+ * Verify statements using Fetch.ai (Agentverse and ASI:ONE)
+ */
+export class FetchAIAgentProvider
+	implements VerificationAgentProvider<"fetchAI">
+{
+	readonly id = "fetchai";
+	readonly name = "Fetch.ai";
+	readonly capabilities: AgentCapability[] = ["agent_network", "debate"];
+	readonly configSection = "fetchAI";
+	readonly requiredKeys: (keyof ApiConfig["fetchAI"])[] = ["apiKey"];
+
+	async verify(
+		statement: string,
+		{
+			config,
+			signal,
+			http,
+			evidence,
+			debate,
+			asOf,
+			timeSensitive,
+		}: AgentVerifyContext<"fetchAI">,
+	): Promise<VerificationAgent> {
+		try {
+			// Try Agentverse first
+			const response = await http(`${config.agentverseUrl}/v1/verify`, {
+				method: "POST",
+				signal,
+				headers: {
+					Authorization: `Bearer ${config.apiKey}`,
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({
+					statement,
+					task: "fact_verification",
+					// Agents that support graded verdicts answer with a rating
+					rating_scale: RATING_DEFINITIONS,
+					evidence,
+					// Set in debate rounds: the agent's previous answer and its peers'
+					debate,
+					// Time-sensitive claims are judged as of the day they were made
+					as_of: asOf,
+					time_sensitive: timeSensitive,
+				}),
+			});
+
+			if (!response.ok) {
+				throw new Error(`Fetch.ai API error: ${response.statusText}`);
+			}
+
+			const parsed = parseModelOutput(
+				await response.json(),
+				fetchAIVerdictResponseSchema,
+			);
+			if (!parsed.success) {
+				throw new Error(`Invalid Fetch.ai response: ${parsed.error}`);
+			}
+
+			return {
+				name: this.name,
+				status: "voted",
+				verdict: parsed.data.rating
+					? verdictForRating(parsed.data.rating)
+					: parsed.data.verdict,
+				rating: parsed.data.rating,
+				confidence: parsed.data.confidence,
+				reasoning: parsed.data.reasoning,
+				evidenceIds: parsed.data.evidence_ids,
+			};
+		} catch (error) {
+			console.error("Fetch.ai verification error:", error);
+			return {
+				name: this.name,
+				status: "errored",
+				verdict: "inconclusive",
+				confidence: 0,
+				reasoning: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+			};
+		}
+	}
+}
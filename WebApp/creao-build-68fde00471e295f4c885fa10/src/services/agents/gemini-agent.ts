@@ -0,0 +1,150 @@
+import type { ApiConfig } from "@/config/api-config";
+import { debatePrompt } from "@/lib/debate";
+import { evidencePrompt } from "@/lib/evidence";
+import { parseWithRepair, repairPrompt } from "@/lib/model-output";
+import { delimitUntrusted, untrustedDataNotice } from "@/lib/prompt-safety";
+import { temporalPrompt } from "@/lib/temporal";
+import { VERDICT_RATINGS, ratingScalePrompt } from "@/lib/verdict-scale";
+import type {
+	AgentCapability,
+	AgentVerifyContext,
+	VerificationAgent,
+	VerificationAgentProvider,
+} from "@/services/agents/types";
+import { agentVerdictResponseSchema } from "@/services/model-schemas";
+
+interface GeminiContent {
+	role: "user" | "model";
+	parts: { text: string }[];
+}
+
+/**
+ * Gemini's response schema uses OpenAPI-style upper-case types
+ */
+const GEMINI_VERDICT_SCHEMA = {
+	type: "OBJECT",
+	properties: {
+		rating: { type: "STRING", enum: VERDICT_RATINGS },
+		confidence: { type: "NUMBER" },
+		reasoning: { type: "STRING" },
+		evidence_ids: { type: "ARRAY", items: { type: "STRING" } },
+	},
+	required: ["rating", "confidence", "reasoning"],
+};
+
+/**
+ * Verify statements using Gemini (Google)
+ */
+export class GeminiAgentProvider
+	implements VerificationAgentProvider<"gemini">
+{
+	readonly id = "gemini";
+	readonly name = "Gemini (Google)";
+	readonly capabilities: AgentCapability[] = ["llm_reasoning", "debate"];
+	readonly configSection = "gemini";
+	readonly requiredKeys: (keyof ApiConfig["gemini"])[] = ["apiKey"];
+
+	async verify(
+		statement: string,
+		{
+			config,
+			signal,
+			http,
+			evidence,
+			debate,
+			asOf,
+			timeSensitive,
+		}: AgentVerifyContext<"gemini">,
+	): Promise<VerificationAgent> {
+		try {
+			const contents: GeminiContent[] = [
+				{
+					role: "user",
+					parts: [
+						{
+							text: `You are a fact-checking expert. Analyze this statement and judge how accurate it is. Watch for half-truths: a statement that is technically accurate but misleading must not be rated true.
+
+${ratingScalePrompt()}
+
+${untrustedDataNotice("statement")}
+
+${delimitUntrusted(statement)}
+
+${temporalPrompt(asOf, timeSensitive)}
+${evidence?.length ? `\n${evidencePrompt(evidence)}\n` : ""}${debate ? `\n${debatePrompt(debate)}\n` : ""}
+Respond in JSON format:
+{
+  "rating": "true" | "mostly_true" | "missing_context" | "misleading" | "mostly_false" | "false" | "unverifiable",
+  "confidence": 0.0-1.0,
+  "reasoning": "brief explanation",
+  "evidence_ids": ["E1"]
+}`,
+						},
+					],
+				},
+			];
+
+			const send = async (): Promise<string> => {
+				const response = await http(
+					`${config.baseUrl}/v1beta/models/${config.model}:generateContent?key=${config.apiKey}`,
+					{
+						method: "POST",
+						signal,
+						headers: {
+							"Content-Type": "application/json",
+						},
+						body: JSON.stringify({
+							contents,
+							generationConfig: {
+								temperature: 0.1,
+								maxOutputTokens: 1024,
+								// Native JSON mode constrained to the verdict shape
+								responseMimeType: "application/json",
+								responseSchema: GEMINI_VERDICT_SCHEMA,
+							},
+						}),
+					},
+				);
+
+				if (!response.ok) {
+					throw new Error(`Gemini API error: ${response.statusText}`);
+				}
+
+				const data = await response.json();
+				return data.candidates[0].content.parts[0].text;
+			};
+
+			const text = await send();
+			const result = await parseWithRepair(
+				text,
+				agentVerdictResponseSchema,
+				async (error) => {
+					contents.push(
+						{ role: "model", parts: [{ text }] },
+						{ role: "user", parts: [{ text: repairPrompt(error) }] },
+					);
+					return send();
+				},
+			);
+
+			return {
+				name: this.name,
+				status: "voted",
+				verdict: result.verdict,
+				rating: result.rating,
+				confidence: result.confidence,
+				reasoning: result.reasoning,
+				evidenceIds: result.evidenceIds,
+			};
+		} catch (error) {
+			console.error("Gemini verification error:", error);
+			return {
+				name: this.name,
+				status: "errored",
+				verdict: "inconclusive",
+				confidence: 0,
+				reasoning: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+			};
+		}
+	}
+}
@@ -0,0 +1,51 @@
+import type { ApiConfig } from "@/config/api-config";
+import { describeFact, factCitation } from "@/lib/knowledge-base";
+import type {
+	AgentCapability,
+	VerificationAgent,
+	VerificationAgentProvider,
+} from "@/services/agents/types";
+import KnowledgeBaseService from "@/services/knowledge-base";
+
+/**
+ * Check statements against the team's knowledge base
+ *
+ * Runs in the browser without a model. A statement about an entity and
+ * attribute the knowledge base records is voted on by comparing it with
+ * the recorded value, which is cited; anything else is abstained on.
+ */
+export class KnowledgeBaseAgentProvider
+	implements VerificationAgentProvider<"local">
+{
+	readonly id = "knowledge";
+	readonly name = "Knowledge Base";
+	readonly capabilities: AgentCapability[] = ["knowledge_base", "citations"];
+	readonly configSection = "local";
+	readonly requiredKeys: (keyof ApiConfig["local"])[] = [];
+
+	async verify(statement: string): Promise<VerificationAgent> {
+		const match = KnowledgeBaseService.match(statement);
+		if (!match) {
+			return {
+				name: this.name,
+				status: "abstained",
+				verdict: "inconclusive",
+				confidence: 0,
+				reasoning: "No fact in the knowledge base covers this statement",
+			};
+		}
+
+		const { fact, supported } = match;
+		return {
+			name: this.name,
+			status: "voted",
+			verdict: supported ? "true" : "false",
+			rating: supported ? "true" : "false",
+			confidence: 0.9,
+			reasoning: `${supported ? "Matches" : "Contradicts"} the knowledge base: ${describeFact(fact)}`,
+			citations: fact.source
+				? [factCitation(fact), fact.source]
+				: [factCitation(fact)],
+		};
+	}
+}
@@ -0,0 +1,123 @@
+import type { ApiConfig } from "@/config/api-config";
+import { debatePrompt } from "@/lib/debate";
+import { evidencePrompt } from "@/lib/evidence";
+import { parseWithRepair, repairPrompt } from "@/lib/model-output";
+import { delimitUntrusted, untrustedDataNotice } from "@/lib/prompt-safety";
+import { temporalPrompt } from "@/lib/temporal";
+import { ratingScalePrompt } from "@/lib/verdict-scale";
+import type {
+	AgentCapability,
+	AgentVerifyContext,
+	VerificationAgent,
+	VerificationAgentProvider,
+} from "@/services/agents/types";
+import { agentVerdictResponseSchema } from "@/services/model-schemas";
+
+/**
+ * Verify statements using Llama through Lava Gateway
+ */
+export class LlamaAgentProvider
+	implements VerificationAgentProvider<"lavaGateway">
+{
+	readonly id = "llama";
+	readonly name = "Llama (Lava Portal)";
+	readonly capabilities: AgentCapability[] = [
+		"llm_reasoning",
+		"citations",
+		"debate",
+	];
+	readonly configSection = "lavaGateway";
+	readonly requiredKeys: (keyof ApiConfig["lavaGateway"])[] = ["apiKey"];
+
+	async verify(
+		statement: string,
+		{
+			config,
+			signal,
+			http,
+			evidence,
+			debate,
+			asOf,
+			timeSensitive,
+		}: AgentVerifyContext<"lavaGateway">,
+	): Promise<VerificationAgent> {
+		try {
+			const prompt = `You are a fact-checking expert. Analyze this statement and judge how accurate it is. Watch for half-truths: a statement that is technically accurate but misleading must not be rated true. Provide citations from reliable sources as full URLs of pages you are sure exist; cite nothing rather than guess a link.
+
+${ratingScalePrompt()}
+
+${untrustedDataNotice("statement")}
+
+${delimitUntrusted(statement)}
+
+${temporalPrompt(asOf, timeSensitive)}
+${evidence?.length ? `\n${evidencePrompt(evidence)}\n` : ""}${debate ? `\n${debatePrompt(debate)}\n` : ""}
+Respond in JSON format:
+{
+  "rating": "true" | "mostly_true" | "missing_context" | "misleading" | "mostly_false" | "false" | "unverifiable",
+  "confidence": 0.0-1.0,
+  "reasoning": "brief explanation",
+  "citations": ["https://…", "https://…"],
+  "evidence_ids": ["E1"]
+}`;
+
+			// The gateway either returns the verdict fields or the raw model text
+			const send = async (promptText: string): Promise<unknown> => {
+				const response = await http(`${config.baseUrl}/v1/llama/verify`, {
+					method: "POST",
+					signal,
+					headers: {
+						Authorization: `Bearer ${config.apiKey}`,
+						"Content-Type": "application/json",
+					},
+					body: JSON.stringify({
+						statement,
+						model: "llama-3.3-70b",
+						include_citations: true,
+						response_format: { type: "json_object" },
+						prompt: promptText,
+					}),
+				});
+
+				if (!response.ok) {
+					throw new Error(
+						`Lava Gateway Llama API error: ${response.statusText}`,
+					);
+				}
+
+				const data = await response.json();
+				return typeof data.response === "string" ? data.response : data;
+			};
+
+			const raw = await send(prompt);
+			const result = await parseWithRepair(
+				raw,
+				agentVerdictResponseSchema,
+				(error) =>
+					send(
+						`${prompt}\n\nYour previous reply was:\n${typeof raw === "string" ? raw : JSON.stringify(raw)}\n\n${repairPrompt(error)}`,
+					),
+			);
+
+			return {
+				name: this.name,
+				status: "voted",
+				verdict: result.verdict,
+				rating: result.rating,
+				confidence: result.confidence,
+				reasoning: result.reasoning,
+				evidenceIds: result.evidenceIds,
+				citations: result.citations,
+			};
+		} catch (error) {
+			console.error("Llama verification error:", error);
+			return {
+				name: this.name,
+				status: "errored",
+				verdict: "inconclusive",
+				confidence: 0,
+				reasoning: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+			};
+		}
+	}
+}
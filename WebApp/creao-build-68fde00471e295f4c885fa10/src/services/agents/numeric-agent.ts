@@ -0,0 +1,54 @@
+import type { ApiConfig } from "@/config/api-config";
+import { checkNumericClaim } from "@/lib/numeric-claims";
+import type {
+	AgentCapability,
+	AgentVerifyContext,
+	VerificationAgent,
+	VerificationAgentProvider,
+} from "@/services/agents/types";
+
+/**
+ * Verify arithmetic, percentage and unit conversion claims exactly
+ *
+ * Runs in the browser without a model. A statement it can read as a
+ * numeric claim gets a definitive verdict with the working, which settles
+ * it without asking the remote agents; anything else is left to them.
+ */
+export class NumericVerifierProvider
+	implements VerificationAgentProvider<"local">
+{
+	readonly id = "numeric";
+	readonly name = "Numeric Verifier";
+	readonly capabilities: AgentCapability[] = ["deterministic"];
+	readonly configSection = "local";
+	readonly requiredKeys: (keyof ApiConfig["local"])[] = [];
+
+	async verify(
+		statement: string,
+		{ config }: AgentVerifyContext<"local">,
+	): Promise<VerificationAgent> {
+		const check = checkNumericClaim(statement, {
+			conversion: config.conversionTolerance,
+			approximate: config.approximateTolerance,
+		});
+		if (!check) {
+			return {
+				name: this.name,
+				status: "abstained",
+				verdict: "inconclusive",
+				confidence: 0,
+				reasoning: "Not an arithmetic, percentage or unit conversion claim",
+			};
+		}
+
+		return {
+			name: this.name,
+			status: "voted",
+			verdict: check.holds ? "true" : "false",
+			rating: check.holds ? "true" : "false",
+			confidence: 1,
+			reasoning: check.working,
+			definitive: true,
+		};
+	}
+}
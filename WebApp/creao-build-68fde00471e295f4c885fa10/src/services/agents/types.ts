@@ -0,0 +1,144 @@
+import type { ApiConfig } from "@/config/api-config";
+import type { CitationCheck } from "@/lib/citations";
+import type { VerdictRating } from "@/lib/verdict-scale";
+import type { ProviderFetch, RequestMetadata } from "@/services/http-client";
+
+/**
+ * Shared types for pluggable verification agents
+ */
+
+export type AgentVerdict = "true" | "false" | "inconclusive";
+
+/**
+ * Verdict reached by combining agents
+ * `insufficient_quorum` means too few agents actually voted to decide
+ */
+export type ConsensusVerdict = AgentVerdict | "insufficient_quorum";
+
+/**
+ * Whether an agent took part in a verification
+ * - voted: the agent ran and returned a verdict (which may be inconclusive)
+ * - abstained: the agent was skipped, e.g. because its API key is missing
+ * - errored: the agent ran but failed, so its verdict carries no information
+ */
+export type AgentStatus = "voted" | "abstained" | "errored";
+
+export interface VerificationAgent {
+	name: string;
+	status: AgentStatus;
+	/** Coarse reading of `rating`, used for consensus */
+	verdict: AgentVerdict;
+	/** Graded verdict; agents that don't grade leave it unset */
+	rating?: VerdictRating;
+	confidence: number;
+	reasoning?: string;
+	citations?: string[];
+	/** Credibility of each citation the agent returned, invalid ones included */
+	citationChecks?: CitationCheck[];
+	/** Citation-quality score in [0, 1]; unset when nothing was cited */
+	citationQuality?: number;
+	/** Evidence snippets the agent relied on, by ID (e.g. "E2") */
+	evidenceIds?: string[];
+	/** Set by deterministic agents when their verdict needs no second opinion */
+	definitive?: boolean;
+	/** Retries and throttling delays spent on this agent's requests */
+	requestMetadata?: RequestMetadata;
+}
+
+/**
+ * What an agent brings to the verification pipeline
+ */
+export type AgentCapability =
+	| "llm_reasoning" // Model-based reasoning over the statement
+	| "web_search" // Looks up live sources on the web
+	| "citations" // Returns source citations with its verdict
+	| "agent_network" // Delegates to an external agent network
+	| "debate" // Reconsiders its verdict given other agents' answers
+	| "deterministic" // Checks claims exactly, without a model; runs first
+	| "knowledge_base" // Looks claims up in facts stored in the browser
+	| "ground_truth"; // Checks claims against the session's fact sheet
+
+/**
+ * A ranked search result shared with every agent
+ */
+export interface EvidenceSnippet {
+	/** "E1" for the most relevant snippet, "E2" for the next and so on */
+	id: string;
+	title: string;
+	url: string;
+	snippet: string;
+	/** Relevance to the statement in [0, 1] */
+	score: number;
+	/** Search backend the snippet came from */
+	source: string;
+}
+
+/**
+ * Another agent's latest answer, as shown in a debate
+ * Agents are anonymised so a verdict is weighed on its reasoning rather
+ * than on who gave it
+ */
+export interface DebatePeer {
+	/** e.g. "Agent B"; stable for the whole debate */
+	label: string;
+	verdict: AgentVerdict;
+	rating?: VerdictRating;
+	confidence: number;
+	reasoning?: string;
+}
+
+/**
+ * What a debating agent is shown when asked to reconsider its answer
+ */
+export interface DebateContext {
+	/** 1 for the first rebuttal; round 0 is the opening vote */
+	round: number;
+	/** The agent's own answer from the previous round */
+	previous: DebatePeer;
+	peers: DebatePeer[];
+}
+
+/**
+ * Context handed to a provider for a single verification call
+ */
+export interface AgentVerifyContext<
+	K extends keyof ApiConfig = keyof ApiConfig,
+> {
+	sessionId?: string;
+	/** `apiConfig[configSection]` merged with any runtime overrides */
+	config: ApiConfig[K];
+	/** Aborts when the timeout budget runs out or the check is cancelled */
+	signal?: AbortSignal;
+	/** fetch with retries and throttling for this provider's API key */
+	http: ProviderFetch;
+	/** Evidence retrieved for the statement, most relevant first */
+	evidence?: EvidenceSnippet[];
+	/** Set when the agent is asked to reconsider in a debate round */
+	debate?: DebateContext;
+	/** Date the statement was made, as YYYY-MM-DD */
+	asOf: string;
+	/** Whether the statement's truth depends on when it is checked */
+	timeSensitive: boolean;
+}
+
+/**
+ * A verification agent that can be registered with the AgentRegistry
+ */
+export interface VerificationAgentProvider<
+	K extends keyof ApiConfig = keyof ApiConfig,
+> {
+	/** Stable identifier used for registration and per-session toggles */
+	readonly id: string;
+	/** Display name shown in agent verdicts */
+	readonly name: string;
+	readonly capabilities: AgentCapability[];
+	/** ApiConfig section this agent reads its settings from */
+	readonly configSection: K;
+	/** Keys in the config section that must be set before the agent can run */
+	readonly requiredKeys: (keyof ApiConfig[K])[];
+
+	verify(
+		statement: string,
+		context: AgentVerifyContext<K>,
+	): Promise<VerificationAgent>;
+}
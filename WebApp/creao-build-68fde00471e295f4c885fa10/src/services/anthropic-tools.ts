@@ -0,0 +1,77 @@
+import { repairPrompt } from "@/lib/model-output";
+
+/**
+ * Anthropic Structured Output Helpers
+ *
+ * Claude has no JSON mode; structured output comes from forcing a single
+ * tool call whose input schema is the response shape. These helpers build
+ * the tool, read its input back, and build the repair turn when the input
+ * fails validation.
+ */
+
+export interface AnthropicContentBlock {
+	type: string;
+	text?: string;
+	id?: string;
+	name?: string;
+	input?: unknown;
+}
+
+export interface AnthropicMessage {
+	role: "user" | "assistant";
+	content: string | AnthropicContentBlock[] | Record<string, unknown>[];
+}
+
+/**
+ * Request fields that force Claude to answer through one tool
+ */
+export function forceTool(
+	name: string,
+	description: string,
+	inputSchema: object,
+): { tools: object[]; tool_choice: object } {
+	return {
+		tools: [{ name, description, input_schema: inputSchema }],
+		tool_choice: { type: "tool", name },
+	};
+}
+
+/**
+ * The forced tool's input, or the text reply if the model answered in prose
+ */
+export function readStructuredOutput(
+	content: AnthropicContentBlock[],
+): unknown {
+	const toolUse = content.find((block) => block.type === "tool_use");
+	if (toolUse) return toolUse.input;
+	return content
+		.filter((block) => block.type === "text")
+		.map((block) => block.text ?? "")
+		.join("\n");
+}
+
+/**
+ * Messages that show Claude its invalid reply and ask for a corrected one
+ */
+export function buildRepairTurn(
+	content: AnthropicContentBlock[],
+	error: string,
+): AnthropicMessage[] {
+	const toolUse = content.find((block) => block.type === "tool_use");
+	return [
+		{ role: "assistant", content },
+		{
+			role: "user",
+			content: toolUse
+				? [
+						{
+							type: "tool_result",
+							tool_use_id: toolUse.id,
+							is_error: true,
+							content: `Invalid input (${error}). Call the tool again with corrected values.`,
+						},
+					]
+				: repairPrompt(error),
+		},
+	];
+}
@@ -0,0 +1,67 @@
+import CircuitBreakerService from "@/services/circuit-breaker";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+describe("CircuitBreakerService", () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("opens after consecutive failures, which a success resets", () => {
+		const key = "threshold-test";
+		const states: string[] = [];
+		const unsubscribe = CircuitBreakerService.subscribe((status) => {
+			if (status.key === key) states.push(status.state);
+		});
+		CircuitBreakerService.recordFailure(key);
+		CircuitBreakerService.recordFailure(key);
+		CircuitBreakerService.recordSuccess(key);
+		CircuitBreakerService.recordFailure(key, "HTTP 503");
+		CircuitBreakerService.recordFailure(key);
+		expect(CircuitBreakerService.canRequest(key)).toBe(true);
+
+		CircuitBreakerService.recordFailure(key, "HTTP 503");
+		expect(CircuitBreakerService.canRequest(key)).toBe(false);
+		expect(CircuitBreakerService.getStatus(key)).toMatchObject({
+			state: "open",
+			consecutiveFailures: 3,
+			lastError: "HTTP 503",
+		});
+		expect(states[states.length - 1]).toBe("open");
+		unsubscribe();
+	});
+
+	it("closes at once when reset", () => {
+		const key = "reset-test";
+		for (let i = 0; i < 3; i++) CircuitBreakerService.recordFailure(key);
+		CircuitBreakerService.reset(key);
+		expect(CircuitBreakerService.canRequest(key)).toBe(true);
+		expect(CircuitBreakerService.getStatus(key).consecutiveFailures).toBe(0);
+	});
+
+	it("lets a single trial request through once the cool-down has passed", () => {
+		vi.useFakeTimers();
+		const key = "half-open-test";
+		for (let i = 0; i < 3; i++) CircuitBreakerService.recordFailure(key);
+		expect(CircuitBreakerService.canRequest(key)).toBe(false);
+
+		vi.advanceTimersByTime(60000);
+		expect(CircuitBreakerService.canRequest(key)).toBe(true);
+		expect(CircuitBreakerService.getStatus(key).state).toBe("half_open");
+		expect(CircuitBreakerService.canRequest(key)).toBe(false);
+
+		CircuitBreakerService.recordSuccess(key);
+		expect(CircuitBreakerService.getStatus(key).state).toBe("closed");
+		expect(CircuitBreakerService.canRequest(key)).toBe(true);
+	});
+
+	it("gives way to a new trial when one never reports back", () => {
+		vi.useFakeTimers();
+		const key = "lapsed-trial-test";
+		for (let i = 0; i < 3; i++) CircuitBreakerService.recordFailure(key);
+		vi.advanceTimersByTime(60000);
+		expect(CircuitBreakerService.canRequest(key)).toBe(true);
+
+		vi.advanceTimersByTime(60000);
+		expect(CircuitBreakerService.canRequest(key)).toBe(true);
+	});
+});
@@ -0,0 +1,163 @@
+/**
+ * Circuit Breaker Service
+ *
+ * Tracks consecutive failures per provider. After too many failures in a
+ * row the circuit opens and the provider is skipped for a cool-down period.
+ * Once the cool-down has passed a single trial request is let through
+ * (half-open); success closes the circuit, failure re-opens it. Other
+ * callers are turned away while the trial is in flight, and a trial that
+ * never reports back gives way to a new one after another cool-down.
+ *
+ * Circuits are keyed by upstream provider, named after its `apiConfig`
+ * section (e.g. "anthropic"), so agents and services calling the same
+ * API share one circuit.
+ */
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitStatus {
+	key: string;
+	state: CircuitState;
+	consecutiveFailures: number;
+	/** Epoch millis when an open circuit allows a trial request */
+	openUntil?: number;
+	lastError?: string;
+}
+
+export interface CircuitBreakerConfig {
+	/** Consecutive failures before the circuit opens */
+	failureThreshold: number;
+	/** How long an open circuit skips the provider, in milliseconds */
+	coolDownMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+	failureThreshold: 3,
+	coolDownMs: 60000,
+};
+
+type CircuitListener = (status: CircuitStatus) => void;
+
+/**
+ * Service for skipping providers that keep failing
+ */
+export class CircuitBreakerService {
+	private static instance: CircuitBreakerService | null = null;
+	private circuits = new Map<string, CircuitStatus>();
+	private config: CircuitBreakerConfig = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG };
+	private listeners = new Set<CircuitListener>();
+	/** Half-open circuits' trial requests: key → when the trial lapses */
+	private trials = new Map<string, number>();
+
+	private constructor() {}
+
+	public static getInstance(): CircuitBreakerService {
+		if (!CircuitBreakerService.instance) {
+			CircuitBreakerService.instance = new CircuitBreakerService();
+		}
+		return CircuitBreakerService.instance;
+	}
+
+	configure(config: Partial<CircuitBreakerConfig>): void {
+		this.config = { ...this.config, ...config };
+	}
+
+	/**
+	 * Whether a request to the provider should be attempted
+	 * Moves an open circuit to half-open once its cool-down has passed,
+	 * and lets only the caller making the trial request through
+	 */
+	canRequest(key: string): boolean {
+		const circuit = this.circuits.get(key);
+		if (!circuit || circuit.state === "closed") return true;
+
+		const now = Date.now();
+		if (circuit.state === "open") {
+			if (now < (circuit.openUntil ?? 0)) return false;
+			this.update({ ...circuit, state: "half_open" });
+		} else if (now < (this.trials.get(key) ?? 0)) {
+			return false;
+		}
+		this.trials.set(key, now + this.config.coolDownMs);
+		return true;
+	}
+
+	recordSuccess(key: string): void {
+		this.trials.delete(key);
+		const circuit = this.circuits.get(key);
+		if (
+			!circuit ||
+			(circuit.state === "closed" && !circuit.consecutiveFailures)
+		) {
+			return;
+		}
+		this.update({ key, state: "closed", consecutiveFailures: 0 });
+	}
+
+	recordFailure(key: string, error?: string): void {
+		this.trials.delete(key);
+		const circuit = this.getStatus(key);
+		const consecutiveFailures = circuit.consecutiveFailures + 1;
+		const shouldOpen =
+			circuit.state === "half_open" ||
+			consecutiveFailures >= this.config.failureThreshold;
+
+		if (shouldOpen && circuit.state !== "open") {
+			console.warn(
+				`⚡ Circuit opened for ${key} after ${consecutiveFailures} failures`,
+			);
+		}
+
+		this.update({
+			key,
+			state: shouldOpen ? "open" : circuit.state,
+			consecutiveFailures,
+			openUntil: shouldOpen ? Date.now() + this.config.coolDownMs : undefined,
+			lastError: error,
+		});
+	}
+
+	getStatus(key: string): CircuitStatus {
+		return (
+			this.circuits.get(key) ?? {
+				key,
+				state: "closed",
+				consecutiveFailures: 0,
+			}
+		);
+	}
+
+	getAllStatuses(): CircuitStatus[] {
+		return [...this.circuits.values()];
+	}
+
+	/**
+	 * Close a circuit immediately, e.g. after the user fixes a key
+	 */
+	reset(key: string): void {
+		this.trials.delete(key);
+		if (this.circuits.has(key)) {
+			this.update({ key, state: "closed", consecutiveFailures: 0 });
+		}
+	}
+
+	/**
+	 * Listen for circuit state changes
+	 * Returns an unsubscribe function
+	 */
+	subscribe(listener: CircuitListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	private update(status: CircuitStatus): void {
+		this.circuits.set(status.key, status);
+		for (const listener of this.listeners) {
+			listener(status);
+		}
+	}
+}
+
+export default CircuitBreakerService.getInstance();
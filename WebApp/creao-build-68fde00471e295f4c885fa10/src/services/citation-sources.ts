@@ -0,0 +1,52 @@
+/**
+ * Source credibility lists used by CitationValidationService
+ *
+ * Maintained by the fact-checking team. An entry matches the domain and
+ * its subdomains; one starting with a dot matches every domain ending in
+ * it. Override or extend them with `CitationValidationService.configure`.
+ */
+
+/** Primary sources, reference works and outlets with a corrections policy */
+export const DEFAULT_CITATION_ALLOWLIST: string[] = [
+	".gov",
+	".edu",
+	".mil",
+	"gov.uk",
+	"europa.eu",
+	"who.int",
+	"un.org",
+	"worldbank.org",
+	"imf.org",
+	"oecd.org",
+	"nature.com",
+	"science.org",
+	"thelancet.com",
+	"nejm.org",
+	"bmj.com",
+	"pubmed.ncbi.nlm.nih.gov",
+	"britannica.com",
+	"reuters.com",
+	"apnews.com",
+	"bbc.co.uk",
+	"bbc.com",
+	"npr.org",
+	"factcheck.org",
+	"politifact.com",
+	"snopes.com",
+	"fullfact.org",
+];
+
+/** Known fabricators, satire and unmoderated user content */
+export const DEFAULT_CITATION_DENYLIST: string[] = [
+	"infowars.com",
+	"naturalnews.com",
+	"beforeitsnews.com",
+	"worldnewsdailyreport.com",
+	"theonion.com",
+	"babylonbee.com",
+	"quora.com",
+	"answers.com",
+	"reddit.com",
+	"medium.com",
+	"blogspot.com",
+];
@@ -0,0 +1,185 @@
+import { withTimeout } from "@/lib/abort";
+import {
+	type CitationCheck,
+	citationQuality,
+	mentionsClaim,
+	rateCitation,
+} from "@/lib/citations";
+import type { VerificationAgent } from "@/services/agents/types";
+import {
+	DEFAULT_CITATION_ALLOWLIST,
+	DEFAULT_CITATION_DENYLIST,
+} from "@/services/citation-sources";
+
+/**
+ * Citation Validation Service
+ *
+ * Checks the citations agents return before they reach the UI. Every
+ * citation is checked for a well-formed public URL and given a
+ * credibility tier from the allowlist and denylist. When a page fetcher
+ * is plugged in, cited pages are also fetched to confirm they exist and
+ * mention the claim. Invalid citations are dropped from the agent's
+ * citations, and every agent is annotated with its checks and a
+ * citation-quality score.
+ */
+
+export interface CitationValidationConfig {
+	enabled: boolean;
+	/** Domains rated trusted */
+	allowlist: string[];
+	/** Domains rated low credibility; wins over the allowlist */
+	denylist: string[];
+	/** Fetch cited pages with the page fetcher, when one is set */
+	verifyPages: boolean;
+	/** Pages fetched per agent; the rest are rated by domain only */
+	maxPageChecks: number;
+	pageTimeoutMs: number;
+}
+
+export const DEFAULT_CITATION_VALIDATION_CONFIG: CitationValidationConfig = {
+	enabled: true,
+	allowlist: DEFAULT_CITATION_ALLOWLIST,
+	denylist: DEFAULT_CITATION_DENYLIST,
+	verifyPages: true,
+	maxPageChecks: 3,
+	pageTimeoutMs: 5000,
+};
+
+/**
+ * Fetches the text of cited pages
+ * Resolves to null when the page doesn't exist; throws when it couldn't
+ * be reached, which leaves the citation unchecked
+ */
+export interface PageFetcher {
+	fetchText(url: string, signal?: AbortSignal): Promise<string | null>;
+}
+
+/**
+ * Fetches pages directly, or through a proxy for sites that block
+ * cross-origin requests
+ */
+export class DirectPageFetcher implements PageFetcher {
+	/**
+	 * @param proxyUrl Prefix the encoded page URL is appended to, e.g.
+	 * "https://proxy.example/fetch?url="
+	 */
+	constructor(private readonly proxyUrl?: string) {}
+
+	async fetchText(url: string, signal?: AbortSignal): Promise<string | null> {
+		const response = await fetch(
+			this.proxyUrl ? `${this.proxyUrl}${encodeURIComponent(url)}` : url,
+			{ signal },
+		);
+		if (response.status === 404 || response.status === 410) return null;
+		if (!response.ok) {
+			throw new Error(`Page fetch failed: ${response.status}`);
+		}
+		return (await response.text())
+			.replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+			.replace(/<[^>]+>/g, " ");
+	}
+}
+
+/**
+ * Service for checking and rating agents' citations
+ */
+export class CitationValidationService {
+	private static instance: CitationValidationService | null = null;
+	private config: CitationValidationConfig = {
+		...DEFAULT_CITATION_VALIDATION_CONFIG,
+	};
+	private pageFetcher: PageFetcher | null = null;
+
+	private constructor() {}
+
+	public static getInstance(): CitationValidationService {
+		if (!CitationValidationService.instance) {
+			CitationValidationService.instance = new CitationValidationService();
+		}
+		return CitationValidationService.instance;
+	}
+
+	configure(config: Partial<CitationValidationConfig>): void {
+		this.config = { ...this.config, ...config };
+	}
+
+	getConfig(): CitationValidationConfig {
+		return { ...this.config };
+	}
+
+	/**
+	 * Plug in a page fetcher, or remove it with null
+	 * Browsers block most cross-origin page fetches, so none is set by default
+	 */
+	setPageFetcher(fetcher: PageFetcher | null): void {
+		this.pageFetcher = fetcher;
+	}
+
+	/**
+	 * Check each citation, in order, fetching pages when possible
+	 */
+	async validate(
+		claim: string,
+		citations: string[],
+		signal?: AbortSignal,
+	): Promise<CitationCheck[]> {
+		const checks = [...new Set(citations)].map((citation) =>
+			rateCitation(citation, this.config),
+		);
+		if (!this.pageFetcher || !this.config.verifyPages) return checks;
+
+		const fetcher = this.pageFetcher;
+		const fetchable = checks
+			.filter((check) => check.tier !== "invalid" && check.domain)
+			.slice(0, this.config.maxPageChecks);
+		return Promise.all(
+			checks.map(async (check) => {
+				if (!fetchable.includes(check)) return check;
+				try {
+					const text = await fetcher.fetchText(
+						check.citation,
+						withTimeout(this.config.pageTimeoutMs, signal),
+					);
+					if (text === null) {
+						return { ...check, tier: "invalid", reason: "Page not found" };
+					}
+					return { ...check, mentionsClaim: mentionsClaim(claim, text) };
+				} catch (error) {
+					if (signal?.aborted) throw error;
+					console.warn(`Could not fetch cited page ${check.citation}:`, error);
+					return check;
+				}
+			}),
+		);
+	}
+
+	/**
+	 * Annotate an agent's verdict with its citation checks and quality,
+	 * keeping only citations that are usable links
+	 */
+	async annotate(
+		agent: VerificationAgent,
+		claim: string,
+		signal?: AbortSignal,
+	): Promise<VerificationAgent> {
+		if (!this.config.enabled || !agent.citations?.length) return agent;
+
+		const checks = await this.validate(claim, agent.citations, signal);
+		const dropped = checks.filter((check) => check.tier === "invalid");
+		if (dropped.length > 0) {
+			console.log(
+				`   🔗 ${agent.name}: dropped ${dropped.length} invalid citations (${dropped.map((check) => check.reason).join(", ")})`,
+			);
+		}
+		return {
+			...agent,
+			citations: checks
+				.filter((check) => check.tier !== "invalid")
+				.map((check) => check.citation),
+			citationChecks: checks,
+			citationQuality: citationQuality(checks),
+		};
+	}
+}
+
+export default CitationValidationService.getInstance();
@@ -0,0 +1,45 @@
+import type { MisinformationGroupModel } from "@/components/data/orm/orm_misinformation_group";
+import ClaimClusteringService from "@/services/claim-clustering";
+import { describe, expect, it } from "vitest";
+
+function group(id: string, statement: string): MisinformationGroupModel {
+	return {
+		id,
+		data_creator: "",
+		data_updater: "",
+		create_time: "1760000000",
+		update_time: "1760000000",
+		false_statement_text: statement,
+		false_statement_text_hash: id,
+		user_ids: [`speaker-${id}`],
+		verification_result_id: `result-${id}`,
+	};
+}
+
+describe("ClaimClusteringService.nearestGroup", () => {
+	const groups = [
+		group("autism", "vaccines cause autism"),
+		group("capital", "Berlin is the capital of France"),
+		group("flat", "the earth is flat"),
+		group("stolen", "the 2020 election was stolen"),
+	];
+
+	it.each([
+		["the vaccine gives kids autism", "autism"],
+		["Vaccines are causing autism", "autism"],
+		["they stole the 2020 election", "stolen"],
+	])("puts %j with its paraphrase", (statement, id) => {
+		expect(
+			ClaimClusteringService.nearestGroup(statement, groups)?.group.id,
+		).toBe(id);
+	});
+
+	it.each([
+		["Madrid is the capital of France"],
+		["the moon is flat"],
+		["the 2016 election was stolen"],
+		["vaccines do not cause autism"],
+	])("keeps %j out of every group", (statement) => {
+		expect(ClaimClusteringService.nearestGroup(statement, groups)).toBeNull();
+	});
+});
@@ -0,0 +1,251 @@
+import type { MisinformationGroupModel } from "@/components/data/orm/orm_misinformation_group";
+import {
+	comparableClaims,
+	entitiesAgree,
+	normalizeClaim,
+} from "@/lib/claim-text";
+import {
+	DEFAULT_MINHASH_OPTIONS,
+	type MinHashOptions,
+	claimShingles,
+	lshBuckets,
+	minHashSignature,
+	signatureSimilarity,
+} from "@/lib/minhash";
+
+/**
+ * Claim Clustering Service
+ *
+ * Assigns false claims to the nearest misinformation group, so paraphrases
+ * of a claim join one group instead of each getting their own exact-hash
+ * group. Groups are indexed by the MinHash signatures of their claims and
+ * candidates are found through LSH buckets, all in the browser. Claims
+ * that disagree on negation, numbers or the names they mention never
+ * share a group, however many words they have in common.
+ *
+ * `misinformation_group` only stores one wording per group, so the claims
+ * that make up each group are kept locally. They are what merge and split
+ * work on.
+ */
+
+export interface ClusteringConfig extends MinHashOptions {
+	/** Minimum estimated similarity to join an existing group, in [0, 1] */
+	threshold: number;
+}
+
+export const DEFAULT_CLUSTERING_CONFIG: ClusteringConfig = {
+	...DEFAULT_MINHASH_OPTIONS,
+	threshold: 0.55,
+};
+
+/**
+ * A single false claim assigned to a group
+ */
+export interface ClusterMember {
+	id: string;
+	statement: string;
+	speakerId: string;
+	verificationResultId: string;
+	addedAt: string;
+}
+
+export interface ClusterMatch {
+	group: MisinformationGroupModel;
+	similarity: number;
+	/** The claim in the group closest to the new one */
+	matchedStatement: string;
+}
+
+interface IndexedClaim {
+	groupId: string;
+	statement: string;
+	normalized: string;
+	signature: number[];
+}
+
+const STORAGE_KEY = "nocap_claim_clusters";
+
+/**
+ * Service for near-duplicate clustering of false claims
+ */
+export class ClaimClusteringService {
+	private static instance: ClaimClusteringService | null = null;
+	private config: ClusteringConfig = { ...DEFAULT_CLUSTERING_CONFIG };
+	private members: Record<string, ClusterMember[]>;
+	private claims: IndexedClaim[] = [];
+	private buckets = new Map<string, Set<number>>();
+	private indexKey = "";
+
+	private constructor() {
+		this.members = this.loadMembers();
+	}
+
+	public static getInstance(): ClaimClusteringService {
+		if (!ClaimClusteringService.instance) {
+			ClaimClusteringService.instance = new ClaimClusteringService();
+		}
+		return ClaimClusteringService.instance;
+	}
+
+	configure(config: Partial<ClusteringConfig>): void {
+		this.config = { ...this.config, ...config };
+		this.indexKey = "";
+	}
+
+	getConfig(): ClusteringConfig {
+		return { ...this.config };
+	}
+
+	/**
+	 * The group whose claims are most similar to a statement, if any is
+	 * above the threshold
+	 */
+	nearestGroup(
+		statement: string,
+		groups: MisinformationGroupModel[],
+	): ClusterMatch | null {
+		this.sync(groups);
+
+		const normalized = normalizeClaim(statement);
+		const signature = this.signatureOf(statement);
+		const candidates = new Set<number>();
+		for (const bucket of lshBuckets(signature, this.config.bands)) {
+			for (const index of this.buckets.get(bucket) ?? []) {
+				candidates.add(index);
+			}
+		}
+
+		let best: { claim: IndexedClaim; similarity: number } | null = null;
+		for (const index of candidates) {
+			const claim = this.claims[index];
+			if (!comparableClaims(normalized, claim.normalized)) continue;
+			if (!entitiesAgree(statement, claim.statement)) continue;
+
+			const similarity = signatureSimilarity(signature, claim.signature);
+			if (similarity < this.config.threshold) continue;
+			if (!best || similarity > best.similarity) {
+				best = { claim, similarity };
+			}
+		}
+
+		if (!best) return null;
+		const group = groups.find((g) => g.id === best.claim.groupId);
+		return group
+			? {
+					group,
+					similarity: best.similarity,
+					matchedStatement: best.claim.statement,
+				}
+			: null;
+	}
+
+	/**
+	 * Claims that make up a group
+	 * Groups created before clustering fall back to their stored wording
+	 */
+	getMembers(group: MisinformationGroupModel): ClusterMember[] {
+		const members = this.members[group.id];
+		if (members?.length) return members.map((member) => ({ ...member }));
+
+		return group.user_ids.map((speakerId) => ({
+			id: `${group.id}:${speakerId}`,
+			statement: group.false_statement_text,
+			speakerId,
+			verificationResultId: group.verification_result_id,
+			addedAt: new Date(Number(group.create_time) * 1000).toISOString(),
+		}));
+	}
+
+	addMember(
+		groupId: string,
+		member: Omit<ClusterMember, "id" | "addedAt">,
+	): ClusterMember {
+		const added: ClusterMember = {
+			...member,
+			id: crypto.randomUUID(),
+			addedAt: new Date().toISOString(),
+		};
+		this.members[groupId] = [...(this.members[groupId] ?? []), added];
+		this.saveMembers();
+		this.indexKey = "";
+		return added;
+	}
+
+	/**
+	 * Set a group's claims, e.g. after a merge or split
+	 */
+	setMembers(groupId: string, members: ClusterMember[]): void {
+		if (members.length > 0) {
+			this.members[groupId] = members;
+		} else {
+			delete this.members[groupId];
+		}
+		this.saveMembers();
+		this.indexKey = "";
+	}
+
+	/**
+	 * Rebuild the LSH index when the groups or their claims have changed
+	 */
+	private sync(groups: MisinformationGroupModel[]): void {
+		const key = groups
+			.map((group) => `${group.id}@${group.update_time}`)
+			.join("|");
+		if (key === this.indexKey) return;
+
+		this.claims = [];
+		this.buckets = new Map();
+		for (const group of groups) {
+			const statements = new Set(
+				this.getMembers(group).map((member) => member.statement),
+			);
+			statements.add(group.false_statement_text);
+
+			for (const statement of statements) {
+				const signature = this.signatureOf(statement);
+				const index =
+					this.claims.push({
+						groupId: group.id,
+						statement,
+						normalized: normalizeClaim(statement),
+						signature,
+					}) - 1;
+				for (const bucket of lshBuckets(signature, this.config.bands)) {
+					const entries = this.buckets.get(bucket) ?? new Set<number>();
+					entries.add(index);
+					this.buckets.set(bucket, entries);
+				}
+			}
+		}
+		this.indexKey = key;
+	}
+
+	private signatureOf(statement: string): number[] {
+		return minHashSignature(
+			claimShingles(statement, this.config.shingleSize),
+			this.config.numHashes,
+		);
+	}
+
+	private loadMembers(): Record<string, ClusterMember[]> {
+		try {
+			const stored = localStorage.getItem(STORAGE_KEY);
+			return stored
+				? (JSON.parse(stored) as Record<string, ClusterMember[]>)
+				: {};
+		} catch (error) {
+			console.warn("Failed to load claim clusters:", error);
+			return {};
+		}
+	}
+
+	private saveMembers(): void {
+		try {
+			localStorage.setItem(STORAGE_KEY, JSON.stringify(this.members));
+		} catch (error) {
+			console.warn("Failed to save claim clusters:", error);
+		}
+	}
+}
+
+export default ClaimClusteringService.getInstance();
@@ -0,0 +1,164 @@
+import type { VerdictRating } from "@/lib/verdict-scale";
+import ClaimDecompositionService, {
+	type SubclaimResult,
+	falseClaimsOf,
+} from "@/services/claim-decomposition";
+import type { VerificationResult } from "@/services/verification-service";
+import { beforeAll, describe, expect, it } from "vitest";
+
+function subclaim(
+	claim: string,
+	consensus: VerificationResult["consensus"],
+	consensusScore: number,
+	rating?: VerdictRating,
+): SubclaimResult {
+	const verdict =
+		consensus === "verified_true"
+			? "true"
+			: consensus === "verified_false"
+				? "false"
+				: consensus === "inconclusive"
+					? "inconclusive"
+					: "insufficient_quorum";
+	return {
+		claim,
+		result: {
+			statementId: claim,
+			isFalse: consensus === "verified_false",
+			consensus,
+			rating,
+			agents: [],
+			lavaGatewayConsensus: {
+				verdict,
+				rating,
+				consensusScore,
+				strategy: "majority",
+				explanation: `${claim} checked`,
+				tally: { true: 0, false: 0, inconclusive: 0 },
+				participation: { voted: 0, abstained: 0, errored: 0 },
+			},
+			requestMetadata: {
+				attempts: 0,
+				retries: 0,
+				throttleDelayMs: 0,
+				retryDelayMs: 0,
+			},
+		},
+	};
+}
+
+describe("ClaimDecompositionService.decompose", () => {
+	beforeAll(() => {
+		ClaimDecompositionService.configure({ useModel: false });
+	});
+
+	it.each([
+		[
+			"Paris, the capital of Germany, has 2 million people",
+			["Paris is the capital of Germany", "Paris has 2 million people"],
+		],
+		[
+			"The Eiffel Tower, which was built in 1889, is 300 metres tall.",
+			[
+				"The Eiffel Tower was built in 1889",
+				"The Eiffel Tower is 300 metres tall",
+			],
+		],
+		[
+			"Paris is in France and has 2 million people",
+			["Paris is in France", "Paris has 2 million people"],
+		],
+		[
+			"Inflation was 3% last year but unemployment was 5%",
+			["Inflation was 3% last year", "unemployment was 5%"],
+		],
+		[
+			"Obama, who was born in Hawaii, was president and Biden was his vice president",
+			[
+				"Obama was born in Hawaii",
+				"Obama was president",
+				"Biden was his vice president",
+			],
+		],
+	])("splits %j", async (statement, subclaims) => {
+		expect(await ClaimDecompositionService.decompose(statement)).toEqual(
+			subclaims,
+		);
+	});
+
+	it.each([
+		["The Earth is flat"],
+		["Salt and pepper are spices"],
+		["Paris, Texas is a small city"],
+	])("keeps %j whole", async (statement) => {
+		expect(await ClaimDecompositionService.decompose(statement)).toEqual([
+			statement,
+		]);
+	});
+});
+
+describe("ClaimDecompositionService.rollUp", () => {
+	it("rates a statement misleading when a minority of its claims are false", () => {
+		const rollUp = ClaimDecompositionService.rollUp([
+			subclaim("Paris is the capital of Germany", "verified_false", 0.7),
+			subclaim("Paris has 2 million people", "verified_true", 0.9),
+		]);
+		expect(rollUp.consensus).toBe("verified_false");
+		expect(rollUp.rating).toBe("misleading");
+		expect(rollUp.compound.summary).toBe("partly false: 1 of 2 claims false");
+		expect(rollUp.deciding.claim).toBe("Paris is the capital of Germany");
+	});
+
+	it("rates a statement mostly false when most of its claims are false", () => {
+		const rollUp = ClaimDecompositionService.rollUp([
+			subclaim("Paris is the capital of Germany", "verified_false", 0.7),
+			subclaim("Paris has 20 million people", "verified_false", 0.95),
+			subclaim("Paris is in France", "verified_true", 0.9),
+		]);
+		expect(rollUp.rating).toBe("mostly_false");
+		expect(rollUp.deciding.claim).toBe("Paris has 20 million people");
+	});
+
+	it("rates an all-true statement as true as its least true claim", () => {
+		const rollUp = ClaimDecompositionService.rollUp([
+			subclaim("Paris is in France", "verified_true", 0.9, "true"),
+			subclaim(
+				"Paris has 2 million people",
+				"verified_true",
+				0.8,
+				"mostly_true",
+			),
+			subclaim(
+				"Paris is the largest city in Europe",
+				"verified_true",
+				0.6,
+				"missing_context",
+			),
+		]);
+		expect(rollUp.consensus).toBe("verified_true");
+		expect(rollUp.rating).toBe("missing_context");
+		expect(rollUp.compound.summary).toBe("true: all 3 claims true");
+		expect(rollUp.deciding.claim).toBe("Paris is the largest city in Europe");
+	});
+
+	it("leaves a partly unverified statement unrated", () => {
+		const rollUp = ClaimDecompositionService.rollUp([
+			subclaim("Paris is in France", "verified_true", 0.9),
+			subclaim("Paris has 2 million cats", "inconclusive", 0.4, "unverifiable"),
+		]);
+		expect(rollUp.consensus).toBe("inconclusive");
+		expect(rollUp.rating).toBeUndefined();
+		expect(rollUp.compound.unresolvedCount).toBe(1);
+	});
+
+	it("lists the false subclaims of a false compound verdict", () => {
+		const subclaims = [
+			subclaim("Paris is the capital of Germany", "verified_false", 0.7),
+			subclaim("Paris has 2 million people", "verified_true", 0.9),
+		];
+		const { consensus } = ClaimDecompositionService.rollUp(subclaims);
+		expect(falseClaimsOf("whole statement", { consensus, subclaims })).toEqual([
+			"Paris is the capital of Germany",
+		]);
+	});
+});
@@ -0,0 +1,361 @@
+import { apiConfig, requestTimeouts } from "@/config/api-config";
+import { withTimeout } from "@/lib/abort";
+import { parseWithRepair } from "@/lib/model-output";
+import { delimitUntrusted, untrustedDataNotice } from "@/lib/prompt-safety";
+import { VERDICT_RATINGS, type VerdictRating } from "@/lib/verdict-scale";
+import {
+	type AnthropicContentBlock,
+	type AnthropicMessage,
+	buildRepairTurn,
+	forceTool,
+	readStructuredOutput,
+} from "@/services/anthropic-tools";
+import CircuitBreakerService from "@/services/circuit-breaker";
+import type { ConsensusOutcome } from "@/services/consensus-service";
+import HttpClient from "@/services/http-client";
+import {
+	CLAIM_DECOMPOSITION_JSON_SCHEMA,
+	claimDecompositionSchema,
+} from "@/services/model-schemas";
+import type { VerificationResult } from "@/services/verification-service";
+
+/**
+ * Claim Decomposition Service
+ *
+ * Breaks a statement into atomic subclaims that can be checked on their
+ * own, e.g. "Paris, the capital of Germany, has 2 million people" into
+ * "Paris is the capital of Germany" and "Paris has 2 million people".
+ * Claude does the extraction when available; otherwise appositives,
+ * relative clauses and coordinated clauses are split locally. After each
+ * subclaim is verified, `rollUp` combines their verdicts into one compound
+ * verdict such as "partly false: 1 of 2 claims false".
+ */
+
+export interface DecompositionConfig {
+	/** Subclaims beyond this many are dropped */
+	maxSubclaims: number;
+	/** Ask Claude to decompose statements that look compound */
+	useModel: boolean;
+}
+
+export const DEFAULT_DECOMPOSITION_CONFIG: DecompositionConfig = {
+	maxSubclaims: 5,
+	useModel: true,
+};
+
+/**
+ * A subclaim and its verification
+ */
+export interface SubclaimResult {
+	claim: string;
+	result: VerificationResult;
+}
+
+/**
+ * Summary of a statement verified as several subclaims
+ */
+export interface CompoundVerdict {
+	total: number;
+	trueCount: number;
+	falseCount: number;
+	/** Inconclusive or without quorum */
+	unresolvedCount: number;
+	/** e.g. "partly false: 1 of 2 claims false" */
+	summary: string;
+}
+
+/**
+ * Compound verdict with the consensus it stands for
+ * The consensus is that of the deciding subclaim: the most certain false
+ * one, the first unresolved one, or the least certain true one. A
+ * statement that is only partly false is rated misleading, or mostly
+ * false when most of its claims are false.
+ */
+export interface CompoundRollUp {
+	compound: CompoundVerdict;
+	consensus: VerificationResult["consensus"];
+	rating?: VerdictRating;
+	lavaGatewayConsensus: ConsensusOutcome;
+	deciding: SubclaimResult;
+}
+
+/**
+ * The claims a false verdict found false
+ * For a compound statement these are its false subclaims, which group and
+ * cluster better than the whole statement
+ */
+export function falseClaimsOf(
+	statement: string,
+	result: Pick<VerificationResult, "consensus" | "subclaims">,
+): string[] {
+	if (result.consensus !== "verified_false") return [];
+	if (!result.subclaims) return [statement];
+	return result.subclaims
+		.filter((s) => s.result.consensus === "verified_false")
+		.map((s) => s.claim);
+}
+
+/** Words that suggest more than one claim in a statement */
+const COMPOUND_HINT =
+	/[,;]|\b(and|but|while|whereas|although|which|who|whose)\b/i;
+
+const VERB =
+	/\b(is|are|was|were|has|have|had|will|would|can|could|does|did)\b/i;
+
+/** "Paris, the capital of Germany, has 2 million people" */
+const APPOSITIVE = /^([^,]+?),\s+((?:the|a|an|one of)\s+[^,]+?),\s+(.+)$/i;
+
+/** "The tower, which was built in 1889, is 300 metres tall" */
+const RELATIVE_CLAUSE = /^([^,]+?),\s+(?:which|who)\s+([^,]+?),\s+(.+)$/i;
+
+/** "Paris is in France and has 2 million people" */
+const COORDINATED = /^(.+?),?\s+(?:and|but|while|whereas)\s+(.+)$/i;
+
+/**
+ * Service for splitting statements into atomic subclaims
+ */
+export class ClaimDecompositionService {
+	private static instance: ClaimDecompositionService | null = null;
+	private config: DecompositionConfig = { ...DEFAULT_DECOMPOSITION_CONFIG };
+
+	private constructor() {}
+
+	public static getInstance(): ClaimDecompositionService {
+		if (!ClaimDecompositionService.instance) {
+			ClaimDecompositionService.instance = new ClaimDecompositionService();
+		}
+		return ClaimDecompositionService.instance;
+	}
+
+	configure(config: Partial<DecompositionConfig>): void {
+		this.config = { ...this.config, ...config };
+	}
+
+	getConfig(): DecompositionConfig {
+		return { ...this.config };
+	}
+
+	/**
+	 * Atomic subclaims of a statement, in the order they were made
+	 * Returns just the statement when it makes a single claim
+	 */
+	async decompose(statement: string, signal?: AbortSignal): Promise<string[]> {
+		const text = statement.trim();
+		if (!COMPOUND_HINT.test(text)) return [text];
+
+		let subclaims: string[] | null = null;
+		if (
+			this.config.useModel &&
+			apiConfig.anthropic.apiKey &&
+			CircuitBreakerService.canRequest("anthropic")
+		) {
+			subclaims = await this.decomposeWithClaude(text, signal);
+		}
+		subclaims ??= this.decomposeLocally(text);
+
+		const unique = [...new Set(subclaims.map((claim) => claim.trim()))].filter(
+			(claim) => claim.length > 0,
+		);
+		if (unique.length > this.config.maxSubclaims) {
+			console.warn(
+				`✂️ Keeping ${this.config.maxSubclaims} of ${unique.length} subclaims of "${text}"`,
+			);
+		}
+		const kept = unique.slice(0, this.config.maxSubclaims);
+		return kept.length > 1 ? kept : [text];
+	}
+
+	/**
+	 * Combine subclaim verdicts into a compound verdict
+	 * Any false subclaim makes the statement false; it is true only when
+	 * every subclaim is
+	 */
+	rollUp(subclaims: SubclaimResult[]): CompoundRollUp {
+		const total = subclaims.length;
+		const isTrue = (s: SubclaimResult) =>
+			s.result.consensus === "verified_true";
+		const isFalse = (s: SubclaimResult) =>
+			s.result.consensus === "verified_false";
+		const score = (s: SubclaimResult) =>
+			s.result.lavaGatewayConsensus.consensusScore;
+
+		const trueClaims = subclaims.filter(isTrue);
+		const falseClaims = subclaims.filter(isFalse);
+		const unresolved = subclaims.filter((s) => !isTrue(s) && !isFalse(s));
+
+		let deciding: SubclaimResult;
+		let summary: string;
+		let rating: VerdictRating | undefined;
+		if (falseClaims.length > 0) {
+			deciding = falseClaims.reduce((a, b) => (score(b) > score(a) ? b : a));
+			if (falseClaims.length === total) {
+				summary = `false: all ${total} claims false`;
+				rating = deciding.result.rating ?? "false";
+			} else {
+				summary = `partly false: ${falseClaims.length} of ${total} claims false`;
+				rating = falseClaims.length * 2 > total ? "mostly_false" : "misleading";
+			}
+		} else if (unresolved.length > 0) {
+			deciding = unresolved[0];
+			summary =
+				unresolved.length === total
+					? `inconclusive: none of ${total} claims could be verified`
+					: `partly unverified: ${unresolved.length} of ${total} claims unresolved`;
+			rating = subclaims.every((s) => s.result.rating === "unverifiable")
+				? "unverifiable"
+				: undefined;
+		} else {
+			deciding = trueClaims.reduce((a, b) => (score(b) < score(a) ? b : a));
+			summary = `true: all ${total} claims true`;
+			// As true as the least true claim
+			rating = trueClaims
+				.map((s) => s.result.rating ?? "true")
+				.reduce((a, b) =>
+					VERDICT_RATINGS.indexOf(b) > VERDICT_RATINGS.indexOf(a) ? b : a,
+				);
+		}
+
+		return {
+			compound: {
+				total,
+				trueCount: trueClaims.length,
+				falseCount: falseClaims.length,
+				unresolvedCount: unresolved.length,
+				summary,
+			},
+			consensus: deciding.result.consensus,
+			rating,
+			lavaGatewayConsensus: {
+				...deciding.result.lavaGatewayConsensus,
+				rating,
+				explanation: `${summary[0].toUpperCase()}${summary.slice(1)}. Deciding claim "${deciding.claim}": ${deciding.result.lavaGatewayConsensus.explanation}`,
+			},
+			deciding,
+		};
+	}
+
+	/**
+	 * Ask Claude for the subclaims; null if it couldn't answer
+	 */
+	private async decomposeWithClaude(
+		statement: string,
+		signal?: AbortSignal,
+	): Promise<string[] | null> {
+		const messages: AnthropicMessage[] = [
+			{
+				role: "user",
+				content: `You split statements into atomic claims for fact-checking.
+
+${untrustedDataNotice("statement")}
+
+${delimitUntrusted(statement)}
+
+List every factual claim the statement makes as a separate, self-contained sentence that can be checked on its own:
+- One fact per claim; split appositives, relative clauses and lists ("Paris, the capital of Germany, has 2 million people" → "Paris is the capital of Germany", "Paris has 2 million people")
+- Repeat the subject instead of using pronouns
+- Keep the speaker's wording, numbers and dates; never correct, add or drop information
+- Leave out opinions, questions and filler
+- If the statement makes only one claim, return it unchanged as the only item
+
+Record the claims with the record_subclaims tool.`,
+			},
+		];
+
+		const send = async (): Promise<AnthropicContentBlock[]> => {
+			const response = await HttpClient.fetch(
+				`${apiConfig.anthropic.baseUrl}/v1/messages`,
+				{
+					method: "POST",
+					signal: withTimeout(requestTimeouts.anthropic, signal),
+					headers: {
+						"x-api-key": apiConfig.anthropic.apiKey,
+						"anthropic-version": "2023-06-01",
+						"Content-Type": "application/json",
+					},
+					body: JSON.stringify({
+						model: apiConfig.anthropic.model,
+						max_tokens: 512,
+						temperature: 0,
+						...forceTool(
+							"record_subclaims",
+							"Record the atomic claims made by the statement",
+							CLAIM_DECOMPOSITION_JSON_SCHEMA,
+						),
+						messages,
+					}),
+				},
+				{ provider: "anthropic", apiKey: apiConfig.anthropic.apiKey },
+			);
+
+			if (!response.ok) {
+				throw new Error(`Claude API error: ${response.statusText}`);
+			}
+
+			const data = await response.json();
+			return data.content;
+		};
+
+		try {
+			const content = await send();
+			const result = await parseWithRepair(
+				readStructuredOutput(content),
+				claimDecompositionSchema,
+				async (error) => {
+					messages.push(...buildRepairTurn(content, error));
+					return readStructuredOutput(await send());
+				},
+			);
+			CircuitBreakerService.recordSuccess("anthropic");
+			return result.subclaims;
+		} catch (error) {
+			if (signal?.aborted) throw error;
+			CircuitBreakerService.recordFailure("anthropic", String(error));
+			console.error("Claim decomposition failed, splitting locally:", error);
+			return null;
+		}
+	}
+
+	/**
+	 * Split appositives, relative clauses and coordinated clauses
+	 */
+	private decomposeLocally(statement: string, depth = 0): string[] {
+		const text = statement.trim().replace(/[.!]+$/, "");
+		if (depth > 3) return [text];
+
+		const appositive = text.match(APPOSITIVE);
+		if (appositive && !VERB.test(appositive[1]) && VERB.test(appositive[3])) {
+			const [, subject, description, rest] = appositive;
+			return [
+				`${subject} is ${description}`,
+				...this.decomposeLocally(`${subject} ${rest}`, depth + 1),
+			];
+		}
+
+		const relative = text.match(RELATIVE_CLAUSE);
+		if (relative && !VERB.test(relative[1]) && VERB.test(relative[3])) {
+			const [, subject, clause, rest] = relative;
+			return [
+				`${subject} ${clause}`,
+				...this.decomposeLocally(`${subject} ${rest}`, depth + 1),
+			];
+		}
+
+		const coordinated = text.match(COORDINATED);
+		if (coordinated && VERB.test(coordinated[1]) && VERB.test(coordinated[2])) {
+			const [, first, second] = coordinated;
+			// "... and has 2 million people" shares the first clause's subject
+			const firstWord = second.split(/\s+/)[0];
+			const subject = first.slice(0, first.search(VERB)).trim();
+			const completed =
+				VERB.test(firstWord) && subject ? `${subject} ${second}` : second;
+			return [
+				...this.decomposeLocally(first, depth + 1),
+				...this.decomposeLocally(completed, depth + 1),
+			];
+		}
+
+		return [text];
+	}
+}
+
+export default ClaimDecompositionService.getInstance();
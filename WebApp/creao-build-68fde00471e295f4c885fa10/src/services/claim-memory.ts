@@ -0,0 +1,285 @@
+import {
+	type DeclarativeStatementModel,
+	DeclarativeStatementORM,
+} from "@/components/data/orm/orm_declarative_statement";
+import {
+	type VerificationResultModel,
+	VerificationResultORM,
+} from "@/components/data/orm/orm_verification_result";
+import {
+	canonicalClaim,
+	claimSimilarity,
+	entitiesAgree,
+	normalizeClaim,
+} from "@/lib/claim-text";
+import { calendarDate } from "@/lib/temporal";
+import TemporalAwarenessService from "@/services/temporal-awareness";
+import type { VerificationResult } from "@/services/verification-service";
+import VerificationStoreService, {
+	checkedClaim,
+} from "@/services/verification-store";
+
+/**
+ * Claim Memory Service
+ *
+ * Remembers verdicts for claims that have already been checked, so a
+ * repeated talking point can reuse its verdict instead of querying every
+ * agent again. Claims are matched on normalised text, either exactly or as
+ * near-duplicates, against stored `verification_result` records and
+ * verdicts reached earlier in this session. Near-duplicates must name the
+ * same people, places and organisations.
+ */
+
+export interface ClaimMemoryPolicy {
+	enabled: boolean;
+	/** How long a true or false verdict can be reused, in milliseconds */
+	decisiveTtlMs: number;
+	/** How long an inconclusive or no-quorum verdict can be reused */
+	indecisiveTtlMs: number;
+	/** Cap on how long a verdict on a time-sensitive claim can be reused */
+	timeSensitiveTtlMs: number;
+	/** Minimum similarity for a near-duplicate match, in [0, 1] */
+	nearDuplicateThreshold: number;
+}
+
+export const DEFAULT_CLAIM_MEMORY_POLICY: ClaimMemoryPolicy = {
+	enabled: true,
+	decisiveTtlMs: 7 * 24 * 60 * 60 * 1000,
+	indecisiveTtlMs: 60 * 60 * 1000,
+	timeSensitiveTtlMs: 60 * 60 * 1000,
+	nearDuplicateThreshold: 0.8,
+};
+
+/**
+ * How a verdict was found in claim memory, and how fresh it is
+ */
+export interface CachedVerdict {
+	match: "exact" | "near_duplicate";
+	similarity: number;
+	/** Statement the verdict was originally reached for */
+	matchedStatement: string;
+	verifiedAt: string;
+	expiresAt: string;
+	verificationResultId?: string;
+}
+
+interface ClaimMemoryEntry {
+	statement: string;
+	normalized: string;
+	/** See canonicalClaim; equal canonical forms are an exact match */
+	canonical: string;
+	verifiedAt: number;
+	verificationResultId?: string;
+	result: Omit<VerificationResult, "statementId" | "requestMetadata">;
+}
+
+/**
+ * Service for reusing verdicts of previously verified claims
+ */
+export class ClaimMemoryService {
+	private static instance: ClaimMemoryService | null = null;
+	private entries: ClaimMemoryEntry[] = [];
+	private policy: ClaimMemoryPolicy = { ...DEFAULT_CLAIM_MEMORY_POLICY };
+	private loading: Promise<void> | null = null;
+
+	private constructor() {}
+
+	public static getInstance(): ClaimMemoryService {
+		if (!ClaimMemoryService.instance) {
+			ClaimMemoryService.instance = new ClaimMemoryService();
+		}
+		return ClaimMemoryService.instance;
+	}
+
+	configure(policy: Partial<ClaimMemoryPolicy>): void {
+		this.policy = { ...this.policy, ...policy };
+	}
+
+	getPolicy(): ClaimMemoryPolicy {
+		return { ...this.policy };
+	}
+
+	/**
+	 * Find a fresh verdict for a claim
+	 * Exact matches win over near-duplicates; newer verdicts win ties
+	 */
+	async lookup(statement: string): Promise<{
+		cached: CachedVerdict;
+		result: ClaimMemoryEntry["result"];
+	} | null> {
+		if (!this.policy.enabled) return null;
+		await this.load();
+
+		const normalized = normalizeClaim(statement);
+		const canonical = canonicalClaim(statement);
+		const now = Date.now();
+		let best: {
+			entry: ClaimMemoryEntry;
+			similarity: number;
+			exact: boolean;
+		} | null = null;
+
+		for (const entry of this.entries) {
+			if (now > this.expiresAt(entry)) continue;
+
+			const exact = entry.canonical === canonical;
+			const similarity = exact
+				? 1
+				: claimSimilarity(normalized, entry.normalized);
+			if (similarity < this.policy.nearDuplicateThreshold) continue;
+			if (!exact && !entitiesAgree(statement, entry.statement)) continue;
+
+			if (
+				!best ||
+				(exact && !best.exact) ||
+				(exact === best.exact &&
+					(similarity > best.similarity ||
+						(similarity === best.similarity &&
+							entry.verifiedAt > best.entry.verifiedAt)))
+			) {
+				best = { entry, similarity, exact };
+			}
+		}
+
+		if (!best) return null;
+
+		const { entry, similarity, exact } = best;
+		return {
+			cached: {
+				match: exact ? "exact" : "near_duplicate",
+				similarity,
+				matchedStatement: entry.statement,
+				verifiedAt: new Date(entry.verifiedAt).toISOString(),
+				expiresAt: new Date(this.expiresAt(entry)).toISOString(),
+				verificationResultId: entry.verificationResultId,
+			},
+			result: entry.result,
+		};
+	}
+
+	/**
+	 * Remember a verdict reached in this session
+	 */
+	remember(
+		statement: string,
+		result: VerificationResult,
+		verificationResultId?: string,
+	): void {
+		// Verdicts served from memory keep their original timestamp, and
+		// quarantined verdicts aren't trusted enough to reuse
+		if (result.cached || result.quarantine || settled(result)) return;
+
+		const { statementId, requestMetadata, ...rest } = result;
+		this.entries.push({
+			statement,
+			normalized: normalizeClaim(statement),
+			canonical: canonicalClaim(statement),
+			verifiedAt: Date.now(),
+			verificationResultId,
+			result: rest,
+		});
+	}
+
+	/**
+	 * Drop every remembered verdict and reload stored ones on next lookup
+	 */
+	invalidate(): void {
+		this.entries = [];
+		this.loading = null;
+	}
+
+	private expiresAt(entry: ClaimMemoryEntry): number {
+		const decisive =
+			entry.result.consensus === "verified_true" ||
+			entry.result.consensus === "verified_false";
+		const ttl = decisive
+			? this.policy.decisiveTtlMs
+			: this.policy.indecisiveTtlMs;
+		// Verdicts stored before time-sensitive ones were dated are classified here
+		const timeSensitive =
+			entry.result.asOf !== undefined ||
+			TemporalAwarenessService.classify(
+				entry.statement,
+				calendarDate(new Date(entry.verifiedAt)),
+			).timeSensitive;
+		return (
+			entry.verifiedAt +
+			(timeSensitive ? Math.min(ttl, this.policy.timeSensitiveTtlMs) : ttl)
+		);
+	}
+
+	/**
+	 * Load stored verification results once, joined to their statements
+	 */
+	private load(): Promise<void> {
+		if (!this.loading) {
+			this.loading = (async () => {
+				try {
+					const [records, statements] = await Promise.all([
+						VerificationResultORM.getInstance().getAllVerificationResult(),
+						DeclarativeStatementORM.getInstance().getAllDeclarativeStatement(),
+					]);
+					const statementsById = new Map(statements.map((s) => [s.id, s]));
+
+					const stored = records
+						.map((record) =>
+							this.fromRecord(
+								record,
+								statementsById.get(record.declarative_statement_id),
+							),
+						)
+						.filter((entry): entry is ClaimMemoryEntry => entry !== null);
+
+					this.entries = [...stored, ...this.entries];
+					console.log(
+						`🧠 Claim memory loaded ${stored.length} stored verdicts`,
+					);
+				} catch (error) {
+					console.error("Failed to load claim memory:", error);
+				}
+			})();
+		}
+		return this.loading;
+	}
+
+	/**
+	 * Rebuild a memory entry from a stored record
+	 * Records of reused verdicts are skipped; the original record is loaded
+	 */
+	private fromRecord(
+		record: VerificationResultModel,
+		statement?: DeclarativeStatementModel,
+	): ClaimMemoryEntry | null {
+		const claim = statement && checkedClaim(statement);
+		if (!claim) return null;
+
+		const result = VerificationStoreService.fromRecord(record);
+		if (!result || result.cached) return null;
+		// Quarantined verdicts are reused only once a moderator has ruled
+		if (result.quarantine && !result.moderation) return null;
+		if (settled(result)) return null;
+
+		return {
+			statement: claim,
+			normalized: normalizeClaim(claim),
+			canonical: canonicalClaim(claim),
+			verifiedAt:
+				Number(record.update_time || record.create_time) * 1000 || Date.now(),
+			verificationResultId: record.id,
+			result,
+		};
+	}
+}
+
+/**
+ * Whether a deterministic agent settled the verdict
+ * These are cheap to reach again, and a fact sheet's verdict only holds
+ * in its own session, so they aren't reused
+ */
+function settled(
+	result: Pick<VerificationResult, "lavaGatewayConsensus">,
+): boolean {
+	return result.lavaGatewayConsensus.strategy === "deterministic";
+}
+
+export default ClaimMemoryService.getInstance();
@@ -0,0 +1,255 @@
+import type { VerdictRating } from "@/lib/verdict-scale";
+import AgentReliabilityService from "@/services/agent-reliability";
+import type { AgentVerdict, VerificationAgent } from "@/services/agents/types";
+import ConsensusService, {
+	type ConsensusConfig,
+} from "@/services/consensus-service";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const vote = (
+	name: string,
+	verdict: AgentVerdict,
+	confidence = 0.9,
+): VerificationAgent => ({ name, status: "voted", verdict, confidence });
+
+let session = 0;
+
+/** Consensus under a config of its own, so tests don't share settings */
+function calculate(
+	agents: VerificationAgent[],
+	config: Partial<ConsensusConfig>,
+) {
+	session += 1;
+	const sessionId = `consensus-${session}`;
+	ConsensusService.configure(config, sessionId);
+	return ConsensusService.calculate(agents, sessionId);
+}
+
+describe("ConsensusService strategies", () => {
+	beforeEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("gives each agent one vote in a majority", () => {
+		const outcome = calculate(
+			[vote("A", "false"), vote("B", "false"), vote("C", "true")],
+			{ strategy: "majority" },
+		);
+		expect(outcome.verdict).toBe("false");
+		expect(outcome.consensusScore).toBeCloseTo(2 / 3);
+		expect(outcome.tally).toEqual({ true: 1, false: 2, inconclusive: 0 });
+	});
+
+	it("leaves a majority below the threshold inconclusive", () => {
+		expect(
+			calculate([vote("A", "false"), vote("B", "true")], {
+				strategy: "majority",
+			}).verdict,
+		).toBe("inconclusive");
+	});
+
+	it("weights votes by the agents' confidence", () => {
+		const agents = [
+			vote("A", "true", 0.9),
+			vote("B", "false", 0.3),
+			vote("C", "false", 0.3),
+		];
+		expect(calculate(agents, { strategy: "majority" }).verdict).toBe("false");
+		expect(calculate(agents, { strategy: "confidence_weighted" }).verdict).toBe(
+			"true",
+		);
+	});
+
+	it("weights votes by learned reliability", () => {
+		vi.spyOn(AgentReliabilityService, "getReliability").mockImplementation(
+			(name) => (name === "A" ? 0.9 : 0.2),
+		);
+		const outcome = calculate(
+			[vote("A", "true"), vote("B", "false"), vote("C", "false")],
+			{ strategy: "reliability_weighted" },
+		);
+		expect(outcome.verdict).toBe("true");
+		expect(outcome.consensusScore).toBeCloseTo(0.9 / 1.3);
+	});
+
+	it("needs every agent to agree for unanimity", () => {
+		expect(
+			calculate([vote("A", "false"), vote("B", "false")], {
+				strategy: "unanimity",
+			}).verdict,
+		).toBe("false");
+		expect(
+			calculate(
+				[vote("A", "false"), vote("B", "false"), vote("C", "inconclusive")],
+				{ strategy: "unanimity" },
+			).verdict,
+		).toBe("inconclusive");
+	});
+
+	it("combines confidence and reliability into a posterior", () => {
+		vi.spyOn(AgentReliabilityService, "getReliability").mockReturnValue(0.9);
+		const outcome = calculate([vote("A", "true"), vote("B", "true")], {
+			strategy: "bayesian",
+		});
+		expect(outcome.verdict).toBe("true");
+		expect(outcome.consensusScore).toBeGreaterThan(0.95);
+	});
+
+	it("learns nothing from agents with no track record", () => {
+		expect(
+			calculate([vote("A", "true"), vote("B", "true")], {
+				strategy: "bayesian",
+			}).verdict,
+		).toBe("inconclusive");
+	});
+
+	it("keeps a session's strategy to that session", () => {
+		ConsensusService.configure({ strategy: "unanimity" }, "consensus-own");
+		expect(ConsensusService.getConfig("consensus-own").strategy).toBe(
+			"unanimity",
+		);
+		expect(ConsensusService.getConfig().strategy).toBe("majority");
+		ConsensusService.clearSession("consensus-own");
+		expect(ConsensusService.getConfig("consensus-own").strategy).toBe(
+			"majority",
+		);
+	});
+});
+
+describe("ConsensusService quorum", () => {
+	const abstained: VerificationAgent = {
+		name: "Abstainer",
+		status: "abstained",
+		verdict: "inconclusive",
+		confidence: 0,
+	};
+	const errored: VerificationAgent = {
+		name: "Broken",
+		status: "errored",
+		verdict: "inconclusive",
+		confidence: 0,
+	};
+
+	it("has no verdict when too few agents voted", () => {
+		const outcome = calculate([vote("A", "false"), abstained, errored], {
+			quorum: { minVotes: 2, minParticipation: 0 },
+		});
+		expect(outcome.verdict).toBe("insufficient_quorum");
+		expect(outcome.rating).toBeUndefined();
+		expect(outcome.participation).toEqual({
+			voted: 1,
+			abstained: 1,
+			errored: 1,
+		});
+	});
+
+	it("can require a share of the agents asked to vote", () => {
+		const agents = [vote("A", "true"), vote("B", "true"), abstained, errored];
+		const quorum = (minParticipation: number) =>
+			calculate(agents, { quorum: { minVotes: 1, minParticipation } }).verdict;
+		expect(quorum(0.5)).toBe("true");
+		expect(quorum(0.75)).toBe("insufficient_quorum");
+	});
+
+	it("leaves agents that didn't vote out of the tally", () => {
+		const outcome = calculate(
+			[vote("A", "true"), vote("B", "true"), abstained, errored],
+			{ strategy: "majority", quorum: { minVotes: 2, minParticipation: 0 } },
+		);
+		expect(outcome.verdict).toBe("true");
+		expect(outcome.consensusScore).toBe(1);
+		expect(outcome.tally).toEqual({ true: 2, false: 0, inconclusive: 0 });
+	});
+});
+
+describe("ConsensusService.rate", () => {
+	const rated = (
+		verdict: AgentVerdict,
+		rating: VerdictRating | undefined,
+		confidence = 0.9,
+	): VerificationAgent => ({ ...vote("Agent", verdict, confidence), rating });
+
+	it("takes the rating with the most confidence behind the verdict", () => {
+		expect(
+			ConsensusService.rate(
+				[
+					rated("false", "misleading", 0.9),
+					rated("false", "false", 0.6),
+					rated("false", "false", 0.6),
+				],
+				"false",
+			),
+		).toBe("false");
+	});
+
+	it("prefers the more cautious rating on a tie", () => {
+		expect(
+			ConsensusService.rate(
+				[rated("true", "true"), rated("true", "mostly_true")],
+				"true",
+			),
+		).toBe("mostly_true");
+		expect(
+			ConsensusService.rate(
+				[rated("false", "false"), rated("false", "misleading")],
+				"false",
+			),
+		).toBe("misleading");
+	});
+
+	it("ignores ratings that disagree with the verdict", () => {
+		expect(
+			ConsensusService.rate(
+				[rated("true", "mostly_true", 0.5), rated("false", "false", 0.9)],
+				"true",
+			),
+		).toBe("mostly_true");
+	});
+
+	it("counts agents that don't grade as the plain rating", () => {
+		expect(
+			ConsensusService.rate(
+				[rated("true", undefined), rated("true", undefined)],
+				"true",
+			),
+		).toBe("true");
+		expect(
+			ConsensusService.rate(
+				[rated("true", undefined), rated("true", "mostly_true", 0.5)],
+				"true",
+			),
+		).toBe("true");
+	});
+
+	it("calls an inconclusive verdict unverifiable only when most agents do", () => {
+		expect(
+			ConsensusService.rate(
+				[
+					rated("inconclusive", "unverifiable"),
+					rated("true", "true", 0.7),
+					rated("false", "false", 0.1),
+				],
+				"inconclusive",
+			),
+		).toBe("unverifiable");
+		expect(
+			ConsensusService.rate(
+				[rated("inconclusive", "unverifiable", 0.5), rated("true", "true")],
+				"inconclusive",
+			),
+		).toBeUndefined();
+	});
+
+	it("leaves out agents that didn't vote and has no rating without a quorum", () => {
+		const abstained: VerificationAgent = {
+			...rated("false", "false"),
+			status: "abstained",
+		};
+		expect(
+			ConsensusService.rate([rated("true", "mostly_true"), abstained], "true"),
+		).toBe("mostly_true");
+		expect(
+			ConsensusService.rate([rated("true", "true")], "insufficient_quorum"),
+		).toBeUndefined();
+	});
+});
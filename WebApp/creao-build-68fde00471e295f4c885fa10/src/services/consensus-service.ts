@@ -0,0 +1,454 @@
+import { type VerdictRating, ratingForVerdict } from "@/lib/verdict-scale";
+import AgentReliabilityService from "@/services/agent-reliability";
+import type {
+	AgentVerdict,
+	ConsensusVerdict,
+	VerificationAgent,
+} from "@/services/agents/types";
+
+/**
+ * Consensus Service
+ *
+ * Combines agent verdicts into a single verdict using a strategy that can be
+ * chosen per session:
+ * - majority: one agent, one vote
+ * - confidence_weighted: votes weighted by each agent's own confidence
+ * - reliability_weighted: votes weighted by learned per-agent reliability
+ * - unanimity: every agent must give the same decisive verdict
+ * - bayesian: log-odds combination of confidence and reliability
+ *
+ * When Lava Gateway is configured and `useLavaGateway` is on, Lava's
+ * verdict and score are used instead, and the strategy's verdict only
+ * appears in the explanation; quorum and the graded rating are still
+ * decided locally. Turn `useLavaGateway` off for the strategy to decide.
+ *
+ * Only agents that actually voted are counted. Agents that abstained or
+ * errored are left out, and a quorum rule decides whether enough agents
+ * voted to reach a verdict at all.
+ *
+ * In debate mode, agents that split between true and false are asked to
+ * reconsider before their votes are combined (see `DebateRule`).
+ *
+ * A definitive verdict from a deterministic agent, such as an exact
+ * arithmetic check, settles a statement on its own (see `settle`).
+ *
+ * Strategies decide on the coarse true / false / inconclusive reading of
+ * each vote. The graded rating is then taken from the agents that agree
+ * with the verdict (see `rate`).
+ */
+
+export type ConsensusStrategyName =
+	| "majority"
+	| "confidence_weighted"
+	| "reliability_weighted"
+	| "unanimity"
+	| "bayesian";
+
+export interface ConsensusConfig {
+	strategy: ConsensusStrategyName;
+	/** Share of (weighted) votes, or posterior probability, needed for a verdict */
+	threshold: number;
+	/** Prior probability that a statement is true (bayesian only) */
+	prior: number;
+	/** Ask Lava Gateway first when it is configured */
+	useLavaGateway: boolean;
+	quorum: QuorumRule;
+	debate: DebateRule;
+}
+
+export interface QuorumRule {
+	/** Minimum number of agents that must successfully vote */
+	minVotes: number;
+	/** Minimum share of the agents asked that must successfully vote */
+	minParticipation: number;
+}
+
+/**
+ * Debate mode for split decisions
+ * When agents vote both true and false, the agents that can debate see
+ * each other's anonymised answers and may revise theirs before consensus
+ */
+export interface DebateRule {
+	enabled: boolean;
+	/** Rounds of rebuttals after the opening votes */
+	maxRounds: number;
+}
+
+export interface ConsensusOutcome {
+	verdict: ConsensusVerdict;
+	/** Graded verdict; unset without quorum or when agents were split */
+	rating?: VerdictRating;
+	consensusScore: number;
+	strategy: ConsensusStrategyName | "lava_gateway" | "deterministic";
+	/** Human-readable account of how the verdict was reached */
+	explanation: string;
+	/** Weighted support per verdict */
+	tally: Record<AgentVerdict, number>;
+	participation: {
+		voted: number;
+		abstained: number;
+		errored: number;
+	};
+}
+
+type ConsensusStrategy = (
+	agents: VerificationAgent[],
+	config: ConsensusConfig,
+) => Omit<ConsensusOutcome, "participation">;
+
+export const CONSENSUS_STRATEGY_LABELS: Record<ConsensusStrategyName, string> =
+	{
+		majority: "Simple majority",
+		confidence_weighted: "Confidence-weighted",
+		reliability_weighted: "Reliability-weighted",
+		unanimity: "Unanimity",
+		bayesian: "Bayesian",
+	};
+
+export const DEFAULT_CONSENSUS_CONFIG: ConsensusConfig = {
+	strategy: "majority",
+	threshold: 0.6, // 60% agreement required
+	prior: 0.5,
+	useLavaGateway: true,
+	quorum: {
+		minVotes: 2,
+		minParticipation: 0,
+	},
+	debate: {
+		enabled: false,
+		maxRounds: 2,
+	},
+};
+
+/** Ratings read as each decisive verdict, most cautious first */
+const RATINGS_BY_CAUTION: Record<"true" | "false", VerdictRating[]> = {
+	true: ["missing_context", "mostly_true", "true"],
+	false: ["misleading", "mostly_false", "false"],
+};
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Pick a verdict from weighted support using a share threshold
+ */
+function decideByShare(
+	tally: Record<AgentVerdict, number>,
+	threshold: number,
+): { verdict: AgentVerdict; share: number } {
+	const total = tally.true + tally.false + tally.inconclusive;
+	if (total === 0) {
+		return { verdict: "inconclusive", share: 0 };
+	}
+
+	const falseShare = tally.false / total;
+	const trueShare = tally.true / total;
+
+	if (falseShare >= threshold) {
+		return { verdict: "false", share: falseShare };
+	}
+	if (trueShare >= threshold) {
+		return { verdict: "true", share: trueShare };
+	}
+	return {
+		verdict: "inconclusive",
+		share: Math.max(falseShare, trueShare, tally.inconclusive / total),
+	};
+}
+
+/**
+ * Sum a weight per verdict
+ */
+function weightedTally(
+	agents: VerificationAgent[],
+	weight: (agent: VerificationAgent) => number,
+): Record<AgentVerdict, number> {
+	const tally: Record<AgentVerdict, number> = {
+		true: 0,
+		false: 0,
+		inconclusive: 0,
+	};
+	for (const agent of agents) {
+		tally[agent.verdict] += weight(agent);
+	}
+	return tally;
+}
+
+const strategies: Record<ConsensusStrategyName, ConsensusStrategy> = {
+	majority: (agents, config) => {
+		const tally = weightedTally(agents, () => 1);
+		const { verdict, share } = decideByShare(tally, config.threshold);
+		return {
+			verdict,
+			consensusScore: share,
+			strategy: "majority",
+			tally,
+			explanation: `${tally.true} true, ${tally.false} false, ${tally.inconclusive} inconclusive of ${agents.length} votes; ${percent(share)} agreement against a ${percent(config.threshold)} threshold`,
+		};
+	},
+
+	confidence_weighted: (agents, config) => {
+		const tally = weightedTally(agents, (agent) => agent.confidence);
+		const { verdict, share } = decideByShare(tally, config.threshold);
+		return {
+			verdict,
+			consensusScore: share,
+			strategy: "confidence_weighted",
+			tally,
+			explanation: `Confidence-weighted support: true ${tally.true.toFixed(2)}, false ${tally.false.toFixed(2)}, inconclusive ${tally.inconclusive.toFixed(2)}; leading share ${percent(share)} against a ${percent(config.threshold)} threshold`,
+		};
+	},
+
+	reliability_weighted: (agents, config) => {
+		const tally = weightedTally(agents, (agent) =>
+			AgentReliabilityService.getReliability(agent.name),
+		);
+		const { verdict, share } = decideByShare(tally, config.threshold);
+		const weights = agents
+			.map(
+				(agent) =>
+					`${agent.name} ${AgentReliabilityService.getReliability(agent.name).toFixed(2)}`,
+			)
+			.join(", ");
+		return {
+			verdict,
+			consensusScore: share,
+			strategy: "reliability_weighted",
+			tally,
+			explanation: `Reliability weights (${weights}); leading share ${percent(share)} against a ${percent(config.threshold)} threshold`,
+		};
+	},
+
+	unanimity: (agents) => {
+		const tally = weightedTally(agents, () => 1);
+		const first = agents[0]?.verdict;
+		const unanimous =
+			agents.length > 0 &&
+			first !== "inconclusive" &&
+			agents.every((agent) => agent.verdict === first);
+		const verdict: AgentVerdict = unanimous && first ? first : "inconclusive";
+		const agreeing = Math.max(tally.true, tally.false);
+		return {
+			verdict,
+			consensusScore: agents.length > 0 ? agreeing / agents.length : 0,
+			strategy: "unanimity",
+			tally,
+			explanation: unanimous
+				? `All ${agents.length} agents voted ${verdict}`
+				: `No unanimity: ${tally.true} true, ${tally.false} false, ${tally.inconclusive} inconclusive`,
+		};
+	},
+
+	bayesian: (agents, config) => {
+		const tally = weightedTally(agents, () => 1);
+		const prior = Math.min(Math.max(config.prior, 0.01), 0.99);
+		let logOdds = Math.log(prior / (1 - prior));
+
+		for (const agent of agents) {
+			if (agent.verdict === "inconclusive") continue;
+			// An agent with zero confidence carries no evidence (accuracy 0.5),
+			// a fully confident agent is as accurate as its learned reliability
+			const reliability = AgentReliabilityService.getReliability(agent.name);
+			const accuracy = Math.min(
+				Math.max(
+					agent.confidence * reliability + (1 - agent.confidence) * 0.5,
+					0.01,
+				),
+				0.99,
+			);
+			const evidence = Math.log(accuracy / (1 - accuracy));
+			logOdds += agent.verdict === "true" ? evidence : -evidence;
+		}
+
+		const probabilityTrue = 1 / (1 + Math.exp(-logOdds));
+		const verdict: AgentVerdict =
+			probabilityTrue >= config.threshold
+				? "true"
+				: 1 - probabilityTrue >= config.threshold
+					? "false"
+					: "inconclusive";
+
+		return {
+			verdict,
+			consensusScore: Math.max(probabilityTrue, 1 - probabilityTrue),
+			strategy: "bayesian",
+			tally,
+			explanation: `Posterior P(true) = ${percent(probabilityTrue)} from a ${percent(prior)} prior; needs ${percent(config.threshold)} either way`,
+		};
+	},
+};
+
+/**
+ * Service for computing consensus verdicts with per-session strategies
+ */
+export class ConsensusService {
+	private static instance: ConsensusService | null = null;
+	private defaultConfig: ConsensusConfig = { ...DEFAULT_CONSENSUS_CONFIG };
+	private sessionConfigs = new Map<string, ConsensusConfig>();
+
+	private constructor() {}
+
+	public static getInstance(): ConsensusService {
+		if (!ConsensusService.instance) {
+			ConsensusService.instance = new ConsensusService();
+		}
+		return ConsensusService.instance;
+	}
+
+	/**
+	 * Update the consensus config, globally or for a single session
+	 */
+	configure(config: Partial<ConsensusConfig>, sessionId?: string): void {
+		if (sessionId) {
+			this.sessionConfigs.set(sessionId, {
+				...this.getConfig(sessionId),
+				...config,
+			});
+			return;
+		}
+		this.defaultConfig = { ...this.defaultConfig, ...config };
+	}
+
+	getConfig(sessionId?: string): ConsensusConfig {
+		return (
+			(sessionId && this.sessionConfigs.get(sessionId)) || this.defaultConfig
+		);
+	}
+
+	clearSession(sessionId: string): void {
+		this.sessionConfigs.delete(sessionId);
+	}
+
+	/**
+	 * Count how many agents voted, abstained or errored
+	 */
+	getParticipation(
+		agents: VerificationAgent[],
+	): ConsensusOutcome["participation"] {
+		return {
+			voted: agents.filter((a) => a.status === "voted").length,
+			abstained: agents.filter((a) => a.status === "abstained").length,
+			errored: agents.filter((a) => a.status === "errored").length,
+		};
+	}
+
+	/**
+	 * Check the session's quorum rule
+	 * Returns an insufficient_quorum outcome when too few agents voted
+	 */
+	checkQuorum(
+		agents: VerificationAgent[],
+		sessionId?: string,
+	): ConsensusOutcome | null {
+		const config = this.getConfig(sessionId);
+		const participation = this.getParticipation(agents);
+		const required = Math.max(
+			config.quorum.minVotes,
+			Math.ceil(config.quorum.minParticipation * agents.length),
+			1,
+		);
+
+		if (participation.voted >= required) {
+			return null;
+		}
+
+		return {
+			verdict: "insufficient_quorum",
+			consensusScore: 0,
+			strategy: config.strategy,
+			tally: { true: 0, false: 0, inconclusive: 0 },
+			participation,
+			explanation: `Only ${participation.voted} of ${agents.length} agents voted (${required} required); ${participation.abstained} abstained, ${participation.errored} errored`,
+		};
+	}
+
+	/**
+	 * Graded rating for a consensus verdict
+	 * A true or false verdict takes the rating with the most confidence
+	 * among the agents that agree with it, preferring the more cautious
+	 * rating on a tie (mostly true over true). An inconclusive verdict is
+	 * unverifiable when most confidence says so, and unrated otherwise.
+	 * Agents that don't grade count as the plain rating of their verdict.
+	 */
+	rate(
+		agents: VerificationAgent[],
+		verdict: ConsensusVerdict,
+	): VerdictRating | undefined {
+		if (verdict === "insufficient_quorum") return undefined;
+
+		const voters = agents.filter((agent) => agent.status === "voted");
+		const weights = new Map<VerdictRating, number>();
+		for (const agent of voters) {
+			const rating = agent.rating ?? ratingForVerdict(agent.verdict);
+			// Zero-confidence votes still count, barely
+			const weight = Math.max(agent.confidence, 0.01);
+			weights.set(rating, (weights.get(rating) ?? 0) + weight);
+		}
+
+		if (verdict === "inconclusive") {
+			const total = [...weights.values()].reduce((sum, w) => sum + w, 0);
+			const unverifiable = weights.get("unverifiable") ?? 0;
+			return total > 0 && unverifiable / total >= 0.5
+				? "unverifiable"
+				: undefined;
+		}
+
+		// The first rating with the most weight wins, so ties go to caution
+		let best: VerdictRating = verdict;
+		let bestWeight = 0;
+		for (const rating of RATINGS_BY_CAUTION[verdict]) {
+			const weight = weights.get(rating) ?? 0;
+			if (weight > bestWeight) {
+				best = rating;
+				bestWeight = weight;
+			}
+		}
+		return best;
+	}
+
+	/**
+	 * Outcome for a statement settled by a deterministic agent's
+	 * definitive verdict
+	 * The other agents weren't asked, so quorum doesn't apply
+	 */
+	settle(
+		agents: VerificationAgent[],
+		decisive: VerificationAgent,
+	): ConsensusOutcome {
+		return {
+			verdict: decisive.verdict,
+			rating: decisive.rating ?? ratingForVerdict(decisive.verdict),
+			consensusScore: 1,
+			strategy: "deterministic",
+			explanation: `Settled by ${decisive.name}: ${decisive.reasoning}`,
+			tally: {
+				true: 0,
+				false: 0,
+				inconclusive: 0,
+				[decisive.verdict]: decisive.confidence,
+			},
+			participation: this.getParticipation(agents),
+		};
+	}
+
+	/**
+	 * Calculate consensus locally with the session's strategy
+	 */
+	calculate(agents: VerificationAgent[], sessionId?: string): ConsensusOutcome {
+		const noQuorum = this.checkQuorum(agents, sessionId);
+		if (noQuorum) {
+			return noQuorum;
+		}
+
+		const config = this.getConfig(sessionId);
+		const voters = agents.filter((agent) => agent.status === "voted");
+		const outcome = strategies[config.strategy](voters, config);
+		return {
+			...outcome,
+			rating: this.rate(agents, outcome.verdict),
+			participation: this.getParticipation(agents),
+			explanation: `${outcome.explanation} (${voters.length} of ${agents.length} agents voted)`,
+		};
+	}
+}
+
+export default ConsensusService.getInstance();
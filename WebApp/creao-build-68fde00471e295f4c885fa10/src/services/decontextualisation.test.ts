@@ -0,0 +1,98 @@
+import { apiConfig } from "@/config/api-config";
+import CircuitBreakerService from "@/services/circuit-breaker";
+import DecontextualisationService from "@/services/decontextualisation";
+import HttpClient from "@/services/http-client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+/** Claude answering with a rewrite, or failing */
+function stubClaude(standalone: string | null) {
+	return vi.spyOn(HttpClient, "fetch").mockImplementation(async () =>
+		standalone === null
+			? new Response("{}", { status: 500, statusText: "Overloaded" })
+			: Response.json({
+					content: [
+						{
+							type: "tool_use",
+							name: "record_standalone_claim",
+							input: {
+								standalone,
+								resolutions: [{ reference: "He", entity: "Barack Obama" }],
+							},
+						},
+					],
+				}),
+	);
+}
+
+describe("DecontextualisationService", () => {
+	const apiKey = apiConfig.anthropic.apiKey;
+	let session = 0;
+	let sessionId: string;
+
+	beforeEach(() => {
+		vi.restoreAllMocks();
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		apiConfig.anthropic.apiKey = "test-key";
+		CircuitBreakerService.reset("anthropic");
+		session += 1;
+		sessionId = `session-${session}`;
+		DecontextualisationService.observe(
+			"I met Barack Obama last year",
+			sessionId,
+		);
+	});
+
+	afterEach(() => {
+		apiConfig.anthropic.apiKey = apiKey;
+	});
+
+	it("uses Claude's rewrite when it only replaces the references", async () => {
+		const fetch = stubClaude("Barack Obama was born in Kenya");
+		const claim = await DecontextualisationService.decontextualise(
+			"He was born in Kenya",
+			sessionId,
+		);
+		expect(claim.standalone).toBe("Barack Obama was born in Kenya");
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it.each([
+		["He was not born in Kenya", "Barack Obama was born in Kenya"],
+		["He won 52% of the vote", "Barack Obama won 53% of the vote"],
+		["He was born in Kenya", "Barack Obama was born"],
+	])(
+		"resolves %j locally when Claude rewrites it as %j",
+		async (statement, rewrite) => {
+			const fetch = stubClaude(rewrite);
+			const claim = await DecontextualisationService.decontextualise(
+				statement,
+				sessionId,
+			);
+			expect(fetch).toHaveBeenCalledTimes(1);
+			expect(console.warn).toHaveBeenCalledWith(
+				expect.stringContaining("Discarding rewrite"),
+			);
+			expect(claim.standalone).toBe(statement.replace("He", "Barack Obama"));
+		},
+	);
+
+	it("resolves references locally when Claude fails", async () => {
+		stubClaude(null);
+		const claim = await DecontextualisationService.decontextualise(
+			"He was born in Kenya",
+			sessionId,
+		);
+		expect(claim.standalone).toBe("Barack Obama was born in Kenya");
+	});
+
+	it("doesn't ask Claude about statements without references", async () => {
+		const fetch = stubClaude("Paris is in France");
+		const claim = await DecontextualisationService.decontextualise(
+			"Paris is in France",
+			sessionId,
+		);
+		expect(claim.standalone).toBe("Paris is in France");
+		expect(fetch).not.toHaveBeenCalled();
+	});
+});
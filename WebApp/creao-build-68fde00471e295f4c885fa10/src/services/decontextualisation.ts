@@ -0,0 +1,272 @@
+import { apiConfig, requestTimeouts } from "@/config/api-config";
+import { withTimeout } from "@/lib/abort";
+import {
+	comparableClaims,
+	keepsWording,
+	normalizeClaim,
+} from "@/lib/claim-text";
+import {
+	type StandaloneClaim,
+	type TrackedEntity,
+	describeEntities,
+	hasReferences,
+	resolveReferences,
+	trackEntities,
+} from "@/lib/coreference";
+import { parseWithRepair } from "@/lib/model-output";
+import { delimitUntrusted, untrustedDataNotice } from "@/lib/prompt-safety";
+import {
+	type AnthropicContentBlock,
+	type AnthropicMessage,
+	buildRepairTurn,
+	forceTool,
+	readStructuredOutput,
+} from "@/services/anthropic-tools";
+import CircuitBreakerService from "@/services/circuit-breaker";
+import HttpClient from "@/services/http-client";
+import {
+	STANDALONE_CLAIM_JSON_SCHEMA,
+	standaloneClaimSchema,
+} from "@/services/model-schemas";
+
+/**
+ * Decontextualisation Service
+ *
+ * Rewrites claims that lean on the conversation so they can be checked on
+ * their own, e.g. "He was born in Kenya" into "Barack Obama was born in
+ * Kenya". Each session keeps its recent statements and an entity tracker
+ * of the people, places and organisations mentioned so far. Claude
+ * rewrites statements that refer back to earlier ones, given that
+ * history; otherwise pronouns and references like "that city" are
+ * resolved locally from the tracker.
+ */
+
+export interface DecontextualisationConfig {
+	enabled: boolean;
+	/** Earlier statements kept per session, and given to Claude */
+	historySize: number;
+	/** Ask Claude to rewrite statements that refer back to earlier ones */
+	useModel: boolean;
+}
+
+export const DEFAULT_DECONTEXTUALISATION_CONFIG: DecontextualisationConfig = {
+	enabled: true,
+	historySize: 10,
+	useModel: true,
+};
+
+/** Key of the context used outside a session */
+const DEFAULT_SESSION = "default";
+
+interface SessionContext {
+	history: string[];
+	/** Most recently mentioned first */
+	entities: TrackedEntity[];
+}
+
+/**
+ * Service for rewriting claims into a standalone form
+ */
+export class DecontextualisationService {
+	private static instance: DecontextualisationService | null = null;
+	private config: DecontextualisationConfig = {
+		...DEFAULT_DECONTEXTUALISATION_CONFIG,
+	};
+	private contexts = new Map<string, SessionContext>();
+
+	private constructor() {}
+
+	public static getInstance(): DecontextualisationService {
+		if (!DecontextualisationService.instance) {
+			DecontextualisationService.instance = new DecontextualisationService();
+		}
+		return DecontextualisationService.instance;
+	}
+
+	configure(config: Partial<DecontextualisationConfig>): void {
+		this.config = { ...this.config, ...config };
+	}
+
+	getConfig(): DecontextualisationConfig {
+		return { ...this.config };
+	}
+
+	/**
+	 * Entities mentioned in the session so far, most recent first
+	 */
+	getEntities(sessionId?: string): TrackedEntity[] {
+		return [...this.context(sessionId).entities];
+	}
+
+	/**
+	 * Add a statement to the session's conversation
+	 * Pass the standalone form of a rewritten statement, so the entities
+	 * its references stood for count as mentioned again
+	 */
+	observe(statement: string, sessionId?: string): void {
+		const context = this.context(sessionId);
+		context.history = [...context.history, statement].slice(
+			-this.config.historySize,
+		);
+		context.entities = trackEntities(context.entities, statement);
+	}
+
+	/**
+	 * A statement rewritten to stand on its own
+	 * Statements that don't refer back to earlier ones are returned as
+	 * they are
+	 */
+	async decontextualise(
+		statement: string,
+		sessionId?: string,
+		signal?: AbortSignal,
+	): Promise<StandaloneClaim> {
+		const context = this.context(sessionId);
+		if (
+			!this.config.enabled ||
+			context.history.length === 0 ||
+			!hasReferences(statement)
+		) {
+			return { original: statement, standalone: statement, resolutions: [] };
+		}
+
+		let claim: StandaloneClaim | null = null;
+		if (
+			this.config.useModel &&
+			apiConfig.anthropic.apiKey &&
+			CircuitBreakerService.canRequest("anthropic")
+		) {
+			claim = await this.decontextualiseWithClaude(statement, context, signal);
+		}
+		return claim ?? resolveReferences(statement, context.entities);
+	}
+
+	/**
+	 * Ask Claude for the standalone claim; null if it couldn't answer or
+	 * changed more than the references
+	 */
+	private async decontextualiseWithClaude(
+		statement: string,
+		context: SessionContext,
+		signal?: AbortSignal,
+	): Promise<StandaloneClaim | null> {
+		const entities =
+			context.entities.length > 0
+				? `\nPeople, places and organisations mentioned so far, most recent first: ${describeEntities(context.entities)}\n`
+				: "";
+		const messages: AnthropicMessage[] = [
+			{
+				role: "user",
+				content: `You rewrite claims from a conversation so they can be fact-checked on their own.
+
+${untrustedDataNotice("conversation", "statement")}
+
+Earlier in the conversation, oldest first:
+${delimitUntrusted(context.history.join("\n"), "conversation")}
+${entities}
+Statement to rewrite:
+${delimitUntrusted(statement)}
+
+Rewrite the statement so it stands on its own:
+- Replace pronouns and references like "that city" or "the company" with who or what they refer to in the conversation
+- Change nothing else: keep the speaker's wording, numbers and dates; never correct, add or drop information
+- Leave a reference as it is when the conversation doesn't make clear what it refers to
+- If nothing needs resolving, return the statement unchanged
+- List each reference you replaced and what you replaced it with
+
+Record the result with the record_standalone_claim tool.`,
+			},
+		];
+
+		const send = async (): Promise<AnthropicContentBlock[]> => {
+			const response = await HttpClient.fetch(
+				`${apiConfig.anthropic.baseUrl}/v1/messages`,
+				{
+					method: "POST",
+					signal: withTimeout(requestTimeouts.anthropic, signal),
+					headers: {
+						"x-api-key": apiConfig.anthropic.apiKey,
+						"anthropic-version": "2023-06-01",
+						"Content-Type": "application/json",
+					},
+					body: JSON.stringify({
+						model: apiConfig.anthropic.model,
+						max_tokens: 512,
+						temperature: 0,
+						...forceTool(
+							"record_standalone_claim",
+							"Record the statement rewritten to stand on its own",
+							STANDALONE_CLAIM_JSON_SCHEMA,
+						),
+						messages,
+					}),
+				},
+				{ provider: "anthropic", apiKey: apiConfig.anthropic.apiKey },
+			);
+
+			if (!response.ok) {
+				throw new Error(`Claude API error: ${response.statusText}`);
+			}
+
+			const data = await response.json();
+			return data.content;
+		};
+
+		try {
+			const content = await send();
+			const result = await parseWithRepair(
+				readStructuredOutput(content),
+				standaloneClaimSchema,
+				async (error) => {
+					messages.push(...buildRepairTurn(content, error));
+					return readStructuredOutput(await send());
+				},
+			);
+			CircuitBreakerService.recordSuccess("anthropic");
+
+			// A rewrite that changes numbers or negation, or drops or swaps
+			// words other than the references it resolved, is a different claim
+			if (
+				!comparableClaims(
+					normalizeClaim(statement),
+					normalizeClaim(result.standalone),
+				) ||
+				!keepsWording(
+					statement,
+					result.standalone,
+					result.resolutions.map((resolution) => resolution.reference),
+				)
+			) {
+				console.warn(
+					`Discarding rewrite of "${statement}" that changed the claim: "${result.standalone}"`,
+				);
+				return null;
+			}
+			return {
+				original: statement,
+				standalone: result.standalone,
+				resolutions: result.resolutions,
+			};
+		} catch (error) {
+			if (signal?.aborted) throw error;
+			CircuitBreakerService.recordFailure("anthropic", String(error));
+			console.error(
+				"Decontextualisation failed, resolving references locally:",
+				error,
+			);
+			return null;
+		}
+	}
+
+	private context(sessionId?: string): SessionContext {
+		const key = sessionId ?? DEFAULT_SESSION;
+		let context = this.contexts.get(key);
+		if (!context) {
+			context = { history: [], entities: [] };
+			this.contexts.set(key, context);
+		}
+		return context;
+	}
+}
+
+export default DecontextualisationService.getInstance();
@@ -0,0 +1,114 @@
+import { citedEvidence, evidencePrompt, rankEvidence } from "@/lib/evidence";
+import EvidenceRetrievalService, {
+	LocalSearchBackend,
+} from "@/services/evidence-retrieval";
+import { agentVerdictResponseSchema } from "@/services/model-schemas";
+import { describe, expect, it } from "vitest";
+
+describe("LocalSearchBackend", () => {
+	it("finds reference documents sharing words with the query", async () => {
+		const backend = new LocalSearchBackend();
+		const results = await backend.search("Paris is the capital of Germany", 3);
+		expect(results.map((r) => r.title)).toEqual(
+			expect.arrayContaining(["Paris - Wikipedia", "Berlin - Wikipedia"]),
+		);
+	});
+
+	it("replaces documents with the same URL", async () => {
+		const backend = new LocalSearchBackend([]);
+		expect(backend.isAvailable()).toBe(false);
+		backend.addDocuments([
+			{ title: "Old", url: "https://example.org/a", snippet: "zebra facts" },
+		]);
+		backend.addDocuments([
+			{ title: "New", url: "https://example.org/a", snippet: "zebra facts" },
+		]);
+		const results = await backend.search("zebra", 5);
+		expect(results.map((r) => r.title)).toEqual(["New"]);
+	});
+});
+
+describe("rankEvidence", () => {
+	it("numbers the most relevant results first and drops the rest", () => {
+		const evidence = rankEvidence(
+			"Water boils at 100 degrees Celsius",
+			[
+				{
+					title: "Cats",
+					url: "https://example.org/cats",
+					snippet: "Cats purr",
+				},
+				{
+					title: "Kettles",
+					url: "https://example.org/kettles",
+					snippet: "A kettle heats water",
+				},
+				{
+					title: "Boiling point",
+					url: "https://example.org/boiling",
+					snippet: "Water boils at 100 degrees Celsius at sea level",
+				},
+				{
+					title: "Boiling point (mirror)",
+					url: "https://example.org/boiling",
+					snippet: "Water boils at 100 degrees Celsius",
+				},
+			],
+			"test",
+			5,
+		);
+		expect(evidence.map((e) => [e.id, e.url])).toEqual([
+			["E1", "https://example.org/boiling"],
+			["E2", "https://example.org/kettles"],
+		]);
+		expect(evidence[0].score).toBeGreaterThan(evidence[1].score);
+	});
+});
+
+describe("EvidenceRetrievalService", () => {
+	it("retrieves evidence offline from the local corpus", async () => {
+		EvidenceRetrievalService.configure({ backends: ["local"], maxSnippets: 2 });
+		const evidence = await EvidenceRetrievalService.retrieve(
+			"The Great Wall of China is visible from the Moon",
+		);
+		expect(evidence).toHaveLength(2);
+		expect(evidence[0]).toMatchObject({
+			id: "E1",
+			source: "local",
+			url: "https://en.wikipedia.org/wiki/Great_Wall_of_China",
+		});
+	});
+});
+
+describe("evidence citations", () => {
+	const evidence = rankEvidence(
+		"Paris is the capital of France",
+		[
+			{
+				title: "Paris",
+				url: "https://example.org/paris",
+				snippet: "Paris is the capital of France",
+			},
+		],
+		"test",
+		5,
+	);
+
+	it("lists every snippet by ID in the prompt", () => {
+		const prompt = evidencePrompt(evidence);
+		expect(prompt).toContain("[E1] Paris");
+		expect(prompt).toContain("<evidence>");
+		expect(prompt).toContain("evidence_ids");
+	});
+
+	it("reads evidence IDs from agent verdicts", () => {
+		const verdict = agentVerdictResponseSchema.parse({
+			rating: "true",
+			confidence: 0.9,
+			reasoning: "Matches E1",
+			evidence_ids: ["[e1]", "E7"],
+		});
+		expect(verdict.evidenceIds).toEqual(["E1", "E7"]);
+		expect(citedEvidence(evidence, verdict.evidenceIds)).toEqual(evidence);
+	});
+});
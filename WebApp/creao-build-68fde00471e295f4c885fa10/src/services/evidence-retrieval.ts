@@ -0,0 +1,240 @@
+import { apiConfig, requestTimeouts } from "@/config/api-config";
+import { withTimeout } from "@/lib/abort";
+import { claimTokens, normalizeClaim } from "@/lib/claim-text";
+import { type SearchResult, rankEvidence } from "@/lib/evidence";
+import { parseModelOutput } from "@/lib/model-output";
+import type { EvidenceSnippet } from "@/services/agents/types";
+import CircuitBreakerService from "@/services/circuit-breaker";
+import HttpClient, { type RequestMetadata } from "@/services/http-client";
+import { LOCAL_EVIDENCE_CORPUS } from "@/services/local-evidence-corpus";
+import { brightDataSearchResponseSchema } from "@/services/model-schemas";
+
+/**
+ * Evidence Retrieval Service
+ *
+ * Runs before the agents: searches once for the statement, ranks the
+ * results and hands the same numbered snippets to every agent, which cite
+ * them by ID. Backends are tried in order of preference; Bright Data web
+ * search is used when configured, and a local reference corpus stands in
+ * when it isn't or when it fails, so the pipeline also runs offline.
+ */
+
+export interface EvidenceConfig {
+	enabled: boolean;
+	/** Snippets handed to the agents */
+	maxSnippets: number;
+	/** Backend ids in order of preference; later ones are fallbacks */
+	backends: string[];
+}
+
+export const DEFAULT_EVIDENCE_CONFIG: EvidenceConfig = {
+	enabled: true,
+	maxSnippets: 5,
+	backends: ["brightdata", "local"],
+};
+
+/**
+ * A search engine evidence can be retrieved from
+ */
+export interface SearchBackend {
+	readonly id: string;
+	readonly name: string;
+	/** Whether the backend can be queried right now */
+	isAvailable(): boolean;
+	search(
+		query: string,
+		limit: number,
+		options: { signal?: AbortSignal; metadata?: RequestMetadata },
+	): Promise<SearchResult[]>;
+}
+
+/**
+ * Web search through Bright Data
+ */
+export class BrightDataSearchBackend implements SearchBackend {
+	readonly id = "brightdata";
+	readonly name = "Bright Data";
+
+	isAvailable(): boolean {
+		return (
+			Boolean(apiConfig.brightData.apiKey) &&
+			CircuitBreakerService.canRequest("brightData")
+		);
+	}
+
+	async search(
+		query: string,
+		limit: number,
+		{ signal, metadata }: { signal?: AbortSignal; metadata?: RequestMetadata },
+	): Promise<SearchResult[]> {
+		try {
+			const response = await HttpClient.fetch(
+				`${apiConfig.brightData.baseUrl}/v1/search`,
+				{
+					method: "POST",
+					signal: withTimeout(requestTimeouts.brightData, signal),
+					headers: {
+						Authorization: `Bearer ${apiConfig.brightData.apiKey}`,
+						"Content-Type": "application/json",
+					},
+					body: JSON.stringify({ query, num_results: limit }),
+				},
+				{
+					provider: "brightData",
+					apiKey: apiConfig.brightData.apiKey,
+					metadata,
+				},
+			);
+
+			if (!response.ok) {
+				throw new Error(`Bright Data API error: ${response.statusText}`);
+			}
+
+			const parsed = parseModelOutput(
+				await response.json(),
+				brightDataSearchResponseSchema,
+			);
+			if (!parsed.success) {
+				throw new Error(`Invalid Bright Data response: ${parsed.error}`);
+			}
+			CircuitBreakerService.recordSuccess("brightData");
+			return parsed.data.results;
+		} catch (error) {
+			if (!signal?.aborted) {
+				CircuitBreakerService.recordFailure("brightData", String(error));
+			}
+			throw error;
+		}
+	}
+}
+
+/**
+ * Offline stand-in for web search over a local reference corpus
+ */
+export class LocalSearchBackend implements SearchBackend {
+	readonly id = "local";
+	readonly name = "Local corpus";
+	private documents: SearchResult[];
+
+	constructor(documents: SearchResult[] = LOCAL_EVIDENCE_CORPUS) {
+		this.documents = [...documents];
+	}
+
+	isAvailable(): boolean {
+		return this.documents.length > 0;
+	}
+
+	addDocuments(documents: SearchResult[]): void {
+		const urls = new Set(documents.map((document) => document.url));
+		this.documents = [
+			...this.documents.filter((document) => !urls.has(document.url)),
+			...documents,
+		];
+	}
+
+	clear(): void {
+		this.documents = [];
+	}
+
+	/**
+	 * Documents sharing the most content words with the query
+	 */
+	async search(query: string, limit: number): Promise<SearchResult[]> {
+		const queryTokens = claimTokens(normalizeClaim(query));
+		return this.documents
+			.map((document) => {
+				const tokens = claimTokens(
+					normalizeClaim(`${document.title} ${document.snippet}`),
+				);
+				let shared = 0;
+				for (const token of queryTokens) {
+					if (tokens.has(token)) shared += 1;
+				}
+				return { document, shared };
+			})
+			.filter(({ shared }) => shared > 0)
+			.sort((a, b) => b.shared - a.shared)
+			.slice(0, limit)
+			.map(({ document }) => document);
+	}
+}
+
+/**
+ * Service for retrieving the evidence every agent reasons over
+ */
+export class EvidenceRetrievalService {
+	private static instance: EvidenceRetrievalService | null = null;
+	private config: EvidenceConfig = { ...DEFAULT_EVIDENCE_CONFIG };
+	private backends = new Map<string, SearchBackend>();
+
+	private constructor() {
+		this.registerBackend(new BrightDataSearchBackend());
+		this.registerBackend(new LocalSearchBackend());
+	}
+
+	public static getInstance(): EvidenceRetrievalService {
+		if (!EvidenceRetrievalService.instance) {
+			EvidenceRetrievalService.instance = new EvidenceRetrievalService();
+		}
+		return EvidenceRetrievalService.instance;
+	}
+
+	configure(config: Partial<EvidenceConfig>): void {
+		this.config = { ...this.config, ...config };
+	}
+
+	getConfig(): EvidenceConfig {
+		return { ...this.config };
+	}
+
+	/**
+	 * Register a backend, replacing any backend with the same id
+	 */
+	registerBackend(backend: SearchBackend): void {
+		this.backends.set(backend.id, backend);
+	}
+
+	getBackend(backendId: string): SearchBackend | undefined {
+		return this.backends.get(backendId);
+	}
+
+	/**
+	 * Ranked evidence for a statement, numbered E1, E2, ...
+	 * Uses the first preferred backend that is available and finds
+	 * relevant results; empty when none does
+	 */
+	async retrieve(
+		statement: string,
+		options: { signal?: AbortSignal; metadata?: RequestMetadata } = {},
+	): Promise<EvidenceSnippet[]> {
+		if (!this.config.enabled) return [];
+
+		for (const backendId of this.config.backends) {
+			const backend = this.backends.get(backendId);
+			if (!backend?.isAvailable()) continue;
+
+			try {
+				// Fetch extra results so irrelevant and duplicate ones can be dropped
+				const results = await backend.search(
+					statement,
+					this.config.maxSnippets * 2,
+					options,
+				);
+				const evidence = rankEvidence(
+					statement,
+					results,
+					backend.id,
+					this.config.maxSnippets,
+				);
+				if (evidence.length > 0) return evidence;
+				console.log(`   📚 ${backend.name} found no relevant evidence`);
+			} catch (error) {
+				if (options.signal?.aborted) throw error;
+				console.error(`Evidence retrieval from ${backend.name} failed:`, error);
+			}
+		}
+		return [];
+	}
+}
+
+export default EvidenceRetrievalService.getInstance();
@@ -0,0 +1,169 @@
+import {
+	type FactSheetEntry,
+	type FactSheetMatch,
+	type FactSheetTemplate,
+	matchFactSheet,
+	parseFactSheetCsv,
+	parseFactSheetMarkdown,
+} from "@/lib/fact-sheet";
+
+/**
+ * Fact Sheet Service
+ *
+ * Keeps each session's fact sheet: team-defined ground truths that take
+ * priority over every agent. Like agent toggles, a sheet edited outside a
+ * session becomes the default for the next one. Sheets can be saved as
+ * templates, imported from Markdown or CSV, and applied to any session.
+ * Sheets and templates are persisted in localStorage.
+ */
+
+const SHEETS_STORAGE_KEY = "nocap_fact_sheets";
+const TEMPLATES_STORAGE_KEY = "nocap_fact_sheet_templates";
+/** Key of the sheet used by sessions that haven't edited their own */
+const DEFAULT_SHEET = "default";
+
+/**
+ * Service for session fact sheets and their templates
+ */
+export class FactSheetService {
+	private static instance: FactSheetService | null = null;
+	private sheets: Record<string, FactSheetEntry[]>;
+	private templates: FactSheetTemplate[];
+
+	private constructor() {
+		this.sheets = this.load(SHEETS_STORAGE_KEY, {});
+		this.templates = this.load(TEMPLATES_STORAGE_KEY, []);
+	}
+
+	public static getInstance(): FactSheetService {
+		if (!FactSheetService.instance) {
+			FactSheetService.instance = new FactSheetService();
+		}
+		return FactSheetService.instance;
+	}
+
+	/**
+	 * The session's fact sheet, or the default sheet outside a session
+	 */
+	getEntries(sessionId?: string): FactSheetEntry[] {
+		return [
+			...(this.sheets[sessionId ?? DEFAULT_SHEET] ??
+				this.sheets[DEFAULT_SHEET] ??
+				[]),
+		];
+	}
+
+	/**
+	 * Replace the session's fact sheet, or the default one outside a session
+	 */
+	setEntries(entries: FactSheetEntry[], sessionId?: string): void {
+		this.sheets[sessionId ?? DEFAULT_SHEET] = entries;
+		this.save(SHEETS_STORAGE_KEY, this.sheets);
+	}
+
+	/**
+	 * Add facts, replacing any with the same topic
+	 */
+	addEntries(entries: FactSheetEntry[], sessionId?: string): void {
+		const topics = new Set(entries.map((entry) => topicKey(entry.topic)));
+		this.setEntries(
+			[
+				...this.getEntries(sessionId).filter(
+					(entry) => !topics.has(topicKey(entry.topic)),
+				),
+				...entries,
+			],
+			sessionId,
+		);
+	}
+
+	removeEntry(topic: string, sessionId?: string): void {
+		this.setEntries(
+			this.getEntries(sessionId).filter(
+				(entry) => topicKey(entry.topic) !== topicKey(topic),
+			),
+			sessionId,
+		);
+	}
+
+	/**
+	 * The fact sheet entry a statement makes a claim about, if any
+	 */
+	check(statement: string, sessionId?: string): FactSheetMatch | null {
+		const entries = this.getEntries(sessionId);
+		return entries.length > 0 ? matchFactSheet(statement, entries) : null;
+	}
+
+	getTemplates(): FactSheetTemplate[] {
+		return [...this.templates];
+	}
+
+	/**
+	 * Save facts as a template, replacing a template with the same name
+	 */
+	saveTemplate(name: string, entries: FactSheetEntry[]): FactSheetTemplate {
+		const template: FactSheetTemplate = {
+			id: crypto.randomUUID(),
+			name: name.trim() || "Untitled fact sheet",
+			entries,
+			updatedAt: new Date().toISOString(),
+		};
+		this.templates = [
+			...this.templates.filter((t) => t.name !== template.name),
+			template,
+		];
+		this.save(TEMPLATES_STORAGE_KEY, this.templates);
+		return template;
+	}
+
+	deleteTemplate(templateId: string): void {
+		this.templates = this.templates.filter((t) => t.id !== templateId);
+		this.save(TEMPLATES_STORAGE_KEY, this.templates);
+	}
+
+	/**
+	 * Add a template's facts to the session's fact sheet
+	 */
+	applyTemplate(templateId: string, sessionId?: string): void {
+		const template = this.templates.find((t) => t.id === templateId);
+		if (template) this.addEntries(template.entries, sessionId);
+	}
+
+	/**
+	 * Save a .md or .csv file as a template
+	 * Throws a FactSheetImportError describing what's wrong with the file
+	 */
+	async importTemplate(file: File): Promise<FactSheetTemplate> {
+		const text = await file.text();
+		const fileName = file.name.replace(/\.[^.]+$/, "");
+		if (/\.csv$/i.test(file.name) || file.type === "text/csv") {
+			return this.saveTemplate(fileName, parseFactSheetCsv(text));
+		}
+		const { name, entries } = parseFactSheetMarkdown(text);
+		return this.saveTemplate(name ?? fileName, entries);
+	}
+
+	private load<T>(key: string, fallback: T): T {
+		try {
+			const stored = localStorage.getItem(key);
+			return stored ? (JSON.parse(stored) as T) : fallback;
+		} catch (error) {
+			console.warn("Failed to load fact sheets:", error);
+			return fallback;
+		}
+	}
+
+	private save(key: string, value: unknown): void {
+		try {
+			localStorage.setItem(key, JSON.stringify(value));
+		} catch (error) {
+			console.warn("Failed to save fact sheets:", error);
+		}
+	}
+}
+
+function topicKey(topic: string): string {
+	return topic.trim().toLowerCase();
+}
+
+export default FactSheetService.getInstance();
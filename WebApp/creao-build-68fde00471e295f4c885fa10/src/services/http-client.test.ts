@@ -0,0 +1,179 @@
+import { timeoutBudget } from "@/lib/abort";
+import HttpClient, { createRequestMetadata } from "@/services/http-client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+describe("HttpClient", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.stubGlobal(
+			"fetch",
+			vi.fn(async () => new Response("{}", { status: 200 })),
+		);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.useRealTimers();
+	});
+
+	it("stops the caller's timeout budget while it waits for a throttle slot", async () => {
+		// fishAudio allows 60 requests a minute, one a second
+		const options = { provider: "fishAudio", apiKey: "budget-key" } as const;
+		await HttpClient.fetch("https://example.test", {}, options);
+
+		const budget = timeoutBudget(500);
+		const request = HttpClient.fetch(
+			"https://example.test",
+			{ signal: budget.signal },
+			{ ...options, budget },
+		);
+		await vi.advanceTimersByTimeAsync(1000);
+
+		expect((await request).ok).toBe(true);
+		expect(budget.signal.aborted).toBe(false);
+		budget.clear();
+	});
+
+	it("gives back its throttle slot when the wait is cancelled", async () => {
+		const options = { provider: "fishAudio", apiKey: "cancel-key" } as const;
+		await HttpClient.fetch("https://example.test", {}, options);
+
+		const controller = new AbortController();
+		const cancelled = HttpClient.fetch(
+			"https://example.test",
+			{ signal: controller.signal },
+			options,
+		);
+		controller.abort();
+		await expect(cancelled).rejects.toBeDefined();
+
+		const metadata = createRequestMetadata();
+		const next = HttpClient.fetch(
+			"https://example.test",
+			{},
+			{ ...options, metadata },
+		);
+		await vi.advanceTimersByTimeAsync(1000);
+		await next;
+		expect(metadata.throttleDelayMs).toBe(1000);
+	});
+});
+
+describe("HttpClient retries", () => {
+	/** fetch answering with each status in turn, then 200 */
+	function respondWith(...responses: (number | Response)[]) {
+		const fetch = vi.fn(async () => {
+			const next = responses.shift() ?? 200;
+			return typeof next === "number"
+				? new Response("{}", { status: next })
+				: next;
+		});
+		vi.stubGlobal("fetch", fetch);
+		return fetch;
+	}
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+		vi.spyOn(Math, "random").mockReturnValue(0.5);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+		vi.useRealTimers();
+	});
+
+	it("backs off and retries a server error", async () => {
+		const fetch = respondWith(503);
+		const metadata = createRequestMetadata();
+		const request = HttpClient.fetch(
+			"https://example.test",
+			{},
+			{
+				provider: "fishAudio",
+				apiKey: "retry-key",
+				retry: { baseDelayMs: 100 },
+				metadata,
+			},
+		);
+		await vi.advanceTimersByTimeAsync(1000);
+
+		expect((await request).ok).toBe(true);
+		expect(fetch).toHaveBeenCalledTimes(2);
+		// Half of the 100ms cap, then the rest of the second's throttle slot
+		expect(metadata).toEqual({
+			attempts: 2,
+			retries: 1,
+			retryDelayMs: 50,
+			throttleDelayMs: 950,
+		});
+	});
+
+	it("waits as long as Retry-After asks", async () => {
+		respondWith(
+			new Response("{}", { status: 429, headers: { "Retry-After": "2" } }),
+		);
+		const metadata = createRequestMetadata();
+		const budget = { pause: vi.fn(), resume: vi.fn() };
+		const request = HttpClient.fetch(
+			"https://example.test",
+			{},
+			{ provider: "fishAudio", apiKey: "retry-after-key", metadata, budget },
+		);
+		await vi.advanceTimersByTimeAsync(2000);
+
+		expect((await request).ok).toBe(true);
+		expect(metadata.retryDelayMs).toBe(2000);
+		expect(metadata.throttleDelayMs).toBe(0);
+		// Once per throttle slot and once for the rate limit
+		expect(budget.pause).toHaveBeenCalledTimes(3);
+		expect(budget.resume).toHaveBeenCalledTimes(3);
+	});
+
+	it("doesn't retry a client error", async () => {
+		const fetch = respondWith(404);
+		const metadata = createRequestMetadata();
+		const response = await HttpClient.fetch(
+			"https://example.test",
+			{},
+			{ provider: "fishAudio", apiKey: "not-found-key", metadata },
+		);
+
+		expect(response.status).toBe(404);
+		expect(fetch).toHaveBeenCalledTimes(1);
+		expect(metadata.retries).toBe(0);
+	});
+
+	it("resolves with the last response once retries run out", async () => {
+		const fetch = respondWith(500, 502, 503, 504);
+		const metadata = createRequestMetadata();
+		const request = HttpClient.fetch(
+			"https://example.test",
+			{},
+			{ provider: "fishAudio", apiKey: "exhausted-key", metadata },
+		);
+		await vi.advanceTimersByTimeAsync(3000);
+
+		expect((await request).status).toBe(503);
+		expect(fetch).toHaveBeenCalledTimes(3);
+		expect(metadata).toMatchObject({ attempts: 3, retries: 2 });
+	});
+
+	it("retries a network error", async () => {
+		const fetch = vi
+			.fn()
+			.mockRejectedValueOnce(new TypeError("Failed to fetch"))
+			.mockResolvedValue(new Response("{}", { status: 200 }));
+		vi.stubGlobal("fetch", fetch);
+		const request = HttpClient.fetch(
+			"https://example.test",
+			{},
+			{ provider: "fishAudio", apiKey: "network-key" },
+		);
+		await vi.advanceTimersByTimeAsync(1000);
+
+		expect((await request).ok).toBe(true);
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+});
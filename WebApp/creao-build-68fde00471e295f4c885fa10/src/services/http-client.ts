@@ -0,0 +1,252 @@
+import { type ApiConfig, rateLimits } from "@/config/api-config";
+import { type TimeoutBudget, sleep } from "@/lib/abort";
+
+/**
+ * Shared HTTP Client
+ *
+ * Every provider call goes through here so that it gets:
+ * - retries with exponential backoff and full jitter on 429, 5xx and
+ *   network errors, honouring `Retry-After` when the provider sends one
+ * - client-side throttling per provider and API key, so a burst of
+ *   statements is spread out instead of tripping rate limits
+ *
+ * The caller's AbortSignal covers the whole call, including retries and
+ * throttling waits. A caller with a timeout budget can pass it along so
+ * the clock stops while the call waits on a rate limit: a throttle slot,
+ * or the pause a 429 asks for.
+ */
+
+/**
+ * Accumulated cost of one or more requests
+ */
+export interface RequestMetadata {
+	attempts: number;
+	retries: number;
+	/** Time spent waiting for a throttle slot, in milliseconds */
+	throttleDelayMs: number;
+	/** Time spent backing off between retries, in milliseconds */
+	retryDelayMs: number;
+}
+
+export interface RetryPolicy {
+	maxRetries: number;
+	baseDelayMs: number;
+	maxDelayMs: number;
+}
+
+export interface ProviderRequestOptions {
+	provider: keyof ApiConfig;
+	/** Throttling is tracked per key, so each key gets its own budget */
+	apiKey?: string;
+	retry?: Partial<RetryPolicy>;
+	/** Accumulator that attempts, retries and delays are added to */
+	metadata?: RequestMetadata;
+	/** Paused while the request waits on a rate limit */
+	budget?: Pick<TimeoutBudget, "pause" | "resume">;
+}
+
+/**
+ * fetch-compatible function bound to a provider, see HttpClient.bind
+ */
+export type ProviderFetch = (
+	url: string,
+	init?: RequestInit,
+) => Promise<Response>;
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxRetries: 2,
+	baseDelayMs: 500,
+	maxDelayMs: 8000,
+};
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export function createRequestMetadata(): RequestMetadata {
+	return { attempts: 0, retries: 0, throttleDelayMs: 0, retryDelayMs: 0 };
+}
+
+/**
+ * Sum several metadata records, e.g. across agents
+ */
+export function mergeRequestMetadata(
+	records: (RequestMetadata | undefined)[],
+): RequestMetadata {
+	const total = createRequestMetadata();
+	for (const record of records) {
+		if (!record) continue;
+		total.attempts += record.attempts;
+		total.retries += record.retries;
+		total.throttleDelayMs += record.throttleDelayMs;
+		total.retryDelayMs += record.retryDelayMs;
+	}
+	return total;
+}
+
+/**
+ * Service for rate-limit aware provider requests
+ */
+export class HttpClient {
+	private static instance: HttpClient | null = null;
+	/** Earliest time the next request may start, per provider and key */
+	private nextSlot = new Map<string, number>();
+
+	private constructor() {}
+
+	public static getInstance(): HttpClient {
+		if (!HttpClient.instance) {
+			HttpClient.instance = new HttpClient();
+		}
+		return HttpClient.instance;
+	}
+
+	/**
+	 * Make a provider request with throttling and retries
+	 * Resolves with the last response once retries are exhausted, so callers
+	 * keep their own `response.ok` handling
+	 */
+	async fetch(
+		url: string,
+		init: RequestInit,
+		options: ProviderRequestOptions,
+	): Promise<Response> {
+		const policy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+		const metadata = options.metadata ?? createRequestMetadata();
+		const throttleKey = this.getThrottleKey(options);
+
+		for (let attempt = 0; ; attempt++) {
+			metadata.throttleDelayMs += await this.whilePaused(options.budget, () =>
+				this.waitForSlot(throttleKey, options.provider, init.signal),
+			);
+			metadata.attempts += 1;
+
+			let delayMs: number;
+			let rateLimited = false;
+			try {
+				const response = await fetch(url, init);
+				if (
+					!RETRYABLE_STATUSES.has(response.status) ||
+					attempt >= policy.maxRetries
+				) {
+					return response;
+				}
+
+				const retryAfterMs = this.parseRetryAfter(response);
+				rateLimited = response.status === 429 || retryAfterMs !== null;
+				if (retryAfterMs !== null) {
+					// Hold back every request on this key, not just this one
+					this.deferSlot(throttleKey, retryAfterMs);
+				}
+				delayMs = retryAfterMs ?? this.backoff(attempt, policy);
+				console.warn(
+					`↻ ${options.provider} returned ${response.status}, retrying in ${Math.round(delayMs)}ms`,
+				);
+			} catch (error) {
+				// Cancellation and timeouts are final; network errors are retried
+				if (init.signal?.aborted || attempt >= policy.maxRetries) {
+					throw error;
+				}
+				delayMs = this.backoff(attempt, policy);
+				console.warn(
+					`↻ ${options.provider} request failed, retrying in ${Math.round(delayMs)}ms`,
+				);
+			}
+
+			// Waiting out a rate limit is throttling, not the provider being slow
+			await (rateLimited
+				? this.whilePaused(options.budget, () => sleep(delayMs, init.signal))
+				: sleep(delayMs, init.signal));
+			metadata.retries += 1;
+			metadata.retryDelayMs += delayMs;
+		}
+	}
+
+	/**
+	 * Bind request options so agents can call the result like fetch
+	 */
+	bind(options: ProviderRequestOptions): ProviderFetch {
+		return (url, init = {}) => this.fetch(url, init, options);
+	}
+
+	/**
+	 * Reserve the next request slot for a key and wait for it
+	 * Returns how long the caller waited
+	 */
+	private async waitForSlot(
+		key: string,
+		provider: keyof ApiConfig,
+		signal?: AbortSignal | null,
+	): Promise<number> {
+		const intervalMs = 60000 / rateLimits[provider];
+		const now = Date.now();
+		const slot = Math.max(now, this.nextSlot.get(key) ?? 0);
+		this.nextSlot.set(key, slot + intervalMs);
+
+		const delayMs = slot - now;
+		if (delayMs > 0) {
+			try {
+				await sleep(delayMs, signal);
+			} catch (error) {
+				// Give the slot back unless a later request has queued behind it
+				if (this.nextSlot.get(key) === slot + intervalMs) {
+					this.nextSlot.set(key, slot);
+				}
+				throw error;
+			}
+		}
+		return delayMs;
+	}
+
+	/**
+	 * Run a wait with the caller's timeout budget paused
+	 */
+	private async whilePaused<T>(
+		budget: ProviderRequestOptions["budget"],
+		wait: () => Promise<T>,
+	): Promise<T> {
+		budget?.pause();
+		try {
+			return await wait();
+		} finally {
+			budget?.resume();
+		}
+	}
+
+	private deferSlot(key: string, delayMs: number): void {
+		const until = Date.now() + delayMs;
+		this.nextSlot.set(key, Math.max(until, this.nextSlot.get(key) ?? 0));
+	}
+
+	/**
+	 * Exponential backoff with full jitter
+	 */
+	private backoff(attempt: number, policy: RetryPolicy): number {
+		const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+		return Math.random() * cap;
+	}
+
+	/**
+	 * Parse a Retry-After header given either in seconds or as an HTTP date
+	 */
+	private parseRetryAfter(response: Response): number | null {
+		const header = response.headers.get("Retry-After");
+		if (!header) return null;
+
+		const seconds = Number(header);
+		if (!Number.isNaN(seconds)) {
+			return Math.max(0, seconds * 1000);
+		}
+
+		const date = Date.parse(header);
+		return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+	}
+
+	/**
+	 * Throttle key for a provider and API key
+	 * Only the key's tail is kept so full keys don't sit in memory twice
+	 */
+	private getThrottleKey({ provider, apiKey }: ProviderRequestOptions): string {
+		return apiKey ? `${provider}:${apiKey.slice(-8)}` : provider;
+	}
+}
+
+export default HttpClient.getInstance();
@@ -0,0 +1,271 @@
+import { claimTokens, normalizeClaim } from "@/lib/claim-text";
+import {
+	type KnowledgeFact,
+	compareWithFact,
+	parseKnowledgeCsv,
+	parseKnowledgeJson,
+	relationPhrases,
+} from "@/lib/knowledge-base";
+import { DEFAULT_KNOWLEDGE_FACTS } from "@/services/local-knowledge-base";
+
+/**
+ * Knowledge Base Service
+ *
+ * Keeps the team's entity-attribute facts in the browser and finds the
+ * fact a statement is about. Facts are imported from JSON or CSV files,
+ * persisted in localStorage, and indexed by the names of their entities
+ * so a statement can be matched without a model or a network call.
+ */
+
+/**
+ * A fact a statement makes a claim about, and whether the claim agrees
+ */
+export interface KnowledgeMatch {
+	fact: KnowledgeFact;
+	supported: boolean;
+}
+
+interface EntityName {
+	words: string[];
+	/** Key of the entity's facts */
+	entity: string;
+}
+
+const STORAGE_KEY = "nocap_knowledge_base";
+const NEGATIONS = new Set(["not", "no", "never"]);
+
+/** Words skipped between a negation and what it negates: "not the capital" */
+const ARTICLES = new Set(["the", "a", "an"]);
+
+/**
+ * Service for importing facts and matching statements against them
+ */
+export class KnowledgeBaseService {
+	private static instance: KnowledgeBaseService | null = null;
+	private facts: KnowledgeFact[] = [];
+	/** Entity names and aliases, by their first word */
+	private names = new Map<string, EntityName[]>();
+	private factsByEntity = new Map<string, KnowledgeFact[]>();
+	/** Normalised values recorded for each attribute */
+	private valuesByAttribute = new Map<string, Set<string>>();
+
+	private constructor() {
+		this.facts = this.loadFacts();
+		this.rebuildIndex();
+	}
+
+	public static getInstance(): KnowledgeBaseService {
+		if (!KnowledgeBaseService.instance) {
+			KnowledgeBaseService.instance = new KnowledgeBaseService();
+		}
+		return KnowledgeBaseService.instance;
+	}
+
+	getFacts(): KnowledgeFact[] {
+		return [...this.facts];
+	}
+
+	/**
+	 * Add facts, replacing any recorded for the same entity and attribute
+	 * @returns the number of facts added
+	 */
+	addFacts(facts: KnowledgeFact[]): number {
+		const incoming = new Set(facts.map(factKey));
+		this.facts = [
+			...this.facts.filter((fact) => !incoming.has(factKey(fact))),
+			...facts,
+		];
+		this.rebuildIndex();
+		this.saveFacts();
+		console.log(`📚 Knowledge base: added ${facts.length} facts`);
+		return facts.length;
+	}
+
+	importJson(text: string): number {
+		return this.addFacts(parseKnowledgeJson(text));
+	}
+
+	importCsv(text: string): number {
+		return this.addFacts(parseKnowledgeCsv(text));
+	}
+
+	/**
+	 * Import a .csv or .json file
+	 * Throws a KnowledgeImportError describing what's wrong with the file
+	 */
+	async importFile(file: File): Promise<number> {
+		const text = await file.text();
+		return /\.csv$/i.test(file.name) || file.type === "text/csv"
+			? this.importCsv(text)
+			: this.importJson(text);
+	}
+
+	/**
+	 * Remove every fact, including the defaults
+	 */
+	clear(): void {
+		this.facts = [];
+		this.rebuildIndex();
+		this.saveFacts();
+	}
+
+	/**
+	 * Replace the facts with the ones the knowledge base starts with
+	 */
+	resetToDefaults(): void {
+		this.facts = [...DEFAULT_KNOWLEDGE_FACTS];
+		this.rebuildIndex();
+		this.saveFacts();
+	}
+
+	/**
+	 * Find the fact a statement makes a claim about
+	 *
+	 * Looks for an entity's name, then one of its attributes named
+	 * elsewhere in the statement, and compares the rest of the statement
+	 * with the recorded value. Longer names are tried first, so a full
+	 * name wins over an alias inside it. A negation counts only when it
+	 * negates the attribute or the recorded value ("is not the capital",
+	 * "is not Paris"); one that negates anything else, like "Berlin is the
+	 * capital of Germany, not Paris", leaves the claim to other agents.
+	 * Null when no fact can settle it.
+	 */
+	match(statement: string): KnowledgeMatch | null {
+		const words = normalizeClaim(statement).split(" ").filter(Boolean);
+		const capitalised = new Set(
+			statement
+				.split(/\s+/)
+				.filter((word) => /^[A-Z]/.test(word))
+				.flatMap((word) => normalizeClaim(word).split(" ")),
+		);
+		const negations = words.flatMap((word, index) =>
+			NEGATIONS.has(word) ? [negatedWord(words, index)] : [],
+		);
+
+		const mentions = words
+			.flatMap((word, start) =>
+				(this.names.get(word) ?? [])
+					.filter((name) =>
+						name.words.every((part, i) => words[start + i] === part),
+					)
+					.map((name) => ({
+						entity: name.entity,
+						start,
+						end: start + name.words.length,
+					})),
+			)
+			.sort((a, b) => b.end - b.start - (a.end - a.start));
+
+		for (const mention of mentions) {
+			const outsideMention = (index: number) =>
+				index < mention.start || index >= mention.end;
+
+			for (const fact of this.factsByEntity.get(mention.entity) ?? []) {
+				for (const phrase of relationPhrases(fact.attribute)) {
+					const relation = phrase.split(" ");
+					const at = words.findIndex((_, start) =>
+						relation.every(
+							(part, i) =>
+								words[start + i] === part && outsideMention(start + i),
+						),
+					);
+					if (at === -1) continue;
+
+					const remainder = words.filter(
+						(word, index) =>
+							outsideMention(index) &&
+							(index < at || index >= at + relation.length) &&
+							!NEGATIONS.has(word),
+					);
+					const agrees = compareWithFact(
+						fact,
+						remainder,
+						capitalised,
+						this.valuesByAttribute.get(attributeKey(fact)) ?? new Set(),
+					);
+					if (agrees === null) continue;
+
+					const valueWords = claimTokens(normalizeClaim(fact.value));
+					const attached = negations.filter(
+						(index) =>
+							index === at ||
+							valueWords.has(words[index]) ||
+							/^\d/.test(words[index] ?? ""),
+					);
+					if (attached.length < negations.length) return null;
+					return { fact, supported: agrees !== (attached.length % 2 === 1) };
+				}
+			}
+		}
+		return null;
+	}
+
+	private rebuildIndex(): void {
+		this.names.clear();
+		this.factsByEntity.clear();
+		this.valuesByAttribute.clear();
+
+		for (const fact of this.facts) {
+			const entity = normalizeClaim(fact.entity);
+			if (!this.factsByEntity.has(entity)) {
+				this.factsByEntity.set(entity, []);
+				for (const name of [fact.entity, ...(fact.aliases ?? [])]) {
+					this.addName(normalizeClaim(name), entity);
+				}
+			}
+			this.factsByEntity.get(entity)?.push(fact);
+
+			const values =
+				this.valuesByAttribute.get(attributeKey(fact)) ?? new Set();
+			values.add(normalizeClaim(fact.value));
+			this.valuesByAttribute.set(attributeKey(fact), values);
+		}
+	}
+
+	private addName(name: string, entity: string): void {
+		const words = name.split(" ").filter(Boolean);
+		if (words.length === 0) return;
+		const names = this.names.get(words[0]) ?? [];
+		names.push({ words, entity });
+		this.names.set(words[0], names);
+	}
+
+	private loadFacts(): KnowledgeFact[] {
+		try {
+			const stored = localStorage.getItem(STORAGE_KEY);
+			return stored
+				? (JSON.parse(stored) as KnowledgeFact[])
+				: [...DEFAULT_KNOWLEDGE_FACTS];
+		} catch (error) {
+			console.warn("Failed to load knowledge base:", error);
+			return [...DEFAULT_KNOWLEDGE_FACTS];
+		}
+	}
+
+	private saveFacts(): void {
+		try {
+			localStorage.setItem(STORAGE_KEY, JSON.stringify(this.facts));
+		} catch (error) {
+			console.warn("Failed to save knowledge base:", error);
+		}
+	}
+}
+
+/**
+ * Index of the word a negation applies to, past any article
+ */
+function negatedWord(words: string[], negation: number): number {
+	let index = negation + 1;
+	while (ARTICLES.has(words[index])) index += 1;
+	return index;
+}
+
+function attributeKey(fact: KnowledgeFact): string {
+	return fact.attribute.trim().toLowerCase();
+}
+
+function factKey(fact: KnowledgeFact): string {
+	return `${normalizeClaim(fact.entity)}|${attributeKey(fact)}`;
+}
+
+export default KnowledgeBaseService.getInstance();
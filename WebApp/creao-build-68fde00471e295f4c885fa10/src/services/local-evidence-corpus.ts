@@ -0,0 +1,82 @@
+import type { SearchResult } from "@/lib/evidence";
+
+/**
+ * Reference snippets searched by LocalSearchBackend
+ *
+ * A small stand-in for web search so the evidence pipeline can run and be
+ * tested offline. Add documents with `LocalSearchBackend.addDocuments`.
+ */
+export const LOCAL_EVIDENCE_CORPUS: SearchResult[] = [
+	{
+		title: "Paris - Wikipedia",
+		url: "https://en.wikipedia.org/wiki/Paris",
+		snippet:
+			"Paris is the capital and largest city of France, with an estimated population of 2.1 million residents in the city proper.",
+	},
+	{
+		title: "Berlin - Wikipedia",
+		url: "https://en.wikipedia.org/wiki/Berlin",
+		snippet:
+			"Berlin is the capital and largest city of Germany, with a population of about 3.9 million.",
+	},
+	{
+		title: "Boiling point - Wikipedia",
+		url: "https://en.wikipedia.org/wiki/Boiling_point",
+		snippet:
+			"At sea level, water boils at 100 degrees Celsius (212 degrees Fahrenheit). The boiling point falls as altitude increases.",
+	},
+	{
+		title: "Earth - Wikipedia",
+		url: "https://en.wikipedia.org/wiki/Earth",
+		snippet:
+			"Earth is the third planet from the Sun. Its shape is an oblate spheroid, slightly flattened at the poles.",
+	},
+	{
+		title: "Moon - Wikipedia",
+		url: "https://en.wikipedia.org/wiki/Moon",
+		snippet:
+			"The Moon is Earth's only natural satellite, orbiting at an average distance of 384,400 km. It is made mostly of rock.",
+	},
+	{
+		title: "Apollo 11 - Wikipedia",
+		url: "https://en.wikipedia.org/wiki/Apollo_11",
+		snippet:
+			"Apollo 11 landed the first humans on the Moon on July 20, 1969. Neil Armstrong and Buzz Aldrin walked on the lunar surface.",
+	},
+	{
+		title: "Great Wall of China - Wikipedia",
+		url: "https://en.wikipedia.org/wiki/Great_Wall_of_China",
+		snippet:
+			"Contrary to popular belief, the Great Wall of China is not visible to the naked eye from low Earth orbit or from the Moon.",
+	},
+	{
+		title: "Mount Everest - Wikipedia",
+		url: "https://en.wikipedia.org/wiki/Mount_Everest",
+		snippet:
+			"Mount Everest is Earth's highest mountain above sea level, at 8,849 metres, on the border between Nepal and China.",
+	},
+	{
+		title: "Speed of light - Wikipedia",
+		url: "https://en.wikipedia.org/wiki/Speed_of_light",
+		snippet:
+			"The speed of light in vacuum is exactly 299,792,458 metres per second, about 300,000 kilometres per second.",
+	},
+	{
+		title: "Eiffel Tower - Wikipedia",
+		url: "https://en.wikipedia.org/wiki/Eiffel_Tower",
+		snippet:
+			"The Eiffel Tower in Paris was completed in 1889 for the World's Fair. It is 330 metres tall including antennas.",
+	},
+	{
+		title: "Vaccines and autism - Wikipedia",
+		url: "https://en.wikipedia.org/wiki/Vaccines_and_autism",
+		snippet:
+			"Extensive research has found no link between vaccines and autism. The 1998 study claiming a link was retracted as fraudulent.",
+	},
+	{
+		title: "Human brain - Wikipedia",
+		url: "https://en.wikipedia.org/wiki/Human_brain",
+		snippet:
+			"The claim that humans use only 10 percent of their brain is a myth; imaging shows activity throughout the brain.",
+	},
+];
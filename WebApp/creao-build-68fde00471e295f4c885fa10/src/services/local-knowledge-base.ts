@@ -0,0 +1,90 @@
+import type { KnowledgeFact } from "@/lib/knowledge-base";
+
+/**
+ * Facts the knowledge base starts with
+ *
+ * A small seed so the knowledge base agent has something to check
+ * against before a team imports its own facts.
+ */
+export const DEFAULT_KNOWLEDGE_FACTS: KnowledgeFact[] = [
+	{
+		entity: "France",
+		attribute: "capital",
+		value: "Paris",
+		source: "https://en.wikipedia.org/wiki/France",
+	},
+	{
+		entity: "Germany",
+		attribute: "capital",
+		value: "Berlin",
+		source: "https://en.wikipedia.org/wiki/Germany",
+	},
+	{
+		entity: "Australia",
+		attribute: "capital",
+		value: "Canberra",
+		source: "https://en.wikipedia.org/wiki/Australia",
+	},
+	{
+		entity: "Canada",
+		attribute: "capital",
+		value: "Ottawa",
+		source: "https://en.wikipedia.org/wiki/Canada",
+	},
+	{
+		entity: "Japan",
+		attribute: "capital",
+		value: "Tokyo",
+		source: "https://en.wikipedia.org/wiki/Japan",
+	},
+	{
+		entity: "Paris",
+		attribute: "population",
+		value: "2100000",
+		tolerance: 0.05,
+		asOf: "2023",
+		source: "https://en.wikipedia.org/wiki/Paris",
+	},
+	{
+		entity: "Berlin",
+		attribute: "population",
+		value: "3900000",
+		tolerance: 0.05,
+		asOf: "2023",
+		source: "https://en.wikipedia.org/wiki/Berlin",
+	},
+	{
+		entity: "Eiffel Tower",
+		attribute: "completed",
+		value: "1889",
+		source: "https://en.wikipedia.org/wiki/Eiffel_Tower",
+	},
+	{
+		entity: "Albert Einstein",
+		attribute: "born",
+		value: "1879",
+		aliases: ["Einstein"],
+		source: "https://en.wikipedia.org/wiki/Albert_Einstein",
+	},
+	{
+		entity: "World War II",
+		attribute: "ended",
+		value: "1945",
+		aliases: ["World War 2", "Second World War", "WWII"],
+		source: "https://en.wikipedia.org/wiki/World_War_II",
+	},
+	{
+		entity: "Apollo 11",
+		attribute: "landed",
+		value: "1969",
+		source: "https://en.wikipedia.org/wiki/Apollo_11",
+	},
+	{
+		entity: "Mount Everest",
+		attribute: "height",
+		value: "8849",
+		unit: "m",
+		aliases: ["Everest"],
+		source: "https://en.wikipedia.org/wiki/Mount_Everest",
+	},
+];
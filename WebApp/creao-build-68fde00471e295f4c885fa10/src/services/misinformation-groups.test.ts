@@ -0,0 +1,207 @@
+import {
+	type MisinformationGroupModel,
+	MisinformationGroupORM,
+} from "@/components/data/orm/orm_misinformation_group";
+import ClaimClusteringService from "@/services/claim-clustering";
+import MisinformationGroupService from "@/services/misinformation-groups";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+/** Groups held in memory in place of the data store */
+function useGroupStore(): Map<string, MisinformationGroupModel> {
+	const store = new Map<string, MisinformationGroupModel>();
+	const orm = MisinformationGroupORM.getInstance();
+	vi.spyOn(orm, "getAllMisinformationGroup").mockImplementation(async () => [
+		...store.values(),
+	]);
+	vi.spyOn(orm, "getMisinformationGroupById").mockImplementation(
+		async (id: string) =>
+			store.has(id) ? [store.get(id) as MisinformationGroupModel] : [],
+	);
+	vi.spyOn(
+		orm,
+		"getMisinformationGroupByFalseStatementTextHash",
+	).mockImplementation(async (hash: string) =>
+		[...store.values()].filter((g) => g.false_statement_text_hash === hash),
+	);
+	vi.spyOn(orm, "insertMisinformationGroup").mockImplementation(
+		async (groups: MisinformationGroupModel[]) =>
+			groups.map((g) => {
+				const saved = {
+					...g,
+					id: crypto.randomUUID(),
+					create_time: "1760000000",
+					update_time: "1760000000",
+				};
+				store.set(saved.id, saved);
+				return saved;
+			}),
+	);
+	vi.spyOn(orm, "setMisinformationGroupById").mockImplementation(
+		async (id: string, group: MisinformationGroupModel) => {
+			const saved = { ...group, id, update_time: String(Date.now()) };
+			store.set(id, saved);
+			return [saved];
+		},
+	);
+	vi.spyOn(orm, "deleteMisinformationGroupById").mockImplementation(
+		async (id: string) => {
+			store.delete(id);
+		},
+	);
+	return store;
+}
+
+describe("MisinformationGroupService", () => {
+	let store: Map<string, MisinformationGroupModel>;
+
+	beforeEach(() => {
+		vi.restoreAllMocks();
+		localStorage.clear();
+		store = useGroupStore();
+	});
+
+	const record = (statement: string, speakerId: string) =>
+		MisinformationGroupService.recordFalseClaim({
+			statement,
+			speakerId,
+			verificationResultId: `result-${speakerId}`,
+		});
+
+	it("groups paraphrases and keeps different claims apart", async () => {
+		const first = await record("vaccines cause autism", "alice");
+		const second = await record("the vaccine gives kids autism", "bob");
+		const other = await record("Berlin is the capital of France", "carol");
+		await record("Madrid is the capital of France", "dave");
+
+		expect(second?.id).toBe(first?.id);
+		expect(second?.user_ids).toEqual(["alice", "bob"]);
+		expect(other?.id).not.toBe(first?.id);
+		expect(store.size).toBe(3);
+	});
+
+	it("merges groups into one with all their speakers and claims", async () => {
+		const target = await record("the earth is flat", "alice");
+		const source = await record("the moon landing was faked", "bob");
+		if (!target || !source) throw new Error("groups were not created");
+
+		const merged = await MisinformationGroupService.mergeGroups(target.id, [
+			source.id,
+		]);
+
+		expect(merged?.user_ids).toEqual(["alice", "bob"]);
+		expect([...store.keys()]).toEqual([target.id]);
+		expect(
+			ClaimClusteringService.getMembers(
+				store.get(target.id) as MisinformationGroupModel,
+			).map((m) => m.statement),
+		).toEqual(["the earth is flat", "the moon landing was faked"]);
+	});
+
+	it("splits claims into a new group and drops speakers with none left", async () => {
+		const target = await record("the earth is flat", "alice");
+		const source = await record("the moon landing was faked", "bob");
+		if (!target || !source) throw new Error("groups were not created");
+		const merged = await MisinformationGroupService.mergeGroups(target.id, [
+			source.id,
+		]);
+		if (!merged) throw new Error("groups were not merged");
+
+		const moving = ClaimClusteringService.getMembers(merged).filter(
+			(m) => m.speakerId === "bob",
+		);
+		const split = await MisinformationGroupService.splitGroup(
+			merged.id,
+			moving.map((m) => m.id),
+		);
+
+		expect(split?.false_statement_text).toBe("the moon landing was faked");
+		expect(split?.user_ids).toEqual(["bob"]);
+		expect(store.get(merged.id)?.user_ids).toEqual(["alice"]);
+		expect(store.get(merged.id)?.false_statement_text).toBe(
+			"the earth is flat",
+		);
+	});
+
+	it("takes back an overturned verdict's claims", async () => {
+		const group = await record("vaccines cause autism", "alice");
+		await record("the vaccine gives kids autism", "bob");
+		const lone = await record("the earth is flat", "bob");
+		if (!group || !lone) throw new Error("groups were not created");
+
+		await MisinformationGroupService.removeFalseClaims("result-alice");
+		expect(store.get(group.id)?.user_ids).toEqual(["bob"]);
+		expect(store.get(group.id)?.false_statement_text).toBe(
+			"the vaccine gives kids autism",
+		);
+
+		await MisinformationGroupService.removeFalseClaims("result-bob");
+		expect(store.size).toBe(0);
+	});
+
+	it("won't split off every claim in a group", async () => {
+		const group = await record("the earth is flat", "alice");
+		if (!group) throw new Error("group was not created");
+		const members = ClaimClusteringService.getMembers(group);
+
+		expect(
+			await MisinformationGroupService.splitGroup(
+				group.id,
+				members.map((m) => m.id),
+			),
+		).toBeNull();
+	});
+
+	it("hashes rewordings of a claim the same", async () => {
+		const hash = await MisinformationGroupService.hashClaim(
+			"Vaccines cause autism!",
+		);
+		expect(hash).toMatch(/^[0-9a-f]{64}$/);
+		expect(
+			await MisinformationGroupService.hashClaim("vaccines cause autism"),
+		).toBe(hash);
+		expect(
+			await MisinformationGroupService.hashClaim("vaccines prevent autism"),
+		).not.toBe(hash);
+	});
+
+	it("lists a speaker once however often they repeat a claim", async () => {
+		const first = await record("vaccines cause autism", "alice");
+		const again = await record("Vaccines cause autism!", "alice");
+
+		expect(again?.id).toBe(first?.id);
+		expect(store.get(first?.id ?? "")?.user_ids).toEqual(["alice"]);
+		expect(
+			MisinformationGroupORM.getInstance().setMisinformationGroupById,
+		).not.toHaveBeenCalled();
+	});
+
+	it("lists the most repeated claims first and by speaker", async () => {
+		await record("the earth is flat", "alice");
+		await record("vaccines cause autism", "alice");
+		const popular = await record("the vaccine gives kids autism", "bob");
+
+		const groups = await MisinformationGroupService.getGroups();
+		expect(groups.map((g) => g.id)[0]).toBe(popular?.id);
+		expect(
+			(await MisinformationGroupService.getGroupsForSpeaker("bob")).map(
+				(g) => g.id,
+			),
+		).toEqual([popular?.id]);
+		expect(
+			await MisinformationGroupService.findGroup("Vaccines cause autism."),
+		).toMatchObject({ id: popular?.id });
+	});
+
+	it("tells subscribers when groups change", async () => {
+		const listener = vi.fn();
+		const unsubscribe = MisinformationGroupService.subscribe(listener);
+		await record("the earth is flat", "alice");
+		unsubscribe();
+		await record("the moon landing was faked", "bob");
+
+		expect(listener).toHaveBeenCalledTimes(1);
+		expect(listener.mock.calls[0][0]).toMatchObject([
+			{ false_statement_text: "the earth is flat" },
+		]);
+	});
+});
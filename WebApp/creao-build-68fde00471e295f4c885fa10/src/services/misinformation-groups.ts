@@ -0,0 +1,403 @@
+import {
+	type MisinformationGroupModel,
+	MisinformationGroupORM,
+} from "@/components/data/orm/orm_misinformation_group";
+import { canonicalClaim } from "@/lib/claim-text";
+import ClaimClusteringService, {
+	type ClusterMember,
+} from "@/services/claim-clustering";
+
+/**
+ * Misinformation Group Service
+ *
+ * Groups speakers who have stated the same false claim. Claims are
+ * canonicalised and hashed, so rewordings that only differ in case,
+ * punctuation, contractions, filler or stop words land in the same
+ * `misinformation_group`. Claims without an exact match join the nearest
+ * group found by ClaimClusteringService. Groups are stored, so they span
+ * sessions, and can be merged or split when clustering gets it wrong.
+ * Claims leave their groups again when a moderator overturns the verdict.
+ */
+
+export interface FalseClaim {
+	statement: string;
+	speakerId: string;
+	verificationResultId: string;
+}
+
+type GroupListener = (groups: MisinformationGroupModel[]) => void;
+
+/**
+ * Service for grouping speakers by the false claims they have made
+ */
+export class MisinformationGroupService {
+	private static instance: MisinformationGroupService | null = null;
+	private listeners = new Set<GroupListener>();
+	/** Group writes run one at a time, so concurrent claims don't race */
+	private writes: Promise<unknown> = Promise.resolve();
+
+	private constructor() {}
+
+	public static getInstance(): MisinformationGroupService {
+		if (!MisinformationGroupService.instance) {
+			MisinformationGroupService.instance = new MisinformationGroupService();
+		}
+		return MisinformationGroupService.instance;
+	}
+
+	/**
+	 * SHA-256 of a claim's canonical form, as hex
+	 */
+	async hashClaim(statement: string): Promise<string> {
+		const digest = await crypto.subtle.digest(
+			"SHA-256",
+			new TextEncoder().encode(canonicalClaim(statement)),
+		);
+		return Array.from(new Uint8Array(digest))
+			.map((byte) => byte.toString(16).padStart(2, "0"))
+			.join("");
+	}
+
+	/**
+	 * Add a speaker to the group for a false claim, creating it if needed
+	 */
+	async recordFalseClaim(
+		claim: FalseClaim,
+	): Promise<MisinformationGroupModel | null> {
+		const hash = await this.hashClaim(claim.statement);
+		const group = await this.serialize(() => this.upsert(hash, claim));
+		if (group) await this.notify();
+		return group;
+	}
+
+	/**
+	 * Merge groups into a target group
+	 * The sources' speakers and claims move to the target; sources are deleted
+	 */
+	async mergeGroups(
+		targetId: string,
+		sourceIds: string[],
+	): Promise<MisinformationGroupModel | null> {
+		const merged = await this.serialize(async () => {
+			const orm = MisinformationGroupORM.getInstance();
+			try {
+				const groups = await orm.getAllMisinformationGroup();
+				const target = groups.find((group) => group.id === targetId);
+				const sources = groups.filter(
+					(group) => group.id !== targetId && sourceIds.includes(group.id),
+				);
+				if (!target || sources.length === 0) return null;
+
+				const members = [target, ...sources].flatMap((group) =>
+					ClaimClusteringService.getMembers(group),
+				);
+				const updated: MisinformationGroupModel = {
+					...target,
+					user_ids: [...new Set(members.map((m) => m.speakerId))],
+				};
+				const [saved] = await orm.setMisinformationGroupById(
+					target.id,
+					updated,
+				);
+				for (const source of sources) {
+					await orm.deleteMisinformationGroupById(source.id);
+					ClaimClusteringService.setMembers(source.id, []);
+				}
+				ClaimClusteringService.setMembers(target.id, members);
+				console.log(
+					`🧩 Merged ${sources.length} misinformation groups into ${target.id}`,
+				);
+				return saved ?? updated;
+			} catch (error) {
+				console.error("Failed to merge misinformation groups:", error);
+				return null;
+			}
+		});
+		if (merged) await this.notify();
+		return merged;
+	}
+
+	/**
+	 * Move some of a group's claims into a new group of their own
+	 * Speakers stay in the original group only if they have claims left there
+	 */
+	async splitGroup(
+		groupId: string,
+		memberIds: string[],
+	): Promise<MisinformationGroupModel | null> {
+		const created = await this.serialize(async () => {
+			const orm = MisinformationGroupORM.getInstance();
+			try {
+				const [group] = await orm.getMisinformationGroupById(groupId);
+				if (!group) return null;
+
+				const members = ClaimClusteringService.getMembers(group);
+				const moving = members.filter((m) => memberIds.includes(m.id));
+				const staying = members.filter((m) => !memberIds.includes(m.id));
+				if (moving.length === 0 || staying.length === 0) return null;
+
+				const [split] = await orm.insertMisinformationGroup([
+					this.groupFor(moving, await this.hashClaim(moving[0].statement)),
+				]);
+				if (!split) return null;
+
+				// Keep the original group's wording if it is still one of its claims
+				const keepsWording = staying.some(
+					(m) => m.statement === group.false_statement_text,
+				);
+				const remaining: MisinformationGroupModel = keepsWording
+					? {
+							...group,
+							user_ids: [...new Set(staying.map((m) => m.speakerId))],
+						}
+					: {
+							...group,
+							...this.groupFor(
+								staying,
+								await this.hashClaim(staying[0].statement),
+							),
+						};
+				await orm.setMisinformationGroupById(group.id, remaining);
+				ClaimClusteringService.setMembers(group.id, staying);
+				ClaimClusteringService.setMembers(split.id, moving);
+				console.log(
+					`🧩 Split ${moving.length} claims from misinformation group ${group.id} into ${split.id}`,
+				);
+				return split;
+			} catch (error) {
+				console.error("Failed to split misinformation group:", error);
+				return null;
+			}
+		});
+		if (created) await this.notify();
+		return created;
+	}
+
+	/**
+	 * Take back the claims recorded from a verdict, e.g. when a moderator
+	 * overturns it
+	 * Speakers leave groups they have no claims left in, and groups left
+	 * without claims are deleted
+	 */
+	async removeFalseClaims(verificationResultId: string): Promise<void> {
+		const changed = await this.serialize(async () => {
+			const orm = MisinformationGroupORM.getInstance();
+			let changed = 0;
+			try {
+				for (const group of await orm.getAllMisinformationGroup()) {
+					const members = ClaimClusteringService.getMembers(group);
+					const remaining = members.filter(
+						(m) => m.verificationResultId !== verificationResultId,
+					);
+					if (remaining.length === members.length) continue;
+					changed += 1;
+
+					if (remaining.length === 0) {
+						await orm.deleteMisinformationGroupById(group.id);
+						ClaimClusteringService.setMembers(group.id, []);
+						continue;
+					}
+
+					const keepsWording = remaining.some(
+						(m) => m.statement === group.false_statement_text,
+					);
+					await orm.setMisinformationGroupById(
+						group.id,
+						keepsWording
+							? {
+									...group,
+									user_ids: [...new Set(remaining.map((m) => m.speakerId))],
+								}
+							: {
+									...group,
+									...this.groupFor(
+										remaining,
+										await this.hashClaim(remaining[0].statement),
+									),
+								},
+					);
+					ClaimClusteringService.setMembers(group.id, remaining);
+				}
+				if (changed > 0) {
+					console.log(
+						`🧩 Removed claims of verification result ${verificationResultId} from ${changed} misinformation groups`,
+					);
+				}
+			} catch (error) {
+				console.error(
+					"Failed to remove claims from misinformation groups:",
+					error,
+				);
+			}
+			return changed;
+		});
+		if (changed > 0) await this.notify();
+	}
+
+	/**
+	 * Every group, across all sessions, with the most repeated claims first
+	 */
+	async getGroups(): Promise<MisinformationGroupModel[]> {
+		try {
+			const groups =
+				await MisinformationGroupORM.getInstance().getAllMisinformationGroup();
+			return groups.sort(
+				(a, b) =>
+					b.user_ids.length - a.user_ids.length ||
+					Number(b.update_time) - Number(a.update_time),
+			);
+		} catch (error) {
+			console.error("Failed to load misinformation groups:", error);
+			return [];
+		}
+	}
+
+	/**
+	 * The group a claim would belong to, if anyone has made it or a
+	 * near-duplicate of it before
+	 */
+	async findGroup(statement: string): Promise<MisinformationGroupModel | null> {
+		const orm = MisinformationGroupORM.getInstance();
+		try {
+			const [group] = await orm.getMisinformationGroupByFalseStatementTextHash(
+				await this.hashClaim(statement),
+			);
+			return (
+				group ??
+				ClaimClusteringService.nearestGroup(
+					statement,
+					await orm.getAllMisinformationGroup(),
+				)?.group ??
+				null
+			);
+		} catch (error) {
+			console.error("Failed to look up misinformation group:", error);
+			return null;
+		}
+	}
+
+	/**
+	 * Groups a speaker belongs to
+	 */
+	async getGroupsForSpeaker(
+		speakerId: string,
+	): Promise<MisinformationGroupModel[]> {
+		const groups = await this.getGroups();
+		return groups.filter((group) => group.user_ids.includes(speakerId));
+	}
+
+	/**
+	 * Listen for group changes; returns an unsubscribe function
+	 */
+	subscribe(listener: GroupListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	private async upsert(
+		hash: string,
+		claim: FalseClaim,
+	): Promise<MisinformationGroupModel | null> {
+		const orm = MisinformationGroupORM.getInstance();
+		try {
+			let [existing] =
+				await orm.getMisinformationGroupByFalseStatementTextHash(hash);
+
+			if (!existing) {
+				const match = ClaimClusteringService.nearestGroup(
+					claim.statement,
+					await orm.getAllMisinformationGroup(),
+				);
+				if (match) {
+					console.log(
+						`🧩 "${claim.statement}" matches "${match.matchedStatement}" (${Math.round(match.similarity * 100)}% similar)`,
+					);
+					existing = match.group;
+				}
+			}
+
+			if (!existing) {
+				const [created] = await orm.insertMisinformationGroup([
+					{
+						false_statement_text: claim.statement,
+						false_statement_text_hash: hash,
+						user_ids: [claim.speakerId],
+						verification_result_id: claim.verificationResultId,
+					} as MisinformationGroupModel,
+				]);
+				console.log(
+					`🧩 New misinformation group for "${claim.statement}" (${hash.slice(0, 8)})`,
+				);
+				// A new group has no earlier claims to keep
+				if (created) ClaimClusteringService.addMember(created.id, claim);
+				return created ?? null;
+			}
+
+			this.addMember(existing, claim);
+			if (existing.user_ids.includes(claim.speakerId)) {
+				return existing;
+			}
+
+			const updated: MisinformationGroupModel = {
+				...existing,
+				user_ids: [...existing.user_ids, claim.speakerId],
+			};
+			const [saved] = await orm.setMisinformationGroupById(
+				existing.id,
+				updated,
+			);
+			console.log(
+				`🧩 Speaker ${claim.speakerId} joined misinformation group ${existing.id} (${updated.user_ids.length} speakers)`,
+			);
+			return saved ?? updated;
+		} catch (error) {
+			console.error("Failed to update misinformation group:", error);
+			return null;
+		}
+	}
+
+	/**
+	 * Record a claim against its group, keeping the group's earlier claims
+	 * when it predates clustering
+	 */
+	private addMember(group: MisinformationGroupModel, claim: FalseClaim): void {
+		ClaimClusteringService.setMembers(
+			group.id,
+			ClaimClusteringService.getMembers(group),
+		);
+		ClaimClusteringService.addMember(group.id, claim);
+	}
+
+	/**
+	 * Group fields for a set of claims; the first claim names the group
+	 */
+	private groupFor(
+		members: ClusterMember[],
+		hash: string,
+	): MisinformationGroupModel {
+		return {
+			false_statement_text: members[0].statement,
+			false_statement_text_hash: hash,
+			user_ids: [...new Set(members.map((m) => m.speakerId))],
+			verification_result_id: members[0].verificationResultId,
+		} as MisinformationGroupModel;
+	}
+
+	private serialize<T>(write: () => Promise<T>): Promise<T> {
+		const next = this.writes.then(write, write);
+		this.writes = next.catch(() => undefined);
+		return next;
+	}
+
+	private async notify(): Promise<void> {
+		if (this.listeners.size === 0) return;
+		const groups = await this.getGroups();
+		for (const listener of this.listeners) {
+			listener(groups);
+		}
+	}
+}
+
+export default MisinformationGroupService.getInstance();
@@ -0,0 +1,345 @@
+import {
+	VERDICT_RATINGS,
+	type VerdictRating,
+	verdictForRating,
+} from "@/lib/verdict-scale";
+import { z } from "zod";
+
+/**
+ * Model Response Schemas
+ *
+ * zod schemas for every structured response we ask a model or agent
+ * service for. Schemas are lenient about formatting (case, numeric
+ * strings, percentages) but strict about meaning.
+ *
+ * Matching JSON Schemas are exported for providers with a native
+ * structured output mode (Anthropic tool use, Gemini response schemas).
+ */
+
+/**
+ * Accepts 0.8, "0.8", "80%" or 80 and normalises to [0, 1]
+ * Values from 2 up read as percentages; values just over 1, like 1.05,
+ * are a probability that overshot and are clamped to 1
+ */
+export const confidenceSchema = z
+	.union([z.number(), z.string()])
+	.transform((value, ctx) => {
+		const text = String(value).trim();
+		let number = Number.parseFloat(text.replace(/%$/, ""));
+		if (text.endsWith("%") || number >= 2) {
+			number /= 100;
+		} else if (number > 1) {
+			number = 1;
+		}
+		if (Number.isNaN(number) || number < 0 || number > 1) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				message: `"${value}" is not a confidence between 0 and 1`,
+			});
+			return z.NEVER;
+		}
+		return number;
+	});
+
+const lowercase = (value: unknown) =>
+	typeof value === "string" ? value.trim().toLowerCase() : value;
+
+export const agentVerdictValueSchema = z.preprocess(
+	lowercase,
+	z.enum(["true", "false", "inconclusive"]),
+);
+
+/**
+ * Accepts "mostly true", "Mostly-True" or "mostly_true"; "inconclusive"
+ * reads as unverifiable
+ */
+export const verdictRatingSchema = z.preprocess(
+	(value) => {
+		const text = lowercase(value);
+		if (typeof text !== "string") return text;
+		const rating = text.replace(/[\s-]+/g, "_");
+		return rating === "inconclusive" ? "unverifiable" : rating;
+	},
+	z.enum(VERDICT_RATINGS as [VerdictRating, ...VerdictRating[]]),
+);
+
+/**
+ * Accepts "E1", "[E1]" or "e1"
+ */
+export const evidenceIdSchema = z.preprocess(
+	(value) =>
+		typeof value === "string"
+			? value
+					.trim()
+					.replace(/^\[|\]$/g, "")
+					.toUpperCase()
+			: value,
+	z.string().regex(/^E\d+$/, "Evidence IDs look like E1"),
+);
+
+/**
+ * Verdict returned by an LLM verification agent
+ * Agents asked for a rating may omit the coarse verdict; when both are
+ * given the rating wins
+ */
+export const agentVerdictResponseSchema = z
+	.object({
+		verdict: agentVerdictValueSchema.optional(),
+		rating: verdictRatingSchema.optional(),
+		confidence: confidenceSchema,
+		reasoning: z.string().default(""),
+		citations: z.array(z.string()).default([]),
+		evidence_ids: z.array(evidenceIdSchema).default([]),
+	})
+	.refine((value) => value.verdict !== undefined || value.rating, {
+		message: "Either a rating or a verdict is required",
+	})
+	.transform(({ verdict, rating, evidence_ids, ...rest }) => ({
+		...rest,
+		evidenceIds: evidence_ids,
+		rating,
+		verdict: rating
+			? verdictForRating(rating)
+			: (verdict as NonNullable<typeof verdict>),
+	}));
+
+export type AgentVerdictResponse = z.infer<typeof agentVerdictResponseSchema>;
+
+/**
+ * Fetch.ai's agent network omits fields it has no opinion on
+ */
+export const fetchAIVerdictResponseSchema = z.object({
+	verdict: agentVerdictValueSchema.default("inconclusive"),
+	rating: verdictRatingSchema.optional(),
+	confidence: confidenceSchema.default(0.8),
+	reasoning: z.string().default("Fetch.ai agent verification"),
+	evidence_ids: z.array(evidenceIdSchema).default([]),
+});
+
+/**
+ * Stances of evidence snippets towards a statement
+ * Accepts "support", "Supporting", "refuted" and the like
+ */
+export const stanceClassificationSchema = z.object({
+	stances: z.array(
+		z.object({
+			id: evidenceIdSchema,
+			stance: z.preprocess(
+				(value) => {
+					const text = lowercase(value);
+					if (typeof text !== "string") return text;
+					if (text.startsWith("support")) return "supports";
+					if (text.startsWith("refut") || text.startsWith("contradict"))
+						return "refutes";
+					return text;
+				},
+				z.enum(["supports", "refutes", "unrelated"]),
+			),
+			confidence: confidenceSchema.default(0.7),
+		}),
+	),
+});
+
+export type StanceClassification = z.infer<typeof stanceClassificationSchema>;
+
+/**
+ * Web search results from Bright Data
+ * Results without a URL can't be cited and are dropped
+ */
+export const brightDataSearchResponseSchema = z.object({
+	results: z
+		.array(
+			z.object({
+				title: z.string().default(""),
+				url: z.string().optional(),
+				link: z.string().optional(),
+				snippet: z.string().optional(),
+				description: z.string().optional(),
+			}),
+		)
+		.default([])
+		.transform((results) =>
+			results.flatMap(({ title, url, link, snippet, description }) => {
+				const href = url ?? link;
+				return href
+					? [{ title, url: href, snippet: snippet ?? description ?? "" }]
+					: [];
+			}),
+		),
+});
+
+/**
+ * Consensus returned by Lava Gateway
+ */
+export const lavaConsensusResponseSchema = z.object({
+	verdict: z.preprocess(
+		lowercase,
+		z.enum(["true", "false", "inconclusive", "insufficient_quorum"]),
+	),
+	score: confidenceSchema,
+});
+
+/**
+ * Statement classification from SemanticService
+ */
+export const statementClassificationSchema = z.object({
+	type: z.preprocess(
+		lowercase,
+		z.enum(["declarative", "opinion", "question", "other"]),
+	),
+	confidence: confidenceSchema.default(0.8),
+	reasoning: z.string().default(""),
+});
+
+export type StatementClassification = z.infer<
+	typeof statementClassificationSchema
+>;
+
+/**
+ * Atomic subclaims extracted from a statement by ClaimDecompositionService
+ */
+export const claimDecompositionSchema = z.object({
+	subclaims: z
+		.array(z.string().trim().min(1))
+		.min(1, "At least one subclaim is required"),
+});
+
+export type ClaimDecomposition = z.infer<typeof claimDecompositionSchema>;
+
+/**
+ * A statement rewritten to stand on its own by DecontextualisationService
+ */
+export const standaloneClaimSchema = z.object({
+	standalone: z.string().trim().min(1),
+	resolutions: z
+		.array(z.object({ reference: z.string(), entity: z.string() }))
+		.default([]),
+});
+
+export type StandaloneClaimOutput = z.infer<typeof standaloneClaimSchema>;
+
+export const semanticSegmentSchema = z.object({
+	text: z.string(),
+	startIndex: z.coerce.number().int(),
+	endIndex: z.coerce.number().int(),
+	semanticType: z.preprocess(
+		lowercase,
+		z.enum(["subject", "predicate", "object", "modifier", "clause"]),
+	),
+	confidence: confidenceSchema,
+});
+
+/**
+ * Semantic analysis from Groq
+ */
+export const semanticAnalysisResponseSchema = z.object({
+	segments: z.array(semanticSegmentSchema).default([]),
+	improvedText: z.string().optional(),
+	statements: z.array(z.string()).optional(),
+	confidence: confidenceSchema.default(0.8),
+});
+
+/**
+ * Semantic analysis from Chroma AI
+ */
+export const chromaAnalysisResponseSchema = z.object({
+	segments: z.array(semanticSegmentSchema).default([]),
+	improved_text: z.string().optional(),
+	confidence: confidenceSchema.default(0.8),
+});
+
+/**
+ * JSON Schema for agent verdicts, for native structured output modes
+ */
+export const AGENT_VERDICT_JSON_SCHEMA = {
+	type: "object",
+	properties: {
+		rating: { type: "string", enum: VERDICT_RATINGS },
+		confidence: { type: "number", minimum: 0, maximum: 1 },
+		reasoning: { type: "string" },
+		evidence_ids: {
+			type: "array",
+			items: { type: "string" },
+			description: "IDs of the evidence snippets relied on, e.g. E1",
+		},
+	},
+	required: ["rating", "confidence", "reasoning"],
+} as const;
+
+/**
+ * JSON Schema for statement classification
+ */
+export const STATEMENT_CLASSIFICATION_JSON_SCHEMA = {
+	type: "object",
+	properties: {
+		type: {
+			type: "string",
+			enum: ["declarative", "opinion", "question", "other"],
+		},
+		confidence: { type: "number", minimum: 0, maximum: 1 },
+		reasoning: { type: "string" },
+	},
+	required: ["type", "confidence", "reasoning"],
+} as const;
+
+/**
+ * JSON Schema for claim decomposition
+ */
+export const CLAIM_DECOMPOSITION_JSON_SCHEMA = {
+	type: "object",
+	properties: {
+		subclaims: {
+			type: "array",
+			items: { type: "string" },
+			minItems: 1,
+		},
+	},
+	required: ["subclaims"],
+} as const;
+
+/**
+ * JSON Schema for standalone claims
+ */
+export const STANDALONE_CLAIM_JSON_SCHEMA = {
+	type: "object",
+	properties: {
+		standalone: { type: "string" },
+		resolutions: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					reference: { type: "string" },
+					entity: { type: "string" },
+				},
+				required: ["reference", "entity"],
+			},
+		},
+	},
+	required: ["standalone", "resolutions"],
+} as const;
+
+/**
+ * JSON Schema for snippet stances
+ */
+export const STANCE_CLASSIFICATION_JSON_SCHEMA = {
+	type: "object",
+	properties: {
+		stances: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					id: { type: "string" },
+					stance: {
+						type: "string",
+						enum: ["supports", "refutes", "unrelated"],
+					},
+					confidence: { type: "number", minimum: 0, maximum: 1 },
+				},
+				required: ["id", "stance", "confidence"],
+			},
+		},
+	},
+	required: ["stances"],
+} as const;
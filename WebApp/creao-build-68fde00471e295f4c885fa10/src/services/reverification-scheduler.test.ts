@@ -0,0 +1,318 @@
+import {
+	type DeclarativeStatementModel,
+	DeclarativeStatementORM,
+	DeclarativeStatementStatementType,
+	DeclarativeStatementVerificationStatus,
+} from "@/components/data/orm/orm_declarative_statement";
+import {
+	type VerificationResultModel,
+	VerificationResultORM,
+} from "@/components/data/orm/orm_verification_result";
+import { createRequestMetadata } from "@/services/http-client";
+import MisinformationGroupService from "@/services/misinformation-groups";
+import ReverificationScheduler from "@/services/reverification-scheduler";
+import VerificationService, {
+	type VerificationResult,
+} from "@/services/verification-service";
+import VerificationStoreService from "@/services/verification-store";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const NOW = Date.parse("2025-10-09T12:00:00.000Z");
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+let statements = 0;
+
+/** A statement last updated `age` milliseconds ago */
+function statement(
+	status: DeclarativeStatementVerificationStatus,
+	age = DAY,
+): DeclarativeStatementModel {
+	statements += 1;
+	const updated = String((NOW - age) / 1000);
+	return {
+		id: `statement-${statements}`,
+		data_creator: "",
+		data_updater: "",
+		create_time: updated,
+		update_time: updated,
+		user_session_id: "session-1",
+		speaker_id: "alice",
+		original_transcription: `Claim number ${statements}`,
+		standalone_statement: "",
+		statement_timestamp: updated,
+		statement_type: DeclarativeStatementStatementType.Declarative,
+		verification_status: status,
+	};
+}
+
+function verdict(
+	consensus: VerificationResult["consensus"],
+	overrides: Partial<VerificationResult> = {},
+): VerificationResult {
+	const agentVerdict =
+		consensus === "verified_true"
+			? "true"
+			: consensus === "verified_false"
+				? "false"
+				: "inconclusive";
+	return {
+		statementId: "",
+		isFalse: consensus === "verified_false",
+		consensus,
+		agents: [],
+		lavaGatewayConsensus: {
+			verdict: agentVerdict,
+			consensusScore: 0.9,
+			strategy: "majority",
+			explanation: "",
+			tally: { true: 0, false: 0, inconclusive: 0 },
+			participation: { voted: 2, abstained: 0, errored: 0 },
+		},
+		requestMetadata: createRequestMetadata(),
+		...overrides,
+	};
+}
+
+describe("ReverificationScheduler", () => {
+	/** Statements by status, in place of the data store */
+	let byStatus: Map<
+		DeclarativeStatementVerificationStatus,
+		DeclarativeStatementModel[]
+	>;
+	/** Latest verdict per statement and when it was reached */
+	let latest: Map<string, { result: VerificationResult; verifiedAt: number }>;
+
+	const stored = (
+		model: DeclarativeStatementModel,
+		result: VerificationResult,
+		verifiedAt = NOW - DAY,
+	) => {
+		byStatus.set(model.verification_status, [
+			...(byStatus.get(model.verification_status) ?? []),
+			model,
+		]);
+		latest.set(model.id, { result, verifiedAt });
+		return model;
+	};
+
+	beforeEach(() => {
+		vi.restoreAllMocks();
+		vi.useFakeTimers();
+		vi.setSystemTime(NOW);
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		ReverificationScheduler.configure({
+			maxVerdictAgeMs: 7 * DAY,
+			baseBackoffMs: 10 * MINUTE,
+			maxBackoffMs: 60 * MINUTE,
+			maxAttempts: 2,
+			batchSize: 3,
+		});
+
+		byStatus = new Map();
+		latest = new Map();
+		vi.spyOn(
+			DeclarativeStatementORM.getInstance(),
+			"getDeclarativeStatementByVerificationStatus",
+		).mockImplementation(async (status) => byStatus.get(status) ?? []);
+		vi.spyOn(VerificationStoreService, "getLatest").mockImplementation(
+			async (id) => latest.get(id) ?? null,
+		);
+		vi.spyOn(VerificationStoreService, "getResult").mockImplementation(
+			async (id) => latest.get(id)?.result ?? null,
+		);
+		vi.spyOn(VerificationStoreService, "markInProgress").mockImplementation(
+			async (model) => model,
+		);
+		vi.spyOn(VerificationStoreService, "markFailed").mockImplementation(
+			async (model) => model,
+		);
+		vi.spyOn(VerificationStoreService, "save").mockResolvedValue(null);
+		vi.spyOn(MisinformationGroupService, "recordFalseClaim").mockResolvedValue(
+			null,
+		);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	const checked = () =>
+		ReverificationScheduler.runOnce().then((events) =>
+			events.map((e) => [e.statement.id, e.trigger.reason]),
+		);
+
+	it("re-verifies failed, then inconclusive, then stale verdicts", async () => {
+		const verify = vi
+			.spyOn(VerificationService, "verifyStatement")
+			.mockResolvedValue(verdict("verified_true"));
+		const stale = stored(
+			statement(DeclarativeStatementVerificationStatus.VerifiedTrue),
+			verdict("verified_true"),
+			NOW - 8 * DAY,
+		);
+		stored(
+			statement(DeclarativeStatementVerificationStatus.VerifiedFalse),
+			verdict("verified_false"),
+		);
+		const inconclusive = stored(
+			statement(DeclarativeStatementVerificationStatus.Inconclusive),
+			verdict("inconclusive"),
+		);
+		const failed = statement(DeclarativeStatementVerificationStatus.Error);
+		byStatus.set(DeclarativeStatementVerificationStatus.Error, [failed]);
+
+		expect(await checked()).toEqual([
+			[failed.id, "error"],
+			[inconclusive.id, "inconclusive"],
+			[stale.id, "stale"],
+		]);
+		expect(verify).toHaveBeenCalledWith(
+			failed.original_transcription,
+			expect.objectContaining({
+				statementId: failed.id,
+				skipClaimMemory: true,
+			}),
+		);
+	});
+
+	it("waits a while after a statement last changed", async () => {
+		vi.spyOn(VerificationService, "verifyStatement").mockResolvedValue(
+			verdict("verified_true"),
+		);
+		stored(
+			statement(DeclarativeStatementVerificationStatus.Inconclusive, MINUTE),
+			verdict("inconclusive"),
+		);
+		expect(await checked()).toEqual([]);
+	});
+
+	it("leaves moderated and quarantined verdicts alone", async () => {
+		const verify = vi.spyOn(VerificationService, "verifyStatement");
+		stored(
+			statement(DeclarativeStatementVerificationStatus.Inconclusive),
+			verdict("inconclusive", {
+				moderation: {
+					action: "needs_context",
+					verdict: "inconclusive",
+					note: "",
+					reviewedAt: "2025-10-08T12:00:00.000Z",
+				},
+			}),
+		);
+		stored(
+			statement(DeclarativeStatementVerificationStatus.Inconclusive),
+			verdict("inconclusive", {
+				quarantine: {
+					patterns: ["override_instructions"],
+					excerpts: ["ignore previous instructions"],
+					detectedAt: "2025-10-08T12:00:00.000Z",
+				},
+			}),
+		);
+
+		expect(await checked()).toEqual([]);
+		expect(verify).not.toHaveBeenCalled();
+	});
+
+	it("backs off a statement that stays unresolved, then gives up", async () => {
+		vi.spyOn(VerificationService, "verifyStatement").mockResolvedValue(
+			verdict("inconclusive"),
+		);
+		const model = stored(
+			statement(DeclarativeStatementVerificationStatus.Inconclusive),
+			verdict("inconclusive"),
+		);
+
+		const [first] = await ReverificationScheduler.runOnce();
+		expect(first.trigger).toEqual({ reason: "inconclusive", attempt: 1 });
+		expect(await checked()).toEqual([]);
+
+		vi.setSystemTime(NOW + 10 * MINUTE);
+		const [second] = await ReverificationScheduler.runOnce();
+		expect(second.trigger).toEqual({ reason: "inconclusive", attempt: 2 });
+
+		// maxAttempts is 2
+		vi.setSystemTime(NOW + DAY);
+		expect(await checked()).toEqual([]);
+		expect(
+			JSON.parse(localStorage.getItem("nocap_reverification_backoff") ?? "{}")[
+				model.id
+			],
+		).toMatchObject({ attempts: 2 });
+	});
+
+	it("counts a failed check towards the backoff", async () => {
+		vi.spyOn(VerificationService, "verifyStatement").mockRejectedValue(
+			new Error("providers down"),
+		);
+		const model = statement(DeclarativeStatementVerificationStatus.Error);
+		byStatus.set(DeclarativeStatementVerificationStatus.Error, [model]);
+
+		const [event] = await ReverificationScheduler.runOnce();
+		expect(event.error).toBe("providers down");
+		expect(VerificationStoreService.markFailed).toHaveBeenCalled();
+		expect(await checked()).toEqual([]);
+	});
+
+	it("reports when a re-verification changes the verdict", async () => {
+		vi.spyOn(VerificationService, "verifyStatement").mockResolvedValue(
+			verdict("verified_false"),
+		);
+		const model = stored(
+			statement(DeclarativeStatementVerificationStatus.VerifiedTrue),
+			verdict("verified_true"),
+			NOW - 8 * DAY,
+		);
+
+		const [event] = await ReverificationScheduler.runOnce();
+		expect(event).toMatchObject({
+			previousConsensus: "verified_true",
+			changed: true,
+		});
+		expect(MisinformationGroupService.recordFalseClaim).toHaveBeenCalledWith(
+			expect.objectContaining({ statement: model.original_transcription }),
+		);
+	});
+});
+
+describe("VerificationStoreService.getHistory", () => {
+	const record = (
+		createTime: number,
+		result: VerificationResult,
+		reason?: "stale",
+	): VerificationResultModel => ({
+		id: `result-${createTime}`,
+		data_creator: "",
+		data_updater: "",
+		create_time: String(createTime),
+		update_time: String(createTime),
+		declarative_statement_id: "statement-history",
+		is_false_statement: result.isFalse,
+		lava_gateway_consensus: JSON.stringify({
+			...result.lavaGatewayConsensus,
+			reverification: reason ? { reason, attempt: 1 } : undefined,
+		}),
+	});
+
+	it("lists verdicts oldest first and flags the ones that changed", async () => {
+		vi.spyOn(
+			VerificationResultORM.getInstance(),
+			"getVerificationResultByDeclarativeStatementId",
+		).mockResolvedValue([
+			record(1760000300, verdict("verified_false"), "stale"),
+			record(1760000000, verdict("verified_true")),
+			record(1760000200, verdict("verified_true"), "stale"),
+		]);
+
+		const history =
+			await VerificationStoreService.getHistory("statement-history");
+		expect(history.map((entry) => [entry.consensus, entry.changed])).toEqual([
+			["verified_true", false],
+			["verified_true", false],
+			["verified_false", true],
+		]);
+		expect(history[2].reverification).toEqual({ reason: "stale", attempt: 1 });
+	});
+});
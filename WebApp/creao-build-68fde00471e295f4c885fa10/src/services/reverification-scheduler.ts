@@ -0,0 +1,381 @@
+import {
+	type DeclarativeStatementModel,
+	DeclarativeStatementORM,
+	DeclarativeStatementVerificationStatus,
+} from "@/components/data/orm/orm_declarative_statement";
+import { falseClaimsOf } from "@/services/claim-decomposition";
+import MisinformationGroupService from "@/services/misinformation-groups";
+import VerificationService, {
+	type VerificationResult,
+} from "@/services/verification-service";
+import VerificationStoreService, {
+	type ReverificationTrigger,
+	checkedClaim,
+} from "@/services/verification-store";
+
+/**
+ * Re-verification Scheduler
+ *
+ * Periodically revisits `declarative_statement` rows whose verdict is
+ * inconclusive, whose check failed (e.g. while providers were down), or
+ * whose rated verdict (unverifiable included) is older than
+ * `maxVerdictAgeMs`, and verifies them again with claim memory bypassed.
+ * Statements that stay unresolved back off exponentially. Every run is stored as a new `verification_result`
+ * record tagged with why it ran, which makes up the statement's verdict
+ * history (see VerificationStoreService.getHistory).
+ */
+
+export interface ReverificationConfig {
+	/** How often to look for statements to re-verify */
+	intervalMs: number;
+	/** Decisive verdicts older than this are re-verified */
+	maxVerdictAgeMs: number;
+	/** Delay before the second attempt; doubles with each further attempt */
+	baseBackoffMs: number;
+	maxBackoffMs: number;
+	/** Give up on a statement after this many attempts */
+	maxAttempts: number;
+	/** Statements re-verified per run, to keep provider load low */
+	batchSize: number;
+}
+
+export const DEFAULT_REVERIFICATION_CONFIG: ReverificationConfig = {
+	intervalMs: 5 * 60 * 1000,
+	maxVerdictAgeMs: 7 * 24 * 60 * 60 * 1000,
+	baseBackoffMs: 10 * 60 * 1000,
+	maxBackoffMs: 12 * 60 * 60 * 1000,
+	maxAttempts: 5,
+	batchSize: 3,
+};
+
+/**
+ * Outcome of one re-verification
+ */
+export interface ReverificationEvent {
+	statement: DeclarativeStatementModel;
+	trigger: ReverificationTrigger;
+	previousConsensus?: VerificationResult["consensus"];
+	result?: VerificationResult;
+	error?: string;
+	/** Whether the verdict differs from the one before */
+	changed: boolean;
+}
+
+interface BackoffState {
+	attempts: number;
+	nextAttemptAt: number;
+	lastError?: string;
+}
+
+type ReverificationListener = (event: ReverificationEvent) => void;
+
+const STORAGE_KEY = "nocap_reverification_backoff";
+
+/** Statuses of statements with a rated verdict, re-verified when stale */
+const RATED_STATUSES = [
+	DeclarativeStatementVerificationStatus.VerifiedTrue,
+	DeclarativeStatementVerificationStatus.MostlyTrue,
+	DeclarativeStatementVerificationStatus.MissingContext,
+	DeclarativeStatementVerificationStatus.Misleading,
+	DeclarativeStatementVerificationStatus.MostlyFalse,
+	DeclarativeStatementVerificationStatus.VerifiedFalse,
+	DeclarativeStatementVerificationStatus.Unverifiable,
+];
+
+/**
+ * Scheduler for re-verifying unresolved and stale statements
+ */
+export class ReverificationScheduler {
+	private static instance: ReverificationScheduler | null = null;
+	private config: ReverificationConfig = { ...DEFAULT_REVERIFICATION_CONFIG };
+	private backoff: Record<string, BackoffState>;
+	private listeners = new Set<ReverificationListener>();
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private running: Promise<ReverificationEvent[]> | null = null;
+	private abort: AbortController | null = null;
+
+	private constructor() {
+		this.backoff = this.loadBackoff();
+	}
+
+	public static getInstance(): ReverificationScheduler {
+		if (!ReverificationScheduler.instance) {
+			ReverificationScheduler.instance = new ReverificationScheduler();
+		}
+		return ReverificationScheduler.instance;
+	}
+
+	configure(config: Partial<ReverificationConfig>): void {
+		this.config = { ...this.config, ...config };
+		if (this.timer) {
+			this.stop();
+			this.start();
+		}
+	}
+
+	getConfig(): ReverificationConfig {
+		return { ...this.config };
+	}
+
+	/**
+	 * Start re-verifying in the background
+	 */
+	start(): void {
+		if (this.timer) return;
+		this.abort = new AbortController();
+		this.timer = setInterval(() => {
+			this.runOnce();
+		}, this.config.intervalMs);
+		console.log(
+			`⏰ Re-verification scheduled every ${Math.round(this.config.intervalMs / 1000)}s`,
+		);
+	}
+
+	/**
+	 * Stop the schedule and cancel any re-verification in flight
+	 */
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+		this.abort?.abort();
+		this.abort = null;
+	}
+
+	/**
+	 * Re-verify the statements that are due now
+	 * Overlapping calls share the run already in progress
+	 */
+	runOnce(): Promise<ReverificationEvent[]> {
+		if (!this.running) {
+			this.running = this.run().finally(() => {
+				this.running = null;
+			});
+		}
+		return this.running;
+	}
+
+	/**
+	 * Listen for re-verification outcomes; returns an unsubscribe function
+	 */
+	subscribe(listener: ReverificationListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	private async run(): Promise<ReverificationEvent[]> {
+		const due = await this.findDue();
+		if (due.length === 0) return [];
+		console.log(`⏰ Re-verifying ${due.length} statements`);
+
+		const events: ReverificationEvent[] = [];
+		for (const { statement, reason } of due) {
+			const signal = this.abort?.signal;
+			if (signal?.aborted) break;
+			const event = await this.reverify(statement, reason, signal);
+			events.push(event);
+			for (const listener of this.listeners) {
+				listener(event);
+			}
+		}
+		return events;
+	}
+
+	/**
+	 * Statements due for re-verification, unresolved ones first
+	 */
+	private async findDue(): Promise<
+		{
+			statement: DeclarativeStatementModel;
+			reason: ReverificationTrigger["reason"];
+		}[]
+	> {
+		const orm = DeclarativeStatementORM.getInstance();
+		const byStatus = (status: DeclarativeStatementVerificationStatus) =>
+			orm.getDeclarativeStatementByVerificationStatus(status).catch((error) => {
+				console.error("Failed to load statements for re-verification:", error);
+				return [] as DeclarativeStatementModel[];
+			});
+
+		const [inconclusive, failed, ...rated] = await Promise.all([
+			byStatus(DeclarativeStatementVerificationStatus.Inconclusive),
+			byStatus(DeclarativeStatementVerificationStatus.Error),
+			...RATED_STATUSES.map(byStatus),
+		]);
+
+		const now = Date.now();
+		const candidates: {
+			statement: DeclarativeStatementModel;
+			reason: ReverificationTrigger["reason"];
+		}[] = [
+			...failed.map((statement) => ({ statement, reason: "error" as const })),
+			...inconclusive.map((statement) => ({
+				statement,
+				reason: "inconclusive" as const,
+			})),
+			...rated.flat().map((statement) => ({
+				statement,
+				reason: "stale" as const,
+			})),
+		];
+
+		const due: typeof candidates = [];
+		for (const candidate of candidates) {
+			if (due.length >= this.config.batchSize) break;
+			if (!this.isDue(candidate.statement, now)) continue;
+
+			// Moderators have the final say; never re-verify over a review,
+			// and leave quarantined verdicts for them to rule on
+			const latest = await VerificationStoreService.getLatest(
+				candidate.statement.id,
+			);
+			if (latest?.result?.moderation || latest?.result?.quarantine) continue;
+			if (
+				candidate.reason === "stale" &&
+				(!latest || now - latest.verifiedAt <= this.config.maxVerdictAgeMs)
+			) {
+				continue;
+			}
+			due.push(candidate);
+		}
+
+		return due;
+	}
+
+	/**
+	 * Whether a statement's backoff has elapsed
+	 * The first attempt waits `baseBackoffMs` after the statement last
+	 * changed, so a check that just finished isn't repeated straight away
+	 */
+	private isDue(statement: DeclarativeStatementModel, now: number): boolean {
+		const state = this.backoff[statement.id];
+		if (!state) {
+			const updatedAt = Number(statement.update_time) * 1000 || 0;
+			return now - updatedAt >= this.config.baseBackoffMs;
+		}
+		return (
+			state.attempts < this.config.maxAttempts && now >= state.nextAttemptAt
+		);
+	}
+
+	private async reverify(
+		statement: DeclarativeStatementModel,
+		reason: ReverificationTrigger["reason"],
+		signal?: AbortSignal,
+	): Promise<ReverificationEvent> {
+		const trigger: ReverificationTrigger = {
+			reason,
+			attempt: (this.backoff[statement.id]?.attempts ?? 0) + 1,
+		};
+		const previous = await VerificationStoreService.getResult(statement.id);
+		const previousConsensus = previous?.consensus;
+		const inProgress = await VerificationStoreService.markInProgress(statement);
+		const claim = checkedClaim(statement);
+
+		try {
+			const result = await VerificationService.verifyStatement(claim, {
+				sessionId: statement.user_session_id,
+				statementId: statement.id,
+				signal,
+				skipClaimMemory: true,
+				originalStatement: statement.original_transcription,
+			});
+			const record = await VerificationStoreService.save(
+				inProgress,
+				result,
+				trigger,
+			);
+			if (previousConsensus !== "verified_false" && !result.quarantine) {
+				for (const falseClaim of falseClaimsOf(claim, result)) {
+					await MisinformationGroupService.recordFalseClaim({
+						statement: falseClaim,
+						speakerId: statement.speaker_id,
+						verificationResultId: record?.id ?? "",
+					});
+				}
+			}
+
+			const resolved =
+				result.consensus === "verified_true" ||
+				result.consensus === "verified_false";
+			if (resolved) {
+				delete this.backoff[statement.id];
+			} else {
+				this.recordAttempt(statement.id, trigger.attempt);
+			}
+			this.saveBackoff();
+
+			const changed =
+				previousConsensus !== undefined &&
+				(previousConsensus !== result.consensus ||
+					previous?.rating !== result.rating);
+			console.log(
+				changed
+					? `🔁 Verdict changed for "${statement.original_transcription}": ${previous?.rating ?? previousConsensus} → ${result.rating ?? result.consensus} (${reason})`
+					: `⏰ Re-verified "${statement.original_transcription}": ${result.consensus} (${reason}, attempt ${trigger.attempt})`,
+			);
+			return { statement, trigger, previousConsensus, result, changed };
+		} catch (error) {
+			if (signal?.aborted) {
+				// Put the statement back as it was; this attempt doesn't count
+				await VerificationStoreService.restoreStatus(statement);
+				return { statement, trigger, previousConsensus, changed: false };
+			}
+
+			const message = error instanceof Error ? error.message : String(error);
+			console.error(
+				`Re-verification failed for statement ${statement.id}:`,
+				error,
+			);
+			await VerificationStoreService.markFailed(inProgress);
+			this.recordAttempt(statement.id, trigger.attempt, message);
+			this.saveBackoff();
+			return {
+				statement,
+				trigger,
+				previousConsensus,
+				error: message,
+				changed: false,
+			};
+		}
+	}
+
+	private recordAttempt(
+		statementId: string,
+		attempts: number,
+		lastError?: string,
+	): void {
+		const delay = Math.min(
+			this.config.maxBackoffMs,
+			this.config.baseBackoffMs * 2 ** (attempts - 1),
+		);
+		this.backoff[statementId] = {
+			attempts,
+			nextAttemptAt: Date.now() + delay,
+			lastError,
+		};
+	}
+
+	private loadBackoff(): Record<string, BackoffState> {
+		try {
+			const stored = localStorage.getItem(STORAGE_KEY);
+			return stored ? (JSON.parse(stored) as Record<string, BackoffState>) : {};
+		} catch (error) {
+			console.warn("Failed to load re-verification backoff:", error);
+			return {};
+		}
+	}
+
+	private saveBackoff(): void {
+		try {
+			localStorage.setItem(STORAGE_KEY, JSON.stringify(this.backoff));
+		} catch (error) {
+			console.warn("Failed to save re-verification backoff:", error);
+		}
+	}
+}
+
+export default ReverificationScheduler.getInstance();
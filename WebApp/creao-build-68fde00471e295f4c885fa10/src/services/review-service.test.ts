@@ -0,0 +1,124 @@
+import {
+	type DeclarativeStatementModel,
+	DeclarativeStatementORM,
+	DeclarativeStatementStatementType,
+	DeclarativeStatementVerificationStatus,
+} from "@/components/data/orm/orm_declarative_statement";
+import {
+	type VerificationResultModel,
+	VerificationResultORM,
+} from "@/components/data/orm/orm_verification_result";
+import AgentReliabilityService from "@/services/agent-reliability";
+import MisinformationGroupService from "@/services/misinformation-groups";
+import ReviewService, { type ReviewItem } from "@/services/review-service";
+import VerificationStoreService from "@/services/verification-store";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const statement: DeclarativeStatementModel = {
+	id: "statement-1",
+	data_creator: "",
+	data_updater: "",
+	create_time: "1760000000",
+	update_time: "1760000000",
+	user_session_id: "session-1",
+	speaker_id: "alice",
+	original_transcription: "Vaccines cause autism",
+	standalone_statement: "",
+	statement_timestamp: "1760000000",
+	statement_type: DeclarativeStatementStatementType.Declarative,
+	verification_status: DeclarativeStatementVerificationStatus.VerifiedFalse,
+};
+
+/** A stored verdict the agents reached, ready for review */
+function reviewItem(verdict: "true" | "false"): ReviewItem {
+	const record: VerificationResultModel = {
+		id: "result-1",
+		data_creator: "",
+		data_updater: "",
+		create_time: "1760000000",
+		update_time: "1760000000",
+		declarative_statement_id: statement.id,
+		is_false_statement: verdict === "false",
+		claude_verification: JSON.stringify({
+			name: "Claude",
+			verdict,
+			confidence: 0.6,
+			status: "completed",
+		}),
+		lava_gateway_consensus: JSON.stringify({
+			verdict,
+			rating: verdict,
+			consensusScore: 0.6,
+			strategy: "majority",
+			explanation: "",
+			tally: { true: 0, false: 0, inconclusive: 0 },
+			participation: { voted: 1, abstained: 0, errored: 0 },
+		}),
+	};
+	const result = VerificationStoreService.fromRecord(record);
+	if (!result) throw new Error("record has no consensus");
+	return { record, statement, result, reasons: ["Low consensus"] };
+}
+
+describe("ReviewService.review", () => {
+	beforeEach(() => {
+		vi.restoreAllMocks();
+		vi.spyOn(
+			DeclarativeStatementORM.getInstance(),
+			"setDeclarativeStatementById",
+		).mockImplementation(async (_id, data) => [data]);
+		vi.spyOn(
+			VerificationResultORM.getInstance(),
+			"setVerificationResultById",
+		).mockImplementation(async (_id, data) => [data]);
+	});
+
+	it("takes the speaker out of groups when a false claim needs context", async () => {
+		const remove = vi
+			.spyOn(MisinformationGroupService, "removeFalseClaims")
+			.mockResolvedValue();
+		const feedback = vi.spyOn(AgentReliabilityService, "recordFeedback");
+
+		const reviewed = await ReviewService.review(
+			reviewItem("false"),
+			"needs_context",
+			"Depends on the vaccine",
+		);
+
+		expect(reviewed.record.is_false_statement).toBe(false);
+		expect(reviewed.result.isFalse).toBe(false);
+		expect(reviewed.result.moderation?.verdict).toBe("inconclusive");
+		expect(remove).toHaveBeenCalledWith("result-1");
+		expect(feedback).not.toHaveBeenCalled();
+	});
+
+	it("groups the speaker when a true verdict is overturned", async () => {
+		const record = vi
+			.spyOn(MisinformationGroupService, "recordFalseClaim")
+			.mockResolvedValue(null);
+
+		const reviewed = await ReviewService.review(
+			reviewItem("true"),
+			"overturn",
+			"",
+			"false",
+		);
+
+		expect(reviewed.result.isFalse).toBe(true);
+		expect(record).toHaveBeenCalledWith({
+			statement: "Vaccines cause autism",
+			speakerId: "alice",
+			verificationResultId: "result-1",
+		});
+	});
+
+	it("leaves groups alone when a false verdict is confirmed", async () => {
+		const remove = vi.spyOn(MisinformationGroupService, "removeFalseClaims");
+		const record = vi.spyOn(MisinformationGroupService, "recordFalseClaim");
+
+		await ReviewService.review(reviewItem("false"), "confirm", "");
+
+		expect(remove).not.toHaveBeenCalled();
+		expect(record).not.toHaveBeenCalled();
+	});
+});
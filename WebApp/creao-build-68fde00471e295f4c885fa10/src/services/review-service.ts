@@ -0,0 +1,309 @@
+import {
+	type DeclarativeStatementModel,
+	DeclarativeStatementORM,
+} from "@/components/data/orm/orm_declarative_statement";
+import {
+	type VerificationResultModel,
+	VerificationResultORM,
+} from "@/components/data/orm/orm_verification_result";
+import AgentReliabilityService, {
+	type ReliabilityFeedback,
+} from "@/services/agent-reliability";
+import type { AgentVerdict } from "@/services/agents/types";
+import { falseClaimsOf } from "@/services/claim-decomposition";
+import ClaimMemoryService from "@/services/claim-memory";
+import MisinformationGroupService from "@/services/misinformation-groups";
+import VerificationStoreService, {
+	type StoredVerificationResult,
+	checkedClaim,
+} from "@/services/verification-store";
+
+/**
+ * Review Service
+ *
+ * Puts a human in the loop for verdicts the agents were unsure about.
+ * Verdicts with a low consensus score, where agents voted both true and
+ * false, or that were quarantined as possible prompt injection are queued
+ * for review. A moderator can confirm the verdict,
+ * overturn it, or mark it as needing context, with a note. Reviews are
+ * stored with the `verification_result`, override the agents' verdict
+ * wherever the result is read back, train agent reliability, and move the
+ * speaker into or out of misinformation groups when the claim becomes or
+ * stops being false.
+ */
+
+export type ModerationAction = "confirm" | "overturn" | "needs_context";
+
+/**
+ * A moderator's review of a verdict
+ */
+export interface ModeratorReview {
+	action: ModerationAction;
+	/** Verdict after review */
+	verdict: AgentVerdict;
+	note: string;
+	reviewedAt: string;
+}
+
+export interface ReviewPolicy {
+	/** Verdicts with a consensus score below this are reviewed */
+	minConsensusScore: number;
+}
+
+export const DEFAULT_REVIEW_POLICY: ReviewPolicy = {
+	minConsensusScore: 0.7,
+};
+
+/**
+ * A stored verdict waiting for (or given) a review
+ */
+export interface ReviewItem {
+	record: VerificationResultModel;
+	statement: DeclarativeStatementModel;
+	result: StoredVerificationResult;
+	/** Why the verdict needs review */
+	reasons: string[];
+}
+
+/**
+ * Service for the moderator review queue
+ */
+export class ReviewService {
+	private static instance: ReviewService | null = null;
+	private policy: ReviewPolicy = { ...DEFAULT_REVIEW_POLICY };
+
+	private constructor() {}
+
+	public static getInstance(): ReviewService {
+		if (!ReviewService.instance) {
+			ReviewService.instance = new ReviewService();
+		}
+		return ReviewService.instance;
+	}
+
+	configure(policy: Partial<ReviewPolicy>): void {
+		this.policy = { ...this.policy, ...policy };
+	}
+
+	getPolicy(): ReviewPolicy {
+		return { ...this.policy };
+	}
+
+	/**
+	 * Why a verdict needs a moderator, or an empty list if it doesn't
+	 */
+	getReviewReasons(result: StoredVerificationResult): string[] {
+		const reasons: string[] = [];
+		if (result.quarantine) {
+			reasons.push(
+				`Possible prompt injection: "${result.quarantine.excerpts.join('", "')}"`,
+			);
+		}
+
+		const score = result.lavaGatewayConsensus.consensusScore;
+		if (score < this.policy.minConsensusScore) {
+			reasons.push(`Low consensus (${Math.round(score * 100)}%)`);
+		}
+
+		const voted = result.agents.filter((agent) => agent.status === "voted");
+		const votedTrue = voted.filter((agent) => agent.verdict === "true").length;
+		const votedFalse = voted.filter(
+			(agent) => agent.verdict === "false",
+		).length;
+		if (votedTrue > 0 && votedFalse > 0) {
+			reasons.push(`Agents split ${votedTrue} true, ${votedFalse} false`);
+		}
+		return reasons;
+	}
+
+	/**
+	 * Latest verdict of each statement that needs review, least certain first
+	 * Reviewed verdicts are included only when asked for
+	 */
+	async getQueue(includeReviewed = false): Promise<ReviewItem[]> {
+		try {
+			const [records, statements] = await Promise.all([
+				VerificationResultORM.getInstance().getAllVerificationResult(),
+				DeclarativeStatementORM.getInstance().getAllDeclarativeStatement(),
+			]);
+			const statementsById = new Map(statements.map((s) => [s.id, s]));
+
+			// Only the latest verdict of a statement is reviewed
+			const latest = new Map<string, VerificationResultModel>();
+			for (const record of records) {
+				const current = latest.get(record.declarative_statement_id);
+				if (
+					!current ||
+					Number(record.create_time) >= Number(current.create_time)
+				) {
+					latest.set(record.declarative_statement_id, record);
+				}
+			}
+
+			const items: ReviewItem[] = [];
+			for (const record of latest.values()) {
+				const statement = statementsById.get(record.declarative_statement_id);
+				const result = VerificationStoreService.fromRecord(record);
+				if (!statement || !result || result.cached) continue;
+				if (result.moderation && !includeReviewed) continue;
+
+				const reasons = this.getReviewReasons(result);
+				if (reasons.length === 0) continue;
+				items.push({ record, statement, result, reasons });
+			}
+
+			return items.sort(
+				(a, b) =>
+					a.result.lavaGatewayConsensus.consensusScore -
+					b.result.lavaGatewayConsensus.consensusScore,
+			);
+		} catch (error) {
+			console.error("Failed to load review queue:", error);
+			return [];
+		}
+	}
+
+	/**
+	 * Record a moderator's review
+	 * `overturnTo` is the corrected verdict when overturning
+	 */
+	async review(
+		item: ReviewItem,
+		action: ModerationAction,
+		note: string,
+		overturnTo?: "true" | "false",
+	): Promise<ReviewItem> {
+		const agentVerdict = item.result.lavaGatewayConsensus.verdict;
+		const consensusVerdict: AgentVerdict =
+			agentVerdict === "insufficient_quorum" ? "inconclusive" : agentVerdict;
+
+		if (action === "overturn" && (!overturnTo || overturnTo === agentVerdict)) {
+			throw new Error("Overturning needs a verdict different from the agents'");
+		}
+
+		// A claim that needs context is neither true nor false
+		const moderation: ModeratorReview = {
+			action,
+			verdict:
+				action === "overturn" && overturnTo
+					? overturnTo
+					: action === "needs_context"
+						? "inconclusive"
+						: consensusVerdict,
+			note: note.trim(),
+			reviewedAt: new Date().toISOString(),
+		};
+
+		const record = await VerificationStoreService.saveModeration(
+			item.record,
+			item.statement,
+			moderation,
+		);
+		const feedback = this.feedbackFor(
+			item.statement.id,
+			item.result,
+			moderation,
+		);
+		if (feedback) AgentReliabilityService.recordFeedback(feedback);
+		ClaimMemoryService.invalidate();
+
+		const result = VerificationStoreService.fromRecord(record) ?? item.result;
+		await this.regroup(item, result);
+		return { ...item, record, result };
+	}
+
+	/**
+	 * Train agent reliability on every stored moderator review
+	 * Run on startup, so reviews made elsewhere count too
+	 */
+	async learnFromReviews(): Promise<void> {
+		try {
+			const records =
+				await VerificationResultORM.getInstance().getAllVerificationResult();
+			const history: ReliabilityFeedback[] = [];
+			for (const record of records) {
+				const result = VerificationStoreService.fromRecord(record);
+				if (!result?.moderation) continue;
+				const feedback = this.feedbackFor(
+					record.declarative_statement_id,
+					result,
+					result.moderation,
+				);
+				if (feedback) {
+					history.push({
+						...feedback,
+						recordedAt: result.moderation.reviewedAt,
+					});
+				}
+			}
+			AgentReliabilityService.learnFromHistory(history);
+		} catch (error) {
+			console.error("Failed to load moderator reviews:", error);
+		}
+	}
+
+	/**
+	 * Add the speaker to misinformation groups when a review makes the
+	 * claim false, or take them out when it no longer is
+	 * Quarantined verdicts were kept out of groups until reviewed
+	 */
+	private async regroup(
+		item: ReviewItem,
+		reviewed: StoredVerificationResult,
+	): Promise<void> {
+		const grouped = item.result.moderation
+			? item.result.isFalse
+			: item.result.lavaGatewayConsensus.verdict === "false" &&
+				!item.result.quarantine;
+		const isFalse = reviewed.isFalse;
+		if (grouped === isFalse) return;
+
+		if (!isFalse) {
+			await MisinformationGroupService.removeFalseClaims(item.record.id);
+			return;
+		}
+
+		// An overturned compound verdict may have no false subclaims; the
+		// statement as a whole is then what's false
+		const statement = checkedClaim(item.statement);
+		const claims = falseClaimsOf(statement, reviewed);
+		for (const claim of claims.length > 0 ? claims : [statement]) {
+			await MisinformationGroupService.recordFalseClaim({
+				statement: claim,
+				speakerId: item.statement.speaker_id,
+				verificationResultId: item.record.id,
+			});
+		}
+	}
+
+	/**
+	 * Reliability feedback from a review
+	 * Only reviews that settle the claim as true or false say anything
+	 * about which agents were right
+	 */
+	private feedbackFor(
+		statementId: string,
+		result: StoredVerificationResult,
+		moderation: ModeratorReview,
+	): Omit<ReliabilityFeedback, "recordedAt"> | null {
+		if (moderation.verdict === "inconclusive") return null;
+		if (moderation.action === "needs_context") return null;
+
+		const agentVerdict = result.lavaGatewayConsensus.verdict;
+		const decisive = agentVerdict === "true" || agentVerdict === "false";
+		return {
+			statementId,
+			agents: result.agents.map(({ name, verdict, status }) => ({
+				name,
+				verdict,
+				status,
+			})),
+			// An undecided consensus has nothing to overturn; record the
+			// moderator's verdict as a confirmed one instead
+			verdict: decisive ? agentVerdict : moderation.verdict,
+			confirmed: decisive ? moderation.action === "confirm" : true,
+		};
+	}
+}
+
+export default ReviewService.getInstance();
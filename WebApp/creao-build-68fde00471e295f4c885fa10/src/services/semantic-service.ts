@@ -1,4 +1,26 @@
-import { apiConfig } from "@/config/api-config";
+import { apiConfig, requestTimeouts } from "@/config/api-config";
+import { withTimeout } from "@/lib/abort";
+import {
+	parseModelOutput,
+	parseWithRepair,
+	repairPrompt,
+} from "@/lib/model-output";
+import { delimitUntrusted, untrustedDataNotice } from "@/lib/prompt-safety";
+import {
+	type AnthropicContentBlock,
+	type AnthropicMessage,
+	buildRepairTurn,
+	forceTool,
+	readStructuredOutput,
+} from "@/services/anthropic-tools";
+import CircuitBreakerService from "@/services/circuit-breaker";
+import HttpClient from "@/services/http-client";
+import {
+	STATEMENT_CLASSIFICATION_JSON_SCHEMA,
+	chromaAnalysisResponseSchema,
+	semanticAnalysisResponseSchema,
+	statementClassificationSchema,
+} from "@/services/model-schemas";
 
 /**
  * Semantic Analysis Service
@@ -62,23 +84,43 @@ export class SemanticService {
 	async analyzeTranscription(
 		transcription: string,
 		context?: string[],
+		signal?: AbortSignal,
 	): Promise<SemanticAnalysisResult> {
 		await this.initialize();
 
-		// Use Chroma AI for semantic analysis
-		if (apiConfig.chromaAI.apiKey) {
+		// Use Chroma AI for semantic analysis, unless it has been failing
+		if (
+			apiConfig.chromaAI.apiKey &&
+			CircuitBreakerService.canRequest("chromaAI")
+		) {
 			try {
-				return await this.analyzeWithChromaAI(transcription, context);
+				const result = await this.analyzeWithChromaAI(
+					transcription,
+					context,
+					signal,
+				);
+				CircuitBreakerService.recordSuccess("chromaAI");
+				return result;
 			} catch (error) {
+				if (signal?.aborted) throw error;
+				CircuitBreakerService.recordFailure("chromaAI", String(error));
 				console.error("Chroma AI semantic analysis failed:", error);
 			}
 		}
 
 		// Fallback to Groq if Chroma AI is not available
-		if (apiConfig.groq.apiKey) {
+		if (apiConfig.groq.apiKey && CircuitBreakerService.canRequest("groq")) {
 			try {
-				return await this.analyzeWithGroq(transcription, context);
+				const result = await this.analyzeWithGroq(
+					transcription,
+					context,
+					signal,
+				);
+				CircuitBreakerService.recordSuccess("groq");
+				return result;
 			} catch (error) {
+				if (signal?.aborted) throw error;
+				CircuitBreakerService.recordFailure("groq", String(error));
 				console.error("Groq semantic analysis failed:", error);
 			}
 		}
@@ -93,15 +135,17 @@ export class SemanticService {
 	private async analyzeWithChromaAI(
 		transcription: string,
 		context?: string[],
+		signal?: AbortSignal,
 	): Promise<SemanticAnalysisResult> {
 		const contextPrompt = context
 			? `\nConversation context:\n${context.join("\n")}`
 			: "";
 
-		const response = await fetch(
+		const response = await HttpClient.fetch(
 			`${apiConfig.chromaAI.baseUrl}/v1/semantic-analysis`,
 			{
 				method: "POST",
+				signal: withTimeout(requestTimeouts.chromaAI, signal),
 				headers: {
 					Authorization: `Bearer ${apiConfig.chromaAI.apiKey}`,
 					"Content-Type": "application/json",
@@ -116,19 +160,26 @@ export class SemanticService {
 					},
 				}),
 			},
+			{ provider: "chromaAI", apiKey: apiConfig.chromaAI.apiKey },
 		);
 
 		if (!response.ok) {
 			throw new Error(`Chroma AI API error: ${response.statusText}`);
 		}
 
-		const data = await response.json();
+		const parsed = parseModelOutput(
+			await response.json(),
+			chromaAnalysisResponseSchema,
+		);
+		if (!parsed.success) {
+			throw new Error(`Invalid Chroma AI response: ${parsed.error}`);
+		}
 
 		return {
 			originalText: transcription,
-			segments: data.segments || [],
-			improvedText: data.improved_text || transcription,
-			confidence: data.confidence || 0.8,
+			segments: parsed.data.segments,
+			improvedText: parsed.data.improved_text || transcription,
+			confidence: parsed.data.confidence,
 		};
 	}
 
@@ -138,23 +189,16 @@ export class SemanticService {
 	private async analyzeWithGroq(
 		transcription: string,
 		context?: string[],
+		signal?: AbortSignal,
 	): Promise<SemanticAnalysisResult> {
 		const contextPrompt = context
-			? `\nPrevious context:\n${context.join("\n")}`
+			? `\nPrevious context:\n${delimitUntrusted(context.join("\n"), "context")}`
 			: "";
 
-		const response = await fetch(`${apiConfig.groq.baseUrl}/chat/completions`, {
-			method: "POST",
-			headers: {
-				Authorization: `Bearer ${apiConfig.groq.apiKey}`,
-				"Content-Type": "application/json",
-			},
-			body: JSON.stringify({
-				model: "llama-3.3-70b-versatile",
-				messages: [
-					{
-						role: "system",
-						content: `You are a semantic analysis expert. Analyze transcriptions and improve statement splitting. Your job is to:
+		const messages: { role: string; content: string }[] = [
+			{
+				role: "system",
+				content: `You are a semantic analysis expert. Analyze transcriptions and improve statement splitting. Your job is to:
 
 1. Split run-on sentences into individual declarative statements
 2. Identify natural semantic boundaries (subject, predicate, object, modifiers, clauses)
@@ -183,31 +227,65 @@ Respond in JSON format:
   "statements": ["statement 1", "statement 2", ...],
   "confidence": 0.0-1.0
 }`,
-					},
-					{
-						role: "user",
-						content: `Analyze this transcription and split it into clear, individual statements:${contextPrompt}
+			},
+			{
+				role: "user",
+				content: `Analyze this transcription and split it into clear, individual statements. ${untrustedDataNotice("transcription", "context")}
+${contextPrompt}
+
+Current transcription:
+${delimitUntrusted(transcription, "transcription")}`,
+			},
+		];
 
-Current transcription: "${transcription}"`,
+		const send = async (): Promise<string> => {
+			const response = await HttpClient.fetch(
+				`${apiConfig.groq.baseUrl}/chat/completions`,
+				{
+					method: "POST",
+					signal: withTimeout(requestTimeouts.groq, signal),
+					headers: {
+						Authorization: `Bearer ${apiConfig.groq.apiKey}`,
+						"Content-Type": "application/json",
 					},
-				],
-				temperature: 0.3,
-				max_tokens: 1024,
-			}),
-		});
+					body: JSON.stringify({
+						model: "llama-3.3-70b-versatile",
+						messages,
+						// Groq's JSON mode guarantees a parseable object
+						response_format: { type: "json_object" },
+						temperature: 0.3,
+						max_tokens: 1024,
+					}),
+				},
+				{ provider: "groq", apiKey: apiConfig.groq.apiKey },
+			);
 
-		if (!response.ok) {
-			throw new Error(`Groq API error: ${response.statusText}`);
-		}
+			if (!response.ok) {
+				throw new Error(`Groq API error: ${response.statusText}`);
+			}
 
-		const data = await response.json();
-		const result = JSON.parse(data.choices[0].message.content);
+			const data = await response.json();
+			return data.choices[0].message.content;
+		};
+
+		const content = await send();
+		const result = await parseWithRepair(
+			content,
+			semanticAnalysisResponseSchema,
+			async (error) => {
+				messages.push(
+					{ role: "assistant", content },
+					{ role: "user", content: repairPrompt(error) },
+				);
+				return send();
+			},
+		);
 
 		return {
 			originalText: transcription,
-			segments: result.segments || [],
+			segments: result.segments,
 			improvedText: result.improvedText || transcription,
-			confidence: result.confidence || 0.8,
+			confidence: result.confidence,
 		};
 	}
 
@@ -250,6 +328,7 @@ Current transcription: "${transcription}"`,
 			speaker_id: string;
 			session_id: string;
 		},
+		signal?: AbortSignal,
 	): Promise<void> {
 		await this.initialize();
 
@@ -264,17 +343,22 @@ Current transcription: "${transcription}"`,
 		// Optionally send to Chroma AI for cloud storage
 		if (apiConfig.chromaAI.apiKey) {
 			try {
-				await fetch(`${apiConfig.chromaAI.baseUrl}/v1/context/store`, {
-					method: "POST",
-					headers: {
-						Authorization: `Bearer ${apiConfig.chromaAI.apiKey}`,
-						"Content-Type": "application/json",
+				await HttpClient.fetch(
+					`${apiConfig.chromaAI.baseUrl}/v1/context/store`,
+					{
+						method: "POST",
+						signal: withTimeout(requestTimeouts.chromaAI, signal),
+						headers: {
+							Authorization: `Bearer ${apiConfig.chromaAI.apiKey}`,
+							"Content-Type": "application/json",
+						},
+						body: JSON.stringify({
+							text: transcription,
+							metadata,
+						}),
 					},
-					body: JSON.stringify({
-						text: transcription,
-						metadata,
-					}),
-				});
+					{ provider: "chromaAI", apiKey: apiConfig.chromaAI.apiKey },
+				);
 			} catch (error) {
 				console.error("Failed to store transcription in Chroma AI:", error);
 			}
@@ -287,6 +371,7 @@ Current transcription: "${transcription}"`,
 	async querySimilarTranscriptions(
 		query: string,
 		limit = 5,
+		signal?: AbortSignal,
 	): Promise<string[]> {
 		await this.initialize();
 
@@ -296,10 +381,11 @@ Current transcription: "${transcription}"`,
 		}
 
 		try {
-			const response = await fetch(
+			const response = await HttpClient.fetch(
 				`${apiConfig.chromaAI.baseUrl}/v1/context/query`,
 				{
 					method: "POST",
+					signal: withTimeout(requestTimeouts.chromaAI, signal),
 					headers: {
 						Authorization: `Bearer ${apiConfig.chromaAI.apiKey}`,
 						"Content-Type": "application/json",
@@ -309,6 +395,7 @@ Current transcription: "${transcription}"`,
 						limit,
 					}),
 				},
+				{ provider: "chromaAI", apiKey: apiConfig.chromaAI.apiKey },
 			);
 
 			if (!response.ok) {
@@ -330,6 +417,7 @@ Current transcription: "${transcription}"`,
 	async classifyStatementWithClaude(
 		text: string,
 		context?: string[],
+		signal?: AbortSignal,
 	): Promise<{
 		isDeclarative: boolean;
 		confidence: number;
@@ -344,31 +432,28 @@ Current transcription: "${transcription}"`,
 			};
 		}
 
+		if (!CircuitBreakerService.canRequest("anthropic")) {
+			return {
+				isDeclarative: true,
+				confidence: 0.5,
+				reasoning: "Claude temporarily skipped after repeated failures",
+			};
+		}
+
 		const contextPrompt = context
-			? `\nConversation context:\n${context.join("\n")}\n`
+			? `\nConversation context:\n${delimitUntrusted(context.join("\n"), "context")}\n`
 			: "";
 
 		try {
-			const response = await fetch(
-				`${apiConfig.anthropic.baseUrl}/v1/messages`,
+			const messages: AnthropicMessage[] = [
 				{
-					method: "POST",
-					headers: {
-						"x-api-key": apiConfig.anthropic.apiKey,
-						"anthropic-version": "2023-06-01",
-						"Content-Type": "application/json",
-					},
-					body: JSON.stringify({
-						model: apiConfig.anthropic.model,
-						max_tokens: 300,
-						temperature: 0.1,
-						messages: [
-							{
-								role: "user",
-								content: `You are an expert at analyzing statements to determine if they are DECLARATIVE (factual claims that can be verified) vs OPINIONS or QUESTIONS.
+					role: "user",
+					content: `You are an expert at analyzing statements to determine if they are DECLARATIVE (factual claims that can be verified) vs OPINIONS or QUESTIONS.
 
+${untrustedDataNotice("statement", "context")}
 ${contextPrompt}
-Analyze this statement: "${text}"
+Analyze this statement:
+${delimitUntrusted(text)}
 
 Classify it as:
 - DECLARATIVE: A factual claim that can be fact-checked (e.g., "The Earth is flat", "Water boils at 100°C", "There are 50 states in the US")
@@ -379,31 +464,64 @@ Classify it as:
 Be VERY PERMISSIVE with declarative classification. If there's any factual claim that COULD be verified, classify it as declarative.
 Even casual statements like "it's raining" or "the meeting is at 3pm" should be declarative.
 
-Respond ONLY with valid JSON:
-{
-  "type": "declarative" | "opinion" | "question" | "other",
-  "confidence": 0.0-1.0,
-  "reasoning": "brief explanation"
-}`,
-							},
-						],
-					}),
+Record your classification with the classify_statement tool.`,
 				},
-			);
+			];
 
-			if (!response.ok) {
-				throw new Error(`Claude API error: ${response.statusText}`);
-			}
+			const send = async (): Promise<AnthropicContentBlock[]> => {
+				const response = await HttpClient.fetch(
+					`${apiConfig.anthropic.baseUrl}/v1/messages`,
+					{
+						method: "POST",
+						signal: withTimeout(requestTimeouts.anthropic, signal),
+						headers: {
+							"x-api-key": apiConfig.anthropic.apiKey,
+							"anthropic-version": "2023-06-01",
+							"Content-Type": "application/json",
+						},
+						body: JSON.stringify({
+							model: apiConfig.anthropic.model,
+							max_tokens: 300,
+							temperature: 0.1,
+							...forceTool(
+								"classify_statement",
+								"Record the statement classification",
+								STATEMENT_CLASSIFICATION_JSON_SCHEMA,
+							),
+							messages,
+						}),
+					},
+					{ provider: "anthropic", apiKey: apiConfig.anthropic.apiKey },
+				);
 
-			const data = await response.json();
-			const result = JSON.parse(data.content[0].text);
+				if (!response.ok) {
+					throw new Error(`Claude API error: ${response.statusText}`);
+				}
+
+				const data = await response.json();
+				return data.content;
+			};
+
+			const content = await send();
+			const result = await parseWithRepair(
+				readStructuredOutput(content),
+				statementClassificationSchema,
+				async (error) => {
+					messages.push(...buildRepairTurn(content, error));
+					return readStructuredOutput(await send());
+				},
+			);
+			CircuitBreakerService.recordSuccess("anthropic");
 
 			return {
 				isDeclarative: result.type === "declarative",
-				confidence: result.confidence || 0.8,
-				reasoning: result.reasoning || "",
+				confidence: result.confidence,
+				reasoning: result.reasoning,
 			};
 		} catch (error) {
+			if (!signal?.aborted) {
+				CircuitBreakerService.recordFailure("anthropic", String(error));
+			}
 			console.error("Claude classification failed:", error);
 			return {
 				isDeclarative: true,
@@ -417,11 +535,15 @@ Respond ONLY with valid JSON:
 	 * Split compound statements into individual statements
 	 * Useful for separating multiple facts stated in one sentence
 	 */
-	async splitStatements(text: string, context?: string[]): Promise<string[]> {
+	async splitStatements(
+		text: string,
+		context?: string[],
+		signal?: AbortSignal,
+	): Promise<string[]> {
 		await this.initialize();
 
 		// Use semantic analysis to identify statement boundaries
-		const analysis = await this.analyzeTranscription(text, context);
+		const analysis = await this.analyzeTranscription(text, context, signal);
 
 		// Try to extract multiple statements using conjunction detection
 		const statements: string[] = [];
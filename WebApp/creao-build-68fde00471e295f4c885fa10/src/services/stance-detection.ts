@@ -0,0 +1,194 @@
+import { apiConfig, requestTimeouts } from "@/config/api-config";
+import { withTimeout } from "@/lib/abort";
+import { parseWithRepair } from "@/lib/model-output";
+import { delimitUntrusted, untrustedDataNotice } from "@/lib/prompt-safety";
+import { type SnippetStance, classifyStanceLocally } from "@/lib/stance";
+import type { EvidenceSnippet } from "@/services/agents/types";
+import {
+	type AnthropicContentBlock,
+	type AnthropicMessage,
+	buildRepairTurn,
+	forceTool,
+	readStructuredOutput,
+} from "@/services/anthropic-tools";
+import CircuitBreakerService from "@/services/circuit-breaker";
+import HttpClient from "@/services/http-client";
+import {
+	STANCE_CLASSIFICATION_JSON_SCHEMA,
+	stanceClassificationSchema,
+} from "@/services/model-schemas";
+
+/**
+ * Stance Detection Service
+ *
+ * Classifies search snippets as supporting, refuting or unrelated to a
+ * statement. Every snippet is classified locally first; those the local
+ * classifier isn't sure about are sent to Claude in one batch when it is
+ * available. Snippets Claude doesn't answer for keep their local stance.
+ */
+
+export interface StanceDetectionConfig {
+	/** Ask Claude about snippets the local classifier isn't sure of */
+	useModel: boolean;
+	/** Local stances below this confidence go to the model */
+	minLocalConfidence: number;
+}
+
+export const DEFAULT_STANCE_DETECTION_CONFIG: StanceDetectionConfig = {
+	useModel: true,
+	minLocalConfidence: 0.6,
+};
+
+/**
+ * Service for classifying the stance of evidence snippets
+ */
+export class StanceDetectionService {
+	private static instance: StanceDetectionService | null = null;
+	private config: StanceDetectionConfig = {
+		...DEFAULT_STANCE_DETECTION_CONFIG,
+	};
+
+	private constructor() {}
+
+	public static getInstance(): StanceDetectionService {
+		if (!StanceDetectionService.instance) {
+			StanceDetectionService.instance = new StanceDetectionService();
+		}
+		return StanceDetectionService.instance;
+	}
+
+	configure(config: Partial<StanceDetectionConfig>): void {
+		this.config = { ...this.config, ...config };
+	}
+
+	getConfig(): StanceDetectionConfig {
+		return { ...this.config };
+	}
+
+	/**
+	 * Stance of each snippet towards the statement, in snippet order
+	 */
+	async classify(
+		statement: string,
+		evidence: EvidenceSnippet[],
+		signal?: AbortSignal,
+	): Promise<SnippetStance[]> {
+		const stances: SnippetStance[] = evidence.map((snippet) => ({
+			id: snippet.id,
+			...classifyStanceLocally(
+				statement,
+				`${snippet.title}. ${snippet.snippet}`,
+			),
+			method: "local",
+		}));
+
+		const unsure = evidence.filter(
+			(_, index) => stances[index].confidence < this.config.minLocalConfidence,
+		);
+		if (
+			unsure.length === 0 ||
+			!this.config.useModel ||
+			!apiConfig.anthropic.apiKey ||
+			!CircuitBreakerService.canRequest("anthropic")
+		) {
+			return stances;
+		}
+
+		const modelStances = await this.classifyWithClaude(
+			statement,
+			unsure,
+			signal,
+		);
+		if (!modelStances) return stances;
+		return stances.map(
+			(stance) => modelStances.find((s) => s.id === stance.id) ?? stance,
+		);
+	}
+
+	/**
+	 * Ask Claude for the stances of some snippets; null if it couldn't answer
+	 */
+	private async classifyWithClaude(
+		statement: string,
+		snippets: EvidenceSnippet[],
+		signal?: AbortSignal,
+	): Promise<SnippetStance[] | null> {
+		const messages: AnthropicMessage[] = [
+			{
+				role: "user",
+				content: `You judge whether web search snippets support or refute a statement.
+
+${untrustedDataNotice("statement", "evidence")}
+
+${delimitUntrusted(statement)}
+
+${snippets.map((snippet) => delimitUntrusted(`[${snippet.id}] ${snippet.title}\n${snippet.snippet}`, "evidence")).join("\n")}
+
+For each snippet, decide its stance towards the statement:
+- supports: the snippet confirms what the statement says
+- refutes: the snippet contradicts it, e.g. gives a different number, place, date or person, or calls the claim false
+- unrelated: the snippet is about something else or takes no position
+
+Judge only what each snippet says, not what you know. Record the stances with the record_stances tool.`,
+			},
+		];
+
+		const send = async (): Promise<AnthropicContentBlock[]> => {
+			const response = await HttpClient.fetch(
+				`${apiConfig.anthropic.baseUrl}/v1/messages`,
+				{
+					method: "POST",
+					signal: withTimeout(requestTimeouts.anthropic, signal),
+					headers: {
+						"x-api-key": apiConfig.anthropic.apiKey,
+						"anthropic-version": "2023-06-01",
+						"Content-Type": "application/json",
+					},
+					body: JSON.stringify({
+						model: apiConfig.anthropic.model,
+						max_tokens: 512,
+						temperature: 0,
+						...forceTool(
+							"record_stances",
+							"Record the stance of each snippet towards the statement",
+							STANCE_CLASSIFICATION_JSON_SCHEMA,
+						),
+						messages,
+					}),
+				},
+				{ provider: "anthropic", apiKey: apiConfig.anthropic.apiKey },
+			);
+
+			if (!response.ok) {
+				throw new Error(`Claude API error: ${response.statusText}`);
+			}
+
+			const data = await response.json();
+			return data.content;
+		};
+
+		try {
+			const content = await send();
+			const result = await parseWithRepair(
+				readStructuredOutput(content),
+				stanceClassificationSchema,
+				async (error) => {
+					messages.push(...buildRepairTurn(content, error));
+					return readStructuredOutput(await send());
+				},
+			);
+			CircuitBreakerService.recordSuccess("anthropic");
+			const ids = new Set(snippets.map((snippet) => snippet.id));
+			return result.stances
+				.filter((stance) => ids.has(stance.id))
+				.map((stance) => ({ ...stance, method: "model" }));
+		} catch (error) {
+			if (signal?.aborted) throw error;
+			CircuitBreakerService.recordFailure("anthropic", String(error));
+			console.error("Stance detection failed, keeping local stances:", error);
+			return null;
+		}
+	}
+}
+
+export default StanceDetectionService.getInstance();
@@ -0,0 +1,102 @@
+import { type TemporalClassification, classifyTemporal } from "@/lib/temporal";
+import type {
+	VerificationAgent,
+	VerificationAgentProvider,
+} from "@/services/agents/types";
+
+/**
+ * Temporal Awareness Service
+ *
+ * Decides which claims are time-sensitive, and discounts verdicts on them
+ * from agents that answer from a model's training data. Agents with live
+ * sources, and deterministic ones, keep their confidence. Time-sensitive
+ * verdicts are labelled with the date they hold for, and claim memory
+ * lets them expire sooner.
+ */
+
+export interface TemporalAwarenessConfig {
+	enabled: boolean;
+	/** Confidence multiplier for a time-sensitive verdict from a model without live sources */
+	staleConfidenceFactor: number;
+}
+
+export const DEFAULT_TEMPORAL_AWARENESS_CONFIG: TemporalAwarenessConfig = {
+	enabled: true,
+	staleConfidenceFactor: 0.7,
+};
+
+/**
+ * Service for time-sensitive claims
+ */
+export class TemporalAwarenessService {
+	private static instance: TemporalAwarenessService | null = null;
+	private config: TemporalAwarenessConfig = {
+		...DEFAULT_TEMPORAL_AWARENESS_CONFIG,
+	};
+
+	private constructor() {}
+
+	public static getInstance(): TemporalAwarenessService {
+		if (!TemporalAwarenessService.instance) {
+			TemporalAwarenessService.instance = new TemporalAwarenessService();
+		}
+		return TemporalAwarenessService.instance;
+	}
+
+	configure(config: Partial<TemporalAwarenessConfig>): void {
+		this.config = { ...this.config, ...config };
+	}
+
+	getConfig(): TemporalAwarenessConfig {
+		return { ...this.config };
+	}
+
+	/**
+	 * Whether a statement made on a given day (YYYY-MM-DD) is time-sensitive
+	 */
+	classify(statement: string, asOf: string): TemporalClassification {
+		if (!this.config.enabled) return { timeSensitive: false, cues: [] };
+		return classifyTemporal(statement, new Date(`${asOf}T00:00:00`));
+	}
+
+	/**
+	 * Whether an agent answers from a model's training data rather than
+	 * live sources or exact checks
+	 */
+	mayBeStale(provider: VerificationAgentProvider): boolean {
+		const { capabilities } = provider;
+		return (
+			(capabilities.includes("llm_reasoning") ||
+				capabilities.includes("agent_network")) &&
+			!capabilities.includes("web_search")
+		);
+	}
+
+	/**
+	 * Lower an agent's confidence in a time-sensitive verdict when its
+	 * knowledge may be out of date
+	 */
+	discount(
+		provider: VerificationAgentProvider,
+		agent: VerificationAgent,
+		timeSensitive: boolean,
+	): VerificationAgent {
+		if (
+			!this.config.enabled ||
+			!timeSensitive ||
+			agent.status !== "voted" ||
+			!this.mayBeStale(provider)
+		) {
+			return agent;
+		}
+		const note =
+			"Time-sensitive claim; confidence lowered as the agent's knowledge may be out of date";
+		return {
+			...agent,
+			confidence: agent.confidence * this.config.staleConfidenceFactor,
+			reasoning: agent.reasoning ? `${agent.reasoning} (${note})` : note,
+		};
+	}
+}
+
+export default TemporalAwarenessService.getInstance();
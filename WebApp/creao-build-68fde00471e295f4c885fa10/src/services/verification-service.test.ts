@@ -0,0 +1,433 @@
+import type { VerdictRating } from "@/lib/verdict-scale";
+import AgentRegistry from "@/services/agent-registry";
+import type {
+	AgentVerdict,
+	DebateContext,
+	VerificationAgent,
+	VerificationAgentProvider,
+} from "@/services/agents/types";
+import CircuitBreakerService from "@/services/circuit-breaker";
+import ConsensusService, {
+	type ConsensusOutcome,
+} from "@/services/consensus-service";
+import { createRequestMetadata } from "@/services/http-client";
+import VerificationService, {
+	type VerificationEvent,
+	type VerificationProgress,
+	applyVerificationEvent,
+} from "@/services/verification-service";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const vote = (name: string, verdict: AgentVerdict): VerificationAgent => ({
+	name,
+	status: "voted",
+	verdict,
+	confidence: 0.9,
+});
+
+/** An agent that answers after `delayMs` */
+function fakeProvider(
+	id: string,
+	verdict: AgentVerdict,
+	delayMs: number,
+): VerificationAgentProvider<"local"> {
+	return {
+		id,
+		name: `Agent ${id}`,
+		capabilities: ["llm_reasoning"],
+		configSection: "local",
+		requiredKeys: [],
+		verify: async () => {
+			await new Promise((resolve) => setTimeout(resolve, delayMs));
+			return { ...vote(`Agent ${id}`, verdict), reasoning: "Checked" };
+		},
+	};
+}
+
+/**
+ * An agent that can debate, giving `answers[n]` in round n and standing
+ * by its last answer after that
+ */
+function debatingProvider(
+	id: string,
+	answers: [AgentVerdict, VerdictRating][],
+	heard: DebateContext[] = [],
+): VerificationAgentProvider<"local"> {
+	return {
+		...fakeProvider(id, answers[0][0], 1),
+		capabilities: ["llm_reasoning", "debate"],
+		verify: async (_statement, { debate }) => {
+			if (debate) heard.push(debate);
+			const [verdict, rating] =
+				answers[Math.min(debate?.round ?? 0, answers.length - 1)];
+			return { ...vote(`Agent ${id}`, verdict), rating, reasoning: "Checked" };
+		},
+	};
+}
+
+let session = 0;
+
+/** A session that only asks the given agents */
+function sessionWith(
+	...providers: VerificationAgentProvider<"local">[]
+): string {
+	session += 1;
+	const sessionId = `verification-${session}`;
+	for (const provider of AgentRegistry.getProviders()) {
+		AgentRegistry.setEnabled(provider.id, false, sessionId);
+	}
+	for (const provider of providers) {
+		AgentRegistry.register(provider);
+		AgentRegistry.setEnabled(provider.id, true, sessionId);
+	}
+	return sessionId;
+}
+
+async function collect(
+	stream: AsyncGenerator<VerificationEvent>,
+): Promise<VerificationEvent[]> {
+	const events: VerificationEvent[] = [];
+	for await (const event of stream) events.push(event);
+	return events;
+}
+
+const consensus: ConsensusOutcome = {
+	verdict: "true",
+	consensusScore: 1,
+	strategy: "majority",
+	explanation: "",
+	tally: { true: 1, false: 0, inconclusive: 0 },
+	participation: { voted: 1, abstained: 0, errored: 0 },
+};
+
+describe("applyVerificationEvent", () => {
+	const started: VerificationEvent = {
+		type: "started",
+		statementId: "s1",
+		statement: "Water boils at 100 degrees",
+		expectedAgents: ["A", "B"],
+	};
+
+	it("adds a statement when it starts and fills in its agents", () => {
+		let progress: VerificationProgress[] = [];
+		progress = applyVerificationEvent(progress, started);
+		progress = applyVerificationEvent(progress, {
+			type: "agent_result",
+			statementId: "s1",
+			agent: vote("A", "true"),
+		});
+		progress = applyVerificationEvent(progress, {
+			type: "provisional_consensus",
+			statementId: "s1",
+			consensus,
+			pendingAgents: 1,
+		});
+
+		expect(progress).toHaveLength(1);
+		expect(progress[0].agents.map((a) => a.name)).toEqual(["A"]);
+		expect(progress[0].provisionalConsensus).toBe(consensus);
+		expect(progress[0].result).toBeUndefined();
+	});
+
+	it("leaves other statements alone", () => {
+		const other: VerificationProgress = {
+			statementId: "s0",
+			statement: "Earlier",
+			expectedAgents: [],
+			agents: [],
+		};
+		const progress = applyVerificationEvent(
+			applyVerificationEvent([other], started),
+			{ type: "agent_result", statementId: "s1", agent: vote("A", "true") },
+		);
+		expect(progress[0]).toBe(other);
+	});
+
+	it("replaces the agents with the result's once completed", () => {
+		const agents = [vote("A", "true"), vote("B", "true")];
+		const progress = applyVerificationEvent(
+			applyVerificationEvent([], started),
+			{
+				type: "completed",
+				statementId: "s1",
+				result: {
+					statementId: "s1",
+					isFalse: false,
+					consensus: "verified_true",
+					agents,
+					lavaGatewayConsensus: consensus,
+					requestMetadata: createRequestMetadata(),
+				},
+			},
+		);
+		expect(progress[0].agents).toBe(agents);
+		expect(progress[0].result?.consensus).toBe("verified_true");
+	});
+});
+
+describe("VerificationService.verifyStatementStream", () => {
+	const registered: string[] = [];
+
+	beforeEach(() => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		for (const id of registered.splice(0)) AgentRegistry.unregister(id);
+		vi.restoreAllMocks();
+	});
+
+	const providers = (...list: VerificationAgentProvider<"local">[]) => {
+		registered.push(...list.map((p) => p.id));
+		return sessionWith(...list);
+	};
+
+	it("reports each agent as it answers, then the consensus", async () => {
+		const sessionId = providers(
+			fakeProvider("slow", "true", 30),
+			fakeProvider("fast", "true", 1),
+		);
+		const events = await collect(
+			VerificationService.verifyStatementStream("Water is wet", {
+				sessionId,
+				skipClaimMemory: true,
+				decompose: false,
+			}),
+		);
+
+		expect(events.map((e) => e.type)).toEqual([
+			"started",
+			"evidence",
+			"agent_result",
+			"agent_result",
+			"provisional_consensus",
+			"final_consensus",
+			"completed",
+		]);
+		const arrivals = events.flatMap((e) =>
+			e.type === "agent_result" ? [e.agent.name] : [],
+		);
+		expect(arrivals).toEqual(["Agent fast", "Agent slow"]);
+
+		const completed = events[events.length - 1];
+		if (completed.type !== "completed") throw new Error("not completed");
+		// Results keep the agents' order, not the order they answered in
+		expect(completed.result.agents.map((a) => a.name)).toEqual([
+			"Agent slow",
+			"Agent fast",
+		]);
+		expect(completed.result.consensus).toBe("verified_true");
+	});
+
+	it("holds back a provisional verdict until a quorum has voted", async () => {
+		const sessionId = providers(
+			fakeProvider("one", "true", 1),
+			fakeProvider("two", "true", 10),
+			fakeProvider("three", "true", 20),
+		);
+		const events = await collect(
+			VerificationService.verifyStatementStream("Water is wet", {
+				sessionId,
+				skipClaimMemory: true,
+				decompose: false,
+			}),
+		);
+		const provisional = events.flatMap((e) =>
+			e.type === "provisional_consensus" ? [e.pendingAgents] : [],
+		);
+		expect(provisional).toEqual([1, 0]);
+	});
+
+	it("reports an agent that runs out of time as errored", async () => {
+		const sessionId = providers(
+			fakeProvider("late", "true", 200),
+			fakeProvider("prompt", "true", 1),
+		);
+		AgentRegistry.setTimeoutBudget("late", 20);
+		const result = await VerificationService.verifyStatement("Water is wet", {
+			sessionId,
+			skipClaimMemory: true,
+			decompose: false,
+		});
+		expect(result.agents[0]).toMatchObject({
+			status: "errored",
+			reasoning: "Timed out after 0.02s",
+		});
+		expect(CircuitBreakerService.getStatus("late").consecutiveFailures).toBe(1);
+		CircuitBreakerService.reset("late");
+	});
+
+	it("skips an agent whose circuit is open", async () => {
+		const verify = vi.fn();
+		const tripped = { ...fakeProvider("tripped", "true", 1), verify };
+		const sessionId = providers(tripped, fakeProvider("healthy", "true", 1));
+		for (let i = 0; i < 3; i++) CircuitBreakerService.recordFailure("tripped");
+
+		const result = await VerificationService.verifyStatement("Water is wet", {
+			sessionId,
+			skipClaimMemory: true,
+			decompose: false,
+		});
+		expect(result.agents[0].status).toBe("abstained");
+		expect(verify).not.toHaveBeenCalled();
+		CircuitBreakerService.reset("tripped");
+	});
+
+	it("stops a cancelled check without blaming the agents", async () => {
+		const sessionId = providers(
+			fakeProvider("pending", "true", 50),
+			fakeProvider("other", "true", 50),
+		);
+		const controller = new AbortController();
+		setTimeout(() => controller.abort(), 10);
+
+		await expect(
+			VerificationService.verifyStatement("Water is wet", {
+				sessionId,
+				signal: controller.signal,
+				skipClaimMemory: true,
+				decompose: false,
+			}),
+		).rejects.toBeDefined();
+		expect(CircuitBreakerService.getStatus("pending").consecutiveFailures).toBe(
+			0,
+		);
+	});
+});
+
+describe("VerificationService debate", () => {
+	const registered: string[] = [];
+
+	beforeEach(() => {
+		vi.spyOn(console, "log").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		for (const id of registered.splice(0)) AgentRegistry.unregister(id);
+		vi.restoreAllMocks();
+	});
+
+	/** A session where split agents debate for up to `maxRounds` */
+	const debating = (
+		maxRounds: number,
+		...list: VerificationAgentProvider<"local">[]
+	) => {
+		registered.push(...list.map((p) => p.id));
+		const sessionId = sessionWith(...list);
+		ConsensusService.configure(
+			{ debate: { enabled: true, maxRounds } },
+			sessionId,
+		);
+		return sessionId;
+	};
+
+	const verify = (sessionId: string) =>
+		collect(
+			VerificationService.verifyStatementStream("Water is wet", {
+				sessionId,
+				skipClaimMemory: true,
+				decompose: false,
+			}),
+		);
+
+	it("lets split agents reconsider until they agree", async () => {
+		const heard: DebateContext[] = [];
+		const sessionId = debating(
+			3,
+			fakeProvider("firm", "true", 1),
+			fakeProvider("steady", "true", 5),
+			debatingProvider(
+				"convinced",
+				[
+					["false", "false"],
+					["true", "mostly_true"],
+				],
+				heard,
+			),
+		);
+		const events = await verify(sessionId);
+
+		expect(events.map((e) => e.type).slice(-4)).toEqual([
+			"debate_round",
+			"provisional_consensus",
+			"final_consensus",
+			"completed",
+		]);
+		const completed = events[events.length - 1];
+		if (completed.type !== "completed") throw new Error("not completed");
+		expect(completed.result.debate?.ending).toBe("agreement");
+		expect(
+			completed.result.debate?.rounds.map((round) => round.revised),
+		).toEqual([[], ["Agent convinced"]]);
+		expect(completed.result.agents.map((a) => a.verdict)).toEqual([
+			"true",
+			"true",
+			"true",
+		]);
+		expect(completed.result.consensus).toBe("verified_true");
+
+		// It heard the others under their labels, but not itself
+		expect(heard).toHaveLength(1);
+		expect(heard[0].previous).toMatchObject({
+			label: "Agent C",
+			verdict: "false",
+		});
+		expect(heard[0].peers.map((peer) => peer.label)).toEqual([
+			"Agent A",
+			"Agent B",
+		]);
+	});
+
+	it("stops when a round changes nobody's mind", async () => {
+		const sessionId = debating(
+			3,
+			fakeProvider("yes", "true", 1),
+			debatingProvider("no", [["false", "false"]]),
+		);
+		const events = await verify(sessionId);
+
+		const rounds = events.filter((e) => e.type === "debate_round");
+		expect(rounds).toHaveLength(1);
+		const completed = events[events.length - 1];
+		if (completed.type !== "completed") throw new Error("not completed");
+		expect(completed.result.debate?.ending).toBe("stalemate");
+		expect(completed.result.consensus).toBe("inconclusive");
+	});
+
+	it("stops at the round limit while agents are still split", async () => {
+		const sessionId = debating(
+			2,
+			fakeProvider("yes", "true", 1),
+			debatingProvider("wavering", [
+				["false", "false"],
+				["false", "mostly_false"],
+				["false", "misleading"],
+				["false", "false"],
+			]),
+		);
+		const events = await verify(sessionId);
+
+		const rounds = events.flatMap((e) =>
+			e.type === "debate_round" ? [e.round.round] : [],
+		);
+		expect(rounds).toEqual([1, 2]);
+		const completed = events[events.length - 1];
+		if (completed.type !== "completed") throw new Error("not completed");
+		expect(completed.result.debate?.ending).toBe("max_rounds");
+		expect(completed.result.agents[1].rating).toBe("misleading");
+	});
+
+	it("doesn't debate when debate mode is off", async () => {
+		const sessionId = sessionWith(
+			fakeProvider("off-yes", "true", 1),
+			debatingProvider("off-no", [["false", "false"]]),
+		);
+		registered.push("off-yes", "off-no");
+		const events = await verify(sessionId);
+
+		expect(events.some((e) => e.type === "debate_round")).toBe(false);
+		const completed = events[events.length - 1];
+		if (completed.type !== "completed") throw new Error("not completed");
+		expect(completed.result.debate).toBeUndefined();
+	});
+});
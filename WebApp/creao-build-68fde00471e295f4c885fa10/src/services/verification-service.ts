@@ -1,36 +1,257 @@
-import { apiConfig } from "@/config/api-config";
+import { apiConfig, requestTimeouts } from "@/config/api-config";
+import { timeoutBudget, withTimeout } from "@/lib/abort";
+import {
+	type CitationCheck,
+	citationQuality,
+	uniqueChecks,
+} from "@/lib/citations";
+import {
+	type DebateEnding,
+	type DebateRound,
+	type DebateTranscript,
+	hasRevised,
+	isSplitDecision,
+	toDebatePeer,
+} from "@/lib/debate";
+import { citedEvidence } from "@/lib/evidence";
+import { parseModelOutput } from "@/lib/model-output";
+import {
+	type InjectionFinding,
+	delimitUntrusted,
+	detectInjection,
+	untrustedDataNotice,
+} from "@/lib/prompt-safety";
+import { calendarDate } from "@/lib/temporal";
+import { RATING_LABELS, type VerdictRating } from "@/lib/verdict-scale";
+import AgentRegistry from "@/services/agent-registry";
+import type {
+	AgentVerifyContext,
+	DebateContext,
+	EvidenceSnippet,
+	VerificationAgent,
+	VerificationAgentProvider,
+} from "@/services/agents/types";
+import CircuitBreakerService from "@/services/circuit-breaker";
+import CitationValidationService from "@/services/citation-validation";
+import ClaimDecompositionService, {
+	type CompoundVerdict,
+	type SubclaimResult,
+} from "@/services/claim-decomposition";
+import ClaimMemoryService, {
+	type CachedVerdict,
+} from "@/services/claim-memory";
+import ConsensusService, {
+	type ConsensusOutcome,
+} from "@/services/consensus-service";
+import EvidenceRetrievalService from "@/services/evidence-retrieval";
+import HttpClient, {
+	type RequestMetadata,
+	createRequestMetadata,
+	mergeRequestMetadata,
+} from "@/services/http-client";
+import { lavaConsensusResponseSchema } from "@/services/model-schemas";
+import type { ModeratorReview } from "@/services/review-service";
+import TemporalAwarenessService from "@/services/temporal-awareness";
 
 /**
  * Multi-Agent Truth Verification Service
  *
- * Orchestrates verification across multiple AI agents:
+ * Orchestrates verification across the agents registered with AgentRegistry.
+ * The built-in agents are:
  * - Claude (Anthropic)
  * - Fetch.ai (Agentverse and ASI:ONE)
  * - Gemini (Google)
  * - Bright Data
+ * - Llama (Lava Portal)
  *
  * All agents route through Lava Gateway for consensus verification
  */
 
-export interface VerificationAgent {
-	name: string;
-	verdict: "true" | "false" | "inconclusive";
-	confidence: number;
-	reasoning?: string;
-	citations?: string[];
-}
+export type { VerificationAgent } from "@/services/agents/types";
 
 export interface VerificationResult {
 	statementId: string;
 	isFalse: boolean;
-	consensus: "verified_true" | "verified_false" | "inconclusive";
+	consensus:
+		| "verified_true"
+		| "verified_false"
+		| "inconclusive"
+		| "insufficient_quorum";
+	/** Graded verdict, e.g. misleading for a half-truth the consensus calls false */
+	rating?: VerdictRating;
 	correctInformation?: string;
 	citations?: string[];
+	/** Credibility of the sources behind the verdict */
+	citationChecks?: CitationCheck[];
+	/** Citation-quality score of those sources in [0, 1] */
+	citationQuality?: number;
+	agents: VerificationAgent[];
+	/** Ranked search results shared with every agent, cited by ID */
+	evidence?: EvidenceSnippet[];
+	lavaGatewayConsensus: ConsensusOutcome;
+	/** Retries and throttling delays across every request made for this statement */
+	requestMetadata: RequestMetadata;
+	/** Set when the verdict was reused from claim memory */
+	cached?: CachedVerdict;
+	/** Set when a moderator has confirmed or overridden the verdict */
+	moderation?: ModeratorReview;
+	/** Set when the statement looked like a prompt-injection attempt */
+	quarantine?: Quarantine;
+	/** Set when the statement was verified as several atomic subclaims */
+	subclaims?: SubclaimResult[];
+	/** Roll-up of the subclaim verdicts */
+	compound?: CompoundVerdict;
+	/** Set when split agents debated before consensus */
+	debate?: DebateTranscript;
+	/** Date a time-sensitive verdict holds for, as YYYY-MM-DD */
+	asOf?: string;
+}
+
+/**
+ * Why a verdict was quarantined
+ * Quarantined verdicts are kept out of claim memory, misinformation groups
+ * and interjections, and go to the review queue until a moderator rules
+ */
+export interface Quarantine extends InjectionFinding {
+	detectedAt: string;
+}
+
+export interface VerifyStatementOptions {
+	/** Session whose agent toggles should be applied */
+	sessionId?: string;
+	/** Id to report results under; generated when omitted */
+	statementId?: string;
+	/** Cancels in-flight agent calls, e.g. when the session stops */
+	signal?: AbortSignal;
+	/** Always query the agents, even if claim memory has a fresh verdict */
+	skipClaimMemory?: boolean;
+	/** Split the statement into atomic subclaims first; defaults to true */
+	decompose?: boolean;
+	/** Date the statement was made, as YYYY-MM-DD; defaults to today */
+	asOf?: string;
+	/**
+	 * The statement as spoken, when the one verified is its standalone
+	 * rewrite; both are checked for prompt injection
+	 */
+	originalStatement?: string;
+}
+
+/**
+ * Events emitted by verifyStatementStream, in order:
+ * started, evidence, agent_result / provisional_consensus (interleaved),
+ * final_consensus, correction (false statements only), completed.
+ * A claim memory hit emits started, cache_hit, final_consensus, completed.
+ * A compound statement emits started (with its subclaims), subclaim_result
+ * as each subclaim is verified, final_consensus, completed.
+ * In debate mode, split agents add a debate_round and provisional_consensus
+ * per round before final_consensus.
+ * Deterministic agents (the fact sheet and the numeric verifier) run
+ * before claim memory is checked and report right after started. When one
+ * is certain, the statement is settled: started, agent_result for every
+ * agent (the rest marked as not needed), final_consensus, correction,
+ * completed.
+ */
+export type VerificationEvent =
+	| {
+			type: "started";
+			statementId: string;
+			statement: string;
+			expectedAgents: string[];
+			subclaims?: string[];
+	  }
+	| { type: "evidence"; statementId: string; evidence: EvidenceSnippet[] }
+	| { type: "agent_result"; statementId: string; agent: VerificationAgent }
+	| { type: "subclaim_result"; statementId: string; subclaim: SubclaimResult }
+	| { type: "debate_round"; statementId: string; round: DebateRound }
+	| {
+			type: "provisional_consensus";
+			statementId: string;
+			consensus: ConsensusOutcome;
+			pendingAgents: number;
+	  }
+	| {
+			type: "final_consensus";
+			statementId: string;
+			consensus: ConsensusOutcome;
+	  }
+	| {
+			type: "correction";
+			statementId: string;
+			correctInformation: string;
+			citations?: string[];
+	  }
+	| { type: "cache_hit"; statementId: string; cached: CachedVerdict }
+	| { type: "completed"; statementId: string; result: VerificationResult };
+
+/**
+ * A statement's verification as seen so far
+ */
+export interface VerificationProgress {
+	statementId: string;
+	statement: string;
+	expectedAgents: string[];
 	agents: VerificationAgent[];
-	lavaGatewayConsensus: {
-		verdict: "true" | "false" | "inconclusive";
-		consensusScore: number;
-	};
+	/** Evidence the agents were given, once retrieved */
+	evidence?: EvidenceSnippet[];
+	provisionalConsensus?: ConsensusOutcome;
+	/** Subclaims being verified separately, for compound statements */
+	expectedSubclaims?: string[];
+	subclaims?: SubclaimResult[];
+	/** Debate rounds so far, when split agents are debating */
+	debateRounds?: DebateRound[];
+	/** Set once verification has completed */
+	result?: VerificationResult;
+	/** Set when the check was cancelled before completing */
+	cancelled?: boolean;
+}
+
+/**
+ * Fold a verification event into the list of in-flight verifications
+ */
+export function applyVerificationEvent(
+	progress: VerificationProgress[],
+	event: VerificationEvent,
+): VerificationProgress[] {
+	if (event.type === "started") {
+		return [
+			...progress,
+			{
+				statementId: event.statementId,
+				statement: event.statement,
+				expectedAgents: event.expectedAgents,
+				agents: [],
+				expectedSubclaims: event.subclaims,
+			},
+		];
+	}
+
+	return progress.map((entry) => {
+		if (entry.statementId !== event.statementId) return entry;
+		switch (event.type) {
+			case "evidence":
+				return { ...entry, evidence: event.evidence };
+			case "agent_result":
+				return { ...entry, agents: [...entry.agents, event.agent] };
+			case "subclaim_result":
+				return {
+					...entry,
+					subclaims: [...(entry.subclaims ?? []), event.subclaim],
+				};
+			case "debate_round":
+				return {
+					...entry,
+					agents: event.round.agents,
+					debateRounds: [...(entry.debateRounds ?? []), event.round],
+				};
+			case "provisional_consensus":
+			case "final_consensus":
+				return { ...entry, provisionalConsensus: event.consensus };
+			case "completed":
+				return { ...entry, agents: event.result.agents, result: event.result };
+			default:
+				return entry;
+		}
+	});
 }
 
 /**
@@ -49,51 +270,249 @@ export class VerificationService {
 	}
 
 	/**
-	 * Verify a declarative statement across all agents
+	 * Verify a declarative statement across all enabled agents
 	 */
-	async verifyStatement(statement: string): Promise<VerificationResult> {
-		const statementId = crypto.randomUUID();
+	async verifyStatement(
+		statement: string,
+		options: VerifyStatementOptions = {},
+	): Promise<VerificationResult> {
+		const stream = this.verifyStatementStream(statement, options);
+		let next = await stream.next();
+		while (!next.done) {
+			next = await stream.next();
+		}
+		return next.value;
+	}
+
+	/**
+	 * Verify a statement, emitting each agent result as it arrives, a
+	 * provisional consensus after every vote, and finally the consensus
+	 * and correction
+	 */
+	async *verifyStatementStream(
+		statement: string,
+		options: VerifyStatementOptions = {},
+	): AsyncGenerator<VerificationEvent, VerificationResult, undefined> {
+		const statementId = options.statementId ?? crypto.randomUUID();
+		options.signal?.throwIfAborted();
 		console.log(`🔍 [VERIFICATION START] Statement: "${statement}"`);
 		console.log(`   📋 Statement ID: ${statementId}`);
 
-		// Run all agent verifications in parallel
-		console.log("   🤖 Querying all agents in parallel...");
-		const [
-			claudeResult,
-			fetchAIResult,
-			geminiResult,
-			brightDataResult,
-			llamaResult,
-		] = await Promise.all([
-			this.verifyWithClaude(statement),
-			this.verifyWithFetchAI(statement),
-			this.verifyWithGemini(statement),
-			this.verifyWithBrightData(statement),
-			this.verifyWithLlama(statement),
-		]);
-
-		const agents: VerificationAgent[] = [
-			claudeResult,
-			fetchAIResult,
-			geminiResult,
-			brightDataResult,
-			llamaResult,
-		];
+		// Instruction-like speech is still checked, but its verdict can't be
+		// trusted. A rewrite can drop what the speaker said, so the original
+		// is checked too
+		const injection = detectInjection(
+			statement,
+			...(options.originalStatement ? [options.originalStatement] : []),
+		);
+		const quarantine: Quarantine | undefined = injection
+			? { ...injection, detectedAt: new Date().toISOString() }
+			: undefined;
+		if (quarantine) {
+			console.warn(
+				`   🛡️ Possible prompt injection (${quarantine.patterns.join(", ")}); verdict will be quarantined`,
+			);
+		}
 
-		// Log individual agent results
-		console.log("   📊 Agent Results:");
-		for (const agent of agents) {
+		// Time-sensitive verdicts are labelled with the day they hold for
+		const asOf = options.asOf ?? calendarDate();
+		const temporal = TemporalAwarenessService.classify(statement, asOf);
+		const verdictDate = temporal.timeSensitive ? asOf : undefined;
+		if (verdictDate) {
 			console.log(
-				`      ${agent.name}: ${agent.verdict.toUpperCase()} (confidence: ${Math.round(agent.confidence * 100)}%)`,
+				`   🕒 Time-sensitive (${temporal.cues.join(", ")}); judged as of ${verdictDate}`,
+			);
+		}
+
+		// Deterministic agents answer first, ahead of claim memory, since a
+		// fact sheet's ground truths outrank any remembered verdict. A
+		// definitive verdict settles the statement without decomposition,
+		// evidence or the remote agents
+		const providers = AgentRegistry.getEnabledProviders(options.sessionId);
+		const deterministic = new Map<number, VerificationAgent>();
+		for (const [index, provider] of providers.entries()) {
+			if (provider.capabilities.includes("deterministic")) {
+				deterministic.set(
+					index,
+					await this.runAgent(provider, statement, options, {}),
+				);
+			}
+		}
+		options.signal?.throwIfAborted();
+		const settledBy = [...deterministic.values()].find(
+			(agent) => agent.status === "voted" && agent.definitive,
+		);
+		if (settledBy) {
+			return yield* this.settledStream(
+				statement,
+				statementId,
+				providers,
+				deterministic,
+				settledBy,
+				quarantine,
+				verdictDate,
 			);
 		}
 
+		// Reuse the verdict of a recently verified (near-)identical claim
+		if (!options.skipClaimMemory && !quarantine) {
+			const memory = await ClaimMemoryService.lookup(statement);
+			options.signal?.throwIfAborted();
+			if (memory) {
+				console.log(
+					`   🧠 Claim memory ${memory.cached.match} hit (${Math.round(memory.cached.similarity * 100)}% similar, verified ${memory.cached.verifiedAt})`,
+				);
+				const result: VerificationResult = {
+					...memory.result,
+					statementId,
+					requestMetadata: createRequestMetadata(),
+					cached: memory.cached,
+				};
+				yield {
+					type: "started",
+					statementId,
+					statement,
+					expectedAgents: result.agents.map((a) => a.name),
+				};
+				yield { type: "cache_hit", statementId, cached: memory.cached };
+				yield {
+					type: "final_consensus",
+					statementId,
+					consensus: result.lavaGatewayConsensus,
+				};
+				yield { type: "completed", statementId, result };
+				return result;
+			}
+		}
+
+		// Verify each atomic claim of a compound statement on its own
+		// Quarantined speech isn't sent for decomposition
+		if (options.decompose !== false && !quarantine) {
+			const subclaims = await ClaimDecompositionService.decompose(
+				statement,
+				options.signal,
+			);
+			options.signal?.throwIfAborted();
+			if (subclaims.length > 1) {
+				return yield* this.verifyCompoundStream(
+					statement,
+					statementId,
+					subclaims,
+					options,
+				);
+			}
+		}
+
+		// Run all enabled agent verifications in parallel
+		console.log(`   🤖 Querying ${providers.length} agents in parallel...`);
+		yield {
+			type: "started",
+			statementId,
+			statement,
+			expectedAgents: providers.map((p) => p.name),
+		};
+
+		// Results are kept in provider order regardless of arrival order
+		const results: VerificationAgent[] = new Array(providers.length);
+		const arrived: VerificationAgent[] = [];
+		for (const [index, agent] of deterministic) {
+			results[index] = agent;
+			arrived.push(agent);
+			this.logAgent(agent);
+			yield { type: "agent_result", statementId, agent };
+		}
+
+		// Search once so every agent reasons over the same evidence
+		const evidenceMetadata = createRequestMetadata();
+		const evidence = await EvidenceRetrievalService.retrieve(statement, {
+			signal: options.signal,
+			metadata: evidenceMetadata,
+		});
+		options.signal?.throwIfAborted();
+		console.log(
+			`   📚 ${evidence.length} evidence snippets${evidence.length > 0 ? ` from ${evidence[0].source}` : ""}`,
+		);
+		yield { type: "evidence", statementId, evidence };
+
+		const pending = new Map<
+			number,
+			Promise<{ index: number; agent: VerificationAgent }>
+		>();
+		for (const [index, provider] of providers.entries()) {
+			if (deterministic.has(index)) continue;
+			pending.set(
+				index,
+				this.runAgent(provider, statement, options, { evidence }).then(
+					(agent) => ({ index, agent }),
+				),
+			);
+		}
+
+		while (pending.size > 0) {
+			const { index, agent } = await Promise.race(pending.values());
+			pending.delete(index);
+			options.signal?.throwIfAborted();
+			results[index] = agent;
+			arrived.push(agent);
+
+			this.logAgent(agent);
+			yield { type: "agent_result", statementId, agent };
+
+			// Only report a provisional verdict once enough agents have voted
+			if (!ConsensusService.checkQuorum(arrived, options.sessionId)) {
+				yield {
+					type: "provisional_consensus",
+					statementId,
+					consensus: ConsensusService.calculate(arrived, options.sessionId),
+					pendingAgents: pending.size,
+				};
+			}
+		}
+
+		// Split agents may talk it over before their votes are combined
+		let agents = results;
+		let debate: DebateTranscript | undefined;
+		let debateCalls: VerificationAgent[] = [];
+		const debateRule = ConsensusService.getConfig(options.sessionId).debate;
+		if (
+			debateRule.enabled &&
+			debateRule.maxRounds > 0 &&
+			isSplitDecision(results)
+		) {
+			({
+				agents,
+				debate,
+				calls: debateCalls,
+			} = yield* this.debateStream(
+				statement,
+				statementId,
+				providers,
+				results,
+				evidence,
+				debateRule.maxRounds,
+				options,
+			));
+		}
+
 		// Get consensus from Lava Gateway
 		console.log("   🔄 Computing Lava Gateway consensus...");
-		const lavaGatewayConsensus = await this.getLavaGatewayConsensus(agents);
+		const gatewayMetadata = createRequestMetadata();
+		const lavaGatewayConsensus = await this.getLavaGatewayConsensus(
+			agents,
+			options.sessionId,
+			options.signal,
+			gatewayMetadata,
+		);
+		options.signal?.throwIfAborted();
 		console.log(
-			`   ✅ Consensus: ${lavaGatewayConsensus.verdict.toUpperCase()} (score: ${Math.round(lavaGatewayConsensus.consensusScore * 100)}%)`,
+			`   ✅ Consensus: ${lavaGatewayConsensus.verdict.toUpperCase()} (score: ${Math.round(lavaGatewayConsensus.consensusScore * 100)}%, strategy: ${lavaGatewayConsensus.strategy})`,
 		);
+		console.log(`   🧮 ${lavaGatewayConsensus.explanation}`);
+		yield {
+			type: "final_consensus",
+			statementId,
+			consensus: lavaGatewayConsensus,
+		};
 
 		// Determine final verdict
 		const isFalse = lavaGatewayConsensus.verdict === "false";
@@ -102,452 +521,572 @@ export class VerificationService {
 				? "verified_true"
 				: lavaGatewayConsensus.verdict === "false"
 					? "verified_false"
-					: "inconclusive";
+					: lavaGatewayConsensus.verdict === "insufficient_quorum"
+						? "insufficient_quorum"
+						: "inconclusive";
 
 		console.log(
-			`   🎯 Final Verdict: ${consensus.toUpperCase()} (isFalse: ${isFalse})`,
+			`   🎯 Final Verdict: ${consensus.toUpperCase()}${lavaGatewayConsensus.rating ? ` (${RATING_LABELS[lavaGatewayConsensus.rating]})` : ""} (isFalse: ${isFalse})`,
 		);
 
 		// If statement is false, generate correct information
 		const correctionData = isFalse
-			? await this.generateCorrectInformation(statement, agents)
+			? await this.generateCorrectInformation(
+					statement,
+					agents,
+					options.signal,
+					gatewayMetadata,
+				)
 			: { correctInformation: undefined, citations: undefined };
+		options.signal?.throwIfAborted();
 
 		if (isFalse && correctionData.correctInformation) {
 			console.log(`   📝 Correction: ${correctionData.correctInformation}`);
+			yield {
+				type: "correction",
+				statementId,
+				correctInformation: correctionData.correctInformation,
+				citations: correctionData.citations,
+			};
 		}
 
 		console.log(`✅ [VERIFICATION COMPLETE] Statement ID: ${statementId}`);
 
-		return {
+		// The sources behind the verdict are those of the agents that reached it
+		const citationChecks = uniqueChecks(
+			agents
+				.filter((a) => a.verdict === lavaGatewayConsensus.verdict)
+				.flatMap((a) => a.citationChecks ?? []),
+		);
+
+		const result: VerificationResult = {
 			statementId,
 			isFalse,
 			consensus,
+			rating: lavaGatewayConsensus.rating,
 			correctInformation: correctionData.correctInformation,
 			citations: correctionData.citations,
+			citationChecks: citationChecks.length > 0 ? citationChecks : undefined,
+			citationQuality: citationQuality(citationChecks),
 			agents,
 			lavaGatewayConsensus,
+			evidence: evidence.length > 0 ? evidence : undefined,
+			requestMetadata: mergeRequestMetadata([
+				evidenceMetadata,
+				...[...new Set([...results, ...debateCalls])].map(
+					(a) => a.requestMetadata,
+				),
+				gatewayMetadata,
+			]),
+			quarantine,
+			debate,
+			asOf: verdictDate,
 		};
+		if (
+			result.requestMetadata.retries > 0 ||
+			result.requestMetadata.throttleDelayMs > 0
+		) {
+			console.log(
+				`   ↻ ${result.requestMetadata.retries} retries, ${Math.round(result.requestMetadata.throttleDelayMs)}ms throttled`,
+			);
+		}
+		ClaimMemoryService.remember(statement, result);
+		yield { type: "completed", statementId, result };
+		return result;
 	}
 
 	/**
-	 * Verify statement using Claude (Anthropic)
+	 * Finish a statement settled by a deterministic agent's definitive
+	 * verdict; its working doubles as the correction
 	 */
-	private async verifyWithClaude(
+	private async *settledStream(
 		statement: string,
-	): Promise<VerificationAgent> {
-		if (!apiConfig.anthropic.apiKey) {
-			return {
-				name: "Claude (Anthropic)",
-				verdict: "inconclusive",
-				confidence: 0,
-				reasoning: "API key not configured",
-			};
-		}
+		statementId: string,
+		providers: VerificationAgentProvider[],
+		deterministic: Map<number, VerificationAgent>,
+		settledBy: VerificationAgent,
+		quarantine: Quarantine | undefined,
+		asOf: string | undefined,
+	): AsyncGenerator<VerificationEvent, VerificationResult, undefined> {
+		console.log(`   🧮 Settled by ${settledBy.name}; remote agents skipped`);
+		yield {
+			type: "started",
+			statementId,
+			statement,
+			expectedAgents: providers.map((p) => p.name),
+		};
 
-		try {
-			const response = await fetch(
-				`${apiConfig.anthropic.baseUrl}/v1/messages`,
-				{
-					method: "POST",
-					headers: {
-						"x-api-key": apiConfig.anthropic.apiKey,
-						"anthropic-version": "2023-06-01",
-						"Content-Type": "application/json",
-					},
-					body: JSON.stringify({
-						model: apiConfig.anthropic.model,
-						max_tokens: 1024,
-						messages: [
-							{
-								role: "user",
-								content: `You are a fact-checking expert. Analyze this statement and determine if it is factually TRUE or FALSE. If you cannot determine with confidence, respond INCONCLUSIVE.
-
-Statement: "${statement}"
-
-Respond in JSON format:
-{
-  "verdict": "true" | "false" | "inconclusive",
-  "confidence": 0.0-1.0,
-  "reasoning": "brief explanation"
-}`,
-							},
-						],
-					}),
+		const agents = providers.map(
+			(provider, index): VerificationAgent =>
+				deterministic.get(index) ?? {
+					name: provider.name,
+					status: "abstained",
+					verdict: "inconclusive",
+					confidence: 0,
+					reasoning: `Not needed; settled by ${settledBy.name}`,
 				},
-			);
-
-			if (!response.ok) {
-				throw new Error(`Claude API error: ${response.statusText}`);
-			}
+		);
+		for (const agent of agents) {
+			this.logAgent(agent);
+			yield { type: "agent_result", statementId, agent };
+		}
 
-			const data = await response.json();
-			const result = JSON.parse(data.content[0].text);
+		const lavaGatewayConsensus = ConsensusService.settle(agents, settledBy);
+		console.log(`   🧮 ${lavaGatewayConsensus.explanation}`);
+		yield {
+			type: "final_consensus",
+			statementId,
+			consensus: lavaGatewayConsensus,
+		};
 
-			return {
-				name: "Claude (Anthropic)",
-				verdict: result.verdict,
-				confidence: result.confidence,
-				reasoning: result.reasoning,
-			};
-		} catch (error) {
-			console.error("Claude verification error:", error);
-			return {
-				name: "Claude (Anthropic)",
-				verdict: "inconclusive",
-				confidence: 0,
-				reasoning: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-			};
+		const isFalse = lavaGatewayConsensus.verdict === "false";
+		const correctInformation = isFalse ? settledBy.reasoning : undefined;
+		if (correctInformation) {
+			yield { type: "correction", statementId, correctInformation };
 		}
+
+		const result: VerificationResult = {
+			statementId,
+			isFalse,
+			consensus: isFalse
+				? "verified_false"
+				: lavaGatewayConsensus.verdict === "true"
+					? "verified_true"
+					: "inconclusive",
+			rating: lavaGatewayConsensus.rating,
+			correctInformation,
+			agents,
+			lavaGatewayConsensus,
+			requestMetadata: createRequestMetadata(),
+			quarantine,
+			asOf,
+		};
+		console.log(`✅ [VERIFICATION COMPLETE] Statement ID: ${statementId}`);
+		ClaimMemoryService.remember(statement, result);
+		yield { type: "completed", statementId, result };
+		return result;
 	}
 
 	/**
-	 * Verify statement using Fetch.ai (Agentverse and ASI:ONE)
+	 * Verify the subclaims of a compound statement in parallel and roll
+	 * their verdicts up into one
 	 */
-	private async verifyWithFetchAI(
+	private async *verifyCompoundStream(
 		statement: string,
-	): Promise<VerificationAgent> {
-		if (!apiConfig.fetchAI.apiKey) {
-			return {
-				name: "Fetch.ai",
-				verdict: "inconclusive",
-				confidence: 0,
-				reasoning: "API key not configured",
-			};
-		}
+		statementId: string,
+		subclaims: string[],
+		options: VerifyStatementOptions,
+	): AsyncGenerator<VerificationEvent, VerificationResult, undefined> {
+		console.log(`   ✂️ Verifying ${subclaims.length} subclaims separately`);
+		yield {
+			type: "started",
+			statementId,
+			statement,
+			expectedAgents: [],
+			subclaims,
+		};
 
-		try {
-			// Try Agentverse first
-			const response = await fetch(
-				`${apiConfig.fetchAI.agentverseUrl}/v1/verify`,
-				{
-					method: "POST",
-					headers: {
-						Authorization: `Bearer ${apiConfig.fetchAI.apiKey}`,
-						"Content-Type": "application/json",
-					},
-					body: JSON.stringify({
-						statement,
-						task: "fact_verification",
-					}),
-				},
+		const pending = new Map(
+			subclaims.map((claim, index) => [
+				index,
+				this.verifyStatement(claim, {
+					sessionId: options.sessionId,
+					signal: options.signal,
+					skipClaimMemory: options.skipClaimMemory,
+					decompose: false,
+					asOf: options.asOf,
+				}).then((result) => ({ index, subclaim: { claim, result } })),
+			]),
+		);
+		// Subclaims are kept in statement order regardless of arrival order
+		const results: SubclaimResult[] = new Array(subclaims.length);
+
+		while (pending.size > 0) {
+			const { index, subclaim } = await Promise.race(pending.values());
+			pending.delete(index);
+			options.signal?.throwIfAborted();
+			results[index] = subclaim;
+			console.log(
+				`      "${subclaim.claim}": ${subclaim.result.consensus.toUpperCase()}`,
 			);
+			yield { type: "subclaim_result", statementId, subclaim };
+		}
 
-			if (!response.ok) {
-				throw new Error(`Fetch.ai API error: ${response.statusText}`);
-			}
-
-			const data = await response.json();
+		const { compound, consensus, rating, lavaGatewayConsensus, deciding } =
+			ClaimDecompositionService.rollUp(results);
+		console.log(`   🎯 Compound Verdict: ${compound.summary}`);
+		yield {
+			type: "final_consensus",
+			statementId,
+			consensus: lavaGatewayConsensus,
+		};
 
-			return {
-				name: "Fetch.ai",
-				verdict: data.verdict || "inconclusive",
-				confidence: data.confidence || 0.8,
-				reasoning: data.reasoning || "Fetch.ai agent verification",
-			};
-		} catch (error) {
-			console.error("Fetch.ai verification error:", error);
-			return {
-				name: "Fetch.ai",
-				verdict: "inconclusive",
-				confidence: 0,
-				reasoning: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+		const falseClaims = results.filter(
+			(s) => s.result.consensus === "verified_false",
+		);
+		const corrections = falseClaims
+			.map((s) => s.result.correctInformation)
+			.filter((text): text is string => Boolean(text));
+		const correctInformation =
+			corrections.length > 0 ? corrections.join(" ") : undefined;
+		const citations = [
+			...new Set(falseClaims.flatMap((s) => s.result.citations ?? [])),
+		];
+		const citationChecks = uniqueChecks(
+			results.flatMap((s) => s.result.citationChecks ?? []),
+		);
+		if (correctInformation) {
+			yield {
+				type: "correction",
+				statementId,
+				correctInformation,
+				citations,
 			};
 		}
+
+		const result: VerificationResult = {
+			statementId,
+			isFalse: consensus === "verified_false",
+			consensus,
+			rating,
+			correctInformation,
+			citations: citations.length > 0 ? citations : undefined,
+			citationChecks: citationChecks.length > 0 ? citationChecks : undefined,
+			citationQuality: citationQuality(citationChecks),
+			// The deciding subclaim's agents stand for the statement
+			agents: deciding.result.agents,
+			lavaGatewayConsensus,
+			requestMetadata: mergeRequestMetadata(
+				results.map((s) => s.result.requestMetadata),
+			),
+			quarantine: results.find((s) => s.result.quarantine)?.result.quarantine,
+			subclaims: results,
+			compound,
+			asOf: results.find((s) => s.result.asOf)?.result.asOf,
+		};
+		ClaimMemoryService.remember(statement, result);
+		yield { type: "completed", statementId, result };
+		return result;
 	}
 
 	/**
-	 * Verify statement using Gemini (Google)
+	 * Ask the agents that can debate to reconsider, round by round, until
+	 * they stop splitting between true and false, nobody changes their
+	 * answer, or the round limit is reached
 	 */
-	private async verifyWithGemini(
+	private async *debateStream(
 		statement: string,
-	): Promise<VerificationAgent> {
-		if (!apiConfig.gemini.apiKey) {
-			return {
-				name: "Gemini (Google)",
-				verdict: "inconclusive",
-				confidence: 0,
-				reasoning: "API key not configured",
-			};
-		}
-
-		try {
-			const response = await fetch(
-				`${apiConfig.gemini.baseUrl}/v1beta/models/${apiConfig.gemini.model}:generateContent?key=${apiConfig.gemini.apiKey}`,
-				{
-					method: "POST",
-					headers: {
-						"Content-Type": "application/json",
-					},
-					body: JSON.stringify({
-						contents: [
-							{
-								parts: [
-									{
-										text: `You are a fact-checking expert. Analyze this statement and determine if it is factually TRUE or FALSE. If you cannot determine with confidence, respond INCONCLUSIVE.
-
-Statement: "${statement}"
-
-Respond in JSON format:
-{
-  "verdict": "true" | "false" | "inconclusive",
-  "confidence": 0.0-1.0,
-  "reasoning": "brief explanation"
-}`,
-									},
-								],
-							},
-						],
-						generationConfig: {
-							temperature: 0.1,
-							maxOutputTokens: 1024,
-						},
-					}),
-				},
+		statementId: string,
+		providers: VerificationAgentProvider[],
+		opening: VerificationAgent[],
+		evidence: EvidenceSnippet[],
+		maxRounds: number,
+		options: VerifyStatementOptions,
+	): AsyncGenerator<
+		VerificationEvent,
+		{
+			agents: VerificationAgent[];
+			debate: DebateTranscript;
+			/** Every answer given in the debate, for request metadata */
+			calls: VerificationAgent[];
+		},
+		undefined
+	> {
+		console.log(`   🗣️ Agents split; debating for up to ${maxRounds} rounds`);
+		const rounds: DebateRound[] = [{ round: 0, agents: opening, revised: [] }];
+		const calls: VerificationAgent[] = [];
+		let agents = opening;
+		let ending: DebateEnding = "max_rounds";
+
+		for (let round = 1; round <= maxRounds; round++) {
+			// Labels follow provider order, so each agent keeps its label
+			const peers = agents.map(toDebatePeer);
+			const answers = await Promise.all(
+				agents.map(async (agent, index) => {
+					const provider = providers[index];
+					if (
+						agent.status !== "voted" ||
+						!provider.capabilities.includes("debate")
+					) {
+						return agent;
+					}
+					const debate: DebateContext = {
+						round,
+						previous: peers[index],
+						peers: peers.filter(
+							(_, other) => other !== index && agents[other].status === "voted",
+						),
+					};
+					const answer = await this.runAgent(provider, statement, options, {
+						evidence,
+						debate,
+					});
+					calls.push(answer);
+					// An agent that can't answer stands by its previous answer
+					return answer.status === "voted" ? answer : agent;
+				}),
+			);
+			options.signal?.throwIfAborted();
+
+			const revised = answers
+				.filter((answer, index) => hasRevised(agents[index], answer))
+				.map((answer) => answer.name);
+			agents = answers;
+			const entry: DebateRound = { round, agents, revised };
+			rounds.push(entry);
+			console.log(
+				`      Round ${round}: ${revised.length > 0 ? `${revised.join(", ")} revised` : "no revisions"}`,
 			);
+			yield { type: "debate_round", statementId, round: entry };
+			yield {
+				type: "provisional_consensus",
+				statementId,
+				consensus: ConsensusService.calculate(agents, options.sessionId),
+				pendingAgents: 0,
+			};
 
-			if (!response.ok) {
-				throw new Error(`Gemini API error: ${response.statusText}`);
+			if (!isSplitDecision(agents)) {
+				ending = "agreement";
+				break;
 			}
+			if (revised.length === 0) {
+				ending = "stalemate";
+				break;
+			}
+		}
 
-			const data = await response.json();
-			const text = data.candidates[0].content.parts[0].text;
-			const result = JSON.parse(text);
+		console.log(
+			`   🗣️ Debate ended: ${ending} after ${rounds.length - 1} rounds`,
+		);
+		return { agents, debate: { rounds, ending }, calls };
+	}
 
+	/**
+	 * Run a single agent within its timeout budget, skipping the call when
+	 * its config is incomplete or its circuit is open
+	 */
+	private async runAgent(
+		provider: VerificationAgentProvider,
+		statement: string,
+		options: VerifyStatementOptions,
+		{ evidence = [], debate }: Pick<AgentVerifyContext, "evidence" | "debate">,
+	): Promise<VerificationAgent> {
+		const missingKeys = AgentRegistry.getMissingKeys(provider);
+		if (missingKeys.length > 0) {
 			return {
-				name: "Gemini (Google)",
-				verdict: result.verdict,
-				confidence: result.confidence,
-				reasoning: result.reasoning,
-			};
-		} catch (error) {
-			console.error("Gemini verification error:", error);
-			return {
-				name: "Gemini (Google)",
+				name: provider.name,
+				status: "abstained",
 				verdict: "inconclusive",
 				confidence: 0,
-				reasoning: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+				reasoning: `API key not configured (${missingKeys.join(", ")})`,
 			};
 		}
-	}
 
-	/**
-	 * Verify statement using Llama through Lava Gateway
-	 */
-	private async verifyWithLlama(statement: string): Promise<VerificationAgent> {
-		if (!apiConfig.lavaGateway.apiKey) {
+		const circuitKey = AgentRegistry.getCircuitKey(provider);
+		if (!CircuitBreakerService.canRequest(circuitKey)) {
+			const circuit = CircuitBreakerService.getStatus(circuitKey);
 			return {
-				name: "Llama (Lava Portal)",
+				name: provider.name,
+				status: "abstained",
 				verdict: "inconclusive",
 				confidence: 0,
-				reasoning: "Lava Gateway API key not configured",
+				reasoning: `Circuit open after ${circuit.consecutiveFailures} failures, retrying after ${new Date(circuit.openUntil ?? Date.now()).toLocaleTimeString()}`,
 			};
 		}
 
-		try {
-			const response = await fetch(
-				`${apiConfig.lavaGateway.baseUrl}/v1/llama/verify`,
-				{
-					method: "POST",
-					headers: {
-						Authorization: `Bearer ${apiConfig.lavaGateway.apiKey}`,
-						"Content-Type": "application/json",
-					},
-					body: JSON.stringify({
-						statement,
-						model: "llama-3.3-70b",
-						include_citations: true,
-						prompt: `You are a fact-checking expert. Analyze this statement and determine if it is factually TRUE or FALSE. Provide citations from reliable sources.
-
-Statement: "${statement}"
-
-Respond in JSON format:
-{
-  "verdict": "true" | "false" | "inconclusive",
-  "confidence": 0.0-1.0,
-  "reasoning": "brief explanation",
-  "citations": ["source1", "source2"]
-}`,
-					}),
-				},
-			);
+		const asOf = options.asOf ?? calendarDate();
+		const { timeSensitive } = TemporalAwarenessService.classify(
+			statement,
+			asOf,
+		);
+		const timeoutMs = AgentRegistry.getTimeoutBudget(provider);
+		// Rate limit waits don't count, so a timeout is always the provider's
+		const budget = timeoutBudget(timeoutMs, options.signal);
+		const { signal } = budget;
+		const config = AgentRegistry.resolveConfig(provider);
+		const requestMetadata = createRequestMetadata();
+		const timedOut: VerificationAgent = {
+			name: provider.name,
+			status: "errored",
+			verdict: "inconclusive",
+			confidence: 0,
+			reasoning: `Timed out after ${timeoutMs / 1000}s`,
+			requestMetadata,
+		};
 
-			if (!response.ok) {
-				throw new Error(`Lava Gateway Llama API error: ${response.statusText}`);
-			}
+		// Don't wait on providers that ignore the abort signal
+		const result = await Promise.race([
+			provider.verify(statement, {
+				sessionId: options.sessionId,
+				config,
+				signal,
+				http: HttpClient.bind({
+					provider: provider.configSection,
+					apiKey: (config as { apiKey?: string }).apiKey,
+					metadata: requestMetadata,
+					budget,
+				}),
+				evidence,
+				debate,
+				asOf,
+				timeSensitive,
+			}),
+			new Promise<VerificationAgent>((resolve) => {
+				signal.addEventListener("abort", () => resolve(timedOut), {
+					once: true,
+				});
+			}),
+		]);
+		budget.clear();
+		const agent = {
+			...this.resolveEvidence(result, evidence),
+			requestMetadata,
+		};
 
-			const data = await response.json();
+		// Cancellation says nothing about the provider's health
+		if (options.signal?.aborted) {
+			return agent;
+		}
 
-			// Try to parse the response
-			const result =
-				typeof data.response === "string" ? JSON.parse(data.response) : data;
+		if (signal.aborted) {
+			CircuitBreakerService.recordFailure(circuitKey, timedOut.reasoning);
+			return timedOut;
+		}
 
-			return {
-				name: "Llama (Lava Portal)",
-				verdict: result.verdict,
-				confidence: result.confidence,
-				reasoning: result.reasoning,
-				citations: result.citations || [],
-			};
-		} catch (error) {
-			console.error("Llama verification error:", error);
-			return {
-				name: "Llama (Lava Portal)",
-				verdict: "inconclusive",
-				confidence: 0,
-				reasoning: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-			};
+		if (agent.status === "errored") {
+			CircuitBreakerService.recordFailure(circuitKey, agent.reasoning);
+		} else if (agent.status === "voted") {
+			CircuitBreakerService.recordSuccess(circuitKey);
 		}
+		// Checked after the timeout budget, which covers only the provider
+		return TemporalAwarenessService.discount(
+			provider,
+			await CitationValidationService.annotate(
+				agent,
+				statement,
+				options.signal,
+			),
+			timeSensitive,
+		);
+	}
+
+	private logAgent(agent: VerificationAgent): void {
+		console.log(
+			agent.status === "voted"
+				? `      ${agent.name}: ${agent.verdict.toUpperCase()} (confidence: ${Math.round(agent.confidence * 100)}%)`
+				: `      ${agent.name}: ${agent.status.toUpperCase()} (${agent.reasoning})`,
+		);
 	}
 
 	/**
-	 * Verify statement using Bright Data
+	 * Keep only evidence IDs that were retrieved and cite their URLs
 	 */
-	private async verifyWithBrightData(
-		statement: string,
-	): Promise<VerificationAgent> {
-		if (!apiConfig.brightData.apiKey) {
-			return {
-				name: "Bright Data",
-				verdict: "inconclusive",
-				confidence: 0,
-				reasoning: "API key not configured",
-			};
-		}
-
-		try {
-			// Use Bright Data's web scraping to search for factual information
-			const response = await fetch(
-				`${apiConfig.brightData.baseUrl}/v1/search`,
-				{
-					method: "POST",
-					headers: {
-						Authorization: `Bearer ${apiConfig.brightData.apiKey}`,
-						"Content-Type": "application/json",
-					},
-					body: JSON.stringify({
-						query: statement,
-						num_results: 5,
-					}),
-				},
-			);
-
-			if (!response.ok) {
-				throw new Error(`Bright Data API error: ${response.statusText}`);
-			}
-
-			const data = await response.json();
-
-			// Analyze search results to determine verdict
-			// This is a simplified implementation
-			const hasResults = data.results && data.results.length > 0;
-
-			return {
-				name: "Bright Data",
-				verdict: hasResults ? "true" : "inconclusive",
-				confidence: hasResults ? 0.75 : 0.3,
-				reasoning: hasResults
-					? "Found supporting web sources"
-					: "No conclusive web sources found",
-			};
-		} catch (error) {
-			console.error("Bright Data verification error:", error);
-			return {
-				name: "Bright Data",
-				verdict: "inconclusive",
-				confidence: 0,
-				reasoning: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-			};
-		}
+	private resolveEvidence(
+		agent: VerificationAgent,
+		evidence: EvidenceSnippet[],
+	): VerificationAgent {
+		if (!agent.evidenceIds) return agent;
+		const cited = citedEvidence(evidence, agent.evidenceIds);
+		return {
+			...agent,
+			evidenceIds: cited.map((snippet) => snippet.id),
+			citations: [
+				...new Set([
+					...cited.map((snippet) => snippet.url),
+					...(agent.citations ?? []),
+				]),
+			],
+		};
 	}
 
 	/**
 	 * Get consensus verdict from Lava Gateway
+	 * Falls back to the session's local consensus strategy
 	 */
-	private async getLavaGatewayConsensus(agents: VerificationAgent[]): Promise<{
-		verdict: "true" | "false" | "inconclusive";
-		consensusScore: number;
-	}> {
-		if (!apiConfig.lavaGateway.apiKey) {
+	private async getLavaGatewayConsensus(
+		agents: VerificationAgent[],
+		sessionId?: string,
+		signal?: AbortSignal,
+		requestMetadata?: RequestMetadata,
+	): Promise<ConsensusOutcome> {
+		const config = ConsensusService.getConfig(sessionId);
+		if (!config.useLavaGateway || !apiConfig.lavaGateway.apiKey) {
 			// Fallback to local consensus logic
-			return this.calculateLocalConsensus(agents);
+			return ConsensusService.calculate(agents, sessionId);
+		}
+
+		// Quorum is enforced before asking Lava, which only sees agents that voted
+		const noQuorum = ConsensusService.checkQuorum(agents, sessionId);
+		if (noQuorum) {
+			return noQuorum;
 		}
 
 		try {
-			const response = await fetch(
+			const response = await HttpClient.fetch(
 				`${apiConfig.lavaGateway.baseUrl}/v1/consensus`,
 				{
 					method: "POST",
+					signal: withTimeout(requestTimeouts.lavaGateway, signal),
 					headers: {
 						Authorization: `Bearer ${apiConfig.lavaGateway.apiKey}`,
 						"Content-Type": "application/json",
 					},
 					body: JSON.stringify({
-						agents: agents.map((a) => ({
-							name: a.name,
-							verdict: a.verdict,
-							confidence: a.confidence,
-						})),
+						agents: agents
+							.filter((a) => a.status === "voted")
+							.map((a) => ({
+								name: a.name,
+								verdict: a.verdict,
+								rating: a.rating,
+								confidence: a.confidence,
+							})),
 					}),
 				},
+				{
+					provider: "lavaGateway",
+					apiKey: apiConfig.lavaGateway.apiKey,
+					metadata: requestMetadata,
+				},
 			);
 
 			if (!response.ok) {
 				throw new Error(`Lava Gateway error: ${response.statusText}`);
 			}
 
-			const data = await response.json();
+			const parsed = parseModelOutput(
+				await response.json(),
+				lavaConsensusResponseSchema,
+			);
+			if (!parsed.success) {
+				throw new Error(`Invalid Lava Gateway response: ${parsed.error}`);
+			}
+			const local = ConsensusService.calculate(agents, sessionId);
 
 			return {
-				verdict: data.verdict,
-				consensusScore: data.score,
+				verdict: parsed.data.verdict,
+				rating: ConsensusService.rate(agents, parsed.data.verdict),
+				consensusScore: parsed.data.score,
+				strategy: "lava_gateway",
+				explanation: `Lava Gateway consensus (local ${local.strategy}: ${local.verdict})`,
+				tally: local.tally,
+				participation: local.participation,
 			};
 		} catch (error) {
+			if (signal?.aborted) throw error;
 			console.error("Lava Gateway consensus error:", error);
 			// Fallback to local consensus
-			return this.calculateLocalConsensus(agents);
+			return ConsensusService.calculate(agents, sessionId);
 		}
 	}
 
-	/**
-	 * Calculate consensus locally (fallback when Lava Gateway unavailable)
-	 */
-	private calculateLocalConsensus(agents: VerificationAgent[]): {
-		verdict: "true" | "false" | "inconclusive";
-		consensusScore: number;
-	} {
-		const falseCount = agents.filter((a) => a.verdict === "false").length;
-		const trueCount = agents.filter((a) => a.verdict === "true").length;
-		const inconclusiveCount = agents.filter(
-			(a) => a.verdict === "inconclusive",
-		).length;
-
-		const totalVotes = agents.length;
-		const consensusThreshold = 0.6; // 60% agreement required
-
-		let verdict: "true" | "false" | "inconclusive" = "inconclusive";
-		let consensusScore = 0;
-
-		if (falseCount / totalVotes >= consensusThreshold) {
-			verdict = "false";
-			consensusScore = falseCount / totalVotes;
-		} else if (trueCount / totalVotes >= consensusThreshold) {
-			verdict = "true";
-			consensusScore = trueCount / totalVotes;
-		} else {
-			consensusScore =
-				Math.max(falseCount, trueCount, inconclusiveCount) / totalVotes;
-		}
-
-		return { verdict, consensusScore };
-	}
-
 	/**
 	 * Generate correct information for false statements
 	 */
 	private async generateCorrectInformation(
 		falseStatement: string,
 		agents: VerificationAgent[],
+		signal?: AbortSignal,
+		requestMetadata?: RequestMetadata,
 	): Promise<{ correctInformation: string; citations: string[] }> {
 		// Aggregate reasoning and citations from agents that marked it as false
 		const falseReasonings = agents
@@ -555,10 +1094,14 @@ Respond in JSON format:
 			.map((a) => a.reasoning)
 			.filter((r): r is string => !!r);
 
-		// Collect all citations from agents
-		const allCitations = agents
-			.filter((a) => a.verdict === "false")
-			.flatMap((a) => a.citations || []);
+		// Collect all citations from agents; invalid ones were dropped in runAgent
+		const allCitations = [
+			...new Set(
+				agents
+					.filter((a) => a.verdict === "false")
+					.flatMap((a) => a.citations || []),
+			),
+		];
 
 		if (falseReasonings.length === 0) {
 			return {
@@ -571,10 +1114,11 @@ Respond in JSON format:
 		// Use Claude to synthesize a correction if available
 		if (apiConfig.anthropic.apiKey) {
 			try {
-				const response = await fetch(
+				const response = await HttpClient.fetch(
 					`${apiConfig.anthropic.baseUrl}/v1/messages`,
 					{
 						method: "POST",
+						signal: withTimeout(requestTimeouts.anthropic, signal),
 						headers: {
 							"x-api-key": apiConfig.anthropic.apiKey,
 							"anthropic-version": "2023-06-01",
@@ -586,16 +1130,24 @@ Respond in JSON format:
 							messages: [
 								{
 									role: "user",
-									content: `This false statement was made: "${falseStatement}"
+									content: `This false statement was made:
+${delimitUntrusted(falseStatement)}
 
 Multiple fact-checkers provided these explanations:
-${falseReasonings.map((r, i) => `${i + 1}. ${r}`).join("\n")}
+${falseReasonings.map((r) => delimitUntrusted(r, "explanation")).join("\n")}
+
+${untrustedDataNotice("statement", "explanation")}
 
 Provide a clear, concise correction (2-3 sentences max) that states the accurate information.`,
 								},
 							],
 						}),
 					},
+					{
+						provider: "anthropic",
+						apiKey: apiConfig.anthropic.apiKey,
+						metadata: requestMetadata,
+					},
 				);
 
 				if (response.ok) {
@@ -606,6 +1158,7 @@ Provide a clear, concise correction (2-3 sentences max) that states the accurate
 					};
 				}
 			} catch (error) {
+				if (signal?.aborted) throw error;
 				console.error("Error generating correction:", error);
 			}
 		}
@@ -0,0 +1,313 @@
+import {
+	type DeclarativeStatementModel,
+	DeclarativeStatementORM,
+	DeclarativeStatementStatementType,
+	DeclarativeStatementVerificationStatus,
+} from "@/components/data/orm/orm_declarative_statement";
+import {
+	type VerificationResultModel,
+	VerificationResultORM,
+} from "@/components/data/orm/orm_verification_result";
+import type { VerificationAgent } from "@/services/agents/types";
+import type { ConsensusOutcome } from "@/services/consensus-service";
+import { createRequestMetadata } from "@/services/http-client";
+import type { ModeratorReview } from "@/services/review-service";
+import type { VerificationResult } from "@/services/verification-service";
+import VerificationStoreService from "@/services/verification-store";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const statement: DeclarativeStatementModel = {
+	id: "statement-1",
+	data_creator: "",
+	data_updater: "",
+	create_time: "1760000000",
+	update_time: "1760000000",
+	user_session_id: "session-1",
+	speaker_id: "alice",
+	original_transcription: "Vaccines cause autism",
+	standalone_statement: "",
+	statement_timestamp: "1760000000",
+	statement_type: DeclarativeStatementStatementType.Declarative,
+	verification_status: DeclarativeStatementVerificationStatus.VerifiedFalse,
+};
+
+const consensus = (
+	overrides: Partial<ConsensusOutcome> = {},
+): ConsensusOutcome => ({
+	verdict: "false",
+	rating: "false",
+	consensusScore: 0.9,
+	strategy: "majority",
+	explanation: "Agents agreed the claim is false",
+	tally: { true: 0, false: 2, inconclusive: 0 },
+	participation: { voted: 2, abstained: 0, errored: 0 },
+	...overrides,
+});
+
+const storedRecord = (
+	outcome: ConsensusOutcome,
+	createTime = "1760000000",
+): VerificationResultModel => ({
+	id: `result-${createTime}`,
+	data_creator: "",
+	data_updater: "",
+	create_time: createTime,
+	update_time: createTime,
+	declarative_statement_id: statement.id,
+	lava_gateway_consensus: JSON.stringify(outcome),
+	is_false_statement: outcome.verdict === "false",
+});
+
+const review = (
+	action: ModeratorReview["action"],
+	verdict: ModeratorReview["verdict"],
+): ModeratorReview => ({
+	action,
+	verdict,
+	note: "",
+	reviewedAt: "2025-10-09T12:00:00.000Z",
+});
+
+/** Statement statuses written, in place of the data store */
+function useStatusLog(): DeclarativeStatementVerificationStatus[] {
+	const statuses: DeclarativeStatementVerificationStatus[] = [];
+	vi.spyOn(
+		DeclarativeStatementORM.getInstance(),
+		"setDeclarativeStatementById",
+	).mockImplementation(async (_id, data) => {
+		statuses.push(data.verification_status);
+		return [data];
+	});
+	vi.spyOn(
+		VerificationResultORM.getInstance(),
+		"setVerificationResultById",
+	).mockImplementation(async (_id, data) => [data]);
+	return statuses;
+}
+
+describe("VerificationStoreService.saveModeration", () => {
+	let statuses: DeclarativeStatementVerificationStatus[];
+
+	beforeEach(() => {
+		vi.restoreAllMocks();
+		statuses = useStatusLog();
+	});
+
+	const moderate = async (
+		outcome: ConsensusOutcome,
+		moderation: ModeratorReview,
+	) => {
+		const saved = await VerificationStoreService.saveModeration(
+			storedRecord(outcome),
+			statement,
+			moderation,
+		);
+		return { saved, result: VerificationStoreService.fromRecord(saved) };
+	};
+
+	it("keeps the agents' rating when a false verdict is confirmed", async () => {
+		const { saved, result } = await moderate(
+			consensus({ rating: "mostly_false" }),
+			review("confirm", "false"),
+		);
+		expect(saved.is_false_statement).toBe(true);
+		expect(statuses).toEqual([
+			DeclarativeStatementVerificationStatus.MostlyFalse,
+		]);
+		expect(result).toMatchObject({
+			isFalse: true,
+			consensus: "verified_false",
+			rating: "mostly_false",
+		});
+	});
+
+	it("rates an overturned verdict plainly", async () => {
+		const { saved, result } = await moderate(
+			consensus(),
+			review("overturn", "true"),
+		);
+		expect(saved.is_false_statement).toBe(false);
+		expect(statuses).toEqual([
+			DeclarativeStatementVerificationStatus.VerifiedTrue,
+		]);
+		expect(result).toMatchObject({
+			isFalse: false,
+			consensus: "verified_true",
+			rating: "true",
+		});
+	});
+
+	it("makes a false verdict that needs context neither true nor false", async () => {
+		const { saved, result } = await moderate(
+			consensus(),
+			review("needs_context", "inconclusive"),
+		);
+		expect(saved.is_false_statement).toBe(false);
+		expect(statuses).toEqual([
+			DeclarativeStatementVerificationStatus.MissingContext,
+		]);
+		expect(result).toMatchObject({
+			isFalse: false,
+			consensus: "inconclusive",
+			rating: "missing_context",
+		});
+	});
+
+	it("reads older needs-context reviews that kept the false verdict the same way", () => {
+		const record: VerificationResultModel = {
+			...storedRecord(consensus()),
+			lava_gateway_consensus: JSON.stringify({
+				...consensus(),
+				moderation: review("needs_context", "false"),
+			}),
+		};
+		expect(VerificationStoreService.fromRecord(record)).toMatchObject({
+			isFalse: false,
+			consensus: "inconclusive",
+			rating: "missing_context",
+		});
+	});
+});
+
+describe("VerificationStoreService.save", () => {
+	let statuses: DeclarativeStatementVerificationStatus[];
+	let inserted: VerificationResultModel[];
+
+	const agent = (name: string): VerificationAgent => ({
+		name,
+		status: "voted",
+		verdict: "false",
+		confidence: 0.8,
+	});
+
+	const result = (
+		overrides: Partial<VerificationResult> = {},
+	): VerificationResult => ({
+		statementId: statement.id,
+		isFalse: true,
+		consensus: "verified_false",
+		agents: [agent("Claude (Anthropic)"), agent("Fact sheet")],
+		lavaGatewayConsensus: consensus(),
+		requestMetadata: createRequestMetadata(),
+		...overrides,
+	});
+
+	beforeEach(() => {
+		vi.restoreAllMocks();
+		vi.spyOn(console, "log").mockImplementation(() => {});
+		statuses = useStatusLog();
+		inserted = [];
+		vi.spyOn(
+			VerificationResultORM.getInstance(),
+			"insertVerificationResult",
+		).mockImplementation(async (data) => {
+			inserted.push(...data);
+			return data.map((record) => ({ ...record, id: "result-saved" }));
+		});
+	});
+
+	it("stores agents in their own columns and reads them back", async () => {
+		const record = await VerificationStoreService.save(statement, result(), {
+			reason: "inconclusive",
+			attempt: 1,
+		});
+
+		expect(record?.id).toBe("result-saved");
+		const [row] = inserted;
+		expect(row.declarative_statement_id).toBe(statement.id);
+		expect(JSON.parse(row.claude_verification ?? "").name).toBe(
+			"Claude (Anthropic)",
+		);
+		expect(
+			JSON.parse(row.lava_gateway_consensus ?? "").otherAgents,
+		).toMatchObject([{ name: "Fact sheet" }]);
+
+		const stored = VerificationStoreService.fromRecord(
+			record as VerificationResultModel,
+		);
+		expect(stored?.agents.map((a) => a.name)).toEqual([
+			"Claude (Anthropic)",
+			"Fact sheet",
+		]);
+		expect(stored).toMatchObject({
+			isFalse: true,
+			consensus: "verified_false",
+			rating: "false",
+		});
+	});
+
+	it.each([
+		[
+			"a graded rating",
+			{ rating: "misleading" },
+			DeclarativeStatementVerificationStatus.Misleading,
+		],
+		[
+			"a true verdict",
+			{ consensus: "verified_true", isFalse: false },
+			DeclarativeStatementVerificationStatus.VerifiedTrue,
+		],
+		[
+			"a false verdict",
+			{},
+			DeclarativeStatementVerificationStatus.VerifiedFalse,
+		],
+		[
+			"an inconclusive verdict",
+			{ consensus: "inconclusive", isFalse: false },
+			DeclarativeStatementVerificationStatus.Inconclusive,
+		],
+		[
+			"a missed quorum",
+			{ consensus: "insufficient_quorum", isFalse: false },
+			DeclarativeStatementVerificationStatus.Inconclusive,
+		],
+		[
+			"a quarantined statement",
+			{
+				rating: "false",
+				quarantine: {
+					patterns: ["override_instructions"],
+					excerpts: ["ignore previous instructions"],
+					detectedAt: "2025-10-09T12:00:00.000Z",
+				},
+			},
+			DeclarativeStatementVerificationStatus.Inconclusive,
+		],
+	] satisfies [
+		string,
+		Partial<VerificationResult>,
+		DeclarativeStatementVerificationStatus,
+	][])("sets the status for %s", async (_name, overrides, status) => {
+		await VerificationStoreService.save(statement, result(overrides));
+		expect(statuses).toEqual([status]);
+	});
+
+	it("still sets the status when the result can't be stored", async () => {
+		vi.spyOn(console, "error").mockImplementation(() => {});
+		vi.spyOn(
+			VerificationResultORM.getInstance(),
+			"insertVerificationResult",
+		).mockRejectedValue(new Error("offline"));
+
+		expect(await VerificationStoreService.save(statement, result())).toBeNull();
+		expect(statuses).toEqual([
+			DeclarativeStatementVerificationStatus.VerifiedFalse,
+		]);
+	});
+
+	it("moves a statement through a check", async () => {
+		await VerificationStoreService.markInProgress(statement);
+		await VerificationStoreService.markFailed(statement);
+		const cancelled = await VerificationStoreService.markCancelled(statement);
+
+		expect(statuses).toEqual([
+			DeclarativeStatementVerificationStatus.InProgress,
+			DeclarativeStatementVerificationStatus.Error,
+			DeclarativeStatementVerificationStatus.Pending,
+		]);
+		expect(cancelled.verification_status).toBe(
+			DeclarativeStatementVerificationStatus.Pending,
+		);
+	});
+});
@@ -0,0 +1,553 @@
+import {
+	type DeclarativeStatementModel,
+	DeclarativeStatementORM,
+	DeclarativeStatementVerificationStatus,
+} from "@/components/data/orm/orm_declarative_statement";
+import {
+	type VerificationResultModel,
+	VerificationResultORM,
+} from "@/components/data/orm/orm_verification_result";
+import type { CitationCheck } from "@/lib/citations";
+import type { DebateTranscript } from "@/lib/debate";
+import { type VerdictRating, ratingForVerdict } from "@/lib/verdict-scale";
+import AgentRegistry from "@/services/agent-registry";
+import type {
+	AgentVerdict,
+	EvidenceSnippet,
+	VerificationAgent,
+} from "@/services/agents/types";
+import type {
+	CompoundVerdict,
+	SubclaimResult,
+} from "@/services/claim-decomposition";
+import type { CachedVerdict } from "@/services/claim-memory";
+import type { ConsensusOutcome } from "@/services/consensus-service";
+import type { ModeratorReview } from "@/services/review-service";
+import type {
+	Quarantine,
+	VerificationResult,
+} from "@/services/verification-service";
+
+/**
+ * Verification Store
+ *
+ * Persists verification results to `verification_result`, linked to their
+ * `declarative_statement` row, and moves the statement's
+ * `verification_status` along as the check runs.
+ *
+ * Each agent with a dedicated column is stored there as JSON. The
+ * consensus column holds the ConsensusOutcome plus anything without a
+ * column of its own: agents added through the registry, the claim
+ * memory match when the verdict was reused, and the quarantine when the
+ * statement looked like a prompt-injection attempt. Compound statements
+ * also keep their subclaim results and roll-up, and debated verdicts
+ * their debate transcript. The evidence the agents were given is kept
+ * too, so their evidence IDs can be resolved later, along with the
+ * credibility checks of the sources behind the verdict and, for
+ * time-sensitive claims, the date the verdict holds for. Quarantined
+ * verdicts leave the statement inconclusive until a moderator rules.
+ */
+
+/**
+ * A verification result as read back from storage
+ */
+export type StoredVerificationResult = Omit<
+	VerificationResult,
+	"statementId" | "requestMetadata"
+>;
+
+/**
+ * Why a statement was verified again
+ */
+export interface ReverificationTrigger {
+	reason: "inconclusive" | "error" | "stale";
+	/** Re-verification attempt for this statement, starting at 1 */
+	attempt: number;
+}
+
+/**
+ * One verdict in a statement's history, oldest first
+ */
+export interface VerdictHistoryEntry {
+	verificationResultId: string;
+	verifiedAt: string;
+	consensus: VerificationResult["consensus"];
+	rating?: VerdictRating;
+	consensusScore: number;
+	explanation?: string;
+	/** Set when the verdict came from a re-verification */
+	reverification?: ReverificationTrigger;
+	/** Set when a moderator reviewed the verdict */
+	moderation?: ModeratorReview;
+	/** Whether the verdict differs from the one before it */
+	changed: boolean;
+}
+
+/**
+ * JSON stored in `lava_gateway_consensus`
+ */
+interface StoredConsensus extends ConsensusOutcome {
+	otherAgents?: VerificationAgent[];
+	cached?: CachedVerdict;
+	reverification?: ReverificationTrigger;
+	moderation?: ModeratorReview;
+	quarantine?: Quarantine;
+	subclaims?: SubclaimResult[];
+	compound?: CompoundVerdict;
+	debate?: DebateTranscript;
+	evidence?: EvidenceSnippet[];
+	citationChecks?: CitationCheck[];
+	citationQuality?: number;
+	asOf?: string;
+}
+
+/** Statement status for each graded verdict */
+const RATING_STATUSES: Record<
+	VerdictRating,
+	DeclarativeStatementVerificationStatus
+> = {
+	true: DeclarativeStatementVerificationStatus.VerifiedTrue,
+	mostly_true: DeclarativeStatementVerificationStatus.MostlyTrue,
+	missing_context: DeclarativeStatementVerificationStatus.MissingContext,
+	misleading: DeclarativeStatementVerificationStatus.Misleading,
+	mostly_false: DeclarativeStatementVerificationStatus.MostlyFalse,
+	false: DeclarativeStatementVerificationStatus.VerifiedFalse,
+	unverifiable: DeclarativeStatementVerificationStatus.Unverifiable,
+};
+
+type AgentColumn =
+	| "claude_verification"
+	| "fetch_ai_verification"
+	| "gemini_verification"
+	| "bright_data_verification";
+
+/** Agent id → column holding that agent's verdict */
+const AGENT_COLUMNS: Record<string, AgentColumn> = {
+	claude: "claude_verification",
+	fetchai: "fetch_ai_verification",
+	gemini: "gemini_verification",
+	brightdata: "bright_data_verification",
+};
+
+/**
+ * The claim verified for a statement: its standalone form when it was
+ * rewritten to stand on its own, otherwise what was said
+ */
+export function checkedClaim(statement: DeclarativeStatementModel): string {
+	return statement.standalone_statement || statement.original_transcription;
+}
+
+/**
+ * Service for persisting verification results and statement status
+ */
+export class VerificationStoreService {
+	private static instance: VerificationStoreService | null = null;
+
+	private constructor() {}
+
+	public static getInstance(): VerificationStoreService {
+		if (!VerificationStoreService.instance) {
+			VerificationStoreService.instance = new VerificationStoreService();
+		}
+		return VerificationStoreService.instance;
+	}
+
+	/**
+	 * Mark a statement as being verified
+	 */
+	markInProgress(
+		statement: DeclarativeStatementModel,
+	): Promise<DeclarativeStatementModel> {
+		return this.setStatus(
+			statement,
+			DeclarativeStatementVerificationStatus.InProgress,
+		);
+	}
+
+	/**
+	 * Mark a statement whose verification failed
+	 */
+	markFailed(
+		statement: DeclarativeStatementModel,
+	): Promise<DeclarativeStatementModel> {
+		return this.setStatus(
+			statement,
+			DeclarativeStatementVerificationStatus.Error,
+		);
+	}
+
+	/**
+	 * Put a cancelled statement back in the queue of unverified statements
+	 */
+	markCancelled(
+		statement: DeclarativeStatementModel,
+	): Promise<DeclarativeStatementModel> {
+		return this.setStatus(
+			statement,
+			DeclarativeStatementVerificationStatus.Pending,
+		);
+	}
+
+	/**
+	 * Write a statement's status back as it was before a check started
+	 */
+	restoreStatus(
+		statement: DeclarativeStatementModel,
+	): Promise<DeclarativeStatementModel> {
+		return this.setStatus(statement, statement.verification_status);
+	}
+
+	/**
+	 * Store a verification result and set the statement's final status
+	 * Returns the stored record, or null if it could not be written
+	 */
+	async save(
+		statement: DeclarativeStatementModel,
+		result: VerificationResult,
+		reverification?: ReverificationTrigger,
+	): Promise<VerificationResultModel | null> {
+		let record: VerificationResultModel | null = null;
+		try {
+			const [inserted] =
+				await VerificationResultORM.getInstance().insertVerificationResult([
+					this.toRecord(
+						statement.id,
+						result,
+						reverification,
+					) as VerificationResultModel,
+				]);
+			record = inserted ?? null;
+			console.log(
+				`💾 Stored verification result ${record?.id} for statement ${statement.id}`,
+			);
+		} catch (error) {
+			console.error("Failed to store verification result:", error);
+		}
+
+		await this.setStatus(statement, this.statusFor(result));
+		return record;
+	}
+
+	/**
+	 * The stored result for a statement, if it has one
+	 * The most recently updated record wins when there are several
+	 */
+	async getResult(
+		declarativeStatementId: string,
+	): Promise<StoredVerificationResult | null> {
+		const records = await this.getRecords(declarativeStatementId);
+		const latest = records[records.length - 1];
+		return latest ? this.fromRecord(latest) : null;
+	}
+
+	/**
+	 * A statement's latest result and when it was reached, in milliseconds
+	 */
+	async getLatest(declarativeStatementId: string): Promise<{
+		result: StoredVerificationResult | null;
+		verifiedAt: number;
+	} | null> {
+		const records = await this.getRecords(declarativeStatementId);
+		const latest = records[records.length - 1];
+		return latest
+			? { result: this.fromRecord(latest), verifiedAt: this.recordTime(latest) }
+			: null;
+	}
+
+	/**
+	 * Every verdict reached for a statement, oldest first
+	 */
+	async getHistory(
+		declarativeStatementId: string,
+	): Promise<VerdictHistoryEntry[]> {
+		const history: VerdictHistoryEntry[] = [];
+		for (const record of await this.getRecords(declarativeStatementId)) {
+			const result = this.fromRecord(record);
+			if (!result) continue;
+
+			const previous = history[history.length - 1];
+			history.push({
+				verificationResultId: record.id,
+				verifiedAt: new Date(this.recordTime(record)).toISOString(),
+				consensus: result.consensus,
+				rating: result.rating,
+				consensusScore: result.lavaGatewayConsensus.consensusScore,
+				explanation: result.lavaGatewayConsensus.explanation,
+				reverification: this.parseConsensus(record)?.reverification,
+				moderation: result.moderation,
+				changed:
+					previous !== undefined &&
+					(previous.consensus !== result.consensus ||
+						previous.rating !== result.rating),
+			});
+		}
+		return history;
+	}
+
+	/**
+	 * Rebuild a verification result from a stored record
+	 * Records without a readable consensus are skipped
+	 */
+	fromRecord(record: VerificationResultModel): StoredVerificationResult | null {
+		const stored = this.parseConsensus(record);
+		if (!stored) return null;
+
+		const {
+			otherAgents = [],
+			cached,
+			reverification,
+			moderation,
+			quarantine,
+			subclaims,
+			compound,
+			debate,
+			evidence,
+			citationChecks,
+			citationQuality,
+			asOf,
+			...lavaGatewayConsensus
+		} = stored;
+		const agents = [
+			...Object.values(AGENT_COLUMNS).map((column) =>
+				this.parseAgent(record[column]),
+			),
+			...otherAgents,
+		].filter((agent): agent is VerificationAgent => agent?.name != null);
+
+		// A moderator's verdict overrides the agents'
+		const reviewed = moderation
+			? this.reviewedOutcome(lavaGatewayConsensus.rating, moderation)
+			: undefined;
+		const verdict = reviewed?.verdict ?? lavaGatewayConsensus.verdict;
+		return {
+			isFalse: reviewed?.isFalse ?? record.is_false_statement,
+			rating: reviewed?.rating ?? lavaGatewayConsensus.rating,
+			consensus:
+				verdict === "true"
+					? "verified_true"
+					: verdict === "false"
+						? "verified_false"
+						: verdict === "insufficient_quorum"
+							? "insufficient_quorum"
+							: "inconclusive",
+			correctInformation: record.correct_information ?? undefined,
+			citations: agents.flatMap((a) => a.citations ?? []),
+			agents,
+			lavaGatewayConsensus,
+			cached,
+			moderation,
+			quarantine,
+			subclaims,
+			compound,
+			debate,
+			evidence,
+			citationChecks,
+			citationQuality,
+			asOf,
+		};
+	}
+
+	/**
+	 * Store a moderator's review with a verification result and apply its
+	 * verdict to the statement
+	 */
+	async saveModeration(
+		record: VerificationResultModel,
+		statement: DeclarativeStatementModel,
+		moderation: ModeratorReview,
+	): Promise<VerificationResultModel> {
+		const stored = this.parseConsensus(record);
+		if (!stored) {
+			throw new Error(`Verification result ${record.id} has no consensus`);
+		}
+
+		const reviewed = this.reviewedOutcome(stored.rating, moderation);
+		const updated: VerificationResultModel = {
+			...record,
+			is_false_statement: reviewed.isFalse,
+			lava_gateway_consensus: JSON.stringify({ ...stored, moderation }),
+		};
+		const [saved] =
+			await VerificationResultORM.getInstance().setVerificationResultById(
+				record.id,
+				updated,
+			);
+		await this.setStatus(statement, reviewed.status);
+		console.log(
+			`🧑‍⚖️ Moderator ${moderation.action} on verification result ${record.id}: ${moderation.verdict}`,
+		);
+		return saved ?? updated;
+	}
+
+	/**
+	 * A statement's records, oldest first
+	 */
+	private async getRecords(
+		declarativeStatementId: string,
+	): Promise<VerificationResultModel[]> {
+		try {
+			const records =
+				await VerificationResultORM.getInstance().getVerificationResultByDeclarativeStatementId(
+					declarativeStatementId,
+				);
+			return [...records].sort(
+				(a, b) => this.recordTime(a) - this.recordTime(b),
+			);
+		} catch (error) {
+			console.error("Failed to load verification results:", error);
+			return [];
+		}
+	}
+
+	private recordTime(record: VerificationResultModel): number {
+		return Number(record.create_time || record.update_time) * 1000;
+	}
+
+	private parseConsensus(
+		record: VerificationResultModel,
+	): StoredConsensus | null {
+		if (!record.lava_gateway_consensus) return null;
+		try {
+			const stored = JSON.parse(
+				record.lava_gateway_consensus,
+			) as StoredConsensus;
+			return stored?.verdict ? stored : null;
+		} catch {
+			return null;
+		}
+	}
+
+	private toRecord(
+		declarativeStatementId: string,
+		result: VerificationResult,
+		reverification?: ReverificationTrigger,
+	): Partial<VerificationResultModel> {
+		const record: Partial<VerificationResultModel> = {
+			declarative_statement_id: declarativeStatementId,
+			is_false_statement: result.isFalse,
+			correct_information: result.correctInformation ?? null,
+		};
+
+		const otherAgents: VerificationAgent[] = [];
+		for (const agent of result.agents) {
+			const providerId = AgentRegistry.getProviders().find(
+				(provider) => provider.name === agent.name,
+			)?.id;
+			const column = providerId ? AGENT_COLUMNS[providerId] : undefined;
+			if (column) {
+				record[column] = JSON.stringify(agent);
+			} else {
+				otherAgents.push(agent);
+			}
+		}
+
+		const consensus: StoredConsensus = {
+			...result.lavaGatewayConsensus,
+			otherAgents: otherAgents.length > 0 ? otherAgents : undefined,
+			cached: result.cached,
+			reverification,
+			quarantine: result.quarantine,
+			subclaims: result.subclaims,
+			compound: result.compound,
+			debate: result.debate,
+			evidence: result.evidence,
+			citationChecks: result.citationChecks,
+			citationQuality: result.citationQuality,
+			asOf: result.asOf,
+		};
+		record.lava_gateway_consensus = JSON.stringify(consensus);
+		return record;
+	}
+
+	private statusFor(
+		result: VerificationResult,
+	): DeclarativeStatementVerificationStatus {
+		if (result.quarantine) {
+			return DeclarativeStatementVerificationStatus.Inconclusive;
+		}
+		if (result.rating) {
+			return RATING_STATUSES[result.rating];
+		}
+		switch (result.consensus) {
+			case "verified_true":
+				return DeclarativeStatementVerificationStatus.VerifiedTrue;
+			case "verified_false":
+				return DeclarativeStatementVerificationStatus.VerifiedFalse;
+			default:
+				return DeclarativeStatementVerificationStatus.Inconclusive;
+		}
+	}
+
+	/**
+	 * Verdict, rating, status and falseness after a moderator's review,
+	 * all read from the one review so they can't disagree
+	 * Confirming keeps the agents' rating, overturning rates the verdict
+	 * plainly, and asking for context leaves the claim neither true nor
+	 * false, rated as missing context
+	 */
+	private reviewedOutcome(
+		rating: VerdictRating | undefined,
+		moderation: ModeratorReview,
+	): {
+		verdict: AgentVerdict;
+		rating: VerdictRating;
+		status: DeclarativeStatementVerificationStatus;
+		isFalse: boolean;
+	} {
+		if (moderation.action === "needs_context") {
+			return {
+				verdict: "inconclusive",
+				rating: "missing_context",
+				status: DeclarativeStatementVerificationStatus.MissingContext,
+				isFalse: false,
+			};
+		}
+		const reviewed =
+			moderation.action === "confirm"
+				? (rating ?? ratingForVerdict(moderation.verdict))
+				: ratingForVerdict(moderation.verdict);
+		return {
+			verdict: moderation.verdict,
+			rating: reviewed,
+			status:
+				moderation.verdict === "inconclusive" && reviewed !== "missing_context"
+					? DeclarativeStatementVerificationStatus.Inconclusive
+					: RATING_STATUSES[reviewed],
+			isFalse: moderation.verdict === "false",
+		};
+	}
+
+	private async setStatus(
+		statement: DeclarativeStatementModel,
+		status: DeclarativeStatementVerificationStatus,
+	): Promise<DeclarativeStatementModel> {
+		const updated: DeclarativeStatementModel = {
+			...statement,
+			verification_status: status,
+		};
+		try {
+			await DeclarativeStatementORM.getInstance().setDeclarativeStatementById(
+				statement.id,
+				updated,
+			);
+		} catch (error) {
+			console.error(
+				`Failed to set status of statement ${statement.id}:`,
+				error,
+			);
+		}
+		return updated;
+	}
+
+	private parseAgent(value?: string | null): VerificationAgent | null {
+		if (!value) return null;
+		try {
+			const agent = JSON.parse(value) as VerificationAgent;
+			return agent?.name && agent.verdict ? agent : null;
+		} catch {
+			return null;
+		}
+	}
+}
+
+export default VerificationStoreService.getInstance();
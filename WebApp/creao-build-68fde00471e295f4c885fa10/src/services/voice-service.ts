@@ -1,4 +1,7 @@
-import { apiConfig } from "@/config/api-config";
+import { apiConfig, requestTimeouts } from "@/config/api-config";
+import { isAbortError, withTimeout } from "@/lib/abort";
+import DecontextualisationService from "@/services/decontextualisation";
+import HttpClient from "@/services/http-client";
 import SemanticService from "@/services/semantic-service";
 
 /**
@@ -21,6 +24,8 @@ export interface TranscriptionResult {
 	timestamp: string;
 	statementType: StatementType;
 	confidence: number;
+	/** The statement rewritten to stand on its own, when it relied on earlier ones */
+	standaloneText?: string;
 }
 
 export interface PermissionError extends Error {
@@ -63,6 +68,7 @@ export class VoiceService {
 	private audioLevelInterval: number | null = null;
 	private transcriptionHistory: string[] = [];
 	private currentSessionId: string | null = null;
+	private sessionAbort: AbortController | null = null;
 
 	private constructor() {}
 
@@ -160,6 +166,7 @@ export class VoiceService {
 		callback: (result: TranscriptionResult) => void,
 	): Promise<void> {
 		this.isListening = true;
+		this.sessionAbort = new AbortController();
 		this.onTranscriptionCallback = callback;
 		this.emitProcessingState(false, "idle");
 		this.transcriptionHistory = []; // Reset history for new session
@@ -206,35 +213,40 @@ export class VoiceService {
 						language: "en",
 					};
 
-		const response = await fetch(`${apiConfig.vapi.baseUrl}/v1/calls`, {
-			method: "POST",
-			headers: {
-				Authorization: `Bearer ${apiConfig.vapi.apiKey}`,
-				"Content-Type": "application/json",
-			},
-			body: JSON.stringify({
-				assistant: apiConfig.vapi.assistantId
-					? { id: apiConfig.vapi.assistantId }
-					: {
-							model: {
-								provider: "openai",
-								model: "gpt-4",
-								messages: [
-									{
-										role: "system",
-										content:
-											"You are a transcription assistant. Transcribe speech accurately and identify speakers.",
-									},
-								],
-							},
-							voice: {
-								provider: "11labs",
-								voiceId: "premade-voice-1",
+		const response = await HttpClient.fetch(
+			`${apiConfig.vapi.baseUrl}/v1/calls`,
+			{
+				method: "POST",
+				signal: withTimeout(requestTimeouts.vapi, this.sessionAbort?.signal),
+				headers: {
+					Authorization: `Bearer ${apiConfig.vapi.apiKey}`,
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({
+					assistant: apiConfig.vapi.assistantId
+						? { id: apiConfig.vapi.assistantId }
+						: {
+								model: {
+									provider: "openai",
+									model: "gpt-4",
+									messages: [
+										{
+											role: "system",
+											content:
+												"You are a transcription assistant. Transcribe speech accurately and identify speakers.",
+										},
+									],
+								},
+								voice: {
+									provider: "11labs",
+									voiceId: "premade-voice-1",
+								},
 							},
-						},
-				transcriber: transcriberConfig,
-			}),
-		});
+					transcriber: transcriberConfig,
+				}),
+			},
+			{ provider: "vapi", apiKey: apiConfig.vapi.apiKey },
+		);
 
 		if (!response.ok) {
 			throw new Error(`Vapi API error: ${response.statusText}`);
@@ -266,7 +278,10 @@ export class VoiceService {
 
 			// Handle transcription events
 			if (data.type === "transcript" && data.transcript) {
-				this.handleTranscription(data.transcript, data.speaker || "user-1");
+				this.handleTranscription(
+					data.transcript,
+					data.speaker || "user-1",
+				).catch((error) => this.reportTranscriptionError(error));
 			}
 		};
 
@@ -460,15 +475,17 @@ export class VoiceService {
 			// Add temperature 0 for more accurate, deterministic transcription
 			formData.append("temperature", "0");
 
-			const response = await fetch(
+			const response = await HttpClient.fetch(
 				`${apiConfig.groq.baseUrl}/audio/transcriptions`,
 				{
 					method: "POST",
+					signal: withTimeout(requestTimeouts.groq, this.sessionAbort?.signal),
 					headers: {
 						Authorization: `Bearer ${apiConfig.groq.apiKey}`,
 					},
 					body: formData,
 				},
+				{ provider: "groq", apiKey: apiConfig.groq.apiKey },
 			);
 
 			if (!response.ok) {
@@ -490,17 +507,28 @@ export class VoiceService {
 					"🎤 [TRANSCRIPTION] Raw text from Groq Whisper:",
 					transcribedText,
 				);
-				this.handleTranscription(transcribedText, "user-1");
+				this.handleTranscription(transcribedText, "user-1").catch((error) =>
+					this.reportTranscriptionError(error),
+				);
 			} else {
 				console.log(
 					"⏭️ [TRANSCRIPTION] Skipped - no text detected (silence or empty)",
 				);
 			}
 		} catch (error) {
+			if (this.sessionAbort?.signal.aborted ?? true) return;
 			console.error("Groq Whisper transcription error:", error);
 		}
 	}
 
+	/**
+	 * Log transcription failures, ignoring work cancelled by stopListening
+	 */
+	private reportTranscriptionError(error: unknown): void {
+		if (isAbortError(error) && !this.isListening) return;
+		console.error("Transcription processing error:", error);
+	}
+
 	/**
 	 * Process transcription and classify statement type using AI
 	 */
@@ -508,16 +536,21 @@ export class VoiceService {
 		text: string,
 		speakerId: string,
 	): Promise<void> {
+		// Abandon in-flight analysis when the session stops
+		const signal = this.sessionAbort?.signal;
+
 		// Use semantic analysis to improve transcription accuracy
 		const semanticResult = await SemanticService.analyzeTranscription(
 			text,
 			this.transcriptionHistory.slice(-5), // Use last 5 transcriptions for context
+			signal,
 		);
 
 		// Split compound statements into individual statements for better verification
 		const statements = await SemanticService.splitStatements(
 			semanticResult.improvedText,
 			this.transcriptionHistory.slice(-5),
+			signal,
 		);
 
 		console.log(
@@ -534,7 +567,9 @@ export class VoiceService {
 			const classification = await SemanticService.classifyStatementWithClaude(
 				statement,
 				this.transcriptionHistory.slice(-5),
+				signal,
 			);
+			signal?.throwIfAborted();
 
 			console.log(
 				`📊 Statement classification: "${statement}" -> ${classification.isDeclarative ? "✅ DECLARATIVE" : "❌ NON-DECLARATIVE"} (${Math.round(classification.confidence * 100)}% confidence)`,
@@ -549,11 +584,15 @@ export class VoiceService {
 
 			// Store in ChromaDB for future context
 			if (this.currentSessionId) {
-				await SemanticService.storeTranscription(statement, {
-					timestamp: new Date().toISOString(),
-					speaker_id: speakerId,
-					session_id: this.currentSessionId,
-				});
+				await SemanticService.storeTranscription(
+					statement,
+					{
+						timestamp: new Date().toISOString(),
+						speaker_id: speakerId,
+						session_id: this.currentSessionId,
+					},
+					signal,
+				);
 			}
 
 			// Use Claude's classification, but keep basic fallback as backup
@@ -561,6 +600,21 @@ export class VoiceService {
 				? "declarative"
 				: this.classifyStatementType(statement);
 
+			// Resolve "he" or "that city" from earlier statements so the claim can be checked alone
+			const sessionId = this.currentSessionId ?? undefined;
+			const claim =
+				statementType === "declarative"
+					? await DecontextualisationService.decontextualise(
+							statement,
+							sessionId,
+							signal,
+						)
+					: null;
+			DecontextualisationService.observe(
+				claim?.standalone ?? statement,
+				sessionId,
+			);
+
 			const result: TranscriptionResult = {
 				text: statement, // Use split and semantically improved text
 				speaker_id: speakerId,
@@ -571,6 +625,9 @@ export class VoiceService {
 					classification.confidence,
 				),
 			};
+			if (claim && claim.standalone !== statement) {
+				result.standaloneText = claim.standalone;
+			}
 
 			// ALWAYS process callback - this enables continuous input
 			console.log(
@@ -585,6 +642,8 @@ export class VoiceService {
 	 */
 	async stopListening(): Promise<void> {
 		this.isListening = false;
+		this.sessionAbort?.abort();
+		this.sessionAbort = null;
 		this.onTranscriptionCallback = undefined;
 		this.onAudioLevelCallback = undefined;
 		this.onProcessingStateCallback = undefined;
@@ -611,14 +670,16 @@ export class VoiceService {
 		// Clean up Vapi session
 		if (this.vapiCall && apiConfig.vapi.apiKey) {
 			try {
-				await fetch(
+				await HttpClient.fetch(
 					`${apiConfig.vapi.baseUrl}/v1/calls/${this.vapiCall.id}/end`,
 					{
 						method: "POST",
+						signal: withTimeout(requestTimeouts.vapi),
 						headers: {
 							Authorization: `Bearer ${apiConfig.vapi.apiKey}`,
 						},
 					},
+					{ provider: "vapi", apiKey: apiConfig.vapi.apiKey },
 				);
 			} catch (error) {
 				console.error("Failed to end Vapi call:", error);
@@ -746,22 +807,27 @@ export class VoiceService {
 	 * Speak using FishAudio API
 	 */
 	private async speakWithFishAudio(text: string): Promise<void> {
-		const response = await fetch(`${apiConfig.fishAudio.baseUrl}/v1/tts`, {
-			method: "POST",
-			headers: {
-				Authorization: `Bearer ${apiConfig.fishAudio.apiKey}`,
-				"Content-Type": "application/json",
+		const response = await HttpClient.fetch(
+			`${apiConfig.fishAudio.baseUrl}/v1/tts`,
+			{
+				method: "POST",
+				signal: withTimeout(requestTimeouts.fishAudio),
+				headers: {
+					Authorization: `Bearer ${apiConfig.fishAudio.apiKey}`,
+					"Content-Type": "application/json",
+				},
+				body: JSON.stringify({
+					text,
+					voice: "default",
+					format: "mp3",
+					speed: 1.1, // Slightly faster for more natural corrections
+					pitch: 0, // Normal pitch
+					emotion: "serious", // Serious tone for fact corrections
+					sample_rate: 24000, // Higher quality audio
+				}),
 			},
-			body: JSON.stringify({
-				text,
-				voice: "default",
-				format: "mp3",
-				speed: 1.1, // Slightly faster for more natural corrections
-				pitch: 0, // Normal pitch
-				emotion: "serious", // Serious tone for fact corrections
-				sample_rate: 24000, // Higher quality audio
-			}),
-		});
+			{ provider: "fishAudio", apiKey: apiConfig.fishAudio.apiKey },
+		);
 
 		if (!response.ok) {
 			throw new Error(`FishAudio API error: ${response.statusText}`);
@@ -777,10 +843,11 @@ export class VoiceService {
 	private async speakWithElevenLabs(text: string): Promise<void> {
 		const voiceId = apiConfig.elevenLabs.voiceId || "21m00Tcm4TlvDq8ikWAM"; // Default voice
 
-		const response = await fetch(
+		const response = await HttpClient.fetch(
 			`${apiConfig.elevenLabs.baseUrl}/v1/text-to-speech/${voiceId}`,
 			{
 				method: "POST",
+				signal: withTimeout(requestTimeouts.elevenLabs),
 				headers: {
 					"xi-api-key": apiConfig.elevenLabs.apiKey,
 					"Content-Type": "application/json",
@@ -794,6 +861,7 @@ export class VoiceService {
 					},
 				}),
 			},
+			{ provider: "elevenLabs", apiKey: apiConfig.elevenLabs.apiKey },
 		);
 
 		if (!response.ok) {